@@ -222,6 +222,12 @@ describe("ArrayList", () => {
         expect(result).toStrictEqual(new ArrayList([1, 3]));
     });
 
+    test('removeAll and retainAll match structurally equal elements', () => {
+        const nested = new ArrayList([new ArrayList([1]), new ArrayList([2])]);
+        expect(nested.removeAll([new ArrayList([1])]).toArray().map(list => list.toArray())).toEqual([[2]]);
+        expect(nested.retainAll([new ArrayList([1])]).toArray().map(list => list.toArray())).toEqual([[1]]);
+    });
+
     test('reversed', () => {
         const result = arr.reversed();
         expect(result).toStrictEqual(new ArrayList([3, 2, 1]));
@@ -434,3 +440,20 @@ describe("ArrayList", () => {
     });
 });
 
+
+describe('ArrayList equality of elements', () => {
+    test('has(), indexOf() and lastIndexOf() compare elements by value', () => {
+        const list = new ArrayList<unknown>([[1, 2], { a: 1 }, [1, 2]]);
+        expect(list.has({ a: 1 })).toBe(true);
+        expect(list.indexOf([1, 2])).toBe(0);
+        expect(list.lastIndexOf([1, 2])).toBe(2);
+    });
+
+    test('lists of equal collections are equal and have the same hash code', () => {
+        const a = new ArrayList([new ArrayList([1, 2]), new ArrayList([3])]);
+        const b = new ArrayList([new ArrayList([1, 2]), new ArrayList([3])]);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(new LinkedList([[1], [2]]).equals(new LinkedList([[1], [2]]))).toBe(true);
+    });
+});
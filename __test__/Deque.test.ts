@@ -0,0 +1,201 @@
+import Deque from '../src/Queues/Deque';
+import Vector from '../src/Arrays/Vector';
+
+const range = (n: number, from = 0) => Array.from({ length: n }, (_, i) => from + i);
+
+describe('Deque', () => {
+    test('empty() and of()', () => {
+        expect(Deque.empty<number>().isEmpty()).toBe(true);
+        expect(Deque.empty<number>().size()).toBe(0);
+        const deque = Deque.of(1, 2, 3);
+        expect(deque.size()).toBe(3);
+        expect(deque.toArray()).toEqual([1, 2, 3]);
+        expect(deque.of(4, 5).toArray()).toEqual([4, 5]);
+    });
+
+    test('addFirst() and addLast()', () => {
+        let deque = Deque.empty<number>();
+        for (let i = 0; i < 100; i++) {
+            deque = i % 2 === 0 ? deque.addLast(i) : deque.addFirst(i);
+        }
+        const expected = [...range(50).map(i => 99 - 2 * i), ...range(50).map(i => 2 * i)];
+        expect(deque.toArray()).toEqual(expected);
+        expect(deque.getFirst()).toBe(99);
+        expect(deque.getLast()).toBe(98);
+    });
+
+    test('removeFirst() and removeLast()', () => {
+        let deque = Deque.of(...range(200));
+        const expected = range(200);
+        for (let i = 0; i < 150; i++) {
+            if (i % 3 === 0) {
+                deque = deque.removeLast();
+                expected.pop();
+            } else {
+                deque = deque.removeFirst();
+                expected.shift();
+            }
+            expect(deque.getFirst()).toBe(expected[0]);
+            expect(deque.getLast()).toBe(expected[expected.length - 1]);
+        }
+        expect(deque.toArray()).toEqual(expected);
+        expect(() => Deque.empty().removeFirst()).toThrow(RangeError);
+        expect(() => Deque.empty().removeLast()).toThrow(RangeError);
+    });
+
+    test('is persistent', () => {
+        const base = Deque.of(1, 2, 3);
+        base.addFirst(0);
+        base.addLast(4);
+        base.removeFirst();
+        base.set(1, 20);
+        expect(base.toArray()).toEqual([1, 2, 3]);
+    });
+
+    test('get() and set()', () => {
+        let deque = Deque.of(...range(1000));
+        for (let i = 0; i < 1000; i += 7) {
+            expect(deque.get(i)).toBe(i);
+            deque = deque.set(i, -i);
+        }
+        expect(deque.get(7)).toBe(-7);
+        expect(deque.get(8)).toBe(8);
+        expect(deque.get(-1)).toBeUndefined();
+        expect(deque.get(1000)).toBeUndefined();
+        expect(deque[14]).toBe(-14);
+        expect(() => deque.set(1001, 0)).toThrow(RangeError);
+    });
+
+    test('handles long queues without deep recursion', () => {
+        let deque = Deque.empty<number>();
+        for (let i = 0; i < 50000; i++) deque = deque.offer(i);
+        expect(deque.size()).toBe(50000);
+        let sum = 0;
+        for (let i = 0; i < 50000; i++) {
+            const { value, newQueue } = deque.poll();
+            sum += value!;
+            deque = newQueue;
+        }
+        expect(sum).toBe(1249975000);
+        expect(deque.isEmpty()).toBe(true);
+    });
+});
+
+describe('Deque Queue interface', () => {
+    test('offer(), peek(), element() and poll()', () => {
+        const deque = Deque.empty<string>().offer('a').offer('b');
+        expect(deque.peek()).toBe('a');
+        expect(deque.element()).toBe('a');
+        const { value, newQueue } = deque.poll();
+        expect(value).toBe('a');
+        expect(newQueue.toArray()).toEqual(['b']);
+    });
+
+    test('peek(), element() and poll() on an empty deque', () => {
+        const deque = Deque.empty<string>();
+        expect(deque.peek()).toBeUndefined();
+        expect(() => deque.element()).toThrow(Error);
+        const { value, newQueue } = deque.poll();
+        expect(value).toBeUndefined();
+        expect(newQueue.isEmpty()).toBe(true);
+    });
+
+    test('remove() without an index removes the head', () => {
+        expect(Deque.of(1, 2, 3).remove().toArray()).toEqual([2, 3]);
+        expect(() => Deque.empty().remove()).toThrow(RangeError);
+    });
+});
+
+describe('Deque indexed operations', () => {
+    test('add(index, item) and remove(index)', () => {
+        let deque = Deque.of(...range(500));
+        const expected = range(500);
+        for (let i = 0; i < 100; i++) {
+            const index = (i * 131) % (expected.length + 1);
+            deque = deque.add(index, -i);
+            expected.splice(index, 0, -i);
+            const removeAt = (i * 71) % expected.length;
+            deque = deque.remove(removeAt);
+            expected.splice(removeAt, 1);
+        }
+        expect(deque.size()).toBe(expected.length);
+        expect(deque.toArray()).toEqual(expected);
+        expect(() => deque.remove(deque.size())).toThrow(RangeError);
+    });
+
+    test('addAll() at an index', () => {
+        const deque = Deque.of(1, 2, 3).addAll([10, 11], 1);
+        expect(deque.toArray()).toEqual([1, 10, 11, 2, 3]);
+        expect(Deque.of(1).addAll([2, 3]).toArray()).toEqual([1, 2, 3]);
+    });
+
+    test('slice()', () => {
+        const deque = Deque.of(...range(1000));
+        expect(deque.slice(100, 900).toArray()).toEqual(range(800, 100));
+        expect(deque.slice(-10).toArray()).toEqual(range(10, 990));
+        expect(deque.slice(5, 5).isEmpty()).toBe(true);
+        expect(deque.slice(0, 1000)).toBe(deque);
+        expect(() => deque.slice(10, 5)).toThrow(RangeError);
+    });
+
+    test('splice()', () => {
+        const deque = Deque.of(...range(100));
+        const expected = range(100);
+        expected.splice(40, 20, -1, -2, -3);
+        expect(deque.splice(40, 20, -1, -2, -3).toArray()).toEqual(expected);
+        expect(deque.splice(90).toArray()).toEqual(range(90));
+        expect(deque.splice(-5, 2).size()).toBe(98);
+    });
+
+    test('shift() and unshift()', () => {
+        const deque = Deque.of(3, 4).unshift(1, 2);
+        expect(deque.toArray()).toEqual([1, 2, 3, 4]);
+        expect(deque.shift().toArray()).toEqual([2, 3, 4]);
+        expect(deque.pop().toArray()).toEqual([1, 2, 3]);
+    });
+});
+
+describe('Deque HOFs', () => {
+    test('concat() of deques, collections and values', () => {
+        const left = Deque.of(...range(300));
+        const right = Deque.of(...range(500, 300));
+        const joined = left.concat(right, Vector.of(800, 801), 802);
+        expect(joined).toBeInstanceOf(Deque);
+        expect(joined.toArray()).toEqual(range(803));
+        expect(joined.get(450)).toBe(450);
+        expect(left.size()).toBe(300);
+    });
+
+    test('map(), filter() and flatMap() return deques', () => {
+        const deque = Deque.of(1, 2, 3, 4);
+        const mapped = deque.map(x => x * 2);
+        expect(mapped).toBeInstanceOf(Deque);
+        expect(mapped.toArray()).toEqual([2, 4, 6, 8]);
+        expect(deque.filter(x => x % 2 === 0).toArray()).toEqual([2, 4]);
+        expect(deque.flatMap(x => [x, x]).size()).toBe(8);
+    });
+
+    test('reduce(), reversed(), sort() and distinct()', () => {
+        const deque = Deque.of(3, 1, 2, 3);
+        expect(deque.reduce((acc, x) => acc + x, 0)).toBe(9);
+        expect(deque.reversed().toArray()).toEqual([3, 2, 1, 3]);
+        expect(deque.sort((a, b) => a - b).toArray()).toEqual([1, 2, 3, 3]);
+        expect(deque.distinct().toArray()).toEqual([3, 1, 2]);
+    });
+
+    test('removeAll(), retainAll() and removeItem() compare by value', () => {
+        const deque = Deque.of<unknown>([1], [2], 3, [1]);
+        expect(deque.removeAll([[1]]).toArray()).toEqual([[2], 3]);
+        expect(deque.retainAll([3]).toArray()).toEqual([3]);
+        expect(deque.removeItem([1]).toArray()).toEqual([[2], 3, [1]]);
+    });
+
+    test('equals() and hashCode()', () => {
+        const a = Deque.of(1, 2, 3);
+        const b = Deque.of(2, 3).addFirst(1);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.equals(Deque.of(1, 2))).toBe(false);
+        expect(a.equals(Vector.of(1, 2, 3))).toBe(false);
+    });
+});
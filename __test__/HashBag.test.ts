@@ -0,0 +1,122 @@
+import HashBag from '../src/Bags/HashBag';
+import TreeBag from '../src/Bags/TreeBag';
+import HashCode from '../src/Hashing/HashCode';
+
+describe('HashBag', () => {
+    test('empty() and of()', () => {
+        expect(HashBag.empty<string>().isEmpty()).toBe(true);
+        const bag = HashBag.of('a', 'b', 'a', 'c', 'a');
+        expect(bag.size()).toBe(5);
+        expect(bag.distinctSize()).toBe(3);
+        expect(bag.count('a')).toBe(3);
+        expect(bag.count('z')).toBe(0);
+        expect(bag.has('b')).toBe(true);
+        expect(bag.uniqueItems().sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    test('add() and remove() with a number of occurrences', () => {
+        let bag = HashBag.empty<string>().add('x', 3).add('y');
+        expect(bag.count('x')).toBe(3);
+        expect(bag.size()).toBe(4);
+        bag = bag.remove('x', 2);
+        expect(bag.count('x')).toBe(1);
+        bag = bag.remove('x', 5);
+        expect(bag.has('x')).toBe(false);
+        expect(bag.size()).toBe(1);
+        expect(bag.remove('missing')).toBe(bag);
+        expect(() => bag.add('x', -1)).toThrow(RangeError);
+        expect(() => bag.remove('x', 1.5)).toThrow(RangeError);
+    });
+
+    test('setCount()', () => {
+        const bag = HashBag.of(1, 1, 2).setCount(1, 5).setCount(2, 0);
+        expect(bag.itemCounts()).toEqual([[1, 5]]);
+        expect(bag.size()).toBe(5);
+    });
+
+    test('iterates every occurrence', () => {
+        const bag = HashBag.of('a', 'b', 'a');
+        expect([...bag].sort()).toEqual(['a', 'a', 'b']);
+        expect(bag.toArray().length).toBe(3);
+    });
+
+    test('is persistent', () => {
+        const base = HashBag.of(1, 2, 2);
+        base.add(2, 10);
+        base.remove(1);
+        base.setCount(3, 3);
+        expect(base.size()).toBe(3);
+        expect(base.count(2)).toBe(2);
+    });
+
+    test('counts keys by value', () => {
+        const bag = HashBag.of<unknown>([1, 2], [1, 2], { a: 1 }).add({ a: 1 });
+        expect(bag.count([1, 2])).toBe(2);
+        expect(bag.count({ a: 1 })).toBe(2);
+        expect(bag.distinctSize()).toBe(2);
+    });
+
+    test('withComparer()', () => {
+        const bag = HashBag.withComparer<string>({
+            hash: s => HashCode.hashCode(s.toLowerCase()),
+            equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        }).addAll(['Tea', 'TEA', 'tea', 'Coffee']);
+        expect(bag.count('tea')).toBe(3);
+        expect(bag.distinctSize()).toBe(2);
+        expect(bag.empty().add('A').has('a')).toBe(true);
+    });
+});
+
+describe('HashBag counting', () => {
+    test('mostCommon()', () => {
+        const words = 'the cat and the dog and the bird'.split(' ');
+        const bag = HashBag.of(...words);
+        expect(bag.mostCommon(2)).toEqual([['the', 3], ['and', 2]]);
+        expect(bag.mostCommon().length).toBe(5);
+        expect(bag.mostCommon(0)).toEqual([]);
+    });
+
+    test('union(), intersect(), sum() and difference()', () => {
+        const a = HashBag.of('x', 'x', 'x', 'y');
+        const b = HashBag.of('x', 'y', 'y', 'z');
+        const counts = (bag: HashBag<string>) => new Map(bag.itemCounts());
+        expect(counts(a.union(b))).toEqual(new Map([['x', 3], ['y', 2], ['z', 1]]));
+        expect(counts(a.intersect(b))).toEqual(new Map([['x', 1], ['y', 1]]));
+        expect(counts(a.sum(b))).toEqual(new Map([['x', 4], ['y', 3], ['z', 1]]));
+        expect(counts(a.difference(b))).toEqual(new Map([['x', 2]]));
+        expect(a.sum(b).size()).toBe(8);
+        expect(a.difference(b).size()).toBe(2);
+    });
+
+    test('set operations accept any bag', () => {
+        const bag = HashBag.of(1, 2, 2).sum(TreeBag.of<number>((a, b) => a - b, 2, 3));
+        expect(bag.count(2)).toBe(3);
+        expect(bag.count(3)).toBe(1);
+    });
+
+    test('removeItem(), removeAll(), retainAll() and distinct()', () => {
+        const bag = HashBag.of(1, 1, 2, 2, 3);
+        expect(bag.removeItem(1).count(1)).toBe(1);
+        expect(bag.removeAll([1, 3]).toArray()).toEqual([2, 2]);
+        expect(bag.retainAll([1]).toArray()).toEqual([1, 1]);
+        expect(bag.distinct().size()).toBe(3);
+    });
+
+    test('equals() and hashCode() ignore the insertion order', () => {
+        const a = HashBag.of('a', 'b', 'a');
+        const b = HashBag.of('b', 'a', 'a');
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.equals(HashBag.of('a', 'b'))).toBe(false);
+        expect(a.equals(TreeBag.of<string>(TreeBag.defaultComparator, 'a', 'a', 'b'))).toBe(false);
+    });
+
+    test('map() and filter()', () => {
+        const bag = HashBag.of(1, 2, 3, 4);
+        const parity = bag.map(x => x % 2);
+        expect(parity).toBeInstanceOf(HashBag);
+        expect(parity.count(0)).toBe(2);
+        expect(bag.filter(x => x > 2).size()).toBe(2);
+        expect(HashBag.of('a', 'a').toString()).toBe('{a: 2}');
+    });
+});
@@ -0,0 +1,96 @@
+import HashBiMap from '../src/Maps/HashBiMap';
+import HashMap from '../src/Maps/HashMap';
+
+describe('HashBiMap', () => {
+    test('get() and getKey()', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200], ['not found', 404]);
+        expect(codes.size()).toBe(2);
+        expect(codes.get('ok')).toBe(200);
+        expect(codes.getKey(404)).toBe('not found');
+        expect(codes.getKey(500)).toBeUndefined();
+        expect(codes.hasValue(200)).toBe(true);
+        expect(codes.hasValue(500)).toBe(false);
+    });
+
+    test('put() replaces the value of a key', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200]).put('ok', 201);
+        expect(codes.get('ok')).toBe(201);
+        expect(codes.hasValue(200)).toBe(false);
+        expect(codes.getKey(201)).toBe('ok');
+        expect(codes.size()).toBe(1);
+    });
+
+    test('put() and set() reject a value bound to another key', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200]);
+        expect(() => codes.put('fine', 200)).toThrow(Error);
+        expect(() => codes.set('fine', 200)).toThrow(Error);
+        expect(() => HashBiMap.of<string, number>(['a', 1], ['b', 1])).toThrow(Error);
+        expect(codes.put('ok', 200)).toBe(codes);
+    });
+
+    test('forcePut() removes the key that held the value', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200], ['created', 201]);
+        const forced = codes.forcePut('fine', 200);
+        expect(forced.has('ok')).toBe(false);
+        expect(forced.get('fine')).toBe(200);
+        expect(forced.getKey(200)).toBe('fine');
+        expect(forced.size()).toBe(2);
+
+        const swapped = codes.forcePut('ok', 201);
+        expect(swapped.entries()).toEqual([['ok', 201]]);
+        expect(swapped.inverse().entries()).toEqual([[201, 'ok']]);
+        expect(codes.size()).toBe(2);
+    });
+
+    test('inverse() is a cached view', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200], ['not found', 404]);
+        const inverse = codes.inverse();
+        expect(inverse.get(200)).toBe('ok');
+        expect(inverse.getKey('not found')).toBe(404);
+        expect(codes.inverse()).toBe(inverse);
+        expect(inverse.inverse()).toBe(codes);
+        expect(codes.flip()).toBe(inverse);
+        expect(inverse.put(500, 'error').getKey('error')).toBe(500);
+    });
+
+    test('delete() and deleteValue()', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200], ['not found', 404]);
+        const deleted = codes.delete('ok');
+        expect(deleted.has('ok')).toBe(false);
+        expect(deleted.hasValue(200)).toBe(false);
+        expect(deleted.put('fine', 200).get('fine')).toBe(200);
+        expect(codes.deleteValue(404).keys()).toEqual(['ok']);
+        expect(codes.delete('missing')).toBe(codes);
+        expect(codes.deleteValue(500)).toBe(codes);
+        expect(codes.clear().isEmpty()).toBe(true);
+    });
+
+    test('HOFs return plain maps', () => {
+        const codes = HashBiMap.of<string, number>(['ok', 200], ['created', 201]);
+        const classes = codes.map(code => Math.floor(code / 100));
+        expect(classes).toBeInstanceOf(HashMap);
+        expect(classes.get('ok')).toBe(2);
+        expect(classes.get('created')).toBe(2);
+    });
+
+    test('equals() and hashCode()', () => {
+        const a = HashBiMap.of<string, number>(['a', 1], ['b', 2]);
+        const b = HashBiMap.of<string, number>(['b', 2], ['a', 1]);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.equals(b.put('c', 3))).toBe(false);
+        expect(a.equals(HashMap.of<string, number>(['a', 1], ['b', 2]))).toBe(false);
+        expect(a.compareTo(b)).toBe(0);
+    });
+
+    test('comparers', () => {
+        const caseInsensitive = {
+            hash: (s: string) => s.toLowerCase().length,
+            equals: (x: string, y: string) => x.toLowerCase() === y.toLowerCase(),
+        };
+        const names = HashBiMap.empty<number, string>(undefined, caseInsensitive).put(1, 'Ada');
+        expect(names.getKey('ADA')).toBe(1);
+        expect(() => names.put(2, 'ada')).toThrow(Error);
+        expect(names.put(1, 'ADA').get(1)).toBe('Ada');
+    });
+});
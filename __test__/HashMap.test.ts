@@ -1,5 +1,8 @@
 import HashCode from "../src/Hashing/HashCode";
 import HashMap, { ctpop } from "../src/Maps/HashMap";
+import HashSet from "../src/Sets/HashSet";
+import Vector from "../src/Arrays/Vector";
+import EqualityComparer from "../src/Interfaces/EqualityComparer";
 import { createRandomIntArray, shuffleArray } from "../src/Utils/Utils";
 
 /**
@@ -660,3 +663,354 @@ describe('Hash collision handling in HashMap (HashCollisionNode)', () => {
 });
 
 
+
+describe('HashMap transient (asTransient(), withMutations())', () => {
+    test('transient set() and delete() build the same map as the persistent methods', () => {
+        const arr = shuffleArray(Array.from({ length: 5_000 }, (_, i) => i));
+        const transient = HashMap.empty<number, string>().asTransient();
+        for (const k of arr) {
+            transient.set(k, k.toString());
+        }
+        for (let i = 0; i < 5_000; i += 3) {
+            transient.delete(i);
+        }
+        const map = transient.persistent();
+
+        let expected = HashMap.empty<number, string>();
+        for (const k of arr) {
+            expected = expected.set(k, k.toString());
+        }
+        for (let i = 0; i < 5_000; i += 3) {
+            expected = expected.delete(i);
+        }
+
+        expect(map.validateHamt()).toBe(true);
+        expect(map.size()).toBe(expected.size());
+        expect(map.equals(expected)).toBe(true);
+    });
+
+    test('the original map is never changed by the transient', () => {
+        const { map } = buildMap(1_000);
+        const nodesBefore = map.entriesNode();
+
+        const updated = map.withMutations(m => {
+            m.set(1, "UPDATED");
+            m.set(5_000, "5000");
+            m.delete(2);
+        });
+
+        expect(map.size()).toBe(1_000);
+        expect(map.get(1)).toBe("1");
+        expect(map.get(2)).toBe("2");
+        expect(map.has(5_000)).toBe(false);
+        expect(map.entriesNode()).toEqual(nodesBefore);
+        expect(map.validateHamt()).toBe(true);
+
+        expect(updated.size()).toBe(1_000);
+        expect(updated.get(1)).toBe("UPDATED");
+        expect(updated.has(2)).toBe(false);
+        expect(updated.get(5_000)).toBe("5000");
+        expect(updated.validateHamt()).toBe(true);
+    });
+
+    test('a frozen map is not changed by a second transient', () => {
+        const first = HashMap.empty<number, number>().withMutations(m => {
+            for (let i = 0; i < 100; i++) m.set(i, i);
+        });
+        const second = first.withMutations(m => {
+            for (let i = 0; i < 100; i++) m.set(i, i * 2);
+        });
+        for (let i = 0; i < 100; i++) {
+            expect(first.get(i)).toBe(i);
+            expect(second.get(i)).toBe(i * 2);
+        }
+    });
+
+    test('transient get(), has() and size() see the pending changes', () => {
+        const transient = HashMap.of<string, number>(["a", 1]).asTransient();
+        transient.set("b", 2).set("a", 3);
+        expect(transient.size()).toBe(2);
+        expect(transient.get("a")).toBe(3);
+        expect(transient.has("b")).toBe(true);
+        transient.delete("a").delete("missing");
+        expect(transient.size()).toBe(1);
+        expect(transient.has("a")).toBe(false);
+    });
+
+    test('transient throws when used after persistent()', () => {
+        const transient = HashMap.empty<number, number>().asTransient();
+        transient.set(1, 1);
+        transient.persistent();
+        expect(() => transient.set(2, 2)).toThrow(Error);
+        expect(() => transient.get(1)).toThrow(Error);
+        expect(() => transient.persistent()).toThrow(Error);
+    });
+
+    test('withMutations() returns the same instance when nothing changed', () => {
+        const { map } = buildMap(100);
+        expect(map.withMutations(m => m.set(1, "1").delete(1_000))).toBe(map);
+    });
+
+    test('transient handles hash collisions', () => {
+        const map = HashMap.empty<string, number>().withMutations(m => {
+            m.set('aa', 1).set('bA', 2).set('c', 3);
+        });
+        expect(map.size()).toBe(3);
+        expect(map.get('aa')).toBe(1);
+        expect(map.get('bA')).toBe(2);
+        expect(map.validateHamt()).toBe(true);
+
+        const removed = map.withMutations(m => m.delete('aa'));
+        expect(removed.size()).toBe(2);
+        expect(removed.has('aa')).toBe(false);
+        expect(removed.get('bA')).toBe(2);
+        expect(map.get('aa')).toBe(1);
+    });
+
+    test('deleteAll() removes every key from a large map', () => {
+        const { arr, map } = buildMap(3_000);
+        const emptied = map.deleteAll(arr);
+        expect(emptied.size()).toBe(0);
+        expect(emptied.isEmpty()).toBe(true);
+        expect(map.size()).toBe(3_000);
+    });
+});
+
+describe('HashMap structural union(), intersect() and subtract()', () => {
+    const build = (keys: Iterable<string | number>, tag: string) =>
+        HashMap.empty<string | number, string>().withMutations(m => {
+            for (const k of keys) m.set(k, `${tag}${k}`);
+        });
+    const keysA = Array.from({ length: 2_000 }, (_, i) => i % 2 === 0 ? i : `k${i}`);
+    const keysB = Array.from({ length: 1_500 }, (_, i) => (i * 3) % 2 === 0 ? i * 3 : `k${i * 3}`);
+    const a = build(keysA, "a");
+    const b = build(keysB, "b");
+
+    test('union() has the same entries as setting every entry of the other map', () => {
+        const result = a.union(b);
+        let expected = a;
+        for (const [k, v] of b) expected = expected.set(k, v);
+        expect(result.validateHamt()).toBe(true);
+        expect(result.size()).toBe(expected.size());
+        expect(result.equals(expected)).toBe(true);
+        expect(result.get(6)).toBe("b6");
+        expect(result.get(2)).toBe("a2");
+    });
+
+    test('union() resolves conflicts with the callback', () => {
+        const result = a.union(b, (oldVal, newVal, key) => `${oldVal}+${newVal}@${key}`);
+        expect(result.get(6)).toBe("a6+b6@6");
+        expect(result.get("k9")).toBe("ak9+bk9@k9");
+        expect(result.get(3)).toBeUndefined();
+        expect(result.get("k2001")).toBe("bk2001");
+        expect(result.validateHamt()).toBe(true);
+    });
+
+    test('intersect() and subtract() match a filter', () => {
+        const inB = (k: string | number) => b.has(k);
+        const inter = a.intersect(b);
+        const diff = a.subtract(b);
+        expect(inter.validateHamt()).toBe(true);
+        expect(diff.validateHamt()).toBe(true);
+        expect(inter.equals(a.filter((_, k) => inB(k)))).toBe(true);
+        expect(diff.equals(a.filter((_, k) => !inB(k)))).toBe(true);
+        expect(inter.size() + diff.size()).toBe(a.size());
+        expect(inter.get(6)).toBe("a6");
+    });
+
+    test('shared nodes are reused', () => {
+        expect(a.union(a)).toBe(a);
+        expect(a.intersect(a)).toBe(a);
+        expect(a.subtract(a).size()).toBe(0);
+        expect(a.union(HashMap.empty())).toBe(a);
+        expect(HashMap.empty<string | number, string>().union(a)).toBe(a);
+        expect(a.subtract(HashMap.empty())).toBe(a);
+
+        const edited = a.set(10_000, "new").set(2, "changed").delete(4);
+        const merged = a.union(edited);
+        expect(merged.size()).toBe(2_001);
+        expect(merged.get(2)).toBe("changed");
+        expect(merged.get(4)).toBe("a4");
+        const before = new Set(a.entriesNode());
+        const reused = merged.entriesNode().filter(n => before.has(n)).length;
+        expect(reused).toBeGreaterThanOrEqual(a.size() - 2);
+    });
+
+    test('mergeWith() resolves the keys of subtrees that both maps share', () => {
+        const m = HashMap.of<string, number>(["x", 1], ["y", 2]);
+        const merged = m.mergeWith((o, n) => o + n, m.set("z", 3));
+        expect(merged.get("x")).toBe(2);
+        expect(merged.get("y")).toBe(4);
+        expect(merged.get("z")).toBe(3);
+        expect(a.union(a, (oldVal, newVal) => oldVal + newVal).get(6)).toBe("a6a6");
+
+        const edited = a.set(10_000, "new");
+        const resolved = a.union(edited, (oldVal, newVal, key) => `${oldVal}|${newVal}@${key}`);
+        expect(resolved.validateHamt()).toBe(true);
+        expect(resolved.size()).toBe(a.size() + 1);
+        expect(resolved.get("k1")).toBe("ak1|ak1@k1");
+        expect(resolved.get(10_000)).toBe("new");
+    });
+
+    test('works with hash collisions', () => {
+        // 'aa' and 'bA' have the same hash code
+        expect(HashCode.hashCode('aa')).toBe(HashCode.hashCode('bA'));
+        const x = HashMap.of<string, number>(['aa', 1], ['c', 3]);
+        const y = HashMap.of<string, number>(['bA', 2], ['c', 4]);
+        const union = x.union(y);
+        expect(union.size()).toBe(3);
+        expect(union.get('aa')).toBe(1);
+        expect(union.get('bA')).toBe(2);
+        expect(union.get('c')).toBe(4);
+        expect(union.validateHamt()).toBe(true);
+        expect(union.intersect(x).keys().sort()).toEqual(['aa', 'c']);
+        expect(union.subtract(x).keys()).toEqual(['bA']);
+        expect(union.subtract(y).keys()).toEqual(['aa']);
+    });
+
+    test('merge() and mergeWith() with maps and plain collections', () => {
+        const merged = a.merge(b, [[3, "c3"]]);
+        expect(merged.get(6)).toBe("b6");
+        expect(merged.get(3)).toBe("c3");
+        expect(merged.validateHamt()).toBe(true);
+        const mergedWith = a.mergeWith((x, y) => x + y, b, [[6, "c"]]);
+        expect(mergedWith.get(6)).toBe("a6b6c");
+        expect(a.concat(b).equals(a.union(b))).toBe(true);
+    });
+});
+
+describe('HashMap diff()', () => {
+    const sortChanges = (changes: any[]) => changes.sort((x, y) => x.key < y.key ? -1 : x.key > y.key ? 1 : 0);
+
+    test('identical and empty maps have no changes', () => {
+        const { map } = buildMap(500);
+        expect([...map.diff(map)]).toEqual([]);
+        expect([...HashMap.of<number, string>().diff(HashMap.of<number, string>())]).toEqual([]);
+    });
+
+    test('reports added, removed and changed keys', () => {
+        const { map } = buildMap(2000);
+        const next = map.set(5, "five").delete(17).set(5000, "new").set(42, "42");
+        expect(sortChanges([...map.diff(next)])).toEqual([
+            { type: "changed", key: 5, oldValue: "5", newValue: "five" },
+            { type: "removed", key: 17, value: "17" },
+            { type: "added", key: 5000, value: "new" },
+        ]);
+        expect(sortChanges([...next.diff(map)])).toEqual([
+            { type: "changed", key: 5, oldValue: "five", newValue: "5" },
+            { type: "added", key: 17, value: "17" },
+            { type: "removed", key: 5000, value: "new" },
+        ]);
+    });
+
+    test('diff against an empty map lists every entry', () => {
+        const { map } = buildMap(100);
+        const changes = [...HashMap.of<number, string>().diff(map)];
+        expect(changes.length).toBe(100);
+        expect(changes.every(c => c.type === "added")).toBe(true);
+    });
+
+    test('works with hash collisions', () => {
+        const x = HashMap.of<string, number>(['aa', 1], ['c', 3]);
+        const y = x.set('bA', 2).set('aa', 0);
+        expect(sortChanges([...x.diff(y)])).toEqual([
+            { type: "changed", key: 'aa', oldValue: 1, newValue: 0 },
+            { type: "added", key: 'bA', value: 2 },
+        ]);
+        expect([...y.diff(y.delete('bA').set('aa', 1))]).toEqual([...y.diff(x)]);
+    });
+});
+
+describe('HashMap with a custom comparer', () => {
+    const caseInsensitive = {
+        hash: (key: string) => HashCode.hashCode(key.toLowerCase()),
+        equals: (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+    };
+
+    test('set(), get(), has() and delete() use the comparer', () => {
+        const map = HashMap.empty<string, number>(caseInsensitive).set("Key", 1).set("KEY", 2).set("other", 3);
+        expect(map.size()).toBe(2);
+        expect(map.get("key")).toBe(2);
+        expect(map.has("OTHER")).toBe(true);
+        expect(map.delete("oThEr").size()).toBe(1);
+        expect(map.validateHamt()).toBe(true);
+        expect(map.getComparer()).toBe(caseInsensitive);
+    });
+
+    test('identity comparer keeps structurally equal objects apart', () => {
+        let ids = 0;
+        const identity = new WeakMap<object, number>();
+        const byIdentity = {
+            hash: (key: object) => {
+                if (!identity.has(key)) identity.set(key, ids++);
+                return identity.get(key)!;
+            },
+            equals: (a: object, b: object) => a === b,
+        };
+        const a = {x: 1}, b = {x: 1};
+        const map = HashMap.empty<object, string>(byIdentity).set(a, "a").set(b, "b");
+        expect(map.size()).toBe(2);
+        expect(map.get(a)).toBe("a");
+        expect(map.get({x: 1})).toBeUndefined();
+    });
+
+    test('transients, map(), filter(), partition() and clear() keep the comparer', () => {
+        const map = HashMap.empty<string, number>(caseInsensitive).setAll([["a", 1], ["B", 2], ["c", 3]]);
+        expect(map.size()).toBe(3);
+        expect(map.map(v => v * 10).get("A")).toBe(10);
+        expect(map.filter(v => v > 1).has("b")).toBe(true);
+        const [odd, even] = map.partition(v => v % 2 === 1);
+        expect(odd.has("C")).toBe(true);
+        expect(even.has("b")).toBe(true);
+        expect(map.clear().set("X", 1).has("x")).toBe(true);
+        expect(map.withMutations(m => m.set("A", 5)).get("a")).toBe(5);
+    });
+
+    test('merge() and union() use the comparer of this map', () => {
+        const map = HashMap.empty<string, number>(caseInsensitive).set("a", 1);
+        const merged = map.merge(HashMap.of<string, number>(["A", 2], ["b", 3]), [["B", 4]]);
+        expect(merged.size()).toBe(2);
+        expect(merged.get("a")).toBe(2);
+        expect(merged.get("b")).toBe(4);
+        expect(merged.getComparer()).toBe(caseInsensitive);
+        expect(map.subtract(HashMap.of<string, number>(["A", 0])).size()).toBe(0);
+        expect([...map.diff(HashMap.of<string, number>(["A", 1]))]).toEqual([]);
+    });
+});
+
+describe('HashMap with value-object keys', () => {
+    class Point implements EqualityComparer<Point> {
+        constructor(readonly x: number, readonly y: number, readonly label: string = "") {}
+        equals(o: Object): boolean {
+            return o instanceof Point && o.x === this.x && o.y === this.y;
+        }
+        hashCode(): number {
+            return 31 * this.x + this.y;
+        }
+    }
+
+    test('keys that implement equals() and hashCode() are found by value', () => {
+        const map = HashMap.of<Point, string>([new Point(1, 2, "a"), "first"]);
+        expect(map.get(new Point(1, 2, "b"))).toBe("first");
+        expect(map.set(new Point(1, 2), "second").size()).toBe(1);
+        expect(map.has(new Point(2, 1))).toBe(false);
+    });
+
+    test('persistent collections can be used as keys', () => {
+        const vectorKeys = HashMap.of<Vector<number>, string>([Vector.of(1, 2, 3), "v"]);
+        expect(vectorKeys.get(Vector.of(1, 2).add(3))).toBe("v");
+
+        const setKeys = HashMap.of<HashSet<string>, number>([HashSet.of("a", "b"), 1]);
+        expect(setKeys.get(HashSet.of("b", "a"))).toBe(1);
+
+        const mapKeys = HashMap.of<HashMap<string, number>, number>([HashMap.of(["a", 1], ["b", 2]), 1]);
+        expect(mapKeys.has(HashMap.of(["b", 2], ["a", 1]))).toBe(true);
+    });
+
+    test('plain objects and arrays are hashed by their contents', () => {
+        const map = HashMap.of<object, number>([{a: 1, b: [Vector.of(1)]}, 1]);
+        expect(map.get({b: [Vector.of(1)], a: 1})).toBe(1);
+        expect(HashCode.hashCode({a: 1, b: 2})).toBe(HashCode.hashCode({b: 2, a: 1}));
+        expect(HashCode.hashCode([new Point(1, 2, "a")])).toBe(HashCode.hashCode([new Point(1, 2, "b")]));
+    });
+});
@@ -0,0 +1,76 @@
+import HashMultimap from '../src/Multimaps/HashMultimap';
+import HashSet from '../src/Sets/HashSet';
+
+describe('HashMultimap', () => {
+    test('put() and get()', () => {
+        const multimap = HashMultimap.of<string, number>(['a', 1], ['a', 2], ['b', 3], ['a', 1]);
+        expect(multimap.size()).toBe(3);
+        expect(multimap.keySize()).toBe(2);
+        expect(multimap.get('a')).toBeInstanceOf(HashSet);
+        expect(multimap.get('a').toArray().sort()).toEqual([1, 2]);
+        expect(multimap.get('missing').isEmpty()).toBe(true);
+        expect(multimap.hasEntry('a', 2)).toBe(true);
+        expect(multimap.hasEntry('b', 2)).toBe(false);
+    });
+
+    test('put() of an existing pair returns the same multimap', () => {
+        const multimap = HashMultimap.of<string, number>(['a', 1]);
+        expect(multimap.put('a', 1)).toBe(multimap);
+    });
+
+    test('putAll()', () => {
+        const multimap = HashMultimap.empty<string, number>().putAll('a', [1, 2, 2, 3]);
+        expect(multimap.size()).toBe(3);
+        expect(multimap.get('a').size()).toBe(3);
+    });
+
+    test('remove() drops empty buckets', () => {
+        let multimap = HashMultimap.of<string, number>(['a', 1], ['a', 2], ['b', 3]);
+        multimap = multimap.remove('a', 1);
+        expect(multimap.get('a').toArray()).toEqual([2]);
+        multimap = multimap.remove('a', 2);
+        expect(multimap.has('a')).toBe(false);
+        expect(multimap.keys()).toEqual(['b']);
+        expect(multimap.size()).toBe(1);
+        expect(multimap.remove('b', 4)).toBe(multimap);
+        expect(multimap.remove('z', 4)).toBe(multimap);
+    });
+
+    test('removeAll()', () => {
+        const multimap = HashMultimap.of<string, number>(['a', 1], ['a', 2], ['b', 3]).removeAll('a');
+        expect(multimap.entries()).toEqual([['b', 3]]);
+        expect(multimap.size()).toBe(1);
+        expect(multimap.removeAll('a')).toBe(multimap);
+    });
+
+    test('is persistent', () => {
+        const base = HashMultimap.of<string, number>(['a', 1]);
+        base.put('a', 2);
+        base.removeAll('a');
+        expect(base.get('a').toArray()).toEqual([1]);
+        expect(base.size()).toBe(1);
+    });
+
+    test('entries(), keyCounts() and inverse()', () => {
+        const multimap = HashMultimap.of<string, number>(['a', 1], ['a', 2], ['b', 1]);
+        expect(multimap.entries().length).toBe(3);
+        expect([...multimap].length).toBe(3);
+        expect(multimap.values().sort()).toEqual([1, 1, 2]);
+        const counts = multimap.keyCounts();
+        expect(counts.count('a')).toBe(2);
+        expect(counts.count('b')).toBe(1);
+        const inverse = multimap.inverse();
+        expect(inverse.get(1).toArray().sort()).toEqual(['a', 'b']);
+        expect(inverse.get(2).toArray()).toEqual(['a']);
+        expect(inverse.size()).toBe(3);
+    });
+
+    test('equals() and hashCode()', () => {
+        const a = HashMultimap.of<string, number>(['a', 1], ['b', 2], ['a', 3]);
+        const b = HashMultimap.of<string, number>(['a', 3], ['b', 2], ['a', 1]);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.equals(b.remove('a', 1))).toBe(false);
+        expect(a.clear().isEmpty()).toBe(true);
+    });
+});
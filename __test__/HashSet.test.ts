@@ -1,4 +1,5 @@
 import HashSet from '../src/Sets/HashSet';
+import HashCode from '../src/Hashing/HashCode';
 import { shuffleArray, createRandomIntArray, createRandomStringArray } from '../src/Utils/Utils';
 
 describe('HashSet of()', () => {
@@ -479,7 +480,7 @@ describe('HashSet intersect()', () => {
 
         const result = setA.intersect(setB);
 
-        expect(result.toArray()).toMatchObject([
+        expect(result.toArray().sort((x, y) => x.id - y.id)).toMatchObject([
             { id: 3, name: 'Charlie' },
             { id: 4, name: 'Dana' }
         ]);
@@ -647,4 +648,66 @@ describe('HashSet partition()', () => {
         expect(none.isEmpty()).toBe(true);
         expect(allOut.equals(all)).toBe(true);
     });
-})
\ No newline at end of file
+})
+describe('HashSet structural union(), intersect() and subtract()', () => {
+    const a = HashSet.of(...Array.from({ length: 1_000 }, (_, i) => i));
+    const b = HashSet.of(...Array.from({ length: 500 }, (_, i) => i * 3));
+
+    test('union(), intersect() and subtract() with HashSets and arrays', () => {
+        const union = a.union(b, [5_000]);
+        expect(union.size()).toBe(1_000 + 500 - 334 + 1);
+        expect(union.has(1_497)).toBe(true);
+        expect(union.has(5_000)).toBe(true);
+        const inter = a.intersect(b);
+        expect(inter.size()).toBe(334);
+        expect(inter.toArray().every(v => v % 3 === 0)).toBe(true);
+        const diff = a.subtract(b, [1, 2]);
+        expect(diff.size()).toBe(1_000 - 334 - 2);
+        expect(diff.has(3)).toBe(false);
+        expect(diff.has(4)).toBe(true);
+    });
+
+    test('sets that share nodes are returned unchanged', () => {
+        expect(a.union(a)).toBe(a);
+        expect(a.intersect(a)).toBe(a);
+        expect(a.subtract(b.subtract(a))).toBe(a);
+    });
+});
+
+describe('HashSet withComparer()', () => {
+    const caseInsensitive = {
+        hash: (value: string) => HashCode.hashCode(value.toLowerCase()),
+        equals: (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+    };
+
+    test('add(), has() and delete() use the comparer', () => {
+        const set = HashSet.withComparer(caseInsensitive).add("Foo").add("FOO").add("bar");
+        expect(set.size()).toBe(2);
+        expect(set.has("foo")).toBe(true);
+        expect(set.delete("BAR").toArray()).toEqual(["Foo"]);
+        expect(set.getComparer()).toBe(caseInsensitive);
+    });
+
+    test('filter(), union() and clear() keep the comparer', () => {
+        const set = HashSet.withComparer(caseInsensitive).addAll(["a", "bb", "ccc"]);
+        expect(set.filter(s => s.length > 1).has("BB")).toBe(true);
+        const union = set.union(["A", "B"]);
+        expect(union.size()).toBe(4);
+        expect(union.has("b")).toBe(true);
+        expect(set.intersect(["A", "CCC"]).size()).toBe(2);
+        expect(set.clear().add("X").has("x")).toBe(true);
+    });
+
+    test('get() returns the stored value that the comparer finds equal', () => {
+        const byId = {
+            hash: (value: { id: number }) => HashCode.hashCode(value.id),
+            equals: (a: { id: number }, b: { id: number }) => a.id === b.id,
+        };
+        const stored = { id: 1, name: "stored" };
+        const probe = { id: 1, name: "probe" };
+        const set = HashSet.withComparer(byId).add(stored);
+        expect(set.get(probe)).toBe(stored);
+        expect(set.get({ id: 2 })).toBeUndefined();
+        expect(HashSet.withComparer(caseInsensitive).add("Foo").get("FOO")).toBe("Foo");
+    });
+});
@@ -0,0 +1,110 @@
+import IntMap from '../src/Tries/IntMap';
+import TreeMap from '../src/Trees/TreeMap';
+
+const MIN = -2147483648;
+const MAX = 2147483647;
+
+describe('IntMap', () => {
+    test('iterates in numeric order, including negative keys', () => {
+        const map = IntMap.of<string>([4096, 'b'], [0, 'a'], [-1, 'z'], [MAX, 'max'], [MIN, 'min']);
+        expect(map.keys()).toEqual([MIN, -1, 0, 4096, MAX]);
+        expect(map.size()).toBe(5);
+        expect(map.get(-1)).toBe('z');
+        expect(map.get(1)).toBeUndefined();
+        expect(map.toString()).toBe('{-2147483648: min, -1: z, 0: a, 4096: b, 2147483647: max}');
+    });
+
+    test('keys must be 32-bit integers', () => {
+        expect(() => IntMap.empty<number>().set(1.5, 1)).toThrow(RangeError);
+        expect(() => IntMap.empty<number>().set(2 ** 31, 1)).toThrow(RangeError);
+        expect(IntMap.of<number>([1, 1]).get(1.5)).toBeUndefined();
+        expect(IntMap.of<number>([1, 1]).has(NaN)).toBe(false);
+    });
+
+    test('set() and delete() are persistent', () => {
+        const map = IntMap.of<number>([1, 1], [2, 2], [3, 3]);
+        const updated = map.set(2, 20).delete(1).set(-5, -5);
+        expect(updated.entries()).toEqual([[-5, -5], [2, 20], [3, 3]]);
+        expect(map.entries()).toEqual([[1, 1], [2, 2], [3, 3]]);
+        expect(map.delete(4)).toBe(map);
+        expect(map.set(1, 1)).toBe(map);
+        expect(map.has(1)).toBe(true);
+    });
+
+    test('lookupMin(), lookupMax(), deleteMin() and deleteMax()', () => {
+        const map = IntMap.of<string>([10, 'a'], [-3, 'b'], [7, 'c']);
+        expect(map.lookupMin()).toEqual([-3, 'b']);
+        expect(map.lookupMax()).toEqual([10, 'a']);
+        expect(map.deleteMin().keys()).toEqual([7, 10]);
+        expect(map.deleteMax().keys()).toEqual([-3, 7]);
+        expect(IntMap.empty<string>().lookupMin()).toBeUndefined();
+    });
+
+    test('split()', () => {
+        const map = IntMap.of<string>([-1, 'z'], [0, 'a'], [4096, 'b']);
+        const [less, found, greater] = map.split(0);
+        expect(less.entries()).toEqual([[-1, 'z']]);
+        expect(found).toEqual([0, 'a']);
+        expect(greater.entries()).toEqual([[4096, 'b']]);
+        expect(map.split(5)[1]).toBeUndefined();
+        expect(map.split(MIN)[2].equals(map)).toBe(true);
+    });
+
+    test('union(), intersect() and subtract()', () => {
+        const a = IntMap.of<number>([1, 1], [2, 2], [3, 3]);
+        const b = IntMap.of<number>([3, 30], [4, 40], [-1, -10]);
+        expect(a.union(b).entries()).toEqual([[-1, -10], [1, 1], [2, 2], [3, 30], [4, 40]]);
+        expect(a.union(b, (x, y) => x + y).get(3)).toBe(33);
+        expect(a.intersect(b).entries()).toEqual([[3, 3]]);
+        expect(a.subtract(b).entries()).toEqual([[1, 1], [2, 2]]);
+        expect(a.union(IntMap.empty<number>())).toBe(a);
+    });
+
+    test('SortedMap queries', () => {
+        const map = IntMap.of<string>([10, 'a'], [20, 'b'], [30, 'c'], [40, 'd']);
+        expect(map.rank(25)).toBe(2);
+        expect(map.select(1)).toEqual([20, 'b']);
+        expect(() => map.select(4)).toThrow(RangeError);
+        expect(map.entryAt(-1)).toBeUndefined();
+        expect(map.countRange(10, 30)).toBe(2);
+        expect(map.median()).toEqual([20, 'b']);
+        expect(map.predecessor(30)).toEqual([20, 'b']);
+        expect(map.successor(30)).toEqual([40, 'd']);
+        expect(map.successor(40)).toBeUndefined();
+        expect(map.weakPredecessor(35)).toEqual([30, 'c']);
+        expect(map.weakSuccessor(35)).toEqual([40, 'd']);
+        expect(map.findMin(11)).toEqual([20, 'b']);
+        expect(map.findMax(11)).toEqual([10, 'a']);
+    });
+
+    test('ranges', () => {
+        const map = IntMap.of<number>([1, 1], [2, 2], [3, 3], [4, 4]);
+        expect(map.rangeFrom(2).keys()).toEqual([2, 3, 4]);
+        expect(map.rangeTo(2).keys()).toEqual([1, 2]);
+        expect(map.rangeFromTo(2, 4).keys()).toEqual([2, 3]);
+        expect(map.removeRangeFrom(3).keys()).toEqual([1, 2]);
+        expect(map.removeRangeTo(3).keys()).toEqual([3, 4]);
+        expect(map.removeRangeFromTo(2, 4).keys()).toEqual([1, 4]);
+    });
+
+    test('HOFs', () => {
+        const map = IntMap.of<number>([1, 10], [2, 20], [3, 30]);
+        expect(map.map(v => v / 10)).toBeInstanceOf(IntMap);
+        expect(map.map(v => v / 10).values()).toEqual([1, 2, 3]);
+        expect(map.filter(v => v > 10).keys()).toEqual([2, 3]);
+        const [odd, even] = map.partition((_, k) => k % 2 === 1);
+        expect(odd.keys()).toEqual([1, 3]);
+        expect(even.keys()).toEqual([2]);
+        expect(map.mapKeys(k => `#${k}`)).toBeInstanceOf(TreeMap);
+        expect(map.sort((a, b) => b - a).keys()).toEqual([3, 2, 1]);
+    });
+
+    test('equals() and hashCode() do not depend on the insertion order', () => {
+        const a = IntMap.of<string>([5, 'x'], [-5, 'y'], [500, 'z']);
+        const b = IntMap.of<string>([500, 'z'], [5, 'x'], [-5, 'y']);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.compareTo(b)).toBe(0);
+        expect(a.equals(b.set(5, 'w'))).toBe(false);
+    });
+});
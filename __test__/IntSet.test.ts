@@ -0,0 +1,51 @@
+import IntSet from '../src/Tries/IntSet';
+import TreeSet from '../src/Trees/TreeSet';
+
+describe('IntSet', () => {
+    test('add(), delete() and sorted iteration', () => {
+        const set = IntSet.of(42, 7, -3, 1000, 7);
+        expect(set.toArray()).toEqual([-3, 7, 42, 1000]);
+        expect(set.add(7)).toBe(set);
+        expect(set.delete(8)).toBe(set);
+        expect(set.delete(7).toArray()).toEqual([-3, 42, 1000]);
+        expect(set.toString()).toBe('{-3, 7, 42, 1000}');
+        expect(() => set.add(0.5)).toThrow(RangeError);
+    });
+
+    test('set operations', () => {
+        const a = IntSet.of(1, 2, 3, 4);
+        const b = IntSet.of(3, 4, 5);
+        expect(a.union(b).toArray()).toEqual([1, 2, 3, 4, 5]);
+        expect(a.union([9]).toArray()).toEqual([1, 2, 3, 4, 9]);
+        expect(a.intersect(b).toArray()).toEqual([3, 4]);
+        expect(a.subtract(b).toArray()).toEqual([1, 2]);
+        expect(a.subtract([1], [4]).toArray()).toEqual([2, 3]);
+    });
+
+    test('sorted queries', () => {
+        const set = IntSet.of(10, 20, 30);
+        expect(set.findMin()).toBe(10);
+        expect(set.findMax()).toBe(30);
+        expect(set.rank(25)).toBe(2);
+        expect(set.select(0)).toBe(10);
+        expect(set.weakSuccessor(11)).toBe(20);
+        expect(set.predecessor(20)).toBe(10);
+        expect(set.rangeFromTo(15, 30).toArray()).toEqual([20]);
+        expect(set.split(20).map(String)).toEqual(['{10}', 'true', '{30}']);
+    });
+
+    test('HOFs', () => {
+        const set = IntSet.of(1, 2, 3, 4);
+        expect(set.filter(n => n % 2 === 0)).toBeInstanceOf(IntSet);
+        expect(set.filter(n => n % 2 === 0).toArray()).toEqual([2, 4]);
+        expect(set.partition(n => n > 2).map(part => part.toArray())).toEqual([[3, 4], [1, 2]]);
+        expect(set.map(n => `${n}`)).toBeInstanceOf(TreeSet);
+        expect(set.sort((a, b) => b - a).toArray()).toEqual([4, 3, 2, 1]);
+    });
+
+    test('equals() and hashCode()', () => {
+        expect(IntSet.of(1, 2).equals(IntSet.of(2, 1))).toBe(true);
+        expect(IntSet.of(1, 2).hashCode()).toBe(IntSet.of(2, 1).hashCode());
+        expect(IntSet.of(1, 2).equals(IntSet.of(1))).toBe(false);
+    });
+});
@@ -0,0 +1,85 @@
+import IntervalMap from '../src/Trees/IntervalMap';
+
+const byNumber = (a: number, b: number) => a - b;
+
+describe('IntervalMap', () => {
+    const bookings = IntervalMap.of<number, string>(byNumber,
+        [[9, 10], 'standup'], [[13, 15], 'review'], [[14, 16], 'lunch'], [[8, 18], 'office'],
+    );
+
+    test('iterates by start and then by end', () => {
+        expect(bookings.intervals()).toEqual([[8, 18], [9, 10], [13, 15], [14, 16]]);
+        expect(bookings.size()).toBe(4);
+        expect(bookings.span()).toEqual([8, 18]);
+        expect(bookings.toString()).toBe('{[8, 18): office, [9, 10): standup, [13, 15): review, [14, 16): lunch}');
+    });
+
+    test('insert() replaces the value of the same interval', () => {
+        const map = bookings.insert([9, 10], 'retro');
+        expect(map.get([9, 10])).toBe('retro');
+        expect(map.size()).toBe(4);
+        expect(bookings.get([9, 10])).toBe('standup');
+        expect(bookings.get([9, 11])).toBeUndefined();
+    });
+
+    test('insert() rejects empty and reversed intervals', () => {
+        expect(() => bookings.insert([3, 3], 'x')).toThrow(RangeError);
+        expect(() => bookings.insert([4, 3], 'x')).toThrow(RangeError);
+    });
+
+    test('overlapping() treats intervals as half-open', () => {
+        expect(bookings.overlapping(10, 14).map(([, v]) => v)).toEqual(['office', 'review']);
+        expect(bookings.overlapping(15, 16).map(([, v]) => v)).toEqual(['office', 'lunch']);
+        expect(bookings.overlapping(18, 20)).toEqual([]);
+        expect(bookings.overlapping(12, 12)).toEqual([]);
+    });
+
+    test('containing()', () => {
+        expect(bookings.containing(14)).toEqual([[[8, 18], 'office'], [[13, 15], 'review'], [[14, 16], 'lunch']]);
+        expect(bookings.containing(10).map(([, v]) => v)).toEqual(['office']);
+        expect(bookings.containing(7)).toEqual([]);
+    });
+
+    test('delete() removes exactly one interval', () => {
+        const map = bookings.delete([8, 18]);
+        expect(map.containing(12)).toEqual([]);
+        expect(map.size()).toBe(3);
+        expect(map.span()).toEqual([9, 16]);
+        expect(map.delete([8, 17])).toBe(map);
+        expect(bookings.has([8, 18])).toBe(true);
+    });
+
+    test('stays balanced with many intervals', () => {
+        let map = IntervalMap.empty<number, number>(byNumber);
+        for (let i = 0; i < 1000; i++) map = map.insert([i, i + 5], i);
+        for (let i = 0; i < 1000; i += 2) map = map.delete([i, i + 5]);
+        expect(map.size()).toBe(500);
+        expect(map.containing(500.5).map(([, v]) => v)).toEqual([497, 499]);
+        expect(map.overlapping(100, 104).length).toBe(4);
+    });
+
+    test('coalesce() merges touching and overlapping intervals with equal values', () => {
+        const versions = IntervalMap.of<number, string>(byNumber,
+            [[1, 2], 'a'], [[2, 3], 'a'], [[3, 5], 'b'], [[4, 6], 'b'], [[7, 8], 'b'],
+        );
+        const merged = versions.coalesce();
+        expect(merged.entries()).toEqual([[[1, 3], 'a'], [[3, 6], 'b'], [[7, 8], 'b']]);
+        expect(merged.coalesce()).toBe(merged);
+    });
+
+    test('custom comparator', () => {
+        const dates = IntervalMap.of<string, number>((a, b) => a.localeCompare(b),
+            [['2024-01-01', '2024-02-01'], 1], [['2024-01-15', '2024-03-01'], 2],
+        );
+        expect(dates.containing('2024-02-10')).toEqual([[['2024-01-15', '2024-03-01'], 2]]);
+    });
+
+    test('equals() and hashCode()', () => {
+        const copy = IntervalMap.of<number, string>(byNumber,
+            [[14, 16], 'lunch'], [[8, 18], 'office'], [[13, 15], 'review'], [[9, 10], 'standup'],
+        );
+        expect(bookings.equals(copy)).toBe(true);
+        expect(bookings.hashCode()).toBe(copy.hashCode());
+        expect(bookings.equals(copy.insert([9, 10], 'retro'))).toBe(false);
+    });
+});
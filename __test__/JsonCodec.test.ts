@@ -0,0 +1,98 @@
+import JsonCodec from '../src/Json/JsonCodec';
+import Vector from '../src/Arrays/Vector';
+import ArrayList from '../src/Arrays/ArrayList';
+import LinkedList from '../src/LinkedLists/LinkedList';
+import HashCode from '../src/Hashing/HashCode';
+import HashComparer from '../src/Interfaces/HashComparer';
+import HashMap from '../src/Maps/HashMap';
+import HashSet from '../src/Sets/HashSet';
+import TreeMap from '../src/Trees/TreeMap';
+import TreeSet from '../src/Trees/TreeSet';
+
+describe('JsonCodec', () => {
+    const descending = (a: number, b: number) => b - a;
+    const codec = new JsonCodec({ comparators: { descending } });
+
+    test('toJSON() keeps the internals out of JSON.stringify', () => {
+        expect(JSON.stringify(Vector.of(1, 2))).toBe('[1,2]');
+        expect(JSON.stringify(ArrayList.of('a'))).toBe('["a"]');
+        expect(JSON.stringify(LinkedList.of<unknown>(1, LinkedList.of(2)))).toBe('[1,[2]]');
+        expect(JSON.stringify(HashSet.of(7))).toBe('[7]');
+        expect(JSON.stringify(TreeSet.of(descending, 1, 2))).toBe('[2,1]');
+        expect(JSON.stringify(HashMap.of<string, number>(['a', 1]))).toBe('[["a",1]]');
+        expect(JSON.stringify({ map: TreeMap.of<number, string>(TreeMap.defaultComparator, [2, 'b'], [1, 'a']) }))
+            .toBe('{"map":[[1,"a"],[2,"b"]]}');
+    });
+
+    test('encode() writes the tagged shape', () => {
+        expect(codec.encode(Vector.of<unknown>(1, LinkedList.of(2)))).toEqual({
+            '@type': 'Vector',
+            values: [1, { '@type': 'LinkedList', values: [2] }],
+        });
+        expect(codec.encode(TreeSet.of(descending, 1, 2))).toEqual({ '@type': 'TreeSet', comparator: 'descending', values: [2, 1] });
+        expect(codec.encode(new TreeMap<string, number>().set('a', 1))).toEqual({ '@type': 'TreeMap', entries: [['a', 1]] });
+        expect(codec.encode({ list: ArrayList.of(1), n: null })).toEqual({ list: { '@type': 'ArrayList', values: [1] }, n: null });
+        expect(new JsonCodec({ tags: false }).encode({ set: HashSet.of(Vector.of(1)) })).toEqual({ set: [[1]] });
+    });
+
+    test('parse() revives nested collections with their comparators', () => {
+        const state = HashMap.of<unknown, unknown>(
+            ['scores', TreeSet.of(descending, 3, 1, 2)],
+            ['history', Vector.of<unknown>(ArrayList.of(1, 2), LinkedList.of('x'))],
+            [Vector.of(1, 2), TreeMap.of<string, number>(TreeMap.defaultComparator, ['k', 5])],
+            ['tags', HashSet.of('a', 'b')],
+        );
+        const revived = codec.parse(codec.stringify(state)) as HashMap<unknown, unknown>;
+        expect(revived).toBeInstanceOf(HashMap);
+        expect(revived.equals(state)).toBe(true);
+        const scores = revived.get('scores') as TreeSet<number>;
+        expect(scores.getComparator()).toBe(descending);
+        expect(scores.add(5).toArray()).toEqual([5, 3, 2, 1]);
+        expect((revived.get('history') as Vector<unknown>).get(1)).toBeInstanceOf(LinkedList);
+        expect(codec.parse('{"a":[1,{"@type":"HashSet","values":[2]}]}')).toEqual({ a: [1, HashSet.of(2)] });
+    });
+
+    test('HashMaps and HashSets keep their comparers by name', () => {
+        const caseInsensitive: HashComparer<string> = {
+            hash: s => HashCode.hashCode(s.toLowerCase()),
+            equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        };
+        const withComparer = codec.withHashComparer('caseInsensitive', caseInsensitive);
+        const map = HashMap.empty<string, number>(caseInsensitive).set('A', 1);
+        const set = HashSet.withComparer(caseInsensitive).add('B');
+        expect(withComparer.encode(set)).toEqual({ '@type': 'HashSet', comparer: 'caseInsensitive', values: ['B'] });
+
+        const parsed = withComparer.parse(withComparer.stringify([map, set])) as [HashMap<string, number>, HashSet<string>];
+        expect(parsed[0].getComparer()).toBe(caseInsensitive);
+        expect(parsed[0].get('a')).toBe(1);
+        expect(parsed[1].getComparer()).toBe(caseInsensitive);
+        expect(parsed[1].has('b')).toBe(true);
+
+        expect(() => codec.encode(map)).toThrow('The comparer of the HashMap is not registered in the codec');
+        expect(() => codec.encode(set)).toThrow('The comparer of the HashSet is not registered in the codec');
+        expect(() => codec.decode({ '@type': 'HashSet', comparer: 'caseInsensitive', values: [] })).toThrow(Error);
+        expect(new JsonCodec({ tags: false }).encode(map)).toEqual([['A', 1]]);
+    });
+
+    test('a "__proto__" key is kept as data', () => {
+        const text = '{"__proto__":{"polluted":1},"a":{"@type":"Vector","values":[1]}}';
+        const parsed = codec.parse(text) as Record<string, unknown>;
+        expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+        expect(Object.keys(parsed)).toEqual(['__proto__', 'a']);
+        expect((parsed as { polluted?: number }).polluted).toBeUndefined();
+        expect(Object.getOwnPropertyDescriptor(parsed, '__proto__')?.value).toEqual({ polluted: 1 });
+        expect(codec.stringify(parsed)).toBe(text);
+    });
+
+    test('errors', () => {
+        const other = (a: number, b: number) => a - b;
+        expect(() => codec.encode(TreeSet.of(other, 1))).toThrow(Error);
+        expect(codec.withComparator('other', other).encode(TreeSet.of(other, 1))).toEqual({ '@type': 'TreeSet', comparator: 'other', values: [1] });
+        expect(() => codec.encode({ '@type': 'x' })).toThrow(Error);
+        expect(new JsonCodec({ tags: false }).encode({ '@type': 'x' })).toEqual({ '@type': 'x' });
+        expect(() => codec.decode({ '@type': 'Nope', values: [] })).toThrow('Unknown type tag "Nope"');
+        expect(() => codec.decode({ '@type': 'TreeSet', comparator: 'missing', values: [] })).toThrow(Error);
+        expect(() => codec.decode({ '@type': 'HashMap', entries: [[1]] })).toThrow(Error);
+        expect(() => codec.decode({ '@type': 'Vector' })).toThrow(Error);
+    });
+});
@@ -241,6 +241,12 @@ describe('LinkedList', () => {
         expect(retained).toEqual(LinkedList.of(1,2,3));
     });
 
+    test('retainAll() matches structurally equal elements', () => {
+        const nested = LinkedList.of(LinkedList.of(1), LinkedList.of(2), LinkedList.of(3));
+        const retained = nested.retainAll([LinkedList.of(1), LinkedList.of(3)]);
+        expect(retained.toArray().map(list => list.toArray())).toEqual([[1], [3]]);
+    });
+
     test('reversed', () => {
         const result = LinkedList.of(1,2,3,4,5);
         const reversed = result.reversed();
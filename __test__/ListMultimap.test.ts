@@ -0,0 +1,39 @@
+import ListMultimap from '../src/Multimaps/ListMultimap';
+import Vector from '../src/Arrays/Vector';
+
+describe('ListMultimap', () => {
+    test('keeps values in insertion order with duplicates', () => {
+        const multimap = ListMultimap.of<string, number>(['a', 3], ['a', 1], ['a', 3], ['b', 2]);
+        expect(multimap.size()).toBe(4);
+        expect(multimap.get('a')).toBeInstanceOf(Vector);
+        expect(multimap.get('a').toArray()).toEqual([3, 1, 3]);
+        expect(multimap.get('missing').size()).toBe(0);
+    });
+
+    test('remove() removes the first occurrence and drops empty buckets', () => {
+        let multimap = ListMultimap.of<string, number[]>(['a', [1]], ['a', [2]], ['a', [1]]);
+        multimap = multimap.remove('a', [1]);
+        expect(multimap.get('a').toArray()).toEqual([[2], [1]]);
+        multimap = multimap.remove('a', [2]).remove('a', [1]);
+        expect(multimap.isEmpty()).toBe(true);
+        expect(multimap.has('a')).toBe(false);
+    });
+
+    test('putAll() and removeAll()', () => {
+        const multimap = ListMultimap.empty<string, number>().putAll('a', [1, 1, 2]).put('b', 3);
+        expect(multimap.size()).toBe(4);
+        expect(multimap.removeAll('a').size()).toBe(1);
+    });
+
+    test('keyCounts() and inverse()', () => {
+        const multimap = ListMultimap.of<string, number>(['a', 1], ['a', 1], ['b', 1]);
+        expect(multimap.keyCounts().count('a')).toBe(2);
+        expect(multimap.inverse().get(1).toArray().sort()).toEqual(['a', 'a', 'b']);
+    });
+
+    test('equals() depends on the order of the values', () => {
+        const a = ListMultimap.of<string, number>(['a', 1], ['a', 2]);
+        expect(a.equals(ListMultimap.of<string, number>(['a', 1], ['a', 2]))).toBe(true);
+        expect(a.equals(ListMultimap.of<string, number>(['a', 2], ['a', 1]))).toBe(false);
+    });
+});
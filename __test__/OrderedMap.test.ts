@@ -0,0 +1,86 @@
+import OrderedMap from '../src/Maps/OrderedMap';
+
+describe('OrderedMap', () => {
+    test('iterates in insertion order', () => {
+        const map = OrderedMap.of<string, number>(['c', 1], ['a', 2], ['b', 3]);
+        expect(map.keys()).toEqual(['c', 'a', 'b']);
+        expect(map.values()).toEqual([1, 2, 3]);
+        expect(map.toString()).toBe('{c: 1, a: 2, b: 3}');
+    });
+
+    test('set() of an existing key keeps its position', () => {
+        const map = OrderedMap.of<string, number>(['a', 1], ['b', 2]).set('a', 10);
+        expect(map.entries()).toEqual([['a', 10], ['b', 2]]);
+        expect(map.get('a')).toBe(10);
+        expect(map.size()).toBe(2);
+    });
+
+    test('delete() and set() append again at the end', () => {
+        const map = OrderedMap.of<string, number>(['a', 1], ['b', 2], ['c', 3]);
+        const deleted = map.delete('b');
+        expect(deleted.keys()).toEqual(['a', 'c']);
+        expect(deleted.has('b')).toBe(false);
+        expect(deleted.get('b')).toBeUndefined();
+        expect(deleted.set('b', 4).keys()).toEqual(['a', 'c', 'b']);
+        expect(map.delete('z')).toBe(map);
+        expect(map.keys()).toEqual(['a', 'b', 'c']);
+    });
+
+    test('moveToEnd()', () => {
+        const map = OrderedMap.of<string, number>(['a', 1], ['b', 2], ['c', 3]);
+        expect(map.moveToEnd('a').entries()).toEqual([['b', 2], ['c', 3], ['a', 1]]);
+        expect(map.moveToEnd('c')).toBe(map);
+        expect(map.moveToEnd('z')).toBe(map);
+    });
+
+    test('getFirst(), getLast(), removeFirst() and removeLast()', () => {
+        let map = OrderedMap.of<number, string>([3, 'c'], [1, 'a'], [2, 'b']);
+        expect(map.getFirst()).toEqual([3, 'c']);
+        expect(map.getLast()).toEqual([2, 'b']);
+        map = map.removeFirst();
+        expect(map.getFirst()).toEqual([1, 'a']);
+        map = map.removeLast();
+        expect(map.entries()).toEqual([[1, 'a']]);
+        map = map.removeLast();
+        expect(map.getFirst()).toBeUndefined();
+        expect(map.getLast()).toBeUndefined();
+        expect(() => map.removeFirst()).toThrow(RangeError);
+        expect(() => map.removeLast()).toThrow(RangeError);
+    });
+
+    test('reversed()', () => {
+        const map = OrderedMap.of<string, number>(['a', 1], ['b', 2], ['c', 3]);
+        expect(map.reversed().keys()).toEqual(['c', 'b', 'a']);
+        expect(map.reversed().set('d', 4).getLast()).toEqual(['d', 4]);
+    });
+
+    test('stays in order after many deletes', () => {
+        let map = OrderedMap.empty<number, number>();
+        for (let i = 0; i < 1000; i++) map = map.set(i, i * 2);
+        for (let i = 0; i < 1000; i++) {
+            if (i % 10 !== 0) map = map.delete(i);
+        }
+        expect(map.size()).toBe(100);
+        expect(map.keys()).toEqual(Array.from({ length: 100 }, (_, i) => i * 10));
+        expect(map.get(990)).toBe(1980);
+        expect(map.getFirst()).toEqual([0, 0]);
+        expect(map.getLast()).toEqual([990, 1980]);
+    });
+
+    test('HOFs keep the order', () => {
+        const map = OrderedMap.of<string, number>(['b', 1], ['a', 2], ['c', 3]);
+        const doubled = map.map(v => v * 2);
+        expect(doubled).toBeInstanceOf(OrderedMap);
+        expect(doubled.entries()).toEqual([['b', 2], ['a', 4], ['c', 6]]);
+        expect(map.filter(v => v !== 2).keys()).toEqual(['b', 'c']);
+    });
+
+    test('equals() depends on the order', () => {
+        const a = OrderedMap.of<string, number>(['a', 1], ['b', 2]);
+        expect(a.equals(OrderedMap.of<string, number>(['a', 1], ['b', 2]))).toBe(true);
+        expect(a.hashCode()).toBe(OrderedMap.of<string, number>(['a', 1], ['b', 2]).hashCode());
+        expect(a.equals(OrderedMap.of<string, number>(['b', 2], ['a', 1]))).toBe(false);
+        expect(a.equals(a.set('b', 3))).toBe(false);
+        expect(a.compareTo(a.moveToEnd('a'))).toBeLessThan(0);
+    });
+});
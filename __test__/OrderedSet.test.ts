@@ -0,0 +1,56 @@
+import OrderedSet from '../src/Sets/OrderedSet';
+import HashCode from '../src/Hashing/HashCode';
+
+describe('OrderedSet', () => {
+    test('iterates in insertion order', () => {
+        const set = OrderedSet.of('b', 'a', 'b', 'c');
+        expect(set.toArray()).toEqual(['b', 'a', 'c']);
+        expect(set.size()).toBe(3);
+        expect(set.add('a')).toBe(set);
+        expect(set.toString()).toBe('{b, a, c}');
+    });
+
+    test('delete() and add() append again at the end', () => {
+        const set = OrderedSet.of(1, 2, 3);
+        expect(set.delete(1).add(1).toArray()).toEqual([2, 3, 1]);
+        expect(set.delete(4)).toBe(set);
+        expect(set.has(2)).toBe(true);
+        expect(set.get(4)).toBeUndefined();
+    });
+
+    test('sequenced methods', () => {
+        const set = OrderedSet.of(3, 1, 2);
+        expect(set.getFirst()).toBe(3);
+        expect(set.getLast()).toBe(2);
+        expect(set.removeFirst().toArray()).toEqual([1, 2]);
+        expect(set.removeLast().toArray()).toEqual([3, 1]);
+        expect(set.reversed().toArray()).toEqual([2, 1, 3]);
+        expect(set.moveToEnd(3).toArray()).toEqual([1, 2, 3]);
+        expect(() => OrderedSet.empty<number>().removeFirst()).toThrow(RangeError);
+    });
+
+    test('HOFs keep the order', () => {
+        const set = OrderedSet.of(5, 3, 4, 1);
+        expect(set.map(x => x % 2).toArray()).toEqual([1, 0]);
+        expect(set.filter(x => x > 2).toArray()).toEqual([5, 3, 4]);
+        const [odd, even] = set.partition(x => x % 2 === 1);
+        expect(odd.toArray()).toEqual([5, 3, 1]);
+        expect(even.toArray()).toEqual([4]);
+        expect(set.union([2, 5, 0]).toArray()).toEqual([5, 3, 4, 1, 2, 0]);
+    });
+
+    test('comparer', () => {
+        const set = OrderedSet.empty<string>({
+            hash: s => HashCode.hashCode(s.toLowerCase()),
+            equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        }).add('Ada').add('ADA').add('Bob');
+        expect(set.toArray()).toEqual(['Ada', 'Bob']);
+        expect(set.clear().add('x').getComparer()).toBe(set.getComparer());
+    });
+
+    test('equals() depends on the order', () => {
+        expect(OrderedSet.of(1, 2).equals(OrderedSet.of(1, 2))).toBe(true);
+        expect(OrderedSet.of(1, 2).equals(OrderedSet.of(2, 1))).toBe(false);
+        expect(OrderedSet.of(1, 2).hashCode()).toBe(OrderedSet.of(1, 2).hashCode());
+    });
+});
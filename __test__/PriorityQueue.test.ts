@@ -0,0 +1,183 @@
+import PriorityQueue, { PriorityQueueHandle } from '../src/Queues/PriorityQueue';
+import Deque from '../src/Queues/Deque';
+
+const byNumber = (a: number, b: number) => a - b;
+
+describe('PriorityQueue', () => {
+    test('empty() and of()', () => {
+        expect(PriorityQueue.empty<number>().isEmpty()).toBe(true);
+        const queue = PriorityQueue.of<number>(byNumber, 5, 1, 4, 2, 3);
+        expect(queue.size()).toBe(5);
+        expect(queue.toArray()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('polls elements in priority order', () => {
+        let queue = PriorityQueue.empty<number>(byNumber);
+        const values = Array.from({ length: 2000 }, (_, i) => (i * 7919) % 1000);
+        for (const value of values) queue = queue.offer(value);
+        const polled: number[] = [];
+        while (!queue.isEmpty()) {
+            const { value, newQueue } = queue.poll();
+            polled.push(value!);
+            queue = newQueue;
+        }
+        expect(polled).toEqual([...values].sort((a, b) => a - b));
+    });
+
+    test('elements with equal priority leave in insertion order', () => {
+        const byPriority = (a: [number, string], b: [number, string]) => a[0] - b[0];
+        const queue = PriorityQueue.of<[number, string]>(byPriority, [2, 'a'], [1, 'b'], [2, 'c'], [1, 'd']);
+        expect(queue.toArray().map(([, name]) => name)).toEqual(['b', 'd', 'a', 'c']);
+    });
+
+    test('uses the comparator', () => {
+        const queue = PriorityQueue.of<number>((a: number, b: number) => b - a, 1, 3, 2);
+        expect(queue.peek()).toBe(3);
+        expect(queue.toArray()).toEqual([3, 2, 1]);
+    });
+
+    test('is persistent', () => {
+        const base = PriorityQueue.of<number>(byNumber, 3, 1, 2);
+        base.add(0);
+        base.poll();
+        base.remove();
+        expect(base.toArray()).toEqual([1, 2, 3]);
+        expect(base.peek()).toBe(1);
+    });
+});
+
+describe('PriorityQueue Queue interface', () => {
+    test('peek(), element(), poll() and remove() on an empty queue', () => {
+        const queue = PriorityQueue.empty<number>();
+        expect(queue.peek()).toBeUndefined();
+        expect(() => queue.element()).toThrow(Error);
+        const { value, newQueue } = queue.poll();
+        expect(value).toBeUndefined();
+        expect(newQueue.isEmpty()).toBe(true);
+        expect(() => queue.remove()).toThrow(RangeError);
+    });
+
+    test('remove() removes the head', () => {
+        const queue = PriorityQueue.of<number>(byNumber, 2, 1, 3).remove();
+        expect(queue.element()).toBe(2);
+        expect(queue.size()).toBe(2);
+    });
+});
+
+describe('PriorityQueue meld', () => {
+    test('meld() combines two queues', () => {
+        const left = PriorityQueue.of<number>(byNumber, ...Array.from({ length: 100 }, (_, i) => 2 * i));
+        const right = PriorityQueue.of<number>(byNumber, ...Array.from({ length: 100 }, (_, i) => 2 * i + 1));
+        const melded = left.meld(right);
+        expect(melded.size()).toBe(200);
+        expect(melded.toArray()).toEqual(Array.from({ length: 200 }, (_, i) => i));
+        expect(left.size()).toBe(100);
+        expect(right.peek()).toBe(1);
+    });
+
+    test('concat() melds priority queues and adds other collections', () => {
+        const queue = PriorityQueue.of<number>(byNumber, 5, 1).concat(PriorityQueue.of<number>(byNumber, 4), Deque.of(3, 2), 0);
+        expect(queue).toBeInstanceOf(PriorityQueue);
+        expect(queue.toArray()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    test('meld() orders the elements of a queue with another comparator by this queue\'s comparator', () => {
+        const descending = (a: number, b: number) => b - a;
+        const { handle, newQueue } = PriorityQueue.of<number>(descending, 13, 0, 7).addWithHandle(4);
+        const melded = PriorityQueue.of<number>(byNumber, 10, 3).meld(newQueue);
+        expect(melded.comparator()).toBe(byNumber);
+        expect(melded.peek()).toBe(0);
+        expect(melded.toArray()).toEqual([0, 3, 4, 7, 10, 13]);
+        expect(melded.getByHandle(handle)).toBe(4);
+        expect(melded.remove(handle).toArray()).toEqual([0, 3, 7, 10, 13]);
+        expect(PriorityQueue.empty<number>(byNumber).meld(newQueue).toArray()).toEqual([0, 4, 7, 13]);
+    });
+
+    test('a handle shared by both queues is kept once', () => {
+        const { handle, newQueue } = PriorityQueue.of<number>(byNumber, 3).addWithHandle(5);
+        const melded = newQueue.meld(newQueue);
+        expect(melded.toArray()).toEqual([3, 3, 5]);
+        expect(melded.remove(handle).toArray()).toEqual([3, 3]);
+    });
+});
+
+describe('PriorityQueue handles', () => {
+    test('getByHandle() and hasHandle()', () => {
+        const { handle, newQueue } = PriorityQueue.of<number>(byNumber, 1, 2).addWithHandle(7);
+        expect(newQueue.getByHandle(handle)).toBe(7);
+        expect(newQueue.hasHandle(handle)).toBe(true);
+        expect(PriorityQueue.empty<number>().hasHandle(handle)).toBe(false);
+        expect(PriorityQueue.empty<number>().getByHandle(handle)).toBeUndefined();
+    });
+
+    test('decreaseKey() moves an element towards the head', () => {
+        let queue = PriorityQueue.of<number>(byNumber, 10, 20, 30);
+        const added = queue.addWithHandle(40);
+        queue = added.newQueue.decreaseKey(added.handle, 15);
+        expect(queue.toArray()).toEqual([10, 15, 20, 30]);
+        queue = queue.decreaseKey(added.handle, 5);
+        expect(queue.peek()).toBe(5);
+        expect(queue.getByHandle(added.handle)).toBe(5);
+        expect(queue.size()).toBe(4);
+        expect(() => queue.decreaseKey(added.handle, 50)).toThrow(RangeError);
+        expect(added.newQueue.getByHandle(added.handle)).toBe(40);
+    });
+
+    test('replace() can move an element in both directions', () => {
+        const { handle, newQueue } = PriorityQueue.of<number>(byNumber, 2, 3).addWithHandle(1);
+        const queue = newQueue.replace(handle, 4);
+        expect(queue.toArray()).toEqual([2, 3, 4]);
+        expect(queue.replace(handle, 0).toArray()).toEqual([0, 2, 3]);
+    });
+
+    test('remove() with a handle', () => {
+        let queue = PriorityQueue.empty<number>(byNumber);
+        const handles: PriorityQueueHandle[] = [];
+        for (let i = 0; i < 1000; i++) {
+            const added = queue.addWithHandle(i);
+            queue = added.newQueue;
+            handles.push(added.handle);
+        }
+        for (let i = 0; i < 1000; i += 2) queue = queue.remove(handles[i]);
+        expect(queue.size()).toBe(500);
+        expect(queue.peek()).toBe(1);
+        expect(queue.toArray()).toEqual(Array.from({ length: 500 }, (_, i) => 2 * i + 1));
+        expect(queue.hasHandle(handles[0])).toBe(false);
+        expect(() => queue.remove(handles[0])).toThrow(Error);
+        expect(queue.poll().newQueue.hasHandle(handles[1])).toBe(false);
+    });
+
+    test('handles survive filtering', () => {
+        const { handle, newQueue } = PriorityQueue.of<number>(byNumber, 1, 2, 3).addWithHandle(4);
+        const filtered = newQueue.filter(x => x % 2 === 0);
+        expect(filtered.toArray()).toEqual([2, 4]);
+        expect(filtered.decreaseKey(handle, 0).toArray()).toEqual([0, 2]);
+        expect(newQueue.filter(x => x < 4).hasHandle(handle)).toBe(false);
+    });
+});
+
+describe('PriorityQueue HOFs', () => {
+    test('map() and sort()', () => {
+        const queue = PriorityQueue.of<number>(byNumber, 3, 1, 2);
+        expect(queue.map(x => -x).toArray()).toEqual([-3, -2, -1]);
+        expect(queue.map(x => x * 2, undefined, (a, b) => b - a).toArray()).toEqual([6, 4, 2]);
+        expect(queue.sort((a, b) => b - a).toArray()).toEqual([3, 2, 1]);
+    });
+
+    test('removeItem(), removeAll() and retainAll() compare by value', () => {
+        const queue = PriorityQueue.of<number>(byNumber, 1, 2, 2, 3);
+        expect(queue.removeItem(2).toArray()).toEqual([1, 2, 3]);
+        expect(queue.removeAll([2, 3]).toArray()).toEqual([1]);
+        expect(queue.retainAll([2]).toArray()).toEqual([2, 2]);
+        expect(queue.distinct().toArray()).toEqual([1, 2, 3]);
+    });
+
+    test('equals() and hashCode()', () => {
+        const a = PriorityQueue.of<number>(byNumber, 3, 1, 2);
+        const b = PriorityQueue.of<number>(byNumber, 1, 2).add(3);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.equals(PriorityQueue.of<number>(byNumber, 1, 2))).toBe(false);
+        expect(a.equals(Deque.of(1, 2, 3))).toBe(false);
+    });
+});
@@ -0,0 +1,61 @@
+import { BoundType } from '../src/Enums/BoundType';
+import Range from '../src/Ranges/Range';
+
+describe('Range', () => {
+    test('bounds', () => {
+        const range = Range.closedOpen(1, 5);
+        expect(range.lowerEndpoint()).toBe(1);
+        expect(range.lowerBoundType()).toBe(BoundType.Closed);
+        expect(range.upperEndpoint()).toBe(5);
+        expect(range.upperBoundType()).toBe(BoundType.Open);
+        expect(Range.atLeast(3).hasUpperBound()).toBe(false);
+        expect(Range.atLeast(3).upperEndpoint()).toBeUndefined();
+        expect(Range.lessThan(3).lowerBoundType()).toBeUndefined();
+        expect(Range.range(1, BoundType.Open, 2, BoundType.Closed).equals(Range.openClosed(1, 2))).toBe(true);
+    });
+
+    test('contains() respects open and closed bounds', () => {
+        expect(Range.closed(1, 5).contains(5)).toBe(true);
+        expect(Range.open(1, 5).contains(1)).toBe(false);
+        expect(Range.open(1, 5).contains(4.9)).toBe(true);
+        expect(Range.greaterThan(1).contains(1e9)).toBe(true);
+        expect(Range.atMost(1).contains(1)).toBe(true);
+        expect(Range.all<number>().contains(-Infinity)).toBe(true);
+        expect(Range.singleton(2).contains(2)).toBe(true);
+    });
+
+    test('empty and invalid ranges', () => {
+        expect(Range.closedOpen(1, 1).isEmpty()).toBe(true);
+        expect(Range.openClosed(1, 1).isEmpty()).toBe(true);
+        expect(Range.singleton(1).isEmpty()).toBe(false);
+        expect(() => Range.closed(2, 1)).toThrow(RangeError);
+        expect(() => Range.open(1, 1)).toThrow(RangeError);
+    });
+
+    test('encloses(), isConnected(), intersection() and span()', () => {
+        expect(Range.closed(1, 10).encloses(Range.open(1, 10))).toBe(true);
+        expect(Range.open(1, 10).encloses(Range.closed(1, 10))).toBe(false);
+        expect(Range.closedOpen(1, 3).isConnected(Range.closed(3, 5))).toBe(true);
+        expect(Range.open(1, 3).isConnected(Range.open(3, 5))).toBe(false);
+        expect(Range.closed(1, 5).intersection(Range.open(3, 8)).toString()).toBe('(3, 5]');
+        expect(Range.closedOpen(1, 3).intersection(Range.closed(3, 5)).isEmpty()).toBe(true);
+        expect(() => Range.open(1, 3).intersection(Range.open(3, 5))).toThrow(RangeError);
+        expect(Range.closed(1, 2).span(Range.greaterThan(7)).toString()).toBe('[1, +∞)');
+    });
+
+    test('custom comparator', () => {
+        const byLength = (a: string, b: string) => a.length - b.length;
+        const range = Range.closed<string>('a', 'abc', byLength);
+        expect(range.contains('xy')).toBe(true);
+        expect(range.contains('wxyz')).toBe(false);
+        expect(range.getComparator()).toBe(byLength);
+    });
+
+    test('equals() and toString()', () => {
+        expect(Range.closed(1, 2).equals(Range.closed(1, 2))).toBe(true);
+        expect(Range.closed(1, 2).hashCode()).toBe(Range.closed(1, 2).hashCode());
+        expect(Range.closed(1, 2).equals(Range.closedOpen(1, 2))).toBe(false);
+        expect(Range.lessThan(0).toString()).toBe('(-∞, 0)');
+        expect(Range.all().toString()).toBe('(-∞, +∞)');
+    });
+});
@@ -0,0 +1,74 @@
+import Range from '../src/Ranges/Range';
+import RangeSet from '../src/Ranges/RangeSet';
+
+const byNumber = (a: number, b: number) => a - b;
+
+describe('RangeSet', () => {
+    test('add() coalesces touching ranges', () => {
+        const set = RangeSet.empty<number>(byNumber).add(Range.closedOpen(1, 5)).add(Range.closedOpen(5, 9));
+        expect(set.toString()).toBe('{[1, 9)}');
+        expect(set.size()).toBe(1);
+    });
+
+    test('add() keeps ranges apart when a value between them is missing', () => {
+        const set = RangeSet.of<number>(byNumber, Range.open(1, 5), Range.open(5, 9));
+        expect(set.toString()).toBe('{(1, 5), (5, 9)}');
+        expect(set.contains(5)).toBe(false);
+        expect(set.add(Range.singleton(5)).toString()).toBe('{(1, 9)}');
+    });
+
+    test('add() merges every overlapped range', () => {
+        const set = RangeSet.of<number>(byNumber, Range.closed(1, 2), Range.closed(4, 5), Range.closed(7, 8), Range.closed(10, 11));
+        expect(set.add(Range.open(2, 9)).toString()).toBe('{[1, 9), [10, 11]}');
+        expect(set.add(Range.closed(4, 5))).toBe(set);
+        expect(set.add(Range.closedOpen(3, 3))).toBe(set);
+    });
+
+    test('remove() splits an enclosing range', () => {
+        const set = RangeSet.of<number>(byNumber, Range.closed(0, 10));
+        expect(set.remove(Range.open(3, 5)).toString()).toBe('{[0, 3], [5, 10]}');
+        expect(set.remove(Range.atLeast(5)).toString()).toBe('{[0, 5)}');
+        expect(set.remove(Range.all()).isEmpty()).toBe(true);
+        expect(set.remove(Range.closed(20, 30))).toBe(set);
+    });
+
+    test('contains(), rangeContaining() and encloses()', () => {
+        const set = RangeSet.of<number>(byNumber, Range.closedOpen(1, 5), Range.greaterThan(10));
+        expect(set.contains(1)).toBe(true);
+        expect(set.contains(5)).toBe(false);
+        expect(set.contains(10)).toBe(false);
+        expect(set.rangeContaining(3)!.toString()).toBe('[1, 5)');
+        expect(set.rangeContaining(1e6)!.toString()).toBe('(10, +∞)');
+        expect(set.rangeContaining(7)).toBeUndefined();
+        expect(set.encloses(Range.closed(2, 4))).toBe(true);
+        expect(set.encloses(Range.closed(2, 5))).toBe(false);
+        expect(set.encloses(Range.atLeast(11))).toBe(true);
+        expect(set.span()!.toString()).toBe('[1, +∞)');
+    });
+
+    test('complement()', () => {
+        const set = RangeSet.of<number>(byNumber, Range.closed(0, 10), Range.open(20, 30));
+        expect(set.complement().toString()).toBe('{(-∞, 0), (10, 20], [30, +∞)}');
+        expect(set.complement().complement().equals(set)).toBe(true);
+        expect(RangeSet.empty<number>(byNumber).complement().toString()).toBe('{(-∞, +∞)}');
+    });
+
+    test('union(), intersect() and subtract()', () => {
+        const a = RangeSet.of<number>(byNumber, Range.closed(0, 10), Range.open(20, 30));
+        const b = RangeSet.of<number>(byNumber, Range.closedOpen(5, 25));
+        expect(a.union(b).toString()).toBe('{[0, 30)}');
+        expect(a.intersect(b).toString()).toBe('{[5, 10], (20, 25)}');
+        expect(a.subtract(b).toString()).toBe('{[0, 5), [25, 30)}');
+    });
+
+    test('IP allow-list', () => {
+        const ip = (s: string) => s.split('.').reduce((n, part) => n * 256 + Number(part), 0);
+        const allowed = RangeSet.of<number>(byNumber,
+            Range.closed(ip('10.0.0.0'), ip('10.255.255.255')),
+            Range.closed(ip('192.168.1.0'), ip('192.168.1.255')),
+        ).remove(Range.singleton(ip('10.0.0.1')));
+        expect(allowed.contains(ip('10.1.2.3'))).toBe(true);
+        expect(allowed.contains(ip('10.0.0.1'))).toBe(false);
+        expect(allowed.contains(ip('192.168.2.1'))).toBe(false);
+    });
+});
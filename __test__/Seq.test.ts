@@ -0,0 +1,120 @@
+import Seq from '../src/Seqs/Seq';
+import Vector from '../src/Arrays/Vector';
+import LinkedList from '../src/LinkedLists/LinkedList';
+import ArrayList from '../src/Arrays/ArrayList';
+import HashMap from '../src/Maps/HashMap';
+import TreeMap from '../src/Trees/TreeMap';
+import TreeSet from '../src/Trees/TreeSet';
+import HashSet from '../src/Sets/HashSet';
+import OrderedMap from '../src/Maps/OrderedMap';
+import HashMultimap from '../src/Multimaps/HashMultimap';
+import EqualityComparer from '../src/Interfaces/EqualityComparer';
+
+describe('Seq', () => {
+    test('nothing is evaluated until a terminal operation, which stops early', () => {
+        const calls: number[] = [];
+        const seq = Vector.of(1, 2, 3, 4, 5, 6).toSeq()
+            .map(n => { calls.push(n); return n * 10; })
+            .filter(n => n > 20);
+        expect(calls).toEqual([]);
+        expect(seq.find(n => n % 40 === 0)).toBe(40);
+        expect(calls).toEqual([1, 2, 3, 4]);
+        expect(seq.toArray()).toEqual([30, 40, 50, 60]);
+    });
+
+    test('map and filter chains run in a single pass in order', () => {
+        const log: string[] = [];
+        const result = Seq.of(1, 2, 3)
+            .map(n => { log.push(`map ${n}`); return n + 1; })
+            .filter(n => { log.push(`filter ${n}`); return n % 2 === 0; })
+            .map((n, i) => `${i}:${n}`)
+            .toArray();
+        expect(result).toEqual(['0:2', '1:4']);
+        expect(log).toEqual(['map 1', 'filter 2', 'map 2', 'filter 3', 'map 3', 'filter 4']);
+    });
+
+    test('infinite sequences', () => {
+        expect(Seq.range(0).take(4).toArray()).toEqual([0, 1, 2, 3]);
+        expect(Seq.range(10, 0, -3).toArray()).toEqual([10, 7, 4, 1]);
+        expect(Seq.range(0, 5, 2).toArray()).toEqual([0, 2, 4]);
+        expect(Seq.repeat('x').take(3).join('')).toBe('xxx');
+        expect(Seq.repeat('y', 2).toArray()).toEqual(['y', 'y']);
+        expect(Seq.iterate(1, n => n * 2).filter(n => n > 100).first()).toBe(128);
+        expect(Seq.iterate(1, n => n + 1).takeWhile(n => n < 4).toArray()).toEqual([1, 2, 3]);
+        expect(Seq.range(1).some(n => n > 1000)).toBe(true);
+        expect(Seq.range(1).every(n => n < 5)).toBe(false);
+        expect(() => Seq.range(0, 10, 0)).toThrow(RangeError);
+    });
+
+    test('take and flatMap do not read past what they need', () => {
+        let pulled = 0;
+        const counted = Seq.iterate(0, n => { pulled++; return n + 1; });
+        expect(counted.flatMap(n => [n, n]).take(5).toArray()).toEqual([0, 0, 1, 1, 2]);
+        expect(pulled).toBe(2);
+        expect(Seq.of(1, 2).take(0).isEmpty()).toBe(true);
+    });
+
+    test('drop, dropWhile, concat, zip and distinct', () => {
+        const seq = Seq.of(1, 2, 3, 1, 2, 5);
+        expect(seq.drop(4).toArray()).toEqual([2, 5]);
+        expect(seq.dropWhile(n => n < 3).toArray()).toEqual([3, 1, 2, 5]);
+        expect(seq.distinct().toArray()).toEqual([1, 2, 3, 5]);
+        expect(seq.take(2).concat(['a'], Seq.of('b')).toArray()).toEqual([1, 2, 'a', 'b']);
+        expect(Seq.range(0).zip(['a', 'b']).toArray()).toEqual([[0, 'a'], [1, 'b']]);
+        expect(seq.reduce((sum, n) => sum + n, 0)).toBe(14);
+        expect(seq.count()).toBe(6);
+        expect(seq.toString()).toBe('Seq [1, 2, 3, 1, 2, 5]');
+    });
+
+    test('distinct compares values with equals and hashCode', () => {
+        class Point implements EqualityComparer<Point> {
+            constructor(readonly x: number, readonly y: number) {}
+            equals(o: Object): boolean {
+                return o instanceof Point && o.x === this.x && o.y === this.y;
+            }
+            hashCode(): number {
+                return 31 * this.x + this.y;
+            }
+        }
+        const points = Seq.of(new Point(1, 2), new Point(3, 4), new Point(1, 2), new Point(3, 4)).distinct().toArray();
+        expect(points).toHaveLength(2);
+        expect(points.map(p => [p.x, p.y])).toEqual([[1, 2], [3, 4]]);
+        expect(Seq.of(Vector.of(1, 2), Vector.of(1, 2), Vector.of(2)).distinct().count()).toBe(2);
+    });
+
+        test('a Seq can be iterated again and reads its persistent source each time', () => {
+        const list = LinkedList.of(3, 1, 2);
+        const seq = list.toSeq().map(n => n * 2);
+        expect(seq.toArray()).toEqual([6, 2, 4]);
+        expect(seq.toArray()).toEqual([6, 2, 4]);
+        expect(Seq.from(seq)).toBe(seq);
+    });
+
+    test('conversions', () => {
+        const seq = Seq.of(3, 1, 2, 3);
+        expect(seq.toVector()).toBeInstanceOf(Vector);
+        expect(seq.toVector().toArray()).toEqual([3, 1, 2, 3]);
+        expect(seq.toArrayList()).toBeInstanceOf(ArrayList);
+        expect(seq.toLinkedList().toArray()).toEqual([3, 1, 2, 3]);
+        expect(seq.toHashSet().equals(HashSet.of(1, 2, 3))).toBe(true);
+        expect(seq.toTreeSet().toArray()).toEqual([1, 2, 3]);
+        expect(seq.toTreeSet((a, b) => b - a).toArray()).toEqual([3, 2, 1]);
+        expect(seq.toOrderedSet().toArray()).toEqual([3, 1, 2]);
+
+        const pairs = seq.map(n => [`k${n}`, n] as [string, number]);
+        expect(pairs.toHashMap().get('k3')).toBe(3);
+        expect(pairs.toTreeMap().keys()).toEqual(['k1', 'k2', 'k3']);
+        expect(pairs.toOrderedMap().keys()).toEqual(['k3', 'k1', 'k2']);
+    });
+
+    test('toSeq() on maps, sets and multimaps', () => {
+        const map = HashMap.of<string, number>(['a', 1], ['b', 2], ['c', 3]);
+        const doubled = map.toSeq().filter(([, v]) => v > 1).map(([k, v]) => [k, v * 2] as [string, number]);
+        expect(doubled.toTreeMap().entries()).toEqual([['b', 4], ['c', 6]]);
+        expect(map).toEqual(HashMap.of<string, number>(['a', 1], ['b', 2], ['c', 3]));
+        expect(TreeMap.of<number, string>(TreeMap.defaultComparator, [2, 'b'], [1, 'a']).toSeq().first()).toEqual([1, 'a']);
+        expect(TreeSet.of<number>(TreeSet.defaultComparator, 5, 4).toSeq().map(n => n + 1).toArray()).toEqual([5, 6]);
+        expect(OrderedMap.of<string, number>(['z', 1]).toSeq().toArray()).toEqual([['z', 1]]);
+        expect(HashMultimap.empty<string, number>().put('a', 1).put('a', 2).toSeq().count()).toBe(2);
+    });
+});
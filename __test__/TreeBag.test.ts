@@ -0,0 +1,106 @@
+import TreeBag from '../src/Bags/TreeBag';
+
+const byNumber = (a: number, b: number) => a - b;
+
+describe('TreeBag', () => {
+    test('iterates in sorted order with every occurrence', () => {
+        const bag = TreeBag.of<number>(byNumber, 5, 1, 3, 1, 5, 5);
+        expect(bag.toArray()).toEqual([1, 1, 3, 5, 5, 5]);
+        expect(bag.uniqueItems()).toEqual([1, 3, 5]);
+        expect(bag.itemCounts()).toEqual([[1, 2], [3, 1], [5, 3]]);
+        expect(bag.get(3)).toBe(5);
+        expect(bag.toString()).toBe('{1: 2, 3: 1, 5: 3}');
+    });
+
+    test('add(), remove() and count()', () => {
+        let bag = TreeBag.empty<string>().add('b', 2).add('a');
+        expect(bag.size()).toBe(3);
+        bag = bag.remove('b');
+        expect(bag.count('b')).toBe(1);
+        expect(bag.remove('b').has('b')).toBe(false);
+        expect(bag.distinctSize()).toBe(2);
+    });
+
+    test('uses the comparator to count equal items', () => {
+        const byLength = (a: string, b: string) => a.length - b.length;
+        const bag = TreeBag.of<string>(byLength, 'ab', 'cd', 'e');
+        expect(bag.count('xy')).toBe(2);
+        expect(bag.sort().getComparator()).toBe(byLength);
+        expect(bag.sort((a, b) => b.length - a.length).toArray().map(s => s.length)).toEqual([2, 2, 1]);
+    });
+
+    test('mostCommon() breaks ties in sorted order', () => {
+        const bag = TreeBag.of<number>(byNumber, 3, 3, 1, 1, 2, 4, 4, 4);
+        expect(bag.mostCommon(3)).toEqual([[4, 3], [1, 2], [3, 2]]);
+    });
+
+    test('multiset operations', () => {
+        const a = TreeBag.of<number>(byNumber, 1, 1, 2);
+        const b = TreeBag.of<number>(byNumber, 1, 2, 2, 3);
+        expect(a.union(b).toArray()).toEqual([1, 1, 2, 2, 3]);
+        expect(a.intersect(b).toArray()).toEqual([1, 2]);
+        expect(a.sum(b).toArray()).toEqual([1, 1, 1, 2, 2, 2, 3]);
+        expect(a.difference(b).toArray()).toEqual([1]);
+        expect(a.union(b)).toBeInstanceOf(TreeBag);
+    });
+
+    test('equals()', () => {
+        const a = TreeBag.of<number>(byNumber, 2, 1, 2);
+        expect(a.equals(TreeBag.of<number>(byNumber, 1, 2, 2))).toBe(true);
+        expect(a.hashCode()).toBe(TreeBag.of<number>(byNumber, 1, 2, 2).hashCode());
+        expect(a.equals(TreeBag.of<number>(byNumber, 1, 2))).toBe(false);
+    });
+});
+
+describe('TreeBag navigation', () => {
+    const bag = TreeBag.of<number>(byNumber, 10, 20, 20, 30, 30, 30, 40);
+
+    test('findMin(), findMax(), deleteMin() and deleteMax()', () => {
+        expect(bag.findMin()).toBe(10);
+        expect(bag.findMax()).toBe(40);
+        expect(bag.deleteMin().findMin()).toBe(20);
+        expect(bag.deleteMin().deleteMin().count(20)).toBe(1);
+        expect(bag.deleteMax().findMax()).toBe(30);
+        expect(TreeBag.empty<number>().deleteMin().isEmpty()).toBe(true);
+    });
+
+    test('predecessor() and successor()', () => {
+        expect(bag.predecessor(30)).toBe(20);
+        expect(bag.successor(30)).toBe(40);
+        expect(bag.weakPredecessor(25)).toBe(20);
+        expect(bag.weakSuccessor(30)).toBe(30);
+        expect(bag.tryPredecessor(10)).toEqual([false, undefined]);
+        expect(bag.trySuccessor(30)).toEqual([true, 40]);
+    });
+
+    test('rank(), select() and median() work on the distinct items', () => {
+        expect(bag.rank(30)).toBe(2);
+        expect(bag.select(2)).toBe(30);
+        expect(bag.entryAt(10)).toBeUndefined();
+        expect(bag.countRange(15, 40)).toBe(2);
+        expect(bag.median()).toBe(20);
+    });
+
+    test('ranges keep the counts', () => {
+        expect(bag.rangeFromTo(20, 40).toArray()).toEqual([20, 20, 30, 30, 30]);
+        expect(bag.rangeFromTo(20, 40).size()).toBe(5);
+        expect(bag.rangeFrom(30).size()).toBe(4);
+        expect(bag.rangeTo(30).toArray()).toEqual([10, 20, 20]);
+        expect(bag.removeRangeFromTo(20, 40).toArray()).toEqual([10, 40]);
+        expect(bag.removeRangeFrom(30).size()).toBe(3);
+        expect(bag.removeRangeTo(30).size()).toBe(4);
+        expect(bag.cut(x => x, 20, 30).toArray()).toEqual([20, 20]);
+    });
+
+    test('range sizes stay right after edits to a bag whose ranges were counted', () => {
+        let big = TreeBag.empty<number>(byNumber);
+        for (let i = 0; i < 1_000; i++) big = big.add(i % 100, 1 + (i % 3));
+        const count = (b: TreeBag<number>) => b.toArray().length;
+        expect(big.rangeFromTo(10, 60).size()).toBe(count(big.rangeFromTo(10, 60)));
+
+        const edited = big.add(25, 7).remove(30, 2).setCount(99, 0).add(500);
+        for (const range of [edited.rangeFromTo(10, 60), edited.rangeFrom(50), edited.rangeTo(40), edited.removeRangeFromTo(20, 80)]) {
+            expect(range.size()).toBe(count(range));
+        }
+    });
+});
@@ -0,0 +1,45 @@
+import TreeBiMap from '../src/Maps/TreeBiMap';
+import TreeMap from '../src/Trees/TreeMap';
+
+describe('TreeBiMap', () => {
+    test('iterates in the order of the keys, and its inverse in the order of the values', () => {
+        const ids = TreeBiMap.of<number, string>([3, 'a'], [1, 'c'], [2, 'b']);
+        expect(ids.keys()).toEqual([1, 2, 3]);
+        expect(ids.inverse().keys()).toEqual(['a', 'b', 'c']);
+        expect(ids.findMin()).toEqual([1, 'c']);
+        expect(ids.inverse().findMax()).toEqual(['c', 1]);
+        expect(ids.toString()).toBe('{1: c, 2: b, 3: a}');
+    });
+
+    test('put() and forcePut()', () => {
+        const ids = TreeBiMap.of<number, string>([1, 'a'], [2, 'b']);
+        expect(() => ids.put(3, 'a')).toThrow(Error);
+        const forced = ids.forcePut(3, 'a');
+        expect(forced.entries()).toEqual([[2, 'b'], [3, 'a']]);
+        expect(forced.getKey('a')).toBe(3);
+        expect(ids.put(1, 'z').inverse().entries()).toEqual([['b', 2], ['z', 1]]);
+    });
+
+    test('comparators trade places in the inverse', () => {
+        const desc = (a: number, b: number) => b - a;
+        const ids = TreeBiMap.empty<number, string>(desc).put(1, 'x').put(2, 'y');
+        expect(ids.keys()).toEqual([2, 1]);
+        expect(ids.getKeyComparator()).toBe(desc);
+        expect(ids.inverse().getValueComparator()).toBe(desc);
+        expect(ids.inverse().inverse()).toBe(ids);
+    });
+
+    test('mapKeys() returns a plain TreeMap', () => {
+        const ids = TreeBiMap.of<number, string>([1, 'a'], [2, 'b']);
+        const parity = ids.mapKeys(key => key % 2);
+        expect(parity).toBeInstanceOf(TreeMap);
+        expect(parity.entries()).toEqual([[0, 'b'], [1, 'a']]);
+    });
+
+    test('equals()', () => {
+        const a = TreeBiMap.of<number, string>([1, 'a'], [2, 'b']);
+        expect(a.equals(TreeBiMap.of<number, string>([2, 'b'], [1, 'a']))).toBe(true);
+        expect(a.equals(a.delete(1))).toBe(false);
+        expect(a.equals(a.inverse())).toBe(false);
+    });
+});
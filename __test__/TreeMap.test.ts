@@ -978,6 +978,16 @@ describe("TreeMap", () => {
         }
     })
 
+    test('monotoneCut()', () => {
+        // 10 has the same cut value as 12 and is kept, 40 has the same cut value as 41 and is left out
+        const cutFunction = (k: number) => Math.floor(k / 10);
+        const result = treeMap.monotoneCut(cutFunction, 12, 41);
+        expect(result.keys()).toEqual(treeMap.cut(cutFunction, 12, 41).keys());
+        expect(result.keys()).toEqual([10, 15, 20, 25, 30]);
+        expect(treeMap.monotoneCut(cutFunction, 41, 12).isEmpty()).toBeTruthy();
+        expect(treeMap.monotoneCut(cutFunction, 200, 300).isEmpty()).toBeTruthy();
+    })
+
     test('rangeFrom()', () => {
         const result = treeMap.rangeFrom(30);
         const expected = [30, 40, 45, 50, 55, 100];
@@ -1098,4 +1108,226 @@ describe('TreeMap isBST()', () => {
         const badTree = node(20, leftSub, node(30));
         expect(badTree.isBST()).toBe(false);
     });
-});
\ No newline at end of file
+});
+describe('TreeMap order statistics (rank, select, countRange, median)', () => {
+    const compare = (a: number, b: number) => a - b;
+    const keys = shuffleArray(Array.from({ length: 200 }, (_, i) => i * 2));
+    const sorted = keys.slice().sort(compare);
+    let map = new TreeMap<number, string>(compare);
+    keys.forEach(k => { map = map.set(k, `v${k}`); });
+
+    test('size is maintained through set and delete', () => {
+        expect(map.size()).toBe(200);
+        expect(map.set(0, "other").size()).toBe(200);
+        expect(map.set(1, "new").size()).toBe(201);
+        let smaller = map;
+        for (let i = 0; i < 50; i++) smaller = smaller.delete(sorted[i]);
+        expect(smaller.size()).toBe(150);
+        expect(smaller.delete(-1).size()).toBe(150);
+        expect(map.size()).toBe(200);
+        expect(map.clear().size()).toBe(0);
+    });
+
+    test('rank counts keys strictly less than the key', () => {
+        expect(map.rank(0)).toBe(0);
+        expect(map.rank(-5)).toBe(0);
+        expect(map.rank(10)).toBe(5);
+        expect(map.rank(11)).toBe(6);
+        expect(map.rank(1000)).toBe(200);
+        expect(new TreeMap<number, string>(compare).rank(3)).toBe(0);
+    });
+
+    test('select and entryAt return entries in key order', () => {
+        sorted.forEach((k, i) => {
+            expect(map.select(i)).toEqual([k, `v${k}`]);
+            expect(map.entryAt(i)).toEqual([k, `v${k}`]);
+            expect(map.rank(k)).toBe(i);
+        });
+        expect(() => map.select(200)).toThrow(RangeError);
+        expect(() => map.select(-1)).toThrow(RangeError);
+        expect(() => map.select(1.5)).toThrow(RangeError);
+        expect(map.entryAt(200)).toBeUndefined();
+        expect(map.entryAt(-1)).toBeUndefined();
+    });
+
+    test('countRange matches rangeFromTo', () => {
+        expect(map.countRange(10, 20)).toBe(map.rangeFromTo(10, 20).size());
+        expect(map.countRange(11, 21)).toBe(5);
+        expect(map.countRange(20, 10)).toBe(0);
+        expect(map.countRange(-100, 1000)).toBe(200);
+    });
+
+    test('median returns the lower median', () => {
+        expect(map.median()).toEqual([198, "v198"]);
+        expect(map.delete(398).median()).toEqual([198, "v198"]);
+        expect(TreeMap.of(compare, [1, "a"], [2, "b"], [3, "c"]).median()).toEqual([2, "b"]);
+        expect(new TreeMap<number, string>(compare).median()).toBeUndefined();
+    });
+});
+
+describe('TreeMap split() and join()', () => {
+    const compare = (a: number, b: number) => a - b;
+    const keys = shuffleArray(Array.from({ length: 300 }, (_, i) => i));
+    let map = new TreeMap<number, number>(compare);
+    keys.forEach(k => { map = map.set(k, k * 10); });
+
+    test('split() partitions around a present and a missing key', () => {
+        for (const key of [0, 1, 77, 150, 299]) {
+            const [less, found, greater] = map.split(key);
+            expect(found).toEqual([key, key * 10]);
+            expect(less.keys()).toEqual(Array.from({ length: key }, (_, i) => i));
+            expect(greater.keys()).toEqual(Array.from({ length: 299 - key }, (_, i) => key + 1 + i));
+            expect(less.validateRedBlackTree()).toBe(true);
+            expect(greater.validateRedBlackTree()).toBe(true);
+            expect(less.size() + greater.size()).toBe(299);
+        }
+        const [less, found, greater] = map.delete(100).split(100);
+        expect(found).toBeUndefined();
+        expect(less.size()).toBe(100);
+        expect(greater.size()).toBe(199);
+        const [emptyLess, emptyFound, emptyGreater] = map.clear().split(1);
+        expect([emptyLess.size(), emptyFound, emptyGreater.size()]).toEqual([0, undefined, 0]);
+    });
+
+    test('join() combines trees of different black heights', () => {
+        const sizes = [0, 1, 2, 5, 17, 64, 200];
+        for (const leftSize of sizes) {
+            for (const rightSize of sizes) {
+                let left = new TreeMap<number, number>(compare);
+                for (let i = 0; i < leftSize; i++) left = left.set(i, i);
+                let right = new TreeMap<number, number>(compare);
+                for (let i = 0; i < rightSize; i++) right = right.set(leftSize + 1 + i, i);
+                const joined = TreeMap.join(left, [leftSize, -1], right);
+                expect(joined.validateRedBlackTree()).toBe(true);
+                expect(joined.isBST()).toBe(true);
+                expect(joined.size()).toBe(leftSize + rightSize + 1);
+                expect(joined.get(leftSize)).toBe(-1);
+                expect(joined.keys()).toEqual(Array.from({ length: leftSize + rightSize + 1 }, (_, i) => i));
+            }
+        }
+    });
+
+    test('join() throws if the trees are not ordered around the pivot', () => {
+        const left = TreeMap.of(compare, [1, 1], [5, 5]);
+        const right = TreeMap.of(compare, [7, 7], [9, 9]);
+        expect(() => TreeMap.join(left, [4, 4], right)).toThrow();
+        expect(() => TreeMap.join(left, [8, 8], right)).toThrow();
+        expect(TreeMap.join(left, [6, 6], right).keys()).toEqual([1, 5, 6, 7, 9]);
+    });
+
+    test('range methods are valid red-black trees matching a filter', () => {
+        const sorted = map.keys();
+        for (const [from, to] of [[0, 300], [10, 20], [-5, 5], [150, 151], [299, 400], [42, 42], [60, 30]]) {
+            const cases: [TreeMap<number, number>, number[]][] = [
+                [map.rangeFrom(from), sorted.filter(k => k >= from)],
+                [map.rangeTo(to), sorted.filter(k => k <= to)],
+                [map.rangeFromTo(from, to), sorted.filter(k => k >= from && k < to)],
+                [map.removeRangeFrom(from), sorted.filter(k => k < from)],
+                [map.removeRangeTo(to), sorted.filter(k => k >= to)],
+                [map.removeRangeFromTo(from, to), sorted.filter(k => !(k >= from && k < to))],
+            ];
+            for (const [result, expected] of cases) {
+                expect(result.keys()).toEqual(expected);
+                expect(result.size()).toBe(expected.length);
+                expect(result.validateRedBlackTree()).toBe(true);
+            }
+        }
+        expect(map.size()).toBe(300);
+    });
+});
+
+describe('TreeMap union(), intersect() and subtract()', () => {
+    const compare = (a: number, b: number) => a - b;
+    const build = (keys: number[], tag: string) => {
+        let map = new TreeMap<number, string>(compare);
+        shuffleArray(keys.slice()).forEach(k => { map = map.set(k, `${tag}${k}`); });
+        return map;
+    };
+    const evens = build(Array.from({ length: 500 }, (_, i) => i * 2), "a");
+    const threes = build(Array.from({ length: 200 }, (_, i) => i * 3), "b");
+
+    test('union() matches inserting every entry, the other value wins', () => {
+        const result = evens.union(threes);
+        let expected = evens;
+        for (const [k, v] of threes) expected = expected.set(k, v);
+        expect(result.entries()).toEqual(expected.entries());
+        expect(result.validateRedBlackTree()).toBe(true);
+        expect(result.get(6)).toBe("b6");
+        expect(result.get(4)).toBe("a4");
+    });
+
+    test('union() resolves conflicts with the callback', () => {
+        const result = evens.union(threes, (oldVal, newVal, key) => `${oldVal}|${newVal}|${key}`);
+        expect(result.get(6)).toBe("a6|b6|6");
+        expect(result.get(3)).toBe("b3");
+        expect(result.size()).toBe(evens.size() + threes.size() - evens.intersect(threes).size());
+    });
+
+    test('union() with a small delta keeps the large tree intact', () => {
+        const delta = build([1, 3, 5], "d");
+        const result = evens.union(delta);
+        expect(result.size()).toBe(503);
+        expect(result.validateRedBlackTree()).toBe(true);
+        expect(evens.size()).toBe(500);
+        expect(evens.union(evens.clear())).toBe(evens);
+        expect(evens.clear().union(evens)).toBe(evens);
+    });
+
+    test('intersect() and subtract() match a filter', () => {
+        const inter = evens.intersect(threes);
+        expect(inter.keys()).toEqual(evens.keys().filter(k => k % 3 === 0 && k < 600));
+        expect(inter.get(6)).toBe("a6");
+        expect(inter.validateRedBlackTree()).toBe(true);
+        const diff = evens.subtract(threes);
+        expect(diff.keys()).toEqual(evens.keys().filter(k => k % 3 !== 0 || k >= 600));
+        expect(diff.validateRedBlackTree()).toBe(true);
+        expect(evens.subtract(evens.clear())).toBe(evens);
+        expect(evens.intersect(evens.clear()).size()).toBe(0);
+    });
+
+    test('set operations accept a tree with a different comparator', () => {
+        let reversed = new TreeMap<number, string>((a, b) => b - a);
+        [1, 2, 3, 4].forEach(k => { reversed = reversed.set(k, `r${k}`); });
+        expect(evens.union(reversed).rangeTo(4).entries()).toEqual([[0, "a0"], [1, "r1"], [2, "r2"], [3, "r3"], [4, "r4"]]);
+        expect(evens.intersect(reversed).keys()).toEqual([2, 4]);
+        expect(evens.subtract(reversed).rangeTo(6).keys()).toEqual([0, 6]);
+    });
+
+    test('merge() and mergeWith() with TreeMaps and other collections', () => {
+        const merged = evens.merge(threes, [[1, "c1"]]);
+        expect(merged.get(6)).toBe("b6");
+        expect(merged.get(1)).toBe("c1");
+        const mergedWith = evens.mergeWith((a, b) => a + b, threes, [[6, "c"]]);
+        expect(mergedWith.get(6)).toBe("a6b6c");
+        expect(mergedWith.validateRedBlackTree()).toBe(true);
+    });
+});
+
+describe('TreeMap diff()', () => {
+    const compare = (a: number, b: number) => a - b;
+    let base = new TreeMap<number, string>(compare);
+    for (let i = 0; i < 1000; i++) base = base.set(i, `v${i}`);
+
+    test('identical maps have no changes', () => {
+        expect([...base.diff(base)]).toEqual([]);
+        expect([...base.diff(base.set(10, "v10"))]).toEqual([]);
+    });
+
+    test('reports changes in key order', () => {
+        const next = base.set(700, "x").delete(3).set(-1, "neg").set(1000, "end");
+        expect([...base.diff(next)]).toEqual([
+            { type: "added", key: -1, value: "neg" },
+            { type: "removed", key: 3, value: "v3" },
+            { type: "changed", key: 700, oldValue: "v700", newValue: "x" },
+            { type: "added", key: 1000, value: "end" },
+        ]);
+    });
+
+    test('works between maps that do not share structure', () => {
+        let other = new TreeMap<number, string>((a, b) => b - a);
+        for (let i = 0; i < 1000; i += 2) other = other.set(i, `v${i}`);
+        const changes = [...base.diff(other)];
+        expect(changes.length).toBe(500);
+        expect(changes.every((c, i) => c.type === "removed" && c.key === 2 * i + 1)).toBe(true);
+    });
+});
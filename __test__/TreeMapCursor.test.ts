@@ -0,0 +1,81 @@
+import TreeMap from '../src/Trees/TreeMap';
+import TreeMapCursor from '../src/Trees/TreeMapCursor';
+
+function squares(...keys: number[]): TreeMap<number, number> {
+    let map = new TreeMap<number, number>(TreeMap.defaultComparator);
+    for (const key of keys) map = map.set(key, key * key);
+    return map;
+}
+
+describe('TreeMapCursor', () => {
+    const map = squares(50, 10, 40, 20, 30);
+
+    test('cursorAt(), cursorAfter() and cursorBefore() place the cursor', () => {
+        expect(map.cursorAt(30)).toBeInstanceOf(TreeMapCursor);
+        expect(map.cursorAt(30).peek()).toEqual([30, 900]);
+        expect(map.cursorAt(25).peek()).toEqual([30, 900]);
+        expect(map.cursorAfter(30).peek()).toEqual([40, 1600]);
+        expect(map.cursorBefore(30).peek()).toEqual([20, 400]);
+        expect(map.cursorAt(60).peek()).toBeUndefined();
+        expect(map.cursorBefore(10).peek()).toBeUndefined();
+        expect(new TreeMap<number, number>().cursorAt(1).peek()).toBeUndefined();
+    });
+
+    test('next() and prev() walk in both directions and come back from the ends', () => {
+        const cursor = map.cursorAt(40);
+        expect(cursor.next()).toEqual([50, 2500]);
+        expect(cursor.next()).toBeUndefined();
+        expect(cursor.next()).toBeUndefined();
+        expect(cursor.prev()).toEqual([50, 2500]);
+        expect(cursor.prev()).toEqual([40, 1600]);
+        const keys: number[] = [];
+        for (let entry = cursor.peek(); entry !== undefined; entry = cursor.prev()) keys.push(entry[0]);
+        expect(keys).toEqual([40, 30, 20, 10]);
+        expect(cursor.prev()).toBeUndefined();
+        expect(cursor.next()).toEqual([10, 100]);
+    });
+
+    test('seek() moves to a key in either direction', () => {
+        const cursor = map.cursorAt(10);
+        expect(cursor.seek(35)).toEqual([40, 1600]);
+        expect(cursor.next()).toEqual([50, 2500]);
+        expect(cursor.seek(20)).toEqual([20, 400]);
+        expect(cursor.seekAfter(20)).toEqual([30, 900]);
+        expect(cursor.seekBefore(20)).toEqual([10, 100]);
+        expect(cursor.seek(99)).toBeUndefined();
+        expect(cursor.prev()).toEqual([50, 2500]);
+    });
+
+    test('walks a large tree in order and keeps reading its version of the map', () => {
+        const keys = Array.from({ length: 10000 }, (_, i) => i);
+        const large = squares(...keys);
+        const cursor = large.cursorAt(0);
+        const edited = large.delete(1);
+        const seen: number[] = [];
+        for (let entry = cursor.peek(); entry !== undefined; entry = cursor.next()) seen.push(entry[0]);
+        expect(seen).toEqual(keys);
+        expect(edited.cursorAt(1).peek()).toEqual([2, 4]);
+    });
+
+    test('merge-join of two maps in lockstep', () => {
+        const left = squares(1, 3, 4, 7, 9);
+        const right = squares(2, 3, 7, 8, 9, 10);
+        const a = left.cursorAt(1);
+        const b = right.cursorAt(1);
+        const common: number[] = [];
+        while (a.peek() !== undefined && b.peek() !== undefined) {
+            const [x] = a.peek()!;
+            const [y] = b.peek()!;
+            if (x === y) {
+                common.push(x);
+                a.next();
+                b.next();
+            } else if (x < y) {
+                a.seek(y);
+            } else {
+                b.seek(x);
+            }
+        }
+        expect(common).toEqual([3, 7, 9]);
+    });
+});
@@ -0,0 +1,86 @@
+import TreeMap from '../src/Trees/TreeMap';
+import TreeMapView from '../src/Trees/TreeMapView';
+
+function numbers(n: number): TreeMap<number, string> {
+    let map = new TreeMap<number, string>(TreeMap.defaultComparator);
+    for (let i = 1; i <= n; i++) map = map.set(i * 10, `v${i * 10}`);
+    return map;
+}
+
+describe('TreeMapView', () => {
+    test('subMap(), headMap() and tailMap() honour the inclusive flags', () => {
+        const map = numbers(5);
+        expect(map.subMap(20, true, 40, false).keys()).toEqual([20, 30]);
+        expect(map.subMap(20, false, 40, true).keys()).toEqual([30, 40]);
+        expect(map.subMap(15, true, 35, true).keys()).toEqual([20, 30]);
+        expect(map.subMap(30, false, 30, false).isEmpty()).toBe(true);
+        expect(map.headMap(30).keys()).toEqual([10, 20]);
+        expect(map.headMap(30, true).keys()).toEqual([10, 20, 30]);
+        expect(map.tailMap(30).keys()).toEqual([30, 40, 50]);
+        expect(map.tailMap(30, false).keys()).toEqual([40, 50]);
+        expect(map.subMap(20, true, 40, true).size()).toBe(3);
+        expect(() => map.subMap(40, true, 20, true)).toThrow(RangeError);
+    });
+
+    test('reads and navigation stay within the bounds', () => {
+        const view = numbers(10).subMap(30, true, 70, false);
+        expect(view).toBeInstanceOf(TreeMapView);
+        expect(view.get(30)).toBe('v30');
+        expect(view.get(70)).toBeUndefined();
+        expect(view.has(20)).toBe(false);
+        expect(view.findMin()).toEqual([30, 'v30']);
+        expect(view.findMax()).toEqual([60, 'v60']);
+        expect(view.successor(60)).toBeUndefined();
+        expect(view.predecessor(40)).toEqual([30, 'v30']);
+        expect(view.rank(50)).toBe(2);
+        expect(view.select(3)).toEqual([60, 'v60']);
+        expect(view.rangeFrom(55).keys()).toEqual([60]);
+        expect(view.headMap(50).tailMap(40).keys()).toEqual([40]);
+        expect(() => view.headMap(80)).toThrow(RangeError);
+    });
+
+    test('descendingMap() and descendingKeys() reverse the order', () => {
+        const map = numbers(4);
+        const desc = map.descendingMap();
+        expect(desc.keys()).toEqual([40, 30, 20, 10]);
+        expect(Array.from(map.descendingKeys())).toEqual([40, 30, 20, 10]);
+        expect(desc.findMin()).toEqual([40, 'v40']);
+        expect(desc.successor(30)).toEqual([20, 'v20']);
+        expect(desc.headMap(20).keys()).toEqual([40, 30]);
+        expect(desc.subMap(30, true, 10, false).keys()).toEqual([30, 20]);
+        expect(desc.descendingMap().keys()).toEqual([10, 20, 30, 40]);
+        expect(desc.toString()).toBe('{40: v40, 30: v30, 20: v20, 10: v10}');
+    });
+
+    test('editing a view edits the map and returns a bounded view', () => {
+        const map = numbers(5);
+        const view = map.subMap(20, true, 40, true);
+        const edited = view.set(25, 'x').delete(30).delete(50);
+        expect(edited.keys()).toEqual([20, 25, 40]);
+        expect(edited.getMap().keys()).toEqual([10, 20, 25, 40, 50]);
+        expect(view.keys()).toEqual([20, 30, 40]);
+        expect(map.keys()).toEqual([10, 20, 30, 40, 50]);
+        expect(() => view.set(45, 'y')).toThrow(RangeError);
+        expect(view.clear().getMap().keys()).toEqual([10, 50]);
+        expect(view.deleteMin().getMap().keys()).toEqual([10, 30, 40, 50]);
+        expect(view.descendingMap().deleteMin().keys()).toEqual([30, 20]);
+    });
+
+    test('large maps are not copied', () => {
+        const map = numbers(20000);
+        const view = map.subMap(50000, true, 50100, true);
+        expect(view.getMap()).toBe(map);
+        expect(view.size()).toBe(11);
+        expect(view.keys()[10]).toBe(50100);
+    });
+
+    test('equals(), hashCode() and conversions', () => {
+        const a = numbers(5).subMap(10, true, 30, true);
+        const b = numbers(3).headMap(30, true);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.equals(a.descendingMap())).toBe(false);
+        expect(a.toTreeMap().equals(numbers(3))).toBe(true);
+        expect(a.toSeq().map(([key]) => key).toArray()).toEqual([10, 20, 30]);
+    });
+});
@@ -0,0 +1,41 @@
+import TreeMultimap from '../src/Multimaps/TreeMultimap';
+import TreeBag from '../src/Bags/TreeBag';
+
+describe('TreeMultimap', () => {
+    test('keys and values are sorted', () => {
+        const multimap = TreeMultimap.of<string, number>(['b', 3], ['a', 2], ['b', 1], ['a', 2]);
+        expect(multimap.entries()).toEqual([['a', 2], ['b', 1], ['b', 3]]);
+        expect(multimap.keys()).toEqual(['a', 'b']);
+        expect(multimap.get('b').toArray()).toEqual([1, 3]);
+        expect(multimap.toString()).toBe('{a: [2], b: [1, 3]}');
+    });
+
+    test('uses the comparators', () => {
+        const descending = (a: number, b: number) => b - a;
+        const multimap = TreeMultimap.empty<number, number>(descending, descending)
+            .put(1, 1).put(2, 1).put(2, 5);
+        expect(multimap.entries()).toEqual([[2, 5], [2, 1], [1, 1]]);
+        expect(multimap.getKeyComparator()).toBe(descending);
+    });
+
+    test('remove() and removeAll() drop empty buckets', () => {
+        const multimap = TreeMultimap.of<string, number>(['a', 1], ['b', 2], ['b', 3]);
+        expect(multimap.remove('a', 1).keys()).toEqual(['b']);
+        expect(multimap.remove('b', 2).remove('b', 3).size()).toBe(1);
+        expect(multimap.removeAll('b').entries()).toEqual([['a', 1]]);
+    });
+
+    test('keyCounts() and inverse()', () => {
+        const multimap = TreeMultimap.of<string, number>(['x', 2], ['y', 1], ['x', 1]);
+        const counts = multimap.keyCounts();
+        expect(counts).toBeInstanceOf(TreeBag);
+        expect(counts.itemCounts()).toEqual([['x', 2], ['y', 1]]);
+        expect(multimap.inverse().entries()).toEqual([[1, 'x'], [1, 'y'], [2, 'x']]);
+    });
+
+    test('equals()', () => {
+        const a = TreeMultimap.of<string, number>(['a', 1], ['a', 2]);
+        expect(a.equals(TreeMultimap.of<string, number>(['a', 2], ['a', 1]))).toBe(true);
+        expect(a.equals(TreeMultimap.of<string, number>(['a', 2]))).toBe(false);
+    });
+});
@@ -509,6 +509,16 @@ describe("TreeSet", () => {
         expect(res3.toArray()).toEqual(['20', '30']);
     })
 
+    test('monotoneCut()', () => {
+        const tree = TreeSet.of<number>(compareNumber, 5, 12, 18, 25, 31, 47);
+        const tens = (x: number) => Math.floor(x / 10);
+        expect(tree.monotoneCut(tens, 15, 35).toArray()).toEqual([12, 18, 25]);
+        expect(tree.monotoneCut(tens, 15, 35).toArray()).toEqual(tree.cut(tens, 15, 35).toArray());
+        expect(tree.monotoneCut(tens, 60, 70).size()).toBe(0);
+        // cut() stays a filter for cut functions that are not monotone
+        expect(tree.cut((x: number) => x % 3, 1, 2).toArray()).toEqual([25, 31]);
+    })
+
     test('rangeFrom()', () => {
         const tree1 = TreeSet.of<number>(compareNumber, 10, 20, 30, 40, 50, 60);
         const res1 = tree1.rangeFrom(30);
@@ -585,4 +595,71 @@ describe("TreeSet", () => {
         const res3 = tree1.removeRangeFromTo(0, 96);
         expect(res3.toArray()).toEqual([96])
     })
-});
\ No newline at end of file
+});
+
+describe("TreeSet order statistics (rank, select, countRange, median)", () => {
+    const compare = (a: number, b: number) => a - b;
+    const set = TreeSet.of(compare, ...shuffleArray(Array.from({ length: 100 }, (_, i) => i * 10)));
+
+    test("rank, select and entryAt", () => {
+        expect(set.size()).toBe(100);
+        expect(set.rank(0)).toBe(0);
+        expect(set.rank(55)).toBe(6);
+        expect(set.select(6)).toBe(60);
+        expect(set.entryAt(99)).toBe(990);
+        expect(set.entryAt(100)).toBeUndefined();
+        expect(() => set.select(100)).toThrow(RangeError);
+    });
+
+    test("countRange and median", () => {
+        expect(set.countRange(100, 200)).toBe(10);
+        expect(set.countRange(100, 200)).toBe(set.rangeFromTo(100, 200).size());
+        expect(set.median()).toBe(490);
+        expect(set.add(1000).median()).toBe(500);
+        expect(set.clear().median()).toBeUndefined();
+    });
+});
+
+describe("TreeSet join-based union(), intersect() and subtract()", () => {
+    const compare = (a: number, b: number) => a - b;
+    const large = TreeSet.of(compare, ...shuffleArray(Array.from({ length: 1000 }, (_, i) => i)));
+    const small = TreeSet.of<number>(compare, -2, 5, 500, 1500);
+
+    test("union() with a TreeSet and an array", () => {
+        const result = large.union(small, [2000]);
+        expect(result.size()).toBe(1003);
+        expect(result.toArray().slice(0, 2)).toEqual([-2, 0]);
+        expect(result.toArray().slice(-2)).toEqual([1500, 2000]);
+        expect(result.validateRedBlackTree()).toBe(true);
+    });
+
+    test("intersect() and subtract()", () => {
+        expect(large.intersect(small).toArray()).toEqual([5, 500]);
+        expect(small.intersect(large, [500, 1500]).toArray()).toEqual([500]);
+        const diff = large.subtract(small, [0, 999]);
+        expect(diff.size()).toBe(996);
+        expect(diff.has(5)).toBe(false);
+        expect(diff.has(0)).toBe(false);
+        expect(diff.validateRedBlackTree()).toBe(true);
+        expect(small.subtract(large).toArray()).toEqual([-2, 1500]);
+    });
+});
+
+describe("TreeSet cursors", () => {
+    const set = TreeSet.of<number>((a, b) => a - b, 5, 1, 4, 2, 3);
+
+    test("cursorAt(), cursorAfter() and cursorBefore() walk the values", () => {
+        const cursor = set.cursorAt(2);
+        expect(cursor.peek()).toBe(2);
+        expect(cursor.next()).toBe(3);
+        expect(cursor.prev()).toBe(2);
+        expect(cursor.prev()).toBe(1);
+        expect(cursor.prev()).toBeUndefined();
+        expect(cursor.next()).toBe(1);
+        expect(cursor.seek(5)).toBe(5);
+        expect(cursor.next()).toBeUndefined();
+        expect(set.cursorAfter(2).peek()).toBe(3);
+        expect(set.cursorBefore(2).peek()).toBe(1);
+        expect(set.cursorAt(6).prev()).toBe(5);
+    });
+});
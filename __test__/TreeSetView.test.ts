@@ -0,0 +1,56 @@
+import TreeSet from '../src/Trees/TreeSet';
+import TreeSetView from '../src/Trees/TreeSetView';
+
+describe('TreeSetView', () => {
+    const set = TreeSet.of<number>(TreeSet.defaultComparator, 1, 2, 3, 4, 5, 6);
+
+    test('subSet(), headSet(), tailSet() and descendingSet()', () => {
+        expect(set.subSet(2, true, 5, false).toArray()).toEqual([2, 3, 4]);
+        expect(set.subSet(2, false, 5, true).toArray()).toEqual([3, 4, 5]);
+        expect(set.headSet(3).toArray()).toEqual([1, 2]);
+        expect(set.headSet(3, true).toArray()).toEqual([1, 2, 3]);
+        expect(set.tailSet(5).toArray()).toEqual([5, 6]);
+        expect(set.tailSet(5, false).toArray()).toEqual([6]);
+        expect(set.descendingSet().toArray()).toEqual([6, 5, 4, 3, 2, 1]);
+        expect(set.headSet(4).descendingSet().toString()).toBe('{3, 2, 1}');
+        expect(set.subSet(2, true, 5, true)).toBeInstanceOf(TreeSetView);
+        expect(() => set.headSet(3).tailSet(4)).toThrow(RangeError);
+    });
+
+    test('sorted queries in the order of the view', () => {
+        const view = set.subSet(2, true, 5, true);
+        expect(view.size()).toBe(4);
+        expect(view.has(1)).toBe(false);
+        expect(view.findMin()).toBe(2);
+        expect(view.findMax()).toBe(5);
+        expect(view.successor(5)).toBeUndefined();
+        expect(view.rank(4)).toBe(2);
+        expect(view.rangeTo(4).toArray()).toEqual([2, 3]);
+        const desc = view.descendingSet();
+        expect(desc.findMin()).toBe(5);
+        expect(desc.successor(4)).toBe(3);
+        expect(desc.rangeFrom(3).toArray()).toEqual([3, 2]);
+        expect(desc.select(0)).toBe(5);
+    });
+
+    test('editing a view edits the set within the bounds', () => {
+        const view = set.tailSet(4);
+        const edited = view.add(10).delete(5).delete(1);
+        expect(edited.toArray()).toEqual([4, 6, 10]);
+        expect(edited.getSet().toArray()).toEqual([1, 2, 3, 4, 6, 10]);
+        expect(set.toArray()).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(() => view.add(0)).toThrow(RangeError);
+        expect(view.clear().getSet().toArray()).toEqual([1, 2, 3]);
+        expect(view.filter(v => v % 2 === 0).getSet().toArray()).toEqual([1, 2, 3, 4, 6]);
+    });
+
+    test('equals() and conversions', () => {
+        const a = set.headSet(3, true);
+        const b = TreeSet.of<number>(TreeSet.defaultComparator, 3, 2, 1, 9).headSet(9);
+        expect(a.equals(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+        expect(a.toTreeSet()).toBeInstanceOf(TreeSet);
+        expect(a.descendingSet().toTreeSet().toArray()).toEqual([3, 2, 1]);
+        expect(a.toSeq().map(v => v * 2).toArray()).toEqual([2, 4, 6]);
+    });
+});
@@ -0,0 +1,104 @@
+import TrieMap from '../src/Tries/TrieMap';
+import HashMap from '../src/Maps/HashMap';
+
+const routes = () => TrieMap.of<string>(
+    ['/api/users', 'users'],
+    ['/api/orders', 'orders'],
+    ['/api', 'api'],
+    ['/about', 'about'],
+);
+
+describe('TrieMap', () => {
+    test('set(), get() and iteration in key order', () => {
+        const map = routes();
+        expect(map.size()).toBe(4);
+        expect(map.get('/api/users')).toBe('users');
+        expect(map.get('/api/user')).toBeUndefined();
+        expect(map.has('/a')).toBe(false);
+        expect(map.keys()).toEqual(['/about', '/api', '/api/orders', '/api/users']);
+        expect(map.getRoot()).toEqual(['/about', 'about']);
+        expect(map.toString()).toBe('{/about: about, /api: api, /api/orders: orders, /api/users: users}');
+    });
+
+    test('the empty string is a key', () => {
+        const map = TrieMap.of<number>(['', 0], ['a', 1]);
+        expect(map.get('')).toBe(0);
+        expect(map.delete('').keys()).toEqual(['a']);
+        expect(map.longestPrefixOf('xyz')).toBe('');
+    });
+
+    test('has() finds keys with an undefined value', () => {
+        const map = TrieMap.of<undefined>(['ab', undefined]);
+        expect(map.has('ab')).toBe(true);
+        expect(map.has('a')).toBe(false);
+    });
+
+    test('updates do not change the original map', () => {
+        const map = routes();
+        const updated = map.set('/api/users', 'people').delete('/about').set('/apis', 'apis');
+        expect(updated.keys()).toEqual(['/api', '/api/orders', '/api/users', '/apis']);
+        expect(updated.get('/api/users')).toBe('people');
+        expect(map.get('/api/users')).toBe('users');
+        expect(map.size()).toBe(4);
+        expect(map.delete('/nope')).toBe(map);
+    });
+
+    test('getPrefix() and countPrefix()', () => {
+        const map = routes();
+        const api = map.getPrefix('/api/');
+        expect(api.keys()).toEqual(['/api/orders', '/api/users']);
+        expect(api.set('/api/items', 'items').keys()).toEqual(['/api/items', '/api/orders', '/api/users']);
+        expect(map.getPrefix('/ap').size()).toBe(3);
+        expect(map.getPrefix('/x').isEmpty()).toBe(true);
+        expect(map.getPrefix('')).toBe(map);
+        expect(map.countPrefix('/a')).toBe(4);
+        expect(map.countPrefix('/api/u')).toBe(1);
+        expect(map.countPrefix('/b')).toBe(0);
+    });
+
+    test('keysWithPrefix() iterates lazily', () => {
+        const map = routes();
+        const keys = map.keysWithPrefix('/api');
+        expect(keys.next().value).toBe('/api');
+        expect(keys.next().value).toBe('/api/orders');
+        expect([...map.keysWithPrefix('/api/u')]).toEqual(['/api/users']);
+        expect([...map.keysWithPrefix('/apx')]).toEqual([]);
+    });
+
+    test('longestPrefixOf()', () => {
+        const map = routes();
+        expect(map.longestPrefixOf('/api/users/42')).toBe('/api/users');
+        expect(map.longestPrefixOf('/api/items')).toBe('/api');
+        expect(map.longestPrefixOf('/ap')).toBeUndefined();
+    });
+
+    test('deletePrefix()', () => {
+        const map = routes();
+        expect(map.deletePrefix('/api/').keys()).toEqual(['/about', '/api']);
+        expect(map.deletePrefix('/a').isEmpty()).toBe(true);
+        expect(map.deletePrefix('/b')).toBe(map);
+    });
+
+    test('HOFs', () => {
+        const map = routes();
+        const lengths = map.map(value => value.length);
+        expect(lengths).toBeInstanceOf(TrieMap);
+        expect(lengths.get('/api/orders')).toBe(6);
+        expect(map.filter(value => value.startsWith('a')).keys()).toEqual(['/about', '/api']);
+        const [short, long] = map.partition(value => value.length <= 3);
+        expect(short.keys()).toEqual(['/api']);
+        expect(long.size()).toBe(3);
+        expect(map.flip()).toBeInstanceOf(HashMap);
+        expect(map.flip().get('users')).toBe('/api/users');
+    });
+
+    test('equals() and hashCode() do not depend on the insertion order', () => {
+        const map = routes();
+        const reversed = TrieMap.of<string>(...map.entries().reverse());
+        expect(map.equals(reversed)).toBe(true);
+        expect(map.hashCode()).toBe(reversed.hashCode());
+        expect(map.compareTo(reversed)).toBe(0);
+        expect(map.equals(map.set('/api', 'API'))).toBe(false);
+        expect(map.getPrefix('/api/').equals(map.deletePrefix('/a').setAll(map.getPrefix('/api/')))).toBe(true);
+    });
+});
@@ -0,0 +1,39 @@
+import TrieSet from '../src/Tries/TrieSet';
+import HashSet from '../src/Sets/HashSet';
+
+describe('TrieSet', () => {
+    test('add(), delete() and sorted iteration', () => {
+        const set = TrieSet.of('care', 'car', 'cat', 'car');
+        expect(set.toArray()).toEqual(['car', 'care', 'cat']);
+        expect(set.add('car')).toBe(set);
+        expect(set.delete('ca')).toBe(set);
+        expect(set.delete('car').toArray()).toEqual(['care', 'cat']);
+        expect(set.has('car')).toBe(true);
+        expect(set.toString()).toBe('{car, care, cat}');
+    });
+
+    test('prefix queries', () => {
+        const set = TrieSet.of('car', 'card', 'care', 'cat', 'dog');
+        expect(set.countPrefix('car')).toBe(3);
+        expect(set.getPrefix('ca').toArray()).toEqual(['car', 'card', 'care', 'cat']);
+        expect([...set.keysWithPrefix('card')]).toEqual(['card']);
+        expect(set.longestPrefixOf('cards')).toBe('card');
+        expect(set.deletePrefix('car').toArray()).toEqual(['cat', 'dog']);
+    });
+
+    test('HOFs', () => {
+        const set = TrieSet.of('a', 'bb', 'ccc');
+        expect(set.filter(s => s.length > 1)).toBeInstanceOf(TrieSet);
+        expect(set.filter(s => s.length > 1).toArray()).toEqual(['bb', 'ccc']);
+        expect(set.partition(s => s === 'a').map(part => part.toArray())).toEqual([['a'], ['bb', 'ccc']]);
+        expect(set.map(s => s.length)).toBeInstanceOf(HashSet);
+    });
+
+    test('equals() and hashCode()', () => {
+        const set = TrieSet.of('x', 'y');
+        expect(set.equals(TrieSet.of('y', 'x'))).toBe(true);
+        expect(set.hashCode()).toBe(TrieSet.of('y', 'x').hashCode());
+        expect(set.equals(TrieSet.of('x'))).toBe(false);
+        expect(set.clear().isEmpty()).toBe(true);
+    });
+});
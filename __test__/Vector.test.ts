@@ -394,6 +394,12 @@ describe("Vector removeAll(iterable)", () => {
     const result = fruits.removeAll(["apple", "date"]);
     expect(result.toArray()).toEqual(["banana", "cherry"]);
   });
+
+  test("removeAll and retainAll match structurally equal elements", () => {
+    const nested = Vector.of(Vector.of(1), Vector.of(2), Vector.of(1));
+    expect(nested.removeAll([Vector.of(1)]).toArray().map(v => v.toArray())).toEqual([[2]]);
+    expect(nested.retainAll([Vector.of(1)]).toArray().map(v => v.toArray())).toEqual([[1], [1]]);
+  });
 });
 
 describe("Vector replaceAll()", () => {
@@ -1053,3 +1059,233 @@ describe("Vector array like access", () => {
 
 
 
+
+describe("Vector transient (asTransient(), withMutations())", () => {
+  test("push() builds the same vector as the persistent push()", () => {
+    const N = 40_000;
+    const transient = Vector.empty<number>().asTransient();
+    let expected = Vector.empty<number>();
+    for (let i = 0; i < N; i++) {
+      transient.push(i);
+      expected = expected.push(i);
+    }
+    const vec = transient.persistent();
+    expect(vec.size()).toBe(N);
+    expect(vec.validateVector()).toBe(true);
+    expect(vec.equals(expected)).toBe(true);
+  });
+
+  test("set() and pop() change the transient in place", () => {
+    const arr = Array.from({ length: 2_000 }, (_, i) => i);
+    const vec = Vector.of(...arr).withMutations(v => {
+      for (let i = 0; i < 2_000; i += 7) v.set(i, -i);
+      for (let i = 0; i < 1_500; i++) v.pop();
+    });
+
+    const expected = arr.map(i => i % 7 === 0 ? -i : i).slice(0, 500);
+    expect(vec.toArray()).toEqual(expected);
+    expect(vec.validateVector()).toBe(true);
+  });
+
+  test("pop() down to empty and push() again", () => {
+    const vec = Vector.of(...Array.from({ length: 1_100 }, (_, i) => i)).withMutations(v => {
+      while (v.size() > 0) v.pop();
+      v.push(1).push(2);
+    });
+    expect(vec.toArray()).toEqual([1, 2]);
+    expect(() => Vector.empty<number>().asTransient().pop()).toThrow(RangeError);
+  });
+
+  test("the original vector is never changed by the transient", () => {
+    const arr = Array.from({ length: 1_100 }, (_, i) => i);
+    const base = Vector.of(...arr);
+    const changed = base.withMutations(v => {
+      v.set(0, 100).set(1_099, 200).push(300);
+      v.pop().pop();
+    });
+
+    expect(base.toArray()).toEqual(arr);
+    expect(changed.get(0)).toBe(100);
+    expect(changed.size()).toBe(1_099);
+    expect(changed.get(1_098)).toBe(1_098);
+
+    // a second transient of a frozen vector does not change it either
+    const changedAgain = changed.withMutations(v => v.set(0, -1));
+    expect(changed.get(0)).toBe(100);
+    expect(changedAgain.get(0)).toBe(-1);
+  });
+
+  test("transient get() sees pending changes and throws out of bounds", () => {
+    const transient = Vector.of(1, 2, 3).asTransient();
+    transient.push(4).set(0, 0);
+    expect(transient.get(0)).toBe(0);
+    expect(transient.get(3)).toBe(4);
+    expect(transient.size()).toBe(4);
+    expect(() => transient.get(4)).toThrow(RangeError);
+    expect(() => transient.set(10, 1)).toThrow(RangeError);
+  });
+
+  test("transient throws when used after persistent()", () => {
+    const transient = Vector.of(1, 2, 3).asTransient();
+    transient.persistent();
+    expect(() => transient.push(4)).toThrow(Error);
+    expect(() => transient.size()).toThrow(Error);
+  });
+
+  test("asTransient() on a slice only contains the slice", () => {
+    const vec = Vector.of(...Array.from({ length: 100 }, (_, i) => i));
+    const slice = vec.slice(10, 20);
+    const pushed = slice.withMutations(v => v.push(-1));
+    expect(pushed.toArray()).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19, -1]);
+    expect(vec.size()).toBe(100);
+  });
+});
+
+describe("Vector diff()", () => {
+  const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+  test("identical vectors have no changes", () => {
+    const vec = Vector.of(...range(2000));
+    expect([...vec.diff(vec)]).toEqual([]);
+    expect([...vec.diff(Vector.of(...range(2000)))]).toEqual([]);
+  });
+
+  test("groups consecutive changed indexes into ranges", () => {
+    const vec = Vector.of(...range(2000));
+    const next = vec.set(5, -5).set(6, -6).set(1500, -1).set(1999, -2);
+    expect([...vec.diff(next)]).toEqual([
+      { type: "changed", from: 5, to: 7, oldValues: [5, 6], newValues: [-5, -6] },
+      { type: "changed", from: 1500, to: 1501, oldValues: [1500], newValues: [-1] },
+      { type: "changed", from: 1999, to: 2000, oldValues: [1999], newValues: [-2] },
+    ]);
+  });
+
+  test("reports added and removed tails", () => {
+    const vec = Vector.of(...range(40));
+    const longer = vec.add(40).add(41).set(0, 100);
+    expect([...vec.diff(longer)]).toEqual([
+      { type: "changed", from: 0, to: 1, oldValues: [0], newValues: [100] },
+      { type: "added", from: 40, to: 42, values: [40, 41] },
+    ]);
+    expect([...longer.diff(vec)]).toEqual([
+      { type: "changed", from: 0, to: 1, oldValues: [100], newValues: [0] },
+      { type: "removed", from: 40, to: 42, values: [40, 41] },
+    ]);
+  });
+
+  test("works when the trie grows a level", () => {
+    let vec = Vector.of(...range(1056));
+    let next = vec.set(100, -1);
+    for (let i = 0; i < 100; i++) next = next.add(i);
+    const changes = [...vec.diff(next)];
+    expect(changes.length).toBe(2);
+    expect(changes[0]).toEqual({ type: "changed", from: 100, to: 101, oldValues: [100], newValues: [-1] });
+    expect(changes[1].type).toBe("added");
+    expect(changes[1].from).toBe(1056);
+    expect(changes[1].to).toBe(1156);
+  });
+
+  test("works with slices", () => {
+    const vec = Vector.of(...range(100));
+    const slice = vec.slice(10, 20);
+    expect([...slice.diff(Vector.of(...range(20).slice(10)).set(3, 0))]).toEqual([
+      { type: "changed", from: 3, to: 4, oldValues: [13], newValues: [0] },
+    ]);
+  });
+});
+
+describe("Vector equality of elements", () => {
+  test("has(), indexOf() and lastIndexOf() compare elements by value", () => {
+    const vec = Vector.of<unknown>([1, 2], { a: 1 }, Vector.of(3), [1, 2]);
+    expect(vec.has({ a: 1 })).toBe(true);
+    expect(vec.indexOf([1, 2])).toBe(0);
+    expect(vec.lastIndexOf([1, 2])).toBe(3);
+    expect(vec.indexOf(Vector.of(3))).toBe(2);
+    expect(vec.indexOf([2, 1])).toBe(-1);
+  });
+
+  test("vectors with equal elements are equal and have the same hash code", () => {
+    const a = Vector.of(Vector.of(1, 2), Vector.of(3));
+    const b = Vector.of(Vector.of(1).add(2), Vector.of(3));
+    expect(a.equals(b)).toBe(true);
+    expect(a.hashCode()).toBe(b.hashCode());
+  });
+});
+
+describe("Vector RRB-tree (concat, insert and slice)", () => {
+  const range = (n: number, from = 0) => Array.from({ length: n }, (_, i) => from + i);
+
+  test("concat() of large vectors keeps the order and the invariants", () => {
+    const left = Vector.of(...range(1000));
+    const right = Vector.of(...range(2500, 1000));
+    const joined = left.concat(right);
+    expect(joined.size()).toBe(3500);
+    expect(joined.toArray()).toEqual(range(3500));
+    expect(joined.validateVector()).toBe(true);
+    expect(left.toArray()).toEqual(range(1000));
+    expect(right.get(0)).toBe(1000);
+  });
+
+  test("repeated concat() of vectors with partial leaves stays valid", () => {
+    let vec = Vector.empty<number>();
+    let expected: number[] = [];
+    for (let i = 0; i < 300; i++) {
+      const part = range(1 + (i * 37) % 90, i * 100);
+      vec = i % 2 === 0 ? vec.concat(Vector.of(...part)) : Vector.of(...part).concat(vec);
+      expected = i % 2 === 0 ? expected.concat(part) : part.concat(expected);
+    }
+    expect(vec.validateVector()).toBe(true);
+    expect(vec.toArray()).toEqual(expected);
+  });
+
+  test("add(index, item) inserts the item", () => {
+    let vec = Vector.of(...range(5000));
+    const expected = range(5000);
+    for (let i = 0; i < 200; i++) {
+      const index = (i * 7919) % (expected.length + 1);
+      vec = vec.add(index, -i);
+      expected.splice(index, 0, -i);
+    }
+    expect(vec.validateVector()).toBe(true);
+    expect(vec.toArray()).toEqual(expected);
+    expect(() => vec.add(vec.size() + 1, 0)).toThrow(RangeError);
+  });
+
+  test("slice() only keeps the selected part of the trie", () => {
+    const vec = Vector.of(...range(10000));
+    const slice = vec.slice(1234, 5678);
+    expect(slice.validateVector()).toBe(true);
+    expect(slice.toArray()).toEqual(range(4444, 1234));
+
+    const small = vec.slice(5000, 5010);
+    expect(small.validateVector()).toBe(true);
+    expect(small.toArray()).toEqual(range(10, 5000));
+
+    const nested = slice.slice(100, 4000).slice(50, 60);
+    expect(nested.toArray()).toEqual(range(10, 1384));
+  });
+
+  test("slices can be updated, pushed to and popped like any vector", () => {
+    let slice = Vector.of(...range(3000)).slice(777, 2222);
+    slice = slice.set(0, -1).push(-2).pop().pop();
+    for (let i = 0; i < 500; i++) slice = slice.pop();
+    expect(slice.validateVector()).toBe(true);
+    expect(slice.toArray()).toEqual([-1, ...range(943, 778)]);
+  });
+
+  test("large splice(), remove() and unshift() keep the invariants", () => {
+    let vec = Vector.of(...range(20000));
+    const expected = range(20000);
+    for (let i = 0; i < 50; i++) {
+      const start = (i * 4099) % (expected.length - 100);
+      vec = vec.splice(start, 70, ...range(30, -1000 * i));
+      expected.splice(start, 70, ...range(30, -1000 * i));
+      vec = vec.remove(start + 5);
+      expected.splice(start + 5, 1);
+    }
+    vec = vec.unshift(...range(40, -5));
+    expected.unshift(...range(40, -5));
+    expect(vec.validateVector()).toBe(true);
+    expect(vec.toArray()).toEqual(expected);
+  });
+});
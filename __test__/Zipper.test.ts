@@ -0,0 +1,84 @@
+import Vector from '../src/Arrays/Vector';
+import LinkedList from '../src/LinkedLists/LinkedList';
+import Zipper from '../src/Zippers/Zipper';
+
+describe('Zipper', () => {
+    test('focusAt() on a Vector and moving the focus', () => {
+        const zipper = Vector.of(1, 2, 3, 4).focusAt(1);
+        expect(zipper).toBeInstanceOf(Zipper);
+        expect(zipper.get()).toBe(2);
+        expect(zipper.index()).toBe(1);
+        expect(zipper.right().right().get()).toBe(4);
+        expect(zipper.left().get()).toBe(1);
+        expect(zipper.left().hasLeft()).toBe(false);
+        expect(() => zipper.left().left()).toThrow(RangeError);
+        expect(() => zipper.right().right().right()).toThrow(RangeError);
+        expect(() => Vector.of(1).focusAt(1)).toThrow(RangeError);
+        expect(zipper.toString()).toBe('Zipper [1, <2>, 3, 4]');
+    });
+
+    test('local edits keep the focus', () => {
+        const vector = Vector.of('a', 'b', 'c', 'd');
+        const zipper = vector.focusAt(1).replace('B').insertBefore('x').insertAfter('y');
+        expect(zipper.get()).toBe('B');
+        expect(zipper.index()).toBe(2);
+        expect(zipper.toArray()).toEqual(['a', 'x', 'B', 'y', 'c', 'd']);
+        expect(zipper.delete().get()).toBe('y');
+        expect(zipper.right().right().right().delete().get()).toBe('c');
+        expect(vector.toArray()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    test('deleting every value empties the zipper', () => {
+        let zipper = LinkedList.of(1, 2).focusAt(0).delete().delete();
+        expect(zipper.isEmpty()).toBe(true);
+        expect(zipper.get()).toBeUndefined();
+        expect(() => zipper.delete()).toThrow(RangeError);
+        zipper = zipper.insertAfter(3).insertBefore(4);
+        expect(zipper.toArray()).toEqual([4, 3]);
+        expect(zipper.get()).toBe(3);
+    });
+
+    test('walking and editing a large Vector opens one leaf at a time', () => {
+        const vector = Vector.empty<number>().withMutations(v => { for (let i = 0; i < 5000; i++) v.push(i); });
+        let zipper = vector.focusAt(2500);
+        for (let i = 0; i < 100; i++) zipper = zipper.replace(-zipper.get()!).right();
+        for (let i = 0; i < 200; i++) zipper = zipper.left();
+        zipper = zipper.insertBefore(-1);
+        const result = zipper.toVector();
+        expect(result.size()).toBe(5001);
+        expect(result.get(2400)).toBe(-1);
+        expect(result.get(2501)).toBe(-2500);
+        expect(result.get(2600)).toBe(-2599);
+        expect(result.get(2601)).toBe(2600);
+        expect(result.get(4999)).toBe(4998);
+        expect(vector.get(2500)).toBe(2500);
+    });
+
+    test('focusAt() on a LinkedList closes back into a LinkedList', () => {
+        const list = LinkedList.of(1, 2, 3, 4, 5);
+        const zipper = list.focusAt(3).left().replace(30).insertAfter(35);
+        const closed = zipper.toLinkedList();
+        expect(closed).toBeInstanceOf(LinkedList);
+        expect(closed.toArray()).toEqual([1, 2, 30, 35, 4, 5]);
+        expect(zipper.toVector().toArray()).toEqual([1, 2, 30, 35, 4, 5]);
+        expect(Vector.of(1, 2).focusAt(0).toLinkedList().toArray()).toEqual([1, 2]);
+        expect(list.toArray()).toEqual([1, 2, 3, 4, 5]);
+        expect(() => list.focusAt(5)).toThrow(RangeError);
+        expect(zipper.size()).toBe(6);
+    });
+
+    test('size() follows the edits without walking the zipper', () => {
+        let zipper = LinkedList.of(1, 2, 3, 4).focusAt(1);
+        const steps: Array<(z: Zipper<number>) => Zipper<number>> = [
+            z => z.insertBefore(10), z => z.right(), z => z.delete(), z => z.insertAfter(20),
+            z => z.left(), z => z.left(), z => z.replace(5), z => z.delete(), z => z.delete(),
+        ];
+        for (const step of steps) {
+            zipper = step(zipper);
+            expect(zipper.size()).toBe(zipper.toArray().length);
+        }
+        const empty = Vector.of(1).focusAt(0).delete();
+        expect(empty.size()).toBe(0);
+        expect(empty.insertAfter(1).size()).toBe(1);
+    });
+});
@@ -0,0 +1,326 @@
+import HashCode from "../Hashing/HashCode";
+import Bag from "../Interfaces/Bag";
+import Collection from "../Interfaces/Collection";
+import Map from "../Interfaces/Map";
+import Sorting from "../Sorting/Sorting";
+import AbstractCollection from "./AbstractCollection";
+
+function checkCount(n: number): void {
+    if (!Number.isInteger(n) || n < 0) throw new RangeError(`Invalid number of occurrences: ${n}`);
+}
+
+/**
+ * Abstract base class for Bag implementations, that store the count of every distinct item in a map.
+ */
+export default abstract class AbstractBag<T> extends AbstractCollection<T> implements Bag<T> {
+    private _hashCode: number | null = null;
+
+    protected constructor(
+        protected readonly _counts: Map<T, number>,
+        protected readonly _size: number,
+    ) {
+        super();
+    }
+
+    /**
+     * Creates a bag of the same kind from a map of counts and the total number of occurrences.
+     */
+    protected abstract withCounts(counts: Map<T, number>, size: number): this;
+
+    abstract empty(): this;
+
+    /**
+     * Hashes an item for the hash code of the bag.
+     */
+    protected hashItem(item: T): number {
+        return HashCode.hashCode(item);
+    }
+
+    /**
+     * Iterates over the bag, yielding every item as many times as it occurs.
+     */
+    *[Symbol.iterator](): IterableIterator<T> {
+        for (const [item, n] of this._counts) {
+            for (let i = 0; i < n; i++) yield item;
+        }
+    }
+
+    /**
+     * Returns the total number of occurrences in the bag.
+     */
+    size(): number {
+        return this._size;
+    }
+
+    isEmpty(): boolean {
+        return this._size === 0;
+    }
+
+    distinctSize(): number {
+        return this._counts.size();
+    }
+
+    count(e: T): number {
+        return this._counts.get(e) ?? 0;
+    }
+
+    has(o: T): boolean {
+        return this._counts.has(o);
+    }
+
+    /**
+     * Get the element at the given position in iteration order.
+     * Complexity: O(distinctSize)
+     */
+    get(index: number): T | undefined {
+        if (index < 0 || index >= this._size) return undefined;
+        for (const [item, n] of this._counts) {
+            if (index < n) return item;
+            index -= n;
+        }
+        return undefined;
+    }
+
+    /**
+     * Adds occurrences of an element.
+     * @param e - element to add
+     * @param n - number of occurrences, 1 by default
+     * @throws {RangeError} if n is not a non-negative integer.
+     */
+    add(e: T, n: number = 1): this {
+        checkCount(n);
+        if (n === 0) return this;
+        return this.withCounts(this._counts.set(e, this.count(e) + n), this._size + n);
+    }
+
+    addAll(c: Iterable<T>): this {
+        let counts = this._counts;
+        let size = this._size;
+        for (const e of c) {
+            counts = counts.set(e, (counts.get(e) ?? 0) + 1);
+            size++;
+        }
+        return size === this._size ? this : this.withCounts(counts, size);
+    }
+
+    /**
+     * Removes occurrences of an element. If it occurs fewer than n times, all of its occurrences are removed.
+     * @param e - element to remove
+     * @param n - number of occurrences, 1 by default
+     * @throws {RangeError} if n is not a non-negative integer.
+     */
+    remove(e: T, n: number = 1): this {
+        checkCount(n);
+        return this.setCount(e, Math.max(0, this.count(e) - n));
+    }
+
+    /**
+     * Sets the number of occurrences of an element. A count of 0 removes the element.
+     * @throws {RangeError} if n is not a non-negative integer.
+     */
+    setCount(e: T, n: number): this {
+        checkCount(n);
+        const current = this.count(e);
+        if (n === current) return this;
+        const counts = n === 0 ? this._counts.delete(e) : this._counts.set(e, n);
+        return this.withCounts(counts, this._size - current + n);
+    }
+
+    /**
+     * Removes one occurrence of the item.
+     */
+    removeItem(item: T): this {
+        return this.remove(item, 1);
+    }
+
+    /**
+     * Removes all occurrences of the items in the collection.
+     */
+    removeAll(c: Iterable<T>): this {
+        let bag = this;
+        for (const item of c) bag = bag.setCount(item, 0);
+        return bag;
+    }
+
+    /**
+     * Keeps all occurrences of the items that are in the collection, and removes the others.
+     */
+    retainAll(c: Iterable<T>): this {
+        const keep = this.empty().addAll(c);
+        return this.removeIf(item => !keep.has(item));
+    }
+
+    removeIf(filter: (item: T) => boolean): this {
+        let bag = this;
+        for (const [item] of this._counts) {
+            if (filter(item)) bag = bag.setCount(item, 0);
+        }
+        return bag;
+    }
+
+    clear(): this {
+        return this.empty();
+    }
+
+    uniqueItems(): T[] {
+        return this._counts.keys();
+    }
+
+    itemCounts(): [T, number][] {
+        return this._counts.entries();
+    }
+
+    /**
+     * Returns the k most common items with their counts, the most common first.
+     * Items with the same count are in iteration order.
+     *
+     * Complexity: O(D log D) for D distinct items.
+     *
+     * @param k - number of items to return, all items if not provided.
+     */
+    mostCommon(k: number = this._counts.size()): [T, number][] {
+        const entries = this.itemCounts();
+        Sorting.timSort(entries, (a, b) => b[1] - a[1]);
+        return entries.slice(0, Math.max(0, k));
+    }
+
+    union(other: Bag<T>): this {
+        let bag = this;
+        for (const [item, n] of other.itemCounts()) {
+            if (n > bag.count(item)) bag = bag.setCount(item, n);
+        }
+        return bag;
+    }
+
+    intersect(other: Bag<T>): this {
+        let bag = this;
+        for (const [item, n] of this._counts) {
+            const m = other.count(item);
+            if (m < n) bag = bag.setCount(item, m);
+        }
+        return bag;
+    }
+
+    sum(other: Bag<T>): this {
+        let bag = this;
+        for (const [item, n] of other.itemCounts()) bag = bag.add(item, n);
+        return bag;
+    }
+
+    difference(other: Bag<T>): this {
+        let bag = this;
+        for (const [item, n] of other.itemCounts()) bag = bag.remove(item, n);
+        return bag;
+    }
+
+    /**
+     * Checks if the other bag has the same items with the same counts.
+     */
+    protected hasSameCounts(other: AbstractBag<T>): boolean {
+        if (this._size !== other._size || this.distinctSize() !== other.distinctSize()) return false;
+        for (const [item, n] of this._counts) {
+            if (other.count(item) !== n) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes the hash code of the bag, which does not depend on the iteration order.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 0;
+            for (const [item, n] of this._counts) {
+                hash = (hash + (this.hashItem(item) ^ n)) | 0;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    /**
+     * Returns a bag with every distinct item once.
+     */
+    distinct(): this {
+        let bag = this;
+        for (const [item] of this._counts) bag = bag.setCount(item, 1);
+        return bag;
+    }
+
+    /**
+     * Maps every occurrence of the items into a new bag of the same kind.
+     * @param mapper - function to map the elements
+     * @param thisArg - context for the mapper function
+     */
+    map<M>(mapper: (value: T, key: number, collection: this) => M, thisArg?: any): Bag<M> {
+        return super.map(mapper, thisArg) as Bag<M>;
+    }
+
+    /**
+     * Maps every occurrence of the items into iterables, and counts their elements in a new bag of the same kind.
+     * @param mapper - function to map the elements
+     * @param thisArg - context for the mapper function
+     */
+    flatMap<M>(mapper: (value: T, key: number, iter: this) => Iterable<M>, thisArg?: any): Bag<M> {
+        return super.flatMap(mapper, thisArg) as Bag<M>;
+    }
+
+    /**
+     * Combines the elements of this bag, in iteration order, with the elements of other collections into tuples,
+     * stopping when the shortest input is exhausted.
+     */
+    zip<U>(other: Collection<U>): Bag<[T, U]>;
+    zip<U, V>(other: Collection<U>, other2: Collection<V>): Bag<[T, U, V]>;
+    zip(...collections: Array<Collection<unknown>>): Bag<unknown>;
+    zip(...collections: Array<Collection<any>>): Bag<any> {
+        return this.zipWith<unknown>((...values: unknown[]) => values, ...collections);
+    }
+
+    /**
+     * Combines the elements of this bag, in iteration order, with the elements of other collections into tuples,
+     * continuing until the longest input is exhausted.
+     */
+    zipAll<U>(other: Collection<U>): Bag<[T, U]>;
+    zipAll<U, V>(other: Collection<U>, other2: Collection<V>): Bag<[T, U, V]>;
+    zipAll(...collections: Array<Collection<unknown>>): Bag<unknown>;
+    zipAll(...collections: Array<Collection<any>>): Bag<any> {
+        const iterators = [this, ...collections].map(c => c[Symbol.iterator]() as Iterator<unknown>);
+        const tuples: unknown[][] = [];
+        for (;;) {
+            const results = iterators.map(it => it.next());
+            if (results.every(r => r.done)) break;
+            tuples.push(results.map(r => r.done ? undefined : r.value));
+        }
+        return (this.createEmpty<unknown>() as Bag<unknown>).addAll(tuples) as Bag<unknown>;
+    }
+
+    /**
+     * Combines the elements of this bag, in iteration order, with the elements of other collections by applying
+     * a zipper function to them.
+     */
+    zipWith<U, Z>(zipper: (value: T, otherValue: U) => Z, otherCollection: Collection<U>): Bag<Z>;
+    zipWith<U, V, Z>(
+        zipper: (value: T, otherValue: U, thirdValue: V) => Z,
+        otherCollection: Collection<U>,
+        thirdCollection: Collection<V>
+    ): Bag<Z>;
+    zipWith<Z>(zipper: (...values: Array<unknown>) => Z, ...collections: Array<Collection<unknown>>): Bag<Z>;
+    zipWith<Z>(zipper: (...values: any[]) => Z, ...collections: Array<Collection<any>>): Bag<Z> {
+        const iterators = [this, ...collections].map(c => c[Symbol.iterator]() as Iterator<unknown>);
+        const zipped: Z[] = [];
+        for (;;) {
+            const results = iterators.map(it => it.next());
+            if (results.some(r => r.done)) break;
+            zipped.push(zipper(...results.map(r => r.value)));
+        }
+        return (this.createEmpty<Z>() as Bag<Z>).addAll(zipped) as Bag<Z>;
+    }
+
+    /**
+     * Returns a string representation of the bag, with the count of every item.
+     */
+    toString(): string {
+        return `{${this.itemCounts().map(([item, n]) => `${item}: ${n}`).join(", ")}}`;
+    }
+}
@@ -0,0 +1,172 @@
+import { Speed } from "../Enums/Speed";
+import BiMap from "../Interfaces/BiMap";
+import Map from "../Interfaces/Map";
+import AbstractMap from "./AbstractMap";
+
+/**
+ * Abstract base class for BiMap implementations, that keep a forward map from the keys to the values
+ * and a backward map from the values to the keys in sync.
+ *
+ * The inverse view shares both maps with the roles swapped, so it is created in O(1).
+ */
+export default abstract class AbstractBiMap<K, V> extends AbstractMap<K, V> implements BiMap<K, V> {
+    // inverse view that is lazily created, and linked back to this map
+    private _inverse: AbstractBiMap<V, K> | null = null;
+
+    protected constructor(
+        protected readonly _forward: Map<K, V>,
+        protected readonly _backward: Map<V, K>,
+    ) {
+        super();
+    }
+
+    /**
+     * Creates a bimap of the same kind from a forward and a backward map that hold the same pairs.
+     */
+    protected abstract withMaps<A, B>(forward: Map<A, B>, backward: Map<B, A>): AbstractBiMap<A, B>;
+
+    *[Symbol.iterator](): MapIterator<[K, V]> {
+        yield* this._forward;
+    }
+
+    /**
+     * Returns the first pair in iteration order, or null if the map is empty.
+     */
+    getRoot(): [K, V] | null {
+        for (const entry of this._forward) return entry;
+        return null;
+    }
+
+    size(): number {
+        return this._forward.size();
+    }
+
+    isEmpty(): boolean {
+        return this._forward.isEmpty();
+    }
+
+    get(key: K): V | undefined {
+        return this._forward.get(key);
+    }
+
+    getKey(value: V): K | undefined {
+        return this._backward.get(value);
+    }
+
+    has(key: K): boolean {
+        return this._forward.has(key);
+    }
+
+    /**
+     * Checks if the value is bound to a key, by a lookup in the backward map.
+     */
+    hasValue(value: V): boolean {
+        return this._backward.has(value);
+    }
+
+    keys(): K[] {
+        return this._forward.keys();
+    }
+
+    values(): V[] {
+        return this._forward.values();
+    }
+
+    entries(): [K, V][] {
+        return this._forward.entries();
+    }
+
+    set(key: K, value: V): this {
+        return this.put(key, value);
+    }
+
+    setAll(entries: Iterable<[K, V]>): this {
+        let map = this;
+        for (const [key, value] of entries) map = map.put(key, value);
+        return map;
+    }
+
+    put(key: K, value: V): this {
+        return this.bind(key, value, false);
+    }
+
+    forcePut(key: K, value: V): this {
+        return this.bind(key, value, true);
+    }
+
+    private bind(key: K, value: V, force: boolean): this {
+        let forward = this._forward;
+        let backward = this._backward;
+        if (backward.has(value)) {
+            // both lookups find the same stored key if the key already holds the value
+            const bound = backward.get(value)!;
+            if (forward.has(key) && backward.get(forward.get(key)!) === bound) return this;
+            if (!force) throw new Error(`Value ${value} is already bound to the key ${bound}`);
+            forward = forward.delete(bound);
+        }
+        if (forward.has(key)) backward = backward.delete(forward.get(key)!);
+        return this.withMaps(forward.set(key, value), backward.set(value, key)) as this;
+    }
+
+    delete(key: K): this {
+        if (!this._forward.has(key)) return this;
+        const value = this._forward.get(key)!;
+        return this.withMaps(this._forward.delete(key), this._backward.delete(value)) as this;
+    }
+
+    deleteValue(value: V): this {
+        if (!this._backward.has(value)) return this;
+        const key = this._backward.get(value)!;
+        return this.withMaps(this._forward.delete(key), this._backward.delete(value)) as this;
+    }
+
+    clear(): this {
+        return this.withMaps(this._forward.clear(), this._backward.clear()) as this;
+    }
+
+    copyOf(map: Map<K, V>): this {
+        return this.clear().setAll(map);
+    }
+
+    inverse(): AbstractBiMap<V, K> {
+        if (this._inverse === null) {
+            this._inverse = this.withMaps(this._backward, this._forward);
+            this._inverse._inverse = this;
+        }
+        return this._inverse;
+    }
+
+    /**
+     * Returns the inverse view. Unlike `Map.flip()`, no pair is lost, since the values are unique.
+     */
+    flip(): AbstractBiMap<V, K> {
+        return this.inverse();
+    }
+
+    hasSpeed(): Speed {
+        return this._forward.hasSpeed();
+    }
+
+    addSpeed(): Speed {
+        return this._forward.addSpeed();
+    }
+
+    removeSpeed(): Speed {
+        return this._forward.removeSpeed();
+    }
+
+    hashCode(): number {
+        return this._forward.hashCode();
+    }
+
+    compareTo(o: AbstractBiMap<K, V>): number {
+        return this._forward.compareTo(o._forward);
+    }
+
+    /**
+     * Returns a string representation of the bimap, with every key and its value.
+     */
+    toString(): string {
+        return `{${this.entries().map(([key, value]) => `${key}: ${value}`).join(", ")}}`;
+    }
+}
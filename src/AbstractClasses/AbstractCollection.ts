@@ -1,10 +1,20 @@
 import Collection from '../Interfaces/Collection';
 import { Comparator } from '../Interfaces/Comparator';
 import Sorting from '../Sorting/Sorting';
+import Seq from '../Seqs/Seq';
+import { seqOf } from '../Seqs/SeqOf';
+import { Utils } from '../Utils/Utils';
 
 export default abstract class AbstractCollection<T> implements Collection<T> {
     abstract [Symbol.iterator](): Iterator<T>;
 
+    /**
+     * Returns a lazy Seq over the items, in iteration order.
+     */
+    toSeq(): Seq<T> {
+        return seqOf(this);
+    }
+
     protected constructor() {
 
     }
@@ -15,9 +25,13 @@ export default abstract class AbstractCollection<T> implements Collection<T> {
 
     abstract clear(): Collection<T>;
 
+    /**
+     * Checks if the collection has an item, comparing the items with `Utils.equals`.
+     * @param o - item to find in the collection
+     */
     has(o: T): boolean {
         for (const item of this) {
-            if (item === o) {
+            if (Utils.equals(item, o)) {
                 return true;
             }
         }
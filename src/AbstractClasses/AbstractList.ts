@@ -121,7 +121,7 @@ export default abstract class AbstractList<T> extends AbstractSequencedCollectio
         let i=0;
         let index = -1;
         for (const value of this) {
-            if (value === item) {
+            if (Utils.equals(value, item)) {
                 index = i;
             }
             i++;
@@ -2,6 +2,8 @@ import Map from '../Interfaces/Map';
 import {Comparator} from "../Interfaces/Comparator";
 import {Speed} from "../Enums/Speed";
 import {Utils} from "../Utils/Utils";
+import Seq from "../Seqs/Seq";
+import { seqOf } from "../Seqs/SeqOf";
 
 
 export default abstract class AbstractMap<K, V> implements Map<K, V> {
@@ -9,6 +11,13 @@ export default abstract class AbstractMap<K, V> implements Map<K, V> {
 
     abstract [Symbol.iterator](): MapIterator<[K, V]>;
 
+    /**
+     * Returns a lazy Seq over the key-value pairs, in iteration order.
+     */
+    toSeq(): Seq<[K, V]> {
+        return seqOf(this);
+    }
+
     size(): number {
         let count = 0;
         for (const _ of this) {
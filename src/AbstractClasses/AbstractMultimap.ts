@@ -0,0 +1,182 @@
+import HashCode from "../Hashing/HashCode";
+import Bag from "../Interfaces/Bag";
+import Map from "../Interfaces/Map";
+import Multimap from "../Interfaces/Multimap";
+import Seq from "../Seqs/Seq";
+import { seqOf } from "../Seqs/SeqOf";
+
+/**
+ * The collection that holds the values of a key.
+ */
+export interface MultimapBucket<V> extends Iterable<V> {
+    size(): number;
+    has(value: V): boolean;
+    equals(o: Object): boolean;
+    hashCode(): number;
+}
+
+/**
+ * Abstract base class for Multimap implementations, that store the values of every key in a bucket
+ * collection of type C. Empty buckets are never stored.
+ */
+export default abstract class AbstractMultimap<K, V, C extends MultimapBucket<V>> implements Multimap<K, V> {
+    private _hashCode: number | null = null;
+
+    protected constructor(
+        protected readonly _buckets: Map<K, C>,
+        protected readonly _size: number,
+    ) {}
+
+    /**
+     * Creates a multimap of the same kind from the buckets and the total number of values.
+     */
+    protected abstract withBuckets(buckets: Map<K, C>, size: number): this;
+
+    /**
+     * Returns an empty bucket.
+     */
+    protected abstract emptyBucket(): C;
+
+    /**
+     * Adds a value to a bucket. Returns the same bucket if the value is not added.
+     */
+    protected abstract addToBucket(bucket: C, value: V): C;
+
+    /**
+     * Removes one occurrence of a value from a bucket. Returns the same bucket if the value is not in it.
+     */
+    protected abstract removeFromBucket(bucket: C, value: V): C;
+
+    abstract empty(): this;
+
+    abstract keyCounts(): Bag<K>;
+
+    abstract inverse(): Multimap<V, K>;
+
+    abstract equals(o: Object): boolean;
+
+    /**
+     * Iterates over every key-value pair, grouped by key.
+     */
+    *[Symbol.iterator](): IterableIterator<[K, V]> {
+        for (const [key, bucket] of this._buckets) {
+            for (const value of bucket) yield [key, value];
+        }
+    }
+
+    /**
+     * Returns a lazy Seq over the key-value pairs, in iteration order.
+     */
+    toSeq(): Seq<[K, V]> {
+        return seqOf(this);
+    }
+
+    size(): number {
+        return this._size;
+    }
+
+    keySize(): number {
+        return this._buckets.size();
+    }
+
+    isEmpty(): boolean {
+        return this._size === 0;
+    }
+
+    /**
+     * Returns the values of the key, or an empty collection if the key is not in the multimap.
+     */
+    get(key: K): C {
+        return this._buckets.get(key) ?? this.emptyBucket();
+    }
+
+    has(key: K): boolean {
+        return this._buckets.has(key);
+    }
+
+    hasEntry(key: K, value: V): boolean {
+        const bucket = this._buckets.get(key);
+        return bucket !== undefined && bucket.has(value);
+    }
+
+    put(key: K, value: V): this {
+        const bucket = this._buckets.get(key) ?? this.emptyBucket();
+        const added = this.addToBucket(bucket, value);
+        if (added === bucket) return this;
+        return this.withBuckets(this._buckets.set(key, added), this._size + added.size() - bucket.size());
+    }
+
+    putAll(key: K, values: Iterable<V>): this {
+        const bucket = this._buckets.get(key) ?? this.emptyBucket();
+        let added = bucket;
+        for (const value of values) added = this.addToBucket(added, value);
+        if (added === bucket) return this;
+        return this.withBuckets(this._buckets.set(key, added), this._size + added.size() - bucket.size());
+    }
+
+    remove(key: K, value: V): this {
+        const bucket = this._buckets.get(key);
+        if (bucket === undefined) return this;
+        const removed = this.removeFromBucket(bucket, value);
+        if (removed === bucket) return this;
+        const buckets = removed.size() === 0 ? this._buckets.delete(key) : this._buckets.set(key, removed);
+        return this.withBuckets(buckets, this._size - 1);
+    }
+
+    removeAll(key: K): this {
+        const bucket = this._buckets.get(key);
+        if (bucket === undefined) return this;
+        return this.withBuckets(this._buckets.delete(key), this._size - bucket.size());
+    }
+
+    clear(): this {
+        return this.empty();
+    }
+
+    keys(): K[] {
+        return this._buckets.keys();
+    }
+
+    values(): V[] {
+        return Array.from(this, ([, value]) => value);
+    }
+
+    entries(): [K, V][] {
+        return Array.from(this);
+    }
+
+    /**
+     * Checks if the other multimap has the same keys with equal buckets.
+     */
+    protected hasSameBuckets(other: AbstractMultimap<K, V, C>): boolean {
+        if (this._size !== other._size || this.keySize() !== other.keySize()) return false;
+        for (const [key, bucket] of this._buckets) {
+            const otherBucket = other._buckets.get(key);
+            if (otherBucket === undefined || !bucket.equals(otherBucket)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes the hash code of the multimap, which does not depend on the order of the keys.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 0;
+            for (const [key, bucket] of this._buckets) {
+                hash = (hash + (HashCode.hashCode(key) ^ bucket.hashCode())) | 0;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    /**
+     * Returns a string representation of the multimap, with the values of every key.
+     */
+    toString(): string {
+        const keys = Array.from(this._buckets, ([key, bucket]) => `${key}: [${Array.from(bucket).join(", ")}]`);
+        return `{${keys.join(", ")}}`;
+    }
+}
@@ -1,6 +1,8 @@
 import { Comparator } from '../Interfaces/Comparator';
 import { Speed } from '../Enums/Speed';
 import Set from '../Interfaces/Set';
+import Seq from '../Seqs/Seq';
+import { seqOf } from '../Seqs/SeqOf';
 import { Utils } from '../Utils/Utils';
 
 /**
@@ -10,6 +12,13 @@ import { Utils } from '../Utils/Utils';
 export default abstract class AbstractSet<T> implements Set<T> {
     abstract [Symbol.iterator](): Iterator<T>;
 
+    /**
+     * Returns a lazy Seq over the items, in iteration order.
+     */
+    toSeq(): Seq<T> {
+        return seqOf(this);
+    }
+
     /**
      * Returns the number of elements in the set.
      */
@@ -4,7 +4,9 @@ import HashCode from "../Hashing/HashCode";
 import AbstractList from "../AbstractClasses/AbstractList";
 import Collection from "../Interfaces/Collection";
 import { Speed } from "../Enums/Speed";
+import HashSet from "../Sets/HashSet";
 import Sorting from "../Sorting/Sorting";
+import {Utils} from "../Utils/Utils";
 
 /**
  * A persistent ArrayList implementation.
@@ -358,12 +360,12 @@ class ArrayList<T> extends AbstractList<T> implements List<T> {
     }
 
     /**
-     * Remove all the items from the collection.
+     * Remove all the items from the collection, matched with `equals` and `hashCode`.
      * @param items - the items to remove from the collection
      * @returns a new collection with the items removed
      */
     removeAll(items: Iterable<T>): ArrayList<T> {
-        const itemsToRemove = new Set(items);
+        const itemsToRemove = new HashSet<T>().addAll(items);
         const newItems = this.items.filter(item => !itemsToRemove.has(item));
         return new ArrayList(newItems);
     }
@@ -424,12 +426,12 @@ class ArrayList<T> extends AbstractList<T> implements List<T> {
     }
 
     /**
-     * Retain only the items in the collection that are also in the provided iterable.
+     * Retain only the items in the collection that are also in the provided iterable, matched with `equals` and `hashCode`.
      * @param items - the items to retain in the collection
      * @returns A new collection with the items retained
      */
     retainAll(items: Iterable<T>): ArrayList<T> {
-        const itemsToRetain = new Set(items);
+        const itemsToRetain = new HashSet<T>().addAll(items);
         const newItems = this.items.filter(item => itemsToRetain.has(item));
         return new ArrayList(newItems);
     }
@@ -670,7 +672,7 @@ class ArrayList<T> extends AbstractList<T> implements List<T> {
         if (!(o instanceof ArrayList)) return false;
         if (this.items.length !== o.items.length) return false;
 
-        return this.every((value, index) => Object.is(value, o.items[index]));
+        return this.every((value, index) => Utils.equals(value, o.items[index]));
     }
 
     /**
@@ -680,6 +682,13 @@ class ArrayList<T> extends AbstractList<T> implements List<T> {
     toString(): string {
         return `[${this.items.map(item => Array.isArray(item) ? `[${item.join(', ')}]` : item).join(', ')}]`;
     }
+
+    /**
+     * Returns the items as an array, which is what `JSON.stringify` writes for the list.
+     */
+    toJSON(): T[] {
+        return this.toArray();
+    }
 }
 
 
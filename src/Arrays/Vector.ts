@@ -2,41 +2,56 @@ import AbstractList from "../AbstractClasses/AbstractList";
 import { Speed } from "../Enums/Speed";
 import HashCode from "../Hashing/HashCode";
 import { Comparator } from "../Interfaces/Comparator";
+import { RangeChange } from "../Interfaces/Change";
 import List, {ListInput} from "../Interfaces/List";
+import HashSet from "../Sets/HashSet";
 import Sorting from "../Sorting/Sorting";
 import { Utils } from "../Utils/Utils";
+import Zipper from "../Zippers/Zipper";
 
 const MASK = 0x1f; // 011111 = 0b11111 = 32 - 1
 const SHIFT = 5; // log2(32) = 5
 const BRANCHING = 1 << SHIFT; // 32
+const EXTRAS = 2; // extra children per node that concatenation tolerates before it redistributes them
+
+/**
+ * Owner token of a transient vector.
+ *
+ * Nodes created by a `TransientVector` are stamped with its token, and only nodes with
+ * that token can be changed in place. Nodes of a persistent vector have no owner (null).
+ */
+class OwnerID {}
 
 // Node interface
 interface INode<T> {
     readonly array: (T | Node<T>)[];
+    readonly edit: OwnerID | null;
 }
 
 // Leaf class
 class Leaf<T> implements INode<T> {
-    constructor(readonly array: T[]) {}
+    constructor(readonly array: T[], readonly edit: OwnerID | null = null) {}
 }
 
-// Branch class
+/**
+ * Branch class.
+ *
+ * A branch is either *strict* or *relaxed*. In a strict branch every child but the last is full, so the child
+ * that holds an index is found with `mask`, like in a plain AMT. A relaxed branch has a size table where
+ * `sizes[i]` is the number of elements in the children `0..i`, and the child is found by searching the table.
+ * Strict branches have no size table (null).
+ */
 class Branch<T> implements INode<T> {
-    constructor(readonly array: Node<T>[]) {}
-} 
+    constructor(
+        readonly array: Node<T>[],
+        readonly edit: OwnerID | null = null,
+        public sizes: number[] | null = null,
+    ) {}
+}
 
 // Node can either be a Leaf or a Branch
 type Node<T> = Leaf<T> | Branch<T>;
 
-/**
- * Index of the first element that lives in the tail array.
- * @param count - number of elements in the vector 
- * @returns 
- */
-function tailOffset(count: number): number {
-    return count < BRANCHING ? 0 : ((count - 1) >>> SHIFT) << SHIFT;
-}
-
 
 /**
  * Returns a **5-bit slice** of the `index i` that begins at position `shift`.
@@ -59,18 +74,439 @@ function mask(i: number, shift: number): number {
     return (i >>> shift) & MASK;
 }
 
+/**
+ * Finds the child of a branch that holds index `i`.
+ * @param level - shift of the branch.
+ * @returns the position of the child, and the index relative to the first element of the child.
+ */
+function childIndex<T>(branch: Branch<T>, level: number, i: number): [number, number] {
+    const sizes = branch.sizes;
+    if (sizes === null) return [mask(i, level), i & ((1 << level) - 1)];
+
+    // a child holds at most 2^level elements, so i >>> level is never past the child we are looking for
+    let idx = i >>> level;
+    while (sizes[idx] <= i) idx++;
+    return [idx, idx === 0 ? i : i - sizes[idx - 1]];
+}
+
+/**
+ * Returns the element at index `i` of a subtrie.
+ * @param level - shift of the node, 0 for leaves.
+ */
+function lookup<T>(node: Node<T>, level: number, i: number): T {
+    for (; level > 0; level -= SHIFT) {
+        const branch = node as Branch<T>;
+        const sizes = branch.sizes;
+        let idx: number;
+        if (sizes === null) {
+            idx = mask(i, level);
+            i &= (1 << level) - 1;
+        } else {
+            idx = i >>> level;
+            while (sizes[idx] <= i) idx++;
+            if (idx > 0) i -= sizes[idx - 1];
+        }
+        node = branch.array[idx];
+    }
+    return (node as Leaf<T>).array[i];
+}
+
+/**
+ * Number of elements in a subtrie. Only the right spine of strict branches has to be visited.
+ * @param level - shift of the node, 0 for leaves.
+ */
+function nodeSize<T>(node: Node<T>, level: number): number {
+    let size = 0;
+    for (; level > 0; level -= SHIFT) {
+        const branch = node as Branch<T>;
+        const last = branch.array.length - 1;
+        if (last < 0) return size;
+        if (branch.sizes !== null) return size + branch.sizes[last];
+        size += last << level;
+        node = branch.array[last];
+    }
+    return size + node.array.length;
+}
+
+/**
+ * Computes the size table of a branch at `level` with the given children.
+ */
+function cumulativeSizes<T>(children: Node<T>[], level: number): number[] {
+    const sizes: number[] = [];
+    let total = 0;
+    for (const child of children) {
+        total += nodeSize(child, level - SHIFT);
+        sizes.push(total);
+    }
+    return sizes;
+}
+
+/**
+ * Creates a branch at `level`, which is strict if every child but the last is full and relaxed otherwise.
+ */
+function makeBranch<T>(children: Node<T>[], level: number, edit: OwnerID | null = null): Branch<T> {
+    const sizes = cumulativeSizes(children, level);
+    for (let i = 0; i < sizes.length - 1; i++) {
+        if (sizes[i] !== (i + 1) << level) return new Branch(children, edit, sizes);
+    }
+    return new Branch(children, edit);
+}
+
+/**
+ * Returns the node if it is owned by `edit`, otherwise a copy of it that is.
+ * Nodes are always copied when `edit` is null, which is how the persistent vector uses the helpers below.
+ */
+function editable<T>(node: Branch<T>, edit: OwnerID | null): Branch<T>;
+function editable<T>(node: Leaf<T>, edit: OwnerID | null): Leaf<T>;
+function editable<T>(node: Node<T>, edit: OwnerID | null): Node<T> {
+    if (edit !== null && node.edit === edit) return node;
+    return node instanceof Leaf
+        ? new Leaf<T>([...node.array], edit)
+        : new Branch<T>([...node.array], edit, node.sizes && [...node.sizes]);
+}
+
+/**
+ * Rebuilds the path to index `i` of a subtrie with the new value, copying only the nodes not owned by `edit`.
+ * @param level - shift of the node, 0 for leaves.
+ */
+function setIn<T>(node: Node<T>, level: number, i: number, value: T, edit: OwnerID | null): Node<T> {
+    if (level === 0) {
+        const ret = editable(node as Leaf<T>, edit);
+        ret.array[i] = value;
+        return ret;
+    }
+    const [idx, local] = childIndex(node as Branch<T>, level, i);
+    const ret = editable(node as Branch<T>, edit);
+    ret.array[idx] = setIn(ret.array[idx], level - SHIFT, local, value, edit);
+    return ret;
+}
+
+/**
+ * Create a path of single child branches down to the leaf, so that the result is a node at `level`.
+ */
+function newPath<T>(level: number, leaf: Leaf<T>, edit: OwnerID | null): Node<T> {
+    let ret: Node<T> = leaf;
+    for (; level > 0; level -= SHIFT) {
+        ret = new Branch<T>([ret], edit);
+    }
+    return ret;
+}
+
+/**
+ * Appends a leaf after the last element of a subtrie.
+ *
+ * The leaf goes into the rightmost branch that has room, and the size tables on the path are updated.
+ * A strict branch becomes relaxed when a new child is added after a child that is not full.
+ *
+ * @param level - shift of the branch.
+ * @returns the updated branch, or null if the subtrie is full.
+ */
+function appendLeaf<T>(node: Branch<T>, level: number, leaf: Leaf<T>, edit: OwnerID | null): Branch<T> | null {
+    const n = node.array.length;
+    const child = level > SHIFT && n > 0
+        ? appendLeaf(node.array[n - 1] as Branch<T>, level - SHIFT, leaf, edit)
+        : null;
+
+    if (child !== null) {
+        const ret = editable(node, edit);
+        ret.array[n - 1] = child;
+        if (ret.sizes !== null) ret.sizes[n - 1] += leaf.array.length;
+        return ret;
+    }
+    if (n === BRANCHING) return null;
+
+    const ret = editable(node, edit);
+    if (ret.sizes === null && n > 0 && nodeSize(ret.array[n - 1], level - SHIFT) !== 1 << level) {
+        ret.sizes = cumulativeSizes(ret.array, level);
+    }
+    ret.array.push(newPath(level - SHIFT, leaf, edit));
+    if (ret.sizes !== null) ret.sizes.push((n > 0 ? ret.sizes[n - 1] : 0) + leaf.array.length);
+    return ret;
+}
+
+/**
+ * Appends a leaf to a trie, and grows a new root one level higher if the trie is full.
+ * @returns the new root and its shift.
+ */
+function pushLeaf<T>(root: Branch<T>, shift: number, leaf: Leaf<T>, edit: OwnerID | null): [Branch<T>, number] {
+    const ret = appendLeaf(root, shift, leaf, edit);
+    if (ret !== null) return [ret, shift];
+
+    const rootSize = nodeSize(root, shift);
+    const sizes = rootSize === 1 << (shift + SHIFT) ? null : [rootSize, rootSize + leaf.array.length];
+    return [new Branch<T>([root, newPath(shift, leaf, edit)], edit, sizes), shift + SHIFT];
+}
+
+/**
+ * Removes the last leaf of a subtrie.
+ * @param level - shift of the branch.
+ * @returns the updated branch, or null if it became empty, and the removed leaf.
+ */
+function popLeaf<T>(node: Branch<T>, level: number, edit: OwnerID | null): [Branch<T> | null, Leaf<T>] {
+    const last = node.array.length - 1;
+    const [child, leaf] = level === SHIFT
+        ? [null, node.array[last] as Leaf<T>]
+        : popLeaf(node.array[last] as Branch<T>, level - SHIFT, edit);
+    if (child === null && last === 0) return [null, leaf];
+
+    const ret = editable(node, edit);
+    if (child === null) {
+        ret.array.length = last;
+        if (ret.sizes !== null) ret.sizes.length = last;
+    } else {
+        ret.array[last] = child;
+        if (ret.sizes !== null) ret.sizes[last] -= leaf.array.length;
+    }
+    return [ret, leaf];
+}
+
+/**
+ * Removes roots with a single child, until the root is on the lowest level or has more children.
+ * @returns the new root and its shift.
+ */
+function collapseRoot<T>(root: Branch<T>, shift: number): [Branch<T>, number] {
+    while (shift > SHIFT && root.array.length <= 1) {
+        if (root.array.length === 0) return [new Branch<T>([]), SHIFT];
+        root = root.array[0] as Branch<T>;
+        shift -= SHIFT;
+    }
+    return [root, shift];
+}
+
+/**
+ * Keeps the elements `[0, end)` of a subtrie, where `end > 0`. Only the nodes on the right edge are copied.
+ * @param level - shift of the node, 0 for leaves.
+ */
+function sliceRight<T>(node: Node<T>, level: number, end: number): Node<T> {
+    if (level === 0) {
+        return end === node.array.length ? node : new Leaf<T>((node as Leaf<T>).array.slice(0, end));
+    }
+    const branch = node as Branch<T>;
+    const [idx, local] = childIndex(branch, level, end - 1);
+    const child = sliceRight(branch.array[idx], level - SHIFT, local + 1);
+    if (idx === branch.array.length - 1 && child === branch.array[idx]) return node;
+
+    const children = branch.array.slice(0, idx + 1);
+    children[idx] = child;
+    if (branch.sizes === null) return new Branch<T>(children);
+    const sizes = branch.sizes.slice(0, idx + 1);
+    sizes[idx] = end;
+    return new Branch<T>(children, null, sizes);
+}
+
+/**
+ * Drops the elements `[0, start)` of a subtrie, where `start` is less than its size.
+ * Only the nodes on the left edge are copied, and they become relaxed.
+ * @param level - shift of the node, 0 for leaves.
+ */
+function sliceLeft<T>(node: Node<T>, level: number, start: number): Node<T> {
+    if (start === 0) return node;
+    if (level === 0) return new Leaf<T>((node as Leaf<T>).array.slice(start));
+
+    const branch = node as Branch<T>;
+    const [idx, local] = childIndex(branch, level, start);
+    const children = branch.array.slice(idx);
+    children[0] = sliceLeft(children[0], level - SHIFT, local);
+
+    const total = branch.sizes === null ? nodeSize(branch, level) : 0;
+    const sizes: number[] = [];
+    for (let i = idx; i < branch.array.length; i++) {
+        const childEnd = branch.sizes === null ? Math.min((i + 1) << level, total) : branch.sizes[i];
+        sizes.push(childEnd - start);
+    }
+    return new Branch<T>(children, null, sizes);
+}
+
+/**
+ * Concatenates two subtries, which may be on different levels.
+ *
+ * The right edge of the left trie and the left edge of the right trie are merged level by level,
+ * and on each level the children along the seam are redistributed by `rebalance`.
+ *
+ * @returns a branch one level above the higher of the two nodes, with one or two children.
+ */
+function concatSubTrie<T>(left: Node<T>, leftLevel: number, right: Node<T>, rightLevel: number): Branch<T> {
+    if (leftLevel > rightLevel) {
+        const leftBranch = left as Branch<T>;
+        const centre = concatSubTrie(leftBranch.array[leftBranch.array.length - 1], leftLevel - SHIFT, right, rightLevel);
+        return rebalance(leftBranch, centre, null, leftLevel);
+    }
+    if (leftLevel < rightLevel) {
+        const rightBranch = right as Branch<T>;
+        const centre = concatSubTrie(left, leftLevel, rightBranch.array[0], rightLevel - SHIFT);
+        return rebalance(null, centre, rightBranch, rightLevel);
+    }
+    if (leftLevel === 0) {
+        const merged = left.array.length + right.array.length <= BRANCHING
+            ? [new Leaf<T>([...(left as Leaf<T>).array, ...(right as Leaf<T>).array])]
+            : [left, right];
+        return makeBranch(merged, SHIFT);
+    }
+    const leftBranch = left as Branch<T>, rightBranch = right as Branch<T>;
+    const centre = concatSubTrie(
+        leftBranch.array[leftBranch.array.length - 1], leftLevel - SHIFT,
+        rightBranch.array[0], rightLevel - SHIFT,
+    );
+    return rebalance(leftBranch, centre, rightBranch, leftLevel);
+}
+
+/**
+ * Joins the children of `left` (except its last), `centre` and `right` (except its first) which are all
+ * branches at `level`, redistributes them with `concatPlan`, and splits the result into one or two branches.
+ *
+ * @returns a branch at `level + SHIFT` with one or two children.
+ */
+function rebalance<T>(left: Branch<T> | null, centre: Branch<T>, right: Branch<T> | null, level: number): Branch<T> {
+    const all: Node<T>[] = [
+        ...(left === null ? [] : left.array.slice(0, -1)),
+        ...centre.array,
+        ...(right === null ? [] : right.array.slice(1)),
+    ];
+    const plan = concatPlan(all);
+    const nodes = plan === null ? all : executePlan(all, plan, level - SHIFT);
+
+    if (nodes.length <= BRANCHING) return makeBranch([makeBranch(nodes, level)], level + SHIFT);
+    return makeBranch([
+        makeBranch(nodes.slice(0, BRANCHING), level),
+        makeBranch(nodes.slice(BRANCHING), level),
+    ], level + SHIFT);
+}
+
+/**
+ * Decides how many slots each of the nodes should have after concatenation.
+ *
+ * A level may use at most `EXTRAS` more nodes than the optimal ceil(slots / 32), which keeps the search
+ * in the size tables short. While there are too many nodes, the first node that is not full is emptied
+ * into the nodes after it, which shifts their contents to the left until one of them has room for the rest.
+ *
+ * @returns the number of slots in each new node, or null if the nodes can be used as they are.
+ */
+function concatPlan<T>(nodes: Node<T>[]): number[] | null {
+    const sizes = nodes.map(node => node.array.length);
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    const optimal = Math.ceil(total / BRANCHING);
+    let n = sizes.length;
+    if (n <= optimal + EXTRAS) return null;
+
+    let i = 0;
+    while (n > optimal + EXTRAS) {
+        while (sizes[i] >= BRANCHING) i++;
+        let remaining = sizes[i];
+        while (remaining > 0) {
+            const size = Math.min(remaining + sizes[i + 1], BRANCHING);
+            remaining += sizes[i + 1] - size;
+            sizes[i] = size;
+            i++;
+        }
+        for (let j = i; j < n - 1; j++) {
+            sizes[j] = sizes[j + 1];
+        }
+        n--;
+        i--;
+    }
+    return sizes.slice(0, n);
+}
+
+/**
+ * Builds the nodes at `level` that `concatPlan` decided on. Nodes that keep their number of slots are reused.
+ */
+function executePlan<T>(nodes: Node<T>[], plan: number[], level: number): Node<T>[] {
+    const result: Node<T>[] = [];
+    let idx = 0, offset = 0;
+    for (const size of plan) {
+        if (offset === 0 && nodes[idx].array.length === size) {
+            result.push(nodes[idx++]);
+            continue;
+        }
+        const slots: (T | Node<T>)[] = [];
+        while (slots.length < size) {
+            const array = nodes[idx].array;
+            const take = Math.min(size - slots.length, array.length - offset);
+            for (let k = 0; k < take; k++) slots.push(array[offset + k]);
+            offset += take;
+            if (offset === array.length) {
+                idx++;
+                offset = 0;
+            }
+        }
+        result.push(level === 0 ? new Leaf<T>(slots as T[]) : makeBranch(slots as Node<T>[], level));
+    }
+    return result;
+}
+
+/**
+ * Concatenates two non-empty tries.
+ * @returns the new root and its shift.
+ */
+function concatTries<T>(left: Branch<T>, leftShift: number, right: Branch<T>, rightShift: number): [Branch<T>, number] {
+    const wrapper = concatSubTrie(left, leftShift, right, rightShift);
+    const shift = Math.max(leftShift, rightShift);
+    if (wrapper.array.length === 1) return [wrapper.array[0] as Branch<T>, shift];
+    return [wrapper, shift + SHIFT];
+}
+
+/**
+ * Index where the child at `i` of a branch ends, relative to the first element of the branch.
+ * @param size - number of elements in the branch.
+ */
+function childEnd<T>(branch: Branch<T>, level: number, i: number, size: number): number {
+    return branch.sizes === null ? Math.min((i + 1) << level, size) : branch.sizes[i];
+}
+
+/**
+ * Yields the indexes below `end` where two subtries hold values that are not equal.
+ * Subtries that are the same node object are skipped.
+ *
+ * Children are only compared node by node while they start and end at the same indexes in both subtries.
+ * From the first child where that is not the case, the elements are compared one by one.
+ *
+ * @param level - shift of the two nodes, 0 for leaves.
+ * @param base - index of the first element in the two nodes.
+ */
+function* diffNodes<T>(a: Node<T>, b: Node<T>, level: number, base: number, end: number): IterableIterator<number> {
+    if (a === b || base >= end) return;
+    if (level === 0) {
+        for (let i = 0; i < a.array.length && base + i < end; i++) {
+            if (!Utils.equals(a.array[i], b.array[i])) yield base + i;
+        }
+        return;
+    }
+    const branchA = a as Branch<T>, branchB = b as Branch<T>;
+    const sizeA = nodeSize(branchA, level), sizeB = nodeSize(branchB, level);
+    const limit = Math.min(end - base, sizeA, sizeB);
+    let start = 0;
+    for (let i = 0; start < limit; i++) {
+        const endA = childEnd(branchA, level, i, sizeA);
+        const endB = childEnd(branchB, level, i, sizeB);
+        if (endA !== endB && Math.min(endA, endB) < limit) {
+            for (let j = start; j < limit; j++) {
+                if (!Utils.equals(lookup(a, level, j), lookup(b, level, j))) yield base + j;
+            }
+            return;
+        }
+        yield* diffNodes(branchA.array[i], branchB.array[i], level - SHIFT, base + start, end);
+        start = endA;
+    }
+}
 
 /**
- * **Persistent Vector** - a fully immutable, bit-mapped vector trie (BVT) based on the vector implementation in Clojure.
+ * **Persistent Vector** - a fully immutable, relaxed radix balanced tree (RRB-tree), that extends the bit-mapped
+ * vector trie (BVT) of the vector implementation in Clojure.
  * 
  * It preserves structural sharing where most of the data can be re-used between updates.
  * 
+ * Vectors that are only built by pushing and popping keep a strict trie, where the path to an index is given by its bits.
+ * Concatenation and slicing can leave nodes that are not full in the middle of the trie. Those nodes are relaxed and
+ * carry a size table, so that two vectors can be concatenated and a vector sliced in O(log_32(N)), instead of copying
+ * the elements one by one.
+ * 
  * **Complexity**:
  * Most operations are O(log_32(N)) where N is the number of elements in the vector.
  * Some operations are O(1) amortised, because they have to traverse less than log_32(N) nodes.
  * 
  * @see https://github.com/clojure/clojure/blob/master/src/jvm/clojure/lang/PersistentVector.java
  * @see https://blog.higher-order.net/2009/02/01/understanding-clojures-persistentvector-implementation
+ * @see https://infoscience.epfl.ch/entities/publication/e5a6e7a3-4fa5-4c81-b2b7-4fa7de4d4b3a
  */
 export default class Vector<T> extends AbstractList<T>
     implements List<T> {
@@ -80,7 +516,7 @@ export default class Vector<T> extends AbstractList<T>
     constructor(
         readonly _size: number,
         readonly _shift: number,
-        readonly _root: Node<T>,
+        readonly _root: Branch<T>,
         readonly _tail: T[],
     ) {
         super();
@@ -118,9 +554,41 @@ export default class Vector<T> extends AbstractList<T>
      * @returns a new vector with the values added.
      */
     static of<T>(...values: T[]): Vector<T> {
-        let v = Vector.empty<T>();
-        for (const e of values) v = v.push(e);
-        return v;
+        return Vector.empty<T>().withMutations(v => v.pushAll(values));
+    }
+
+    /**
+     * Returns a transient (batch-mutable) version of this vector.
+     *
+     * The transient shares every node with this vector. A node is copied the first time it is changed
+     * through the transient, and after that the copy is changed in place. This vector is never changed.
+     *
+     * Call `persistent()` on the transient to freeze it back into a normal Vector.
+     *
+     * Complexity: O(1)
+     *
+     * @see https://clojure.org/reference/transients
+     */
+    asTransient(): TransientVector<T> {
+        return new TransientVector<T>(this._size, this._shift, this._root, this._tail);
+    }
+
+    /**
+     * Apply a batch of changes to a transient version of this vector, and return the result as a persistent vector.
+     *
+     * @example
+     * const vec = Vector.empty<number>().withMutations(v => {
+     *     v.push(1).push(2).push(3);
+     *     v.set(0, 10);
+     * }); // [10, 2, 3]
+     *
+     * @param fn - function that changes the transient vector in place.
+     * @returns a new vector with the changes applied.
+     */
+    withMutations(fn: (vector: TransientVector<T>) => void): Vector<T> {
+        const transient = this.asTransient();
+        fn(transient);
+        return transient.persistent();
     }
 
     /**
@@ -145,26 +613,17 @@ export default class Vector<T> extends AbstractList<T>
     }
 
     /**
-     * Locate leaf array for index i.
-     * @param i - index of the element to locate array for
+     * Number of elements that are stored in the trie, the rest are in the tail.
      */
-    private _tailArrayFor(i: number): T[] {
-        if (i < 0 || i >= this._size) throw new RangeError(`Index ${i} out of bounds`);
-
-        if (i >= tailOffset(this._size)) return this._tail;
-
-        let node: Node<T> = this._root;
-        for (let level = this._shift; level > 0; level -= SHIFT) {
-            const idx = mask(i, level);
-            node = (node as Branch<T>).array[idx];
-        }
-        return (node as Leaf<T>).array;
+    private _trieSize(): number {
+        return this._size - this._tail.length;
     }
 
     /**
      * Method to get the element at index i.
      * 
-     * First locates the leaf array for the index i, then returns the element at that index.
+     * Elements after the trie are read from the tail. Otherwise the trie is walked from the root, where
+     * strict branches use the bits of the index and relaxed branches search their size table.
      * 
      * Complexity: O(log_32(N)). This is because we have to walk one pointer per level until you hit the leaf that holds the element at index i.
      * 
@@ -172,15 +631,17 @@ export default class Vector<T> extends AbstractList<T>
      * @returns the element at index i 
      */
     get(i: number): T {
-        const leafArray = this._tailArrayFor(i);
-        return leafArray[i & MASK];
+        if (i < 0 || i >= this._size) throw new RangeError(`Index ${i} out of bounds`);
+        const trieSize = this._trieSize();
+        if (i >= trieSize) return this._tail[i - trieSize];
+        return lookup(this._root, this._shift, i);
     }
 
     /**
      * Method to set the element at index i.
      * 
      * Complexity: O(log_32(N)). Same as get() because we have to walk one pointer per level until you hit the leaf that holds the element at index i.
-     * Also, we have to rebuild the nodes on the path with the `doSet()` method.
+     * Also, we have to rebuild the nodes on the path from the root to the leaf.
      * 
      * @param i - index of the element to set
      * @param value - value to set
@@ -190,43 +651,28 @@ export default class Vector<T> extends AbstractList<T>
         if (i === this._size) return this.push(value);
         if (i < 0 || i >= this._size) throw new RangeError(`Index ${i} out of bounds`);
 
-        if (i >= tailOffset(this._size)) {
+        const trieSize = this._trieSize();
+        if (i >= trieSize) {
             const newTail = [...this._tail];
-            newTail[i & MASK] = value;
+            newTail[i - trieSize] = value;
             return new Vector(this._size, this._shift, this._root, newTail);
         }
 
-        const newRoot = this._doSet(this._shift, this._root, i, value);
+        const newRoot = setIn(this._root, this._shift, i, value, null) as Branch<T>;
         return new Vector(this._size, this._shift, newRoot, this._tail);
     }
 
     /**
-     * Recursively rebuild the branch path that leads to the element at index i.
+     * Opens a zipper focused on the element at index i, for repeated edits around a moving position.
      * 
-     * Algorithm works top-down:
-     *      1. Clone the current node's `array` to avoid mutation.
-     *      2. If we are at the leaf level (level === 0), overwrite the slot with the new value. 
-     *         Otherwise, use `mask(i, level)` to find the child slot, and recurse one level deeper.
-     *      3. Return a new `Branch` node with the updated array.
+     * Complexity: O(log_32(N)) to open the leaf that holds the element. Moving the focus and editing at it
+     * are then amortised O(1), and `toVector()` closes the zipper by concatenating the untouched slices.
      * 
-     * Complexity: O(log_32(N)). Only the nodes from the path from the root to the modified leaf are copied;
-     * and everything else is shared with the original vector. It allocates one new node per level.
-     *       
-     * @param level - Current shift (multiple of 5) that encodes the depth in the trie.
-     * @param node - Sub-trie node we are cloning at this level.
-     * @param i - Index being updated.
-     * @param value - New value to set at index i.
-     * @returns - A fresh node that is the root of the updated subtree. 
-     */
-    private _doSet(level: number, node: Node<T>, i: number, value: T): Node<T> {
-        const arr = [...node.array];
-        if (level === 0) {
-            arr[i & MASK] = value;
-        } else {
-            const idx = mask(i, level);
-            arr[idx] = this._doSet(level - SHIFT, arr[idx] as Node<T>, i, value);
-        }
-        return new Branch(arr as Node<T>[]);
+     * @param i - index of the element to focus on
+     * @returns a zipper focused on the element at index i
+     */
+    focusAt(i: number): Zipper<T> {
+        return Zipper.ofVector(this, i);
     }
 
     /**
@@ -240,7 +686,7 @@ export default class Vector<T> extends AbstractList<T>
      * Slow path - tail promotion.
      * When the tail is full, we need to promote it into the trie.
      * 1. Wrap the full tail in a leaf node.
-     * 2. **If the root has room**, add the leaf into the existing trie.
+     * 2. **If the root has room**, add the leaf after the last leaf of the trie.
      * 3. **If the root is full (overflow)**, allocate a fresh root one level higher.
      * 
      * Complexity: **amortised O(1)**. 
@@ -256,76 +702,10 @@ export default class Vector<T> extends AbstractList<T>
             return new Vector(this._size + 1, this._shift, this._root, newTail);
         }
 
-        const tailLeaf = new Leaf(this._tail);
-        let newShift = this._shift;
-        let newRoot: Node<T>;
-
-        const rootOverflow = (this._size >>> SHIFT) > (1 << this._shift);
-
-        if (rootOverflow) {
-            // creates a new root one level higher
-            newRoot = new Branch([
-                this._root,
-                this._newPath(this._shift, tailLeaf)
-            ]);
-            newShift += SHIFT;
-        } else {
-            // push into existing trie
-            newRoot = this._pushTail(this._shift, this._root, this._tail);
-        }
-
+        const [newRoot, newShift] = pushLeaf(this._root, this._shift, new Leaf(this._tail), null);
         return new Vector(this._size + 1, newShift, newRoot, [value]);
     }
 
-    /**
-     * Helper for the `push` method to push the tail into the trie path that corresponds to
-     * the index (size - 1) cloning only the nodes along the path for structural sharing.
-     * 
-     * Algorithm top-down:
-     * 1. Compute the index of the child slot within the parent.
-     * 2. Clone the parent node's array to avoid mutation.
-     * 2. **Leaf level**: When the level is 0, store the leaf array.
-     * 3. **Branch level**: 
-     *      - if the child exists at index, call `_pushTail` 
-     *      - if not, build a fresh path of nodes down to the leaf. 
-     * 4. Return a new `Branch` node with the updated array.
-     * 
-     * Complexity: O(log_32(N)).
-     * Each recursion step copies exactly one branch node. 
-     * @param level - Current shift (multiple of 5) that encodes the depth in the trie.
-     * @param parent - Branch node to clone at this level.
-     * @param tailArr - The 32-element tail buffer. 
-     * @returns - A new node that is the updated branch.
-     */
-    private _pushTail(level: number, parent: Node<T>, tailArr: T[]): Node<T> {
-        const idx = mask(this._size - 1, level);
-        const arr = [...(parent as Branch<T>).array];
-        let node: Node<T>;
-
-        if (level === SHIFT) {
-            node = new Leaf(tailArr);
-        } else {
-            const child = arr[idx] as Node<T> | undefined;
-            node = child 
-                ? this._pushTail(level - SHIFT, child, tailArr)
-                : this._newPath(level - SHIFT, new Leaf(tailArr));
-        }
-        arr[idx] = node;
-        return new Branch(arr as Node<T>[]);
-    }
-    
-    /**
-     * Create a path of branch nodes to the level wrapping node.
-     */
-    private _newPath(level: number, node: Node<T>): Node<T> {
-        let ret: Node<T> = node;
-        while (level > 0) {
-            ret = new Branch([ret]);
-            level -= SHIFT;
-        }
-        return ret;
-    }
-
     /**
      * Removes the last element from the Vector.
      * 
@@ -337,10 +717,8 @@ export default class Vector<T> extends AbstractList<T>
      * 
      * **Slow path** - tail collapse.
      * When the tail contains only one element, we need to:
-     * 1. Get the tail array for the element before the last one (size - 2).
-     * 2. Then we need to pop the last element and trim the branch path, cloning one node
-     * per visited level.
-     * 3. If the root now consits of a single child, collapse the height by one level.
+     * 1. Take the last leaf out of the trie, cloning one node per visited level. The leaf becomes the new tail.
+     * 2. If the root now consits of a single child, collapse the height by one level.
      * 
      * Complexity: Amortised O(1).
      * The slow path visits at most log_32(N) nodes, while the fast path is O(1).
@@ -354,63 +732,56 @@ export default class Vector<T> extends AbstractList<T>
         // fast path
         if (this._tail.length > 1) {
             const newTail = this._tail.slice(0, -1);
-            return new Vector(this._size - 1, this._shift, this._root, newTail);
+            return fromTrie(this._size - 1, this._shift, this._root, newTail);
         }
 
         // slow path
-        const newTailArr = this._tailArrayFor(this._size - 2);
-        const newRoot = this._popTail(this._shift, this._root);
-        let newShift = this._shift;
-        let root2 = newRoot as Branch<T>;
-
-        if (newShift > SHIFT && root2.array.length === 1) {
-            root2 = root2.array[0] as Branch<T>;
-            newShift -= SHIFT;
-        }
-
-        return new Vector(this._size - 1, newShift, root2, newTailArr.slice());
+        const [root, leaf] = popLeaf(this._root, this._shift, null);
+        const [newRoot, newShift] = collapseRoot(root ?? new Branch<T>([]), this._shift);
+        return fromTrie(this._size - 1, newShift, newRoot, leaf.array);
     }
 
     /**
-     * Trim the trie after a `pop`.
-     * 
-     * Walks down the branch that held the last leaf, cloning the nodes along the way,
-     * and removes empty branches. 
+     * Concatenates this vector with another vector in O(log_32(N)).
      * 
-     * Complexity: Amortised O(1).
-     * This is because it touches less than log_32(N) nodes, and the rest of the tree is shared.
-     * @param level - Current shift (multiple of 5).
-     * @param node - Branch being cloned at this level.
-     * @returns - Updated branch node.
-     */
-    private _popTail(level: number, node: Node<T>): Node<T> {
-        const idx = mask(this._size - 2, level);
-        if (level > SHIFT) {
-            const child = (node as Branch<T>).array[idx] as Node<T>;
-            const newChild = this._popTail(level - SHIFT, child);
-            if ((newChild as Branch<T>).array.length === 0 && idx === 0) {
-                return new Branch([]);
-            }
-            const arr = [...(node as Branch<T>).array];
-            arr[idx] = newChild;
-            return new Branch(arr as Node<T>[]);
-        }
-        // dropping last leaf
-        if (idx === 0) return new Branch([]);
-        return new Branch((node as Branch<T>).array.slice(0, idx) as Node<T>[]);
+     * The tail of this vector is pushed into its trie as a leaf, and the two tries are merged along the seam
+     * between them. The tail of the other vector becomes the tail of the result. A short vector is pushed
+     * element by element instead, which keeps the trie strict.
+     */
+    private _concatVector(other: Vector<T>): Vector<T> {
+        if (other._size === 0) return this;
+        if (this._size === 0) return other;
+        if (other._size <= BRANCHING) return this.withMutations(v => v.pushAll(other));
+
+        const [left, leftShift] = pushLeaf(this._root, this._shift, new Leaf(this._tail), null);
+        const [root, shift] = concatTries(left, leftShift, other._root, other._shift);
+        return new Vector(this._size + other._size, shift, root, other._tail);
+    }
+
+    /**
+     * Returns the items as a vector, without copying them if they already are one.
+     */
+    private static _from<T>(items: Iterable<T>): Vector<T> {
+        return items instanceof Vector ? items : Vector.empty<T>().withMutations(v => v.pushAll(items));
     }
 
     // Methods from the List interface
 
     /**
-     * Adds an item to the end of the vector.
-     * Same as the `push` method.
+     * Adds an item to the end of the vector, or inserts it at the given index.
+     * 
+     * Without an index it is the same as the `push` method. Inserting slices the vector at the index
+     * and concatenates the two halves around the item.
+     * 
+     * Complexity: O(log_32(N))
      */
     add(item: T): Vector<T>;
     add(index: number, item: T): Vector<T>;
     add(arg1: T | number, arg2?: T): Vector<T> {
         if (typeof arg1 === "number" && arg2 !== undefined) {
-            return this.set(arg1, arg2 as T);
+            if (arg1 < 0 || arg1 > this._size) throw new RangeError(`Index ${arg1} out of bounds`);
+            if (arg1 === this._size) return this.push(arg2);
+            return this.slice(0, arg1).push(arg2)._concatVector(this.slice(arg1));
         } else {
             return this.push(arg1 as T);
         }
@@ -419,31 +790,19 @@ export default class Vector<T> extends AbstractList<T>
     /**
      * Add all the items to the Vector
      * 
-     * Need to check if the calling instance is a VectorSlice or not.
-     * Then we slice all the items to the left and to the right of the index, excluding the index itself. 
+     * The vector is sliced at the index, and the items are concatenated between the two halves.
      * 
      * @param items - to be added
      * @param index - optional parameter which is where to add the items from.
      * @returns - Vector with the items added. 
      */
     addAll(items: Iterable<T>, index?: number): Vector<T> {
-        const elems = Array.from(items);
-        if (elems.length === 0) return this;
-
         const insertAt = index === undefined ? this._size : index;
+        if (insertAt < 0 || insertAt > this._size) throw new RangeError(`Index ${insertAt} out of bounds`);
 
-        const makeBase = (v: Vector<T>): Vector<T> =>
-            v instanceof (VectorView) ? Vector.of(...v) : v;
-
-        const left = this.slice(0, insertAt);
-        let res = makeBase(left);
-
-        for (const e of elems) res = res.push(e);
-
-        const right = this.slice(insertAt);
-        for (const e of right) res = res.push(e);
-
-        return res;
+        const vector = Vector._from(items);
+        if (vector._size === 0) return this;
+        return this.slice(0, insertAt)._concatVector(vector)._concatVector(this.slice(insertAt));
     }
 
 
@@ -452,10 +811,8 @@ export default class Vector<T> extends AbstractList<T>
      * 
      * First checks if the index is valid.
      * 
-     * Then it calls the `slice` method to get the left view of the vector and the right view of the vector.
-     * This excludes the element at the index.
-     * 
-     * Then it calls the `addAll` method to create a new vector with the left and right views.
+     * Then it calls the `slice` method to get the left part of the vector and the right part of the vector.
+     * This excludes the element at the index, and the two parts are concatenated.
      * 
      * @param index - index of the element to be removed
      * @returns A new vector with the element at index removed.
@@ -465,9 +822,7 @@ export default class Vector<T> extends AbstractList<T>
 
         if (index === this._size - 1) return this.pop();
 
-        const left = this.slice(0, index);
-        const right = this.slice(index + 1);
-        return (left as Vector<T>).addAll(right);
+        return this.slice(0, index)._concatVector(this.slice(index + 1));
     }
 
     /**
@@ -488,13 +843,14 @@ export default class Vector<T> extends AbstractList<T>
      * Removes all the items from the vector.
      * 
      * If an item appears more times in the vector, all the instances will be removed.
+     * Items are matched with `equals` and `hashCode`, like the keys of a HashSet.
      * 
      * @param c - collection of items to be removed from the vector
      * @returns A new vector with the items removed.
      */
     removeAll(c: Iterable<T>): Vector<T> {
-        const toRemove = new Set(c);
-        if (toRemove.size === 0) return this;
+        const toRemove = new HashSet<T>().addAll(c);
+        if (toRemove.isEmpty()) return this;
 
         let res = Vector.empty<T>();
         let changed = false;
@@ -540,7 +896,7 @@ export default class Vector<T> extends AbstractList<T>
      */
     indexOf(item: T): number {
         for (let i = 0; i < this._size; i++) {
-            if (this.get(i) === item) return i;
+            if (Utils.equals(this.get(i), item)) return i;
         }
         return -1;
     }
@@ -551,7 +907,7 @@ export default class Vector<T> extends AbstractList<T>
      */
     lastIndexOf(item: T): number {
         for (let i = this._size - 1; i >= 0; i--) {
-            if (this.get(i) === item) return i;
+            if (Utils.equals(this.get(i), item)) return i;
         }
         return -1;
     }
@@ -579,7 +935,7 @@ export default class Vector<T> extends AbstractList<T>
      * @returns a new vector with the element added to the end.
      */
     addLast(e: T): Vector<T> {
-        return this.addAll([e], this._size);
+        return this.push(e);
     }
     /**
      * Get the first element of the vector.
@@ -659,10 +1015,10 @@ export default class Vector<T> extends AbstractList<T>
     /**
      * 
      * @param c - iterable to be retained
-     * @returns a new vector with the elements that are in the iterable.
+     * @returns a new vector with the elements that are in the iterable, matched with `equals` and `hashCode`.
      */
     retainAll(c: Iterable<T>): Vector<T> {
-        const retainSet = new Set(c);
+        const retainSet = new HashSet<T>().addAll(c);
         const arr = this.toArray();
         const kept = [];
         for (let i = 0; i < arr.length; ++i) {
@@ -725,6 +1081,14 @@ export default class Vector<T> extends AbstractList<T>
         return this._hashCode;
     }
 
+    /**
+     * Returns the elements as an array, so that `JSON.stringify` writes the vector as a JSON array instead of its trie.
+     * Use `JsonCodec` for a shape that can be read back into a vector.
+     */
+    toJSON(): T[] {
+        return this.toArray();
+    }
+
 
     // HOFs
     /**
@@ -747,20 +1111,19 @@ export default class Vector<T> extends AbstractList<T>
             ? size - actualStart
             : Math.min(Math.max(deleteCount, 0), size - actualStart);
 
-        let left = this.slice(0, actualStart);
-        let res = left;
-        if (items.length > 0) {
-            res = res.addAll(items);
-        }
-        const right = this.slice(actualStart + dc);
-        return res.addAll(right);
+        return this.slice(0, actualStart)
+            ._concatVector(Vector._from(items))
+            ._concatVector(this.slice(actualStart + dc));
     }
 
     /**
      * Returns a new vector containing the elements from the start index (inclusive) to the end index (exclusive).
      * 
-     * Returns a new VectorView of the original vector that contains an offset from the start of the original vector.
-     * It also contains the length of the new vector.
+     * The trie is cut along the paths to the first and the last index that are kept, so the nodes outside
+     * the slice are dropped and everything in between is shared with the original vector. The last leaf
+     * of the slice becomes its tail.
+     * 
+     * Complexity: O(log_32(N))
      * 
      * @param start - start index (inclusive). Negative index starts from the end.
      * @param end - end index (exclusive). Negative index starts from the end.
@@ -778,14 +1141,20 @@ export default class Vector<T> extends AbstractList<T>
         if (len === 0) return Vector.empty<T>();
         if (len === this._size) return this;
 
-        if (this instanceof VectorView) {
-            return new VectorView(
-                (this as any)._vector,
-                (this as any)._offset + start,
-                len
-            );
+        const trieSize = this._trieSize();
+        if (start >= trieSize) {
+            return new Vector(len, SHIFT, new Branch<T>([]), this._tail.slice(start - trieSize, end - trieSize));
+        }
+        if (end > trieSize) {
+            const root = sliceLeft(this._root, this._shift, start) as Branch<T>;
+            const [newRoot, newShift] = collapseRoot(root, this._shift);
+            return fromTrie(len, newShift, newRoot, this._tail.slice(0, end - trieSize));
         }
-        return new VectorView(this, start, len);
+
+        const root = sliceLeft(sliceRight(this._root, this._shift, end), this._shift, start) as Branch<T>;
+        const [popped, leaf] = popLeaf(root, this._shift, null);
+        const [newRoot, newShift] = collapseRoot(popped ?? new Branch<T>([]), this._shift);
+        return fromTrie(len, newShift, newRoot, leaf.array);
     }
 
     /**
@@ -804,11 +1173,25 @@ export default class Vector<T> extends AbstractList<T>
 
     /**
      * Concat the vector with the given values or collections.
+     * 
+     * Vectors are joined with the trie concatenation in O(log_32(N)), other collections are pushed
+     * element by element.
+     * 
      * @param valuesOrCollections - values or collections to be concatenated
      * @returns A new vector with the values or collections concatenated.
      */
     concat<C extends T>(...valuesOrCollections: Array<Iterable<C> | C>): Vector<T | C> {
-        return super.concat(...valuesOrCollections) as Vector<T | C>;
+        let result: Vector<T | C> = this;
+        for (const elem of valuesOrCollections) {
+            if (elem instanceof Vector) {
+                result = result._concatVector(elem);
+            } else if (elem !== null && (elem as any)[Symbol.iterator]) {
+                result = result.withMutations(v => v.pushAll(elem as Iterable<C>));
+            } else {
+                result = result.push(elem as C);
+            }
+        }
+        return result;
     }
 
     /**
@@ -830,7 +1213,12 @@ export default class Vector<T> extends AbstractList<T>
         mapper: (value: T, key: number, collection: this) => M,
         thisArg?: any
     ): Vector<M> {
-        return super.map(mapper, thisArg) as Vector<M>;
+        return Vector.empty<M>().withMutations(v => {
+            let i = 0;
+            for (const value of this) {
+                v.push(mapper.call(thisArg, value, i++, this));
+            }
+        });
     }
 
     /**
@@ -842,7 +1230,12 @@ export default class Vector<T> extends AbstractList<T>
         mapper: (value: T, key: number, iter: this) => Iterable<M>,
         thisArg?: any
     ): Vector<M> {
-        return super.flatMap(mapper, thisArg) as Vector<M>;
+        return Vector.empty<M>().withMutations(v => {
+            let i = 0;
+            for (const value of this) {
+                v.pushAll(mapper.call(thisArg, value, i++, this));
+            }
+        });
     }
 
     /**
@@ -859,7 +1252,12 @@ export default class Vector<T> extends AbstractList<T>
         thisArg?: any
     ): this;
     filter(predicate: any, thisArg?: any): any {
-        return super.filter(predicate, thisArg) as any;
+        return Vector.empty<T>().withMutations(v => {
+            let i = 0;
+            for (const value of this) {
+                if (predicate.call(thisArg, value, i++, this)) v.push(value);
+            }
+        });
     }
 
     /**
@@ -1043,6 +1441,76 @@ export default class Vector<T> extends AbstractList<T>
         return super.reduceRight(callback, initialValue) as any;
     }
 
+    /**
+     * Returns the changes that turn this vector into the other vector, as ranges of indexes.
+     * 
+     * Indexes that are in both vectors, but hold values that are not equal, are grouped into `changed` ranges.
+     * If the other vector is longer, the extra elements are one `added` range, and if it is shorter
+     * the missing elements are one `removed` range.
+     * 
+     * The two tries are walked side by side, and subtrees that both vectors share are skipped. Diffing two versions
+     * that are a few edits apart is therefore close to O(edits * log_32(N)).
+     * 
+     * @param other - the newer version of the vector.
+     * @returns an iterator over the changed ranges in index order.
+     */
+    *diff(other: Vector<T>): IterableIterator<RangeChange<T>> {
+        const common = Math.min(this._size, other._size);
+        let from = -1, to = -1;
+        for (const i of this._diffIndexes(other, common)) {
+            if (i !== to) {
+                if (from !== -1) yield this._changedRange(other, from, to);
+                from = i;
+            }
+            to = i + 1;
+        }
+        if (from !== -1) yield this._changedRange(other, from, to);
+
+        if (other._size > common) {
+            yield {type: "added", from: common, to: other._size, values: other.slice(common).toArray()};
+        }
+        if (this._size > common) {
+            yield {type: "removed", from: common, to: this._size, values: this.slice(common).toArray()};
+        }
+    }
+
+    /**
+     * Yields the indexes below `end` where this vector and the other vector hold values that are not equal.
+     * 
+     * The part of the indexes that is stored in both tries is walked node by node. If one trie is deeper,
+     * the walk starts at its leftmost child on the level of the other root, since a vector that grows by pushing
+     * keeps its old root as the first child of the new root. The tails are compared element by element.
+     */
+    private *_diffIndexes(other: Vector<T>, end: number): IterableIterator<number> {
+        if (this === other) return;
+
+        let trieEnd = Math.min(this._trieSize(), other._trieSize(), end);
+        if (trieEnd > 0) {
+            let rootA: Node<T> = this._root, shiftA = this._shift;
+            let rootB: Node<T> = other._root, shiftB = other._shift;
+            for (; shiftA > shiftB; shiftA -= SHIFT) rootA = rootA.array[0] as Node<T>;
+            for (; shiftB > shiftA; shiftB -= SHIFT) rootB = rootB.array[0] as Node<T>;
+            trieEnd = Math.min(trieEnd, nodeSize(rootA, shiftA), nodeSize(rootB, shiftB));
+            yield* diffNodes(rootA, rootB, shiftA, 0, trieEnd);
+        }
+        for (let i = trieEnd; i < end; i++) {
+            if (!Utils.equals(this.get(i), other.get(i))) yield i;
+        }
+    }
+
+    /**
+     * Creates a `changed` range for the indexes `[from, to)`.
+     */
+    private _changedRange(other: Vector<T>, from: number, to: number): RangeChange<T> {
+        return {
+            type: "changed",
+            from,
+            to,
+            oldValues: this.slice(from, to).toArray(),
+            newValues: other.slice(from, to).toArray(),
+        };
+    }
+
     /**
      * Converts the vector to an array using the iterator method.
      */
@@ -1052,14 +1520,17 @@ export default class Vector<T> extends AbstractList<T>
 
     /**
      * Verifies that the {@link Vector} instance obeys all the structural invariants of the 
-     * array mapped trie (AMT).
+     * relaxed radix balanced tree (RRB-tree).
      * 
      * Checks performed:
      * 1. Tail buffer length is between 1 and 32 (or 0 for an empty vector) and is consistent
      *    with the total size.
      * 2. The shift is a multiple of 5, i.e. each trie level consumes exactly 
      *    one 5-bit slice.
-     * 4. Every internal {@link Branch} node has between 1 and 32 children.
+     * 3. Every internal {@link Branch} node has between 1 and 32 children, and every leaf between 1 and 32 elements.
+     * 4. Every child of a strict branch but the last is full, and the size table of a relaxed branch
+     *    matches the sizes of its children.
+     * 5. The trie and the tail together hold exactly `size` elements.
      *
      * @returns true if all the properties of the vector are valid, false otherwise.
      */
@@ -1081,60 +1552,218 @@ export default class Vector<T> extends AbstractList<T>
         // trie depth
         if (this._shift % SHIFT !== 0) return false;
     
-        // check for branch and leaf nodess
-        function checkNode(node: Node<T>, level: number): boolean {
-        if (level === 0) {
-            return (
-            node instanceof Leaf &&
-            node.array.length > 0 &&
-            node.array.length <= BRANCHING
-            );
-        }
-    
-        if (!(node instanceof Branch)) return false;
-        const children = node.array as Node<T>[];
-        if (children.length === 0 || children.length > BRANCHING) return false;
+        // check for branch and leaf nodes, and return the number of elements, or -1 if the node is invalid
+        function checkNode(node: Node<T>, level: number): number {
+            if (level === 0) {
+                const valid = node instanceof Leaf && node.array.length > 0 && node.array.length <= BRANCHING;
+                return valid ? node.array.length : -1;
+            }
     
-            return children.every(child => checkNode(child, level - SHIFT));
+            if (!(node instanceof Branch)) return -1;
+            const children = node.array as Node<T>[];
+            if (children.length === 0 || children.length > BRANCHING) return -1;
+            if (node.sizes !== null && node.sizes.length !== children.length) return -1;
+
+            let total = 0;
+            for (let i = 0; i < children.length; i++) {
+                const size = checkNode(children[i], level - SHIFT);
+                if (size === -1) return -1;
+                total += size;
+                if (node.sizes === null && i < children.length - 1 && size !== 1 << level) return -1;
+                if (node.sizes !== null && node.sizes[i] !== total) return -1;
+            }
+            return total;
         }
-    
-        return checkNode(this._root, this._shift);
+
+        const trieSize = this._size - tailLen;
+        if (trieSize === 0) return this._root.array.length === 0;
+        return checkNode(this._root, this._shift) === trieSize;
     }
 
 }
 
 
 /**
- * Represents an immutable view of a contiguous slice of another Vector.
- * Shares the underlying data structure and avoid copying data for efficient slicing.
- * 
- * Has an `_offset` to the original vector and a `_size` to represent the size of the slice.
+ * Creates a vector from a trie and a tail.
+ *
+ * A vector with at most 32 elements keeps all of them in the tail. Popping from or slicing a relaxed trie
+ * can leave a small vector with elements in the trie, and then they are moved into the tail.
  */
-class VectorView<T> extends Vector<T> {
-    constructor(
-        private readonly _vector: Vector<T>,
-        private readonly _offset: number, 
-        readonly _size: number,
-    ) {
-        super(_size, _vector._shift, _vector._root, _vector._tail);
+function fromTrie<T>(size: number, shift: number, root: Branch<T>, tail: T[]): Vector<T> {
+    if (size === 0) return Vector.empty<T>();
+    if (size <= BRANCHING && tail.length !== size) {
+        const trieSize = size - tail.length;
+        const elements: T[] = [];
+        for (let i = 0; i < trieSize; i++) elements.push(lookup(root, shift, i));
+        return new Vector(size, SHIFT, new Branch<T>([]), elements.concat(tail));
+    }
+    return new Vector(size, shift, root, tail);
+}
+
+/**
+ * **Transient Vector** - a temporary, mutable version of a `Vector` used for batches of changes.
+ *
+ * It is created with `Vector.asTransient()` (or `Vector.withMutations()`), and it starts out sharing every node
+ * with the persistent vector. Nodes that the transient copies are stamped with its owner token, and those nodes
+ * are changed in place by later edits. The tail is always owned by the transient. Pushing N elements therefore
+ * allocates O(N) memory, instead of cloning the tail and the path through the trie for every element.
+ *
+ * `persistent()` freezes the transient into a normal `Vector` in O(1). After that the transient can not be used anymore.
+ *
+ * @see https://clojure.org/reference/transients
+ * @see https://github.com/clojure/clojure/blob/master/src/jvm/clojure/lang/PersistentVector.java
+ */
+export class TransientVector<T> {
+    private _edit: OwnerID | null = new OwnerID();
+    private _size: number;
+    private _shift: number;
+    private _root: Branch<T>;
+    private _tail: T[];
+
+    constructor(size: number, shift: number, root: Branch<T>, tail: T[]) {
+        this._size = size;
+        this._shift = shift;
+        this._root = root;
+        this._tail = [...tail];
+    }
+
+    /**
+     * Throws if `persistent()` has already been called on this transient.
+     */
+    private _ensureEditable(): OwnerID {
+        if (this._edit === null) {
+            throw new Error("Transient used after persistent() call");
+        }
+        return this._edit;
+    }
+
+    /**
+     * Get the number of elements in this transient.
+     */
+    size(): number {
+        this._ensureEditable();
+        return this._size;
     }
 
-    size(): number { return this._size; }
-    isEmpty(): boolean { return this.size() === 0; }
+    /**
+     * Get the element at index i.
+     * @param i - index of the element to get
+     */
+    get(i: number): T {
+        this._ensureEditable();
+        if (i < 0 || i >= this._size) throw new RangeError(`Index ${i} out of bounds`);
+        const trieSize = this._size - this._tail.length;
+        if (i >= trieSize) return this._tail[i - trieSize];
+        return lookup(this._root, this._shift, i);
+    }
+
+    /**
+     * Append a value to the end of this transient.
+     *
+     * Same cases as `Vector.push`, but the tail is appended to in place, and the nodes on the path to the
+     * promoted tail are only copied if they are not already owned by this transient.
+     *
+     * Complexity: amortised O(1)
+     *
+     * @param value - value to be added
+     * @returns this transient, to allow chaining.
+     */
+    push(value: T): this {
+        const edit = this._ensureEditable();
+
+        if (this._tail.length < BRANCHING) {
+            this._tail.push(value);
+            this._size++;
+            return this;
+        }
+
+        const tailLeaf = new Leaf<T>(this._tail, edit);
+        this._tail = [value];
+        [this._root, this._shift] = pushLeaf(this._root, this._shift, tailLeaf, edit);
+        this._size++;
+        return this;
+    }
 
-    override get(i: number): T {
-        if (i < 0 || i >= this._size)
-            throw new RangeError(`Index ${i} out of bounds`);
-        return this._vector.get(this._offset + i);
+    /**
+     * Append all the values to the end of this transient.
+     * @param values - values to be added
+     */
+    pushAll(values: Iterable<T>): this {
+        for (const value of values) {
+            this.push(value);
+        }
+        return this;
     }
 
-    override set(i: number, value: T): Vector<T> {
+    /**
+     * Set the element at index i in place.
+     *
+     * Complexity: O(log_32(N))
+     *
+     * @param i - index of the element to set. Setting index `size()` is the same as `push`.
+     * @param value - value to set
+     * @returns this transient, to allow chaining.
+     */
+    set(i: number, value: T): this {
+        const edit = this._ensureEditable();
+        if (i === this._size) return this.push(value);
         if (i < 0 || i >= this._size) throw new RangeError(`Index ${i} out of bounds`);
-        return this._vector.set(this._offset + i, value)
-                            .slice(this._offset, this._offset + this._size) as Vector<T>;
+
+        const trieSize = this._size - this._tail.length;
+        if (i >= trieSize) {
+            this._tail[i - trieSize] = value;
+        } else {
+            this._root = setIn(this._root, this._shift, i, value, edit) as Branch<T>;
+        }
+        return this;
     }
 
-    override slice(start: number = 0, end: number = this._size): Vector<T> {
-        return this._vector.slice(this._offset + start, this._offset + end);
+    /**
+     * Remove the last element of this transient.
+     *
+     * Same cases as `Vector.pop`. When the tail becomes empty, the last leaf of the trie is taken
+     * out and becomes the new tail.
+     *
+     * Complexity: amortised O(1)
+     *
+     * @returns this transient, to allow chaining.
+     */
+    pop(): this {
+        const edit = this._ensureEditable();
+        if (this._size === 0) throw new RangeError("Can't pop empty vector");
+
+        if (this._size === 1) {
+            this._size = 0;
+            this._shift = SHIFT;
+            this._root = new Branch<T>([], edit);
+            this._tail = [];
+            return this;
+        }
+
+        if (this._tail.length > 1) {
+            this._tail.pop();
+            this._size--;
+            return this;
+        }
+
+        const [root, leaf] = popLeaf(this._root, this._shift, edit);
+        [this._root, this._shift] = collapseRoot(root ?? new Branch<T>([], edit), this._shift);
+        this._tail = leaf.array.slice();
+        this._size--;
+        return this;
     }
-}
\ No newline at end of file
+
+    /**
+     * Freeze this transient into a persistent Vector.
+     *
+     * The owner token is dropped, so the nodes can never be changed in place again,
+     * and any later use of this transient throws.
+     *
+     * Complexity: O(1), or O(32 * log_32(N)) when a small vector has to move its elements into the tail.
+     */
+    persistent(): Vector<T> {
+        this._ensureEditable();
+        this._edit = null;
+        return fromTrie(this._size, this._shift, this._root, this._tail);
+    }
+}
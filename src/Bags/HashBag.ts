@@ -0,0 +1,94 @@
+import AbstractBag from "../AbstractClasses/AbstractBag";
+import { Speed } from "../Enums/Speed";
+import Bag from "../Interfaces/Bag";
+import HashComparer from "../Interfaces/HashComparer";
+import Map from "../Interfaces/Map";
+import HashMap from "../Maps/HashMap";
+
+/**
+ * HashBag is a bag (multiset) that stores the count of every distinct item in a HashMap<T, number>.
+ * It is an unordered collection, where an item can occur any number of times.
+ *
+ * Items are hashed and compared like the keys of a HashMap, so adding, removing and counting an item
+ * is near constant time O(log32(n)).
+ *
+ * @example
+ * const words = HashBag.of("a", "b", "a");
+ * words.count("a"); // 2
+ * words.mostCommon(1); // [["a", 2]]
+ */
+export default class HashBag<T> extends AbstractBag<T> implements Bag<T> {
+    private constructor(counts: HashMap<T, number>, size: number) {
+        super(counts, size);
+    }
+
+    /**
+     * Creates an empty HashBag.
+     */
+    static empty<T>(): HashBag<T> {
+        return new HashBag<T>(HashMap.empty<T, number>(), 0);
+    }
+
+    /**
+     * Creates a HashBag with the given values.
+     * @param values - The values to add to the bag, equal values are counted.
+     */
+    static of<T>(...values: Array<T>): HashBag<T> {
+        return HashBag.empty<T>().addAll(values);
+    }
+
+    /**
+     * Creates an empty HashBag that hashes and compares its items with the given comparer.
+     * @param comparer - The strategy for hashing and comparing the items.
+     */
+    static withComparer<T>(comparer: HashComparer<T>): HashBag<T> {
+        return new HashBag<T>(HashMap.empty<T, number>(comparer), 0);
+    }
+
+    /**
+     * Returns the strategy that this bag uses to hash and compare its items.
+     */
+    getComparer(): HashComparer<T> {
+        return (this._counts as HashMap<T, number>).getComparer();
+    }
+
+    protected withCounts(counts: Map<T, number>, size: number): this {
+        return new HashBag<T>(counts as HashMap<T, number>, size) as this;
+    }
+
+    protected hashItem(item: T): number {
+        return this.getComparer().hash(item);
+    }
+
+    /**
+     * Return an empty HashBag with the same comparer.
+     */
+    empty(): this {
+        return this.withCounts((this._counts as HashMap<T, number>).empty(), 0);
+    }
+
+    protected createEmpty<E>(): HashBag<E> {
+        return HashBag.empty<E>();
+    }
+
+    /**
+     * Checks if the other object is a HashBag with the same items and counts.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof HashBag)) return false;
+        return this.hasSameCounts(o as HashBag<T>);
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Constant;
+    }
+}
@@ -0,0 +1,278 @@
+import AbstractBag from "../AbstractClasses/AbstractBag";
+import { Speed } from "../Enums/Speed";
+import { Comparator } from "../Interfaces/Comparator";
+import Map from "../Interfaces/Map";
+import SortedBag from "../Interfaces/SortedBag";
+import TreeMap from "../Trees/TreeMap";
+
+/**
+ * TreeBag is a sorted bag (multiset) that stores the count of every distinct item in a TreeMap<T, number>.
+ * The items are ordered by the comparator, and equal items are iterated together.
+ *
+ * Adding, removing and counting an item is O(log n) for n distinct items. The navigation methods of
+ * `SortedSet` (`predecessor`, `rank`, `rangeFromTo`, ...) work on the distinct items, and the ranges keep
+ * the counts of the items in them. A range is cut out of the map in O(log n), and its size is the sum of
+ * its counts, which the nodes of the map cache, so it is amortized O(log n) as well.
+ */
+export default class TreeBag<T> extends AbstractBag<T> implements SortedBag<T> {
+    private constructor(
+        private readonly compare: Comparator<T>,
+        counts: TreeMap<T, number>,
+        size: number,
+    ) {
+        super(counts, size);
+    }
+
+    /**
+     * Creates an empty TreeBag.
+     * @param compare - comparator that orders the items.
+     */
+    static empty<T>(compare: Comparator<T> = TreeBag.defaultComparator<T>): TreeBag<T> {
+        return new TreeBag<T>(compare, new TreeMap<T, number>(compare), 0);
+    }
+
+    /**
+     * Creates a TreeBag with the given values.
+     * @param compare - comparator that orders the items.
+     * @param values - values to add to the bag, equal values are counted.
+     */
+    static of<T>(compare: Comparator<T>, ...values: Array<T>): TreeBag<T> {
+        return TreeBag.empty<T>(compare).addAll(values);
+    }
+
+    /**
+     * Provides a default comparator for the TreeBag.
+     * @returns a negative number if a is less than b, a positive number if a is greater than b, and 0 if a is equal to b.
+     */
+    static defaultComparator<T>(a: T, b: T): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    private get _map(): TreeMap<T, number> {
+        return this._counts as TreeMap<T, number>;
+    }
+
+    protected withCounts(counts: Map<T, number>, size: number): this {
+        return new TreeBag<T>(this.compare, counts as TreeMap<T, number>, size) as this;
+    }
+
+    // Bag of a range of the map, whose size is the sum of the counts that the nodes of the map cache
+    private withMap(map: TreeMap<T, number>): TreeBag<T> {
+        return this.withCounts(map, map.sumValues());
+    }
+
+    empty(): this {
+        return this.withCounts(this._map.empty(), 0);
+    }
+
+    /**
+     * Create an empty TreeBag of another type, that is ordered by the default comparator.
+     */
+    protected createEmpty<E>(): TreeBag<E> {
+        return TreeBag.empty<E>();
+    }
+
+    /**
+     * Checks if the other object is a TreeBag with the same items and counts.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TreeBag)) return false;
+        return this.hasSameCounts(o as TreeBag<T>);
+    }
+
+    /**
+     * Returns a new TreeBag with the items ordered by the given comparator.
+     * @param compare - comparator for the new bag. If not provided, the comparator of this bag is used.
+     */
+    sort(compare?: Comparator<T>): TreeBag<T> {
+        let bag = TreeBag.empty<T>(compare ?? this.compare);
+        for (const [item, n] of this._map) bag = bag.add(item, n);
+        return bag;
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    // Methods from SortedBag
+
+    getComparator(): Comparator<T> {
+        return this.compare;
+    }
+
+    /**
+     * Returns the smallest item, or undefined if the bag is empty.
+     */
+    findMin(): T | undefined {
+        return this._map.findMin()?.[0];
+    }
+
+    /**
+     * Returns the largest item, or undefined if the bag is empty.
+     */
+    findMax(): T | undefined {
+        return this._map.findMax()?.[0];
+    }
+
+    /**
+     * Removes one occurrence of the smallest item.
+     */
+    deleteMin(): TreeBag<T> {
+        const min = this._map.findMin();
+        return min ? this.remove(min[0]) : this;
+    }
+
+    /**
+     * Removes one occurrence of the largest item.
+     */
+    deleteMax(): TreeBag<T> {
+        const max = this._map.findMax();
+        return max ? this.remove(max[0]) : this;
+    }
+
+    /**
+     * Try to get the largest item strictly less than the given value.
+     * @returns true and the predecessor if found, false and undefined if not found
+     */
+    tryPredecessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._map.tryPredecessor(value);
+        return [found, pair?.[0]];
+    }
+
+    /**
+     * Try to get the smallest item strictly greater than the given value.
+     * @returns true and the successor if found, false and undefined if not found
+     */
+    trySuccessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._map.trySuccessor(value);
+        return [found, pair?.[0]];
+    }
+
+    /**
+     * Try to get the largest item less than or equal to the given value.
+     * @returns true and the weak predecessor if found, false and undefined if not found
+     */
+    tryWeakPredecessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._map.tryWeakPredecessor(value);
+        return [found, pair?.[0]];
+    }
+
+    /**
+     * Try to get the smallest item greater than or equal to the given value.
+     * @returns true and the weak successor if found, false and undefined if not found
+     */
+    tryWeakSuccessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._map.tryWeakSuccessor(value);
+        return [found, pair?.[0]];
+    }
+
+    predecessor(value: T): T | undefined {
+        return this._map.predecessor(value)?.[0];
+    }
+
+    successor(value: T): T | undefined {
+        return this._map.successor(value)?.[0];
+    }
+
+    weakSuccessor(value: T): T | undefined {
+        return this._map.weakSuccessor(value)?.[0];
+    }
+
+    weakPredecessor(value: T): T | undefined {
+        return this._map.weakPredecessor(value)?.[0];
+    }
+
+    /**
+     * Returns the number of distinct items that are strictly less than the given value.
+     */
+    rank(value: T): number {
+        return this._map.rank(value);
+    }
+
+    /**
+     * Returns the distinct item at the given index in sorted order.
+     * @throws RangeError if the index is out of bounds
+     */
+    select(index: number): T {
+        return this._map.select(index)[0];
+    }
+
+    /**
+     * Returns the distinct item at the given index in sorted order, or undefined if the index is out of bounds.
+     */
+    entryAt(index: number): T | undefined {
+        return this._map.entryAt(index)?.[0];
+    }
+
+    /**
+     * Counts the distinct items from fromValue inclusive to toValue exclusive.
+     */
+    countRange(fromValue: T, toValue: T): number {
+        return this._map.countRange(fromValue, toValue);
+    }
+
+    /**
+     * Returns the median of the distinct items, the lower one if there is an even number of them.
+     */
+    median(): T | undefined {
+        return this._map.median()?.[0];
+    }
+
+    /**
+     * Returns the items whose cut value is between cutFunction(fromValue) inclusive and cutFunction(toValue) exclusive.
+     */
+    cut(cutFunction: (compareToOther: T) => number, fromValue: T, toValue: T): TreeBag<T> {
+        return this.withMap(this._map.cut(cutFunction, fromValue, toValue));
+    }
+
+    /**
+     * Returns the items from the value (inclusive) with their counts.
+     */
+    rangeFrom(fromValue: T): TreeBag<T> {
+        return this.withMap(this._map.rangeFrom(fromValue));
+    }
+
+    /**
+     * Returns the items up to the value (exclusive) with their counts.
+     */
+    rangeTo(toValue: T): TreeBag<T> {
+        return this.withMap(this._map.split(toValue)[0]);
+    }
+
+    /**
+     * Returns the items from fromValue inclusive to toValue exclusive with their counts.
+     */
+    rangeFromTo(fromValue: T, toValue: T): TreeBag<T> {
+        return this.withMap(this._map.rangeFromTo(fromValue, toValue));
+    }
+
+    /**
+     * Removes all occurrences of the items from the value (inclusive).
+     */
+    removeRangeFrom(fromValue: T): TreeBag<T> {
+        return this.withMap(this._map.removeRangeFrom(fromValue));
+    }
+
+    /**
+     * Removes all occurrences of the items up to the value (exclusive).
+     */
+    removeRangeTo(toValue: T): TreeBag<T> {
+        return this.withMap(this._map.removeRangeTo(toValue));
+    }
+
+    /**
+     * Removes all occurrences of the items from fromValue inclusive to toValue exclusive.
+     */
+    removeRangeFromTo(fromValue: T, toValue: T): TreeBag<T> {
+        return this.withMap(this._map.removeRangeFromTo(fromValue, toValue));
+    }
+}
@@ -0,0 +1,4 @@
+export enum BoundType {
+    Open=1,
+    Closed=2
+}
@@ -1,3 +1,6 @@
+import HashComparer from "../Interfaces/HashComparer";
+import {Utils} from "../Utils/Utils";
+
 /**
  * Static helper for making 32‑bit hash codes.
  *
@@ -5,6 +8,15 @@
  */
 export default class HashCode {
 
+    /**
+     * The comparer used by `HashMap` and `HashSet` when no other comparer is given.
+     * Keys are hashed with `hashCode` and compared with `Utils.equals`.
+     */
+    static readonly defaultComparer: HashComparer<any> = {
+        hash: key => HashCode.hashCode(key),
+        equals: (a, b) => Utils.equals(a, b),
+    };
+
     /**
      * Hashes a string.
      *
@@ -24,7 +36,16 @@ export default class HashCode {
     }
     
     /**
-     * Hashes any JSON‑serialisable value.
+     * Hashes any value.
+     *
+     * This is the hashing half of the key protocol, and it agrees with `Utils.equals`, so values that are equal
+     * have the same hash code:
+     * - an object with its own `hashCode()` method (e.g. one implementing `EqualityComparer`) is hashed with it,
+     * - an array is hashed element by element with `hashCodeArray`,
+     * - a plain object is hashed from its own keys and values, independent of the key order,
+     * - anything else is hashed from its JSON string.
+     *
+     * Persistent collections implement `hashCode()`, so they can be used as keys of other collections.
      *
      * @typeParam T - Value type.
      * @param obj - Value to hash. Null or undefined gives 0.
@@ -33,10 +54,32 @@ export default class HashCode {
     static hashCode<T>(obj: T): number {
         let hash = 0;
         if (obj === null || obj === undefined) return hash;
+        if (typeof obj === 'object') {
+            const hashCode = (obj as any).hashCode;
+            if (typeof hashCode === 'function') return hashCode.call(obj) | 0;
+            if (Array.isArray(obj)) return this.hashCodeArray(obj);
+            const proto = Object.getPrototypeOf(obj);
+            if (proto === Object.prototype || proto === null) return this.hashCodeObject(obj as object);
+        }
         const str = JSON.stringify(obj);
         return this.hashCodeString(str);
     }
 
+    /**
+     * Hashes a plain object by adding up the hashes of its entries, so the order of the keys does not matter.
+     *
+     * @param obj - Object to hash.
+     * @returns 32‑bit hash.
+     * @internal
+     */
+    private static hashCodeObject(obj: object): number {
+        let hash = 0;
+        for (const [key, value] of Object.entries(obj)) {
+            hash = (hash + (this.hashCodeString(key) ^ this.hashCode(value))) | 0;
+        }
+        return hash;
+    }
+
     /**
      * Hashes an array by mixing each element's hash.
      *
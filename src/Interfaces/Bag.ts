@@ -0,0 +1,82 @@
+import Collection from "./Collection";
+
+/**
+ * A collection that counts its elements, also known as a multiset.
+ *
+ * Equal elements are not stored separately, but as one distinct item with the number of times it
+ * occurs in the bag. Iterating the bag yields every item as many times as it occurs.
+ */
+export default interface Bag<T> extends Collection<T> {
+    /**
+     * Adds occurrences of an element.
+     *
+     * @param e - The element to add.
+     * @param n - The number of occurrences to add, 1 by default.
+     * @returns A new Bag including the added occurrences.
+     */
+    add(e: T, n?: number): Bag<T>;
+
+    /**
+     * Removes occurrences of an element. If the element occurs fewer than `n` times, all of its occurrences are removed.
+     *
+     * @param e - The element to remove.
+     * @param n - The number of occurrences to remove, 1 by default.
+     * @returns A new Bag without the removed occurrences.
+     */
+    remove(e: T, n?: number): Bag<T>;
+
+    /**
+     * Sets the number of occurrences of an element. A count of 0 removes the element.
+     *
+     * @returns A new Bag where the element occurs `n` times.
+     */
+    setCount(e: T, n: number): Bag<T>;
+
+    /**
+     * Returns the number of occurrences of an element, or 0 if it is not in the bag.
+     */
+    count(e: T): number;
+
+    /**
+     * Returns the number of distinct items in the bag.
+     */
+    distinctSize(): number;
+
+    /**
+     * Returns the distinct items of the bag.
+     */
+    uniqueItems(): T[];
+
+    /**
+     * Returns the distinct items of the bag with the number of times they occur.
+     */
+    itemCounts(): [T, number][];
+
+    /**
+     * Returns the `k` most common items with their counts, the most common first.
+     *
+     * @param k - The number of items to return. All items are returned if not provided.
+     */
+    mostCommon(k?: number): [T, number][];
+
+    /**
+     * Returns a bag where every item occurs as many times as in the bag where it occurs the most.
+     */
+    union(other: Bag<T>): Bag<T>;
+
+    /**
+     * Returns a bag where every item occurs as many times as in the bag where it occurs the least.
+     */
+    intersect(other: Bag<T>): Bag<T>;
+
+    /**
+     * Returns a bag where the counts of the items in both bags are added.
+     */
+    sum(other: Bag<T>): Bag<T>;
+
+    /**
+     * Returns a bag where the counts of the items in the other bag are subtracted, removing the items
+     * whose count drops to 0 or below.
+     */
+    difference(other: Bag<T>): Bag<T>;
+}
@@ -0,0 +1,48 @@
+import Map from "./Map";
+
+/**
+ * A bidirectional map, where the values are unique as well as the keys.
+ *
+ * Every value is bound to exactly one key, so the map can be looked up in both directions,
+ * and `inverse()` is a view of the same pairs with the keys and values swapped.
+ */
+export default interface BiMap<K, V> extends Map<K, V> {
+    /**
+     * Binds the value to the key. Same as `put`.
+     * @throws {Error} if the value is already bound to another key.
+     */
+    set(key: K, value: V): BiMap<K, V>;
+
+    setAll(entries: Iterable<[K, V]>): BiMap<K, V>;
+
+    /**
+     * Binds the value to the key, replacing the previous value of the key.
+     * @throws {Error} if the value is already bound to another key.
+     */
+    put(key: K, value: V): BiMap<K, V>;
+
+    /**
+     * Binds the value to the key, and removes the other key that the value was bound to, if any.
+     */
+    forcePut(key: K, value: V): BiMap<K, V>;
+
+    /**
+     * Returns the key that the value is bound to, or undefined if the value is not in the map.
+     */
+    getKey(value: V): K | undefined;
+
+    delete(key: K): BiMap<K, V>;
+
+    /**
+     * Removes the value and the key that it is bound to.
+     */
+    deleteValue(value: V): BiMap<K, V>;
+
+    clear(): BiMap<K, V>;
+
+    /**
+     * Returns the view of this map from the values to the keys.
+     * The inverse of the inverse is this map.
+     */
+    inverse(): BiMap<V, K>;
+}
@@ -0,0 +1,21 @@
+/**
+ * A single difference between two versions of a map, as produced by `diff`.
+ *
+ * - `added` - the key is only present in the newer version.
+ * - `removed` - the key is only present in the older version.
+ * - `changed` - the key is present in both versions, but the values are not equal.
+ */
+export type Change<K, V> =
+    | { type: "added"; key: K; value: V }
+    | { type: "removed"; key: K; value: V }
+    | { type: "changed"; key: K; oldValue: V; newValue: V };
+
+/**
+ * A difference between two versions of a list, as produced by `diff`.
+ * The range `[from, to)` is given as indexes into the older version, except for `added`
+ * where the indexes are into the newer version.
+ */
+export type RangeChange<T> =
+    | { type: "added"; from: number; to: number; values: T[] }
+    | { type: "removed"; from: number; to: number; values: T[] }
+    | { type: "changed"; from: number; to: number; oldValues: T[]; newValues: T[] };
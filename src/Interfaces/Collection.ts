@@ -1,5 +1,6 @@
 import { Comparator } from "./Comparator";
 import EqualityComparer from "./EqualityComparer";
+import Seq from "../Seqs/Seq";
 
 /**
  * The Collection interface represents a generic, immutable container of elements.
@@ -18,6 +19,11 @@ import EqualityComparer from "./EqualityComparer";
 export default interface Collection<T> extends Iterable<T>, EqualityComparer<T> {
     [Symbol.iterator](): Iterator<T>;
 
+    /**
+     * Returns a lazy Seq over the elements, in iteration order.
+     */
+    toSeq(): Seq<T>;
+
     size(): number;
     isEmpty(): boolean;
     empty(): Collection<T>;
@@ -0,0 +1,38 @@
+/**
+ * A Cursor is a position in a sorted collection that can move forwards and backwards one element at a time.
+ *
+ * The cursor is either at an element, or off one of the ends of the collection. Moving past the last element
+ * leaves it after the end, from where `prev()` comes back to the last element, and moving before the first
+ * element leaves it before the start, from where `next()` comes back to the first element.
+ *
+ * Unlike the collection, a cursor is mutable: `next`, `prev` and `seek` move it in place. It keeps reading
+ * the version of the collection that it was created from.
+ *
+ * @example
+ * const cursor = map.cursorAt(start);
+ * for (let entry = cursor.peek(); entry !== undefined; entry = cursor.next()) {
+ *     // entries from start onwards
+ * }
+ */
+export default interface Cursor<K, T> {
+    /**
+     * Returns the element at the cursor, or undefined if the cursor is off the ends.
+     */
+    peek(): T | undefined;
+
+    /**
+     * Moves to the next element and returns it, or returns undefined if the cursor moves past the end.
+     */
+    next(): T | undefined;
+
+    /**
+     * Moves to the previous element and returns it, or returns undefined if the cursor moves before the start.
+     */
+    prev(): T | undefined;
+
+    /**
+     * Moves to the first element with a key greater than or equal to the key and returns it,
+     * or returns undefined if there is none and the cursor moves past the end.
+     */
+    seek(key: K): T | undefined;
+}
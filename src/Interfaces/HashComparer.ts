@@ -0,0 +1,30 @@
+/**
+ * Strategy for hashing keys and comparing them for equality, used by the hash-based collections.
+ *
+ * Where `EqualityComparer` is implemented by the objects themselves, a `HashComparer` is given to the
+ * collection from the outside. This makes it possible to use a different notion of equality than the one of
+ * the keys, e.g. case-insensitive strings or objects compared by identity.
+ *
+ * The two functions must agree: keys that are equal must have the same hash code.
+ *
+ * @example
+ * const caseInsensitive: HashComparer<string> = {
+ *     hash: s => HashCode.hashCode(s.toLowerCase()),
+ *     equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+ * };
+ */
+export default interface HashComparer<T> {
+    /**
+     * Computes the 32-bit hash code of a key.
+     * @param key - the key to hash
+     */
+    hash(key: T): number;
+
+    /**
+     * Determines whether two keys are equal.
+     * @param a - the first key
+     * @param b - the second key
+     * @returns True if the keys are equal, false otherwise
+     */
+    equals(a: T, b: T): boolean;
+}
@@ -1,6 +1,7 @@
 import { Speed } from "../Enums/Speed";
 import {Comparator} from "./Comparator";
 import EqualityComparer from "./EqualityComparer";
+import Seq from "../Seqs/Seq";
 
 // this is a dictionary (map) interface
 /**
@@ -20,6 +21,11 @@ export default interface Map<K, V> extends Iterable<[K, V]>, EqualityComparer<[K
     // Iterable<T>
     [Symbol.iterator](): MapIterator<[K, V]>;
 
+    /**
+     * Returns a lazy Seq over the key-value pairs, in iteration order.
+     */
+    toSeq(): Seq<[K, V]>;
+
     [k: number]: V | undefined;
     get(key: K): V | undefined;
     keys(): K[];
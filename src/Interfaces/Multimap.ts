@@ -0,0 +1,90 @@
+import Bag from "./Bag";
+import EqualityComparer from "./EqualityComparer";
+import Seq from "../Seqs/Seq";
+
+/**
+ * A map that associates each key with a collection of values.
+ *
+ * A key is only in the multimap while it has at least one value, so removing the last value of a key
+ * also removes the key. Iterating the multimap yields every key-value pair.
+ */
+export default interface Multimap<K, V> extends Iterable<[K, V]>, EqualityComparer<[K, V]> {
+    [Symbol.iterator](): Iterator<[K, V]>;
+
+    /**
+     * Returns a lazy Seq over every key-value pair.
+     */
+    toSeq(): Seq<[K, V]>;
+
+    /**
+     * Returns the number of key-value pairs.
+     */
+    size(): number;
+
+    /**
+     * Returns the number of distinct keys.
+     */
+    keySize(): number;
+
+    isEmpty(): boolean;
+
+    /**
+     * Returns the values of the key, or an empty collection if the key is not in the multimap.
+     */
+    get(key: K): Iterable<V>;
+
+    has(key: K): boolean;
+
+    hasEntry(key: K, value: V): boolean;
+
+    /**
+     * Associates the value with the key.
+     *
+     * @returns A new Multimap including the pair.
+     */
+    put(key: K, value: V): Multimap<K, V>;
+
+    /**
+     * Associates all the values with the key.
+     */
+    putAll(key: K, values: Iterable<V>): Multimap<K, V>;
+
+    /**
+     * Removes one key-value pair. The key is removed when it has no values left.
+     *
+     * @returns A new Multimap without the pair.
+     */
+    remove(key: K, value: V): Multimap<K, V>;
+
+    /**
+     * Removes the key with all its values.
+     */
+    removeAll(key: K): Multimap<K, V>;
+
+    clear(): Multimap<K, V>;
+
+    /**
+     * Returns the distinct keys.
+     */
+    keys(): K[];
+
+    /**
+     * Returns the values of all keys.
+     */
+    values(): V[];
+
+    /**
+     * Returns every key-value pair.
+     */
+    entries(): [K, V][];
+
+    /**
+     * Returns a bag that counts the values of every key.
+     */
+    keyCounts(): Bag<K>;
+
+    /**
+     * Returns a multimap where every pair is turned around, so that the values are the keys.
+     */
+    inverse(): Multimap<V, K>;
+}
@@ -0,0 +1,39 @@
+import SortedMap from "./SortedMap";
+
+/**
+ * A sorted map with views of the entries between two keys, and of the entries in descending order.
+ *
+ * The views do not copy the entries. They read the map within their bounds, and editing a view
+ * returns a view with the same bounds over the edited map.
+ *
+ * @see https://docs.oracle.com/javase/8/docs/api/java/util/NavigableMap.html
+ */
+export default interface NavigableMap<K, V> extends SortedMap<K, V> {
+    /**
+     * Returns a view of the entries with keys from fromKey to toKey, in the order of this map.
+     * @throws {RangeError} if fromKey comes after toKey, or a key is outside of the bounds of this map.
+     */
+    subMap(fromKey: K, fromInclusive: boolean, toKey: K, toInclusive: boolean): NavigableMap<K, V>;
+
+    /**
+     * Returns a view of the entries with keys before toKey, or up to toKey if inclusive is true.
+     * @throws {RangeError} if toKey is outside of the bounds of this map.
+     */
+    headMap(toKey: K, inclusive?: boolean): NavigableMap<K, V>;
+
+    /**
+     * Returns a view of the entries with keys from fromKey, or after fromKey if inclusive is false.
+     * @throws {RangeError} if fromKey is outside of the bounds of this map.
+     */
+    tailMap(fromKey: K, inclusive?: boolean): NavigableMap<K, V>;
+
+    /**
+     * Returns a view of the entries in reverse order, with the reversed comparator.
+     */
+    descendingMap(): NavigableMap<K, V>;
+
+    /**
+     * Iterates lazily over the keys in reverse order.
+     */
+    descendingKeys(): IterableIterator<K>;
+}
@@ -0,0 +1,34 @@
+import SortedSet from "./SortedSet";
+
+/**
+ * A sorted set with views of the values between two bounds, and of the values in descending order.
+ *
+ * The views do not copy the values. They read the set within their bounds, and editing a view
+ * returns a view with the same bounds over the edited set.
+ *
+ * @see https://docs.oracle.com/javase/8/docs/api/java/util/NavigableSet.html
+ */
+export default interface NavigableSet<T> extends SortedSet<T> {
+    /**
+     * Returns a view of the values from fromValue to toValue, in the order of this set.
+     * @throws {RangeError} if fromValue comes after toValue, or a value is outside of the bounds of this set.
+     */
+    subSet(fromValue: T, fromInclusive: boolean, toValue: T, toInclusive: boolean): NavigableSet<T>;
+
+    /**
+     * Returns a view of the values before toValue, or up to toValue if inclusive is true.
+     * @throws {RangeError} if toValue is outside of the bounds of this set.
+     */
+    headSet(toValue: T, inclusive?: boolean): NavigableSet<T>;
+
+    /**
+     * Returns a view of the values from fromValue, or after fromValue if inclusive is false.
+     * @throws {RangeError} if fromValue is outside of the bounds of this set.
+     */
+    tailSet(fromValue: T, inclusive?: boolean): NavigableSet<T>;
+
+    /**
+     * Returns a view of the values in reverse order, with the reversed comparator.
+     */
+    descendingSet(): NavigableSet<T>;
+}
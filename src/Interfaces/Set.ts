@@ -1,12 +1,18 @@
 import {Speed} from "../Enums/Speed";
 import EqualityComparer from "./EqualityComparer";
+import Seq from "../Seqs/Seq";
 
 /**
  * Represents an unordered collection of unique elements.
  */
 export default interface Set<T> extends Iterable<T>, EqualityComparer<T>  {
     [Symbol.iterator](): Iterator<T>;
-    
+
+    /**
+     * Returns a lazy Seq over the values, in iteration order.
+     */
+    toSeq(): Seq<T>;
+
     size(): number;
     isEmpty(): boolean;
     add(value: T): Set<T>;
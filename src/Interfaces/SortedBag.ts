@@ -0,0 +1,66 @@
+import Bag from "./Bag";
+import { Comparator } from "./Comparator";
+
+/**
+ * A bag whose distinct items are ordered by a comparator.
+ *
+ * The navigation methods are the ones of `SortedSet`, and work on the distinct items of the bag.
+ * The range methods keep the counts of the items in the range.
+ */
+export default interface SortedBag<T> extends Bag<T> {
+    getComparator(): Comparator<T>;
+
+    findMin(): T | undefined;
+
+    findMax(): T | undefined;
+
+    /**
+     * Removes one occurrence of the smallest item.
+     */
+    deleteMin(): SortedBag<T>;
+
+    /**
+     * Removes one occurrence of the largest item.
+     */
+    deleteMax(): SortedBag<T>;
+
+    tryPredecessor(value: T): [boolean, T | undefined];
+
+    trySuccessor(value: T): [boolean, T | undefined];
+
+    tryWeakPredecessor(value: T): [boolean, T | undefined];
+
+    tryWeakSuccessor(value: T): [boolean, T | undefined];
+
+    predecessor(value: T): T | undefined;
+
+    successor(value: T): T | undefined;
+
+    weakSuccessor(value: T): T | undefined;
+
+    weakPredecessor(value: T): T | undefined;
+
+    rank(value: T): number;
+
+    select(index: number): T;
+
+    entryAt(index: number): T | undefined;
+
+    countRange(fromValue: T, toValue: T): number;
+
+    median(): T | undefined;
+
+    cut(cutFunction: (compareToOther: T) => number, fromValue: T, toValue: T): SortedBag<T>;
+
+    rangeFrom(fromValue: T): SortedBag<T>;
+
+    rangeTo(toValue: T): SortedBag<T>;
+
+    rangeFromTo(fromValue: T, toValue: T): SortedBag<T>;
+
+    removeRangeFrom(fromValue: T): SortedBag<T>;
+
+    removeRangeTo(toValue: T): SortedBag<T>;
+
+    removeRangeFromTo(fromValue: T, toValue: T): SortedBag<T>;
+}
@@ -119,6 +119,42 @@ export default interface SortedMap<K, V> extends Map<K, V> {
      * @returns A tuple [key, value], or undefined if none exists.
      */
     weakPredecessor(key: K): [K, V] | undefined;
+    /**
+     * Counts the keys that are strictly less than the specified key.
+     *
+     * @param key - The reference key.
+     * @returns The number of keys less than key.
+     */
+    rank(key: K): number;
+    /**
+     * Gets the entry at the specified position in key order.
+     *
+     * @param index - Zero-based position of the entry.
+     * @returns A tuple [key, value] at the position.
+     * @throws RangeError if the index is out of bounds.
+     */
+    select(index: number): [K, V];
+    /**
+     * Gets the entry at the specified position in key order.
+     *
+     * @param index - Zero-based position of the entry.
+     * @returns A tuple [key, value], or undefined if the index is out of bounds.
+     */
+    entryAt(index: number): [K, V] | undefined;
+    /**
+     * Counts the keys in the range [fromKey, toKey).
+     *
+     * @param fromKey - Lower bound key (inclusive).
+     * @param toKey - Upper bound key (exclusive).
+     * @returns The number of keys within the range.
+     */
+    countRange(fromKey: K, toKey: K): number;
+    /**
+     * Gets the median entry. For an even number of entries the lower median is returned.
+     *
+     * @returns A tuple [key, value], or undefined if the map is empty.
+     */
+    median(): [K, V] | undefined;
     /**
      * Returns a submap containing entries with keys between fromKey and toKey
      * based on a custom comparison function.
@@ -128,6 +128,47 @@ export default interface SortedSet<T> extends Set<T> {
      */
     weakPredecessor(value: T): T | undefined;
 
+    /**
+     * Counts the elements that are strictly less than the specified value.
+     *
+     * @param value - The reference element.
+     * @returns The number of elements less than value.
+     */
+    rank(value: T): number;
+
+    /**
+     * Gets the element at the specified position in sorted order.
+     *
+     * @param index - Zero-based position of the element.
+     * @returns The element at the position.
+     * @throws RangeError if the index is out of bounds.
+     */
+    select(index: number): T;
+
+    /**
+     * Gets the element at the specified position in sorted order.
+     *
+     * @param index - Zero-based position of the element.
+     * @returns The element, or undefined if the index is out of bounds.
+     */
+    entryAt(index: number): T | undefined;
+
+    /**
+     * Counts the elements in the range [fromValue, toValue).
+     *
+     * @param fromValue - Lower bound value (inclusive).
+     * @param toValue - Upper bound value (exclusive).
+     * @returns The number of elements within the range.
+     */
+    countRange(fromValue: T, toValue: T): number;
+
+    /**
+     * Gets the median element. For an even number of elements the lower median is returned.
+     *
+     * @returns The median element, or undefined if the set is empty.
+     */
+    median(): T | undefined;
+
     /**
      * Returns a subset containing elements between fromValue and toValue based on a custom comparison function.
      *
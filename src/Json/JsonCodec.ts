@@ -0,0 +1,280 @@
+import ArrayList from "../Arrays/ArrayList";
+import Vector from "../Arrays/Vector";
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import HashComparer from "../Interfaces/HashComparer";
+import LinkedList from "../LinkedLists/LinkedList";
+import HashMap from "../Maps/HashMap";
+import HashSet from "../Sets/HashSet";
+import TreeMap from "../Trees/TreeMap";
+import TreeSet from "../Trees/TreeSet";
+
+/**
+ * The key of the type tag in the tagged JSON shape.
+ */
+export const TYPE_TAG = "@type";
+
+/**
+ * Writes the key as an own property. Assigning would make a `"__proto__"` key replace the prototype of the object
+ * instead of keeping it as data.
+ */
+function setKey(object: Record<string, unknown>, key: string, value: unknown): void {
+    Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+export interface JsonCodecOptions {
+    /**
+     * Whether `encode` writes the tagged shape, which `decode` revives. True by default.
+     */
+    readonly tags?: boolean;
+    /**
+     * The comparators of TreeMaps and TreeSets by name. A tagged TreeMap or TreeSet with another comparator
+     * than the default one is written with the name of its comparator, and revived with it.
+     */
+    readonly comparators?: Readonly<Record<string, Comparator<any>>>;
+    /**
+     * The comparers of HashMaps and HashSets by name. A tagged HashMap or HashSet with another comparer than
+     * `HashCode.defaultComparer` is written with the name of its comparer, and revived with it.
+     */
+    readonly hashComparers?: Readonly<Record<string, HashComparer<any>>>;
+}
+
+/**
+ * JsonCodec converts any nesting of Vectors, ArrayLists, LinkedLists, HashMaps, HashSets, TreeMaps and TreeSets,
+ * arrays and plain objects to JSON values and back.
+ *
+ * The tagged shape, which `encode` writes by default, is:
+ * - `{"@type": "Vector" | "ArrayList" | "LinkedList", "values": [...]}` for the lists,
+ * - `{"@type": "HashSet", "comparer"?: name, "values": [...]}` for the HashSet,
+ * - `{"@type": "TreeSet", "comparator"?: name, "values": [...]}` for the TreeSet, in the order of the set,
+ * - `{"@type": "HashMap", "comparer"?: name, "entries": [[key, value], ...]}` for the HashMap,
+ * - `{"@type": "TreeMap", "comparator"?: name, "entries": [[key, value], ...]}` for the TreeMap.
+ *
+ * The values, keys and entries are encoded in turn, so the keys of a map can be collections too. The comparator
+ * and the comparer are left out when they are the default ones. Without tags, the lists and the sets are written as arrays of their
+ * values and the maps as arrays of their entries, which is also what `toJSON()` returns on these classes and
+ * what `JSON.stringify` writes for them. The untagged shape cannot be revived, since it does not say which
+ * collections its arrays were.
+ *
+ * `decode` revives every tagged object, and leaves the other JSON values as they are. Plain objects with an
+ * `"@type"` key can therefore not be encoded with tags.
+ *
+ * @example
+ * const descending = (a: number, b: number) => b - a;
+ * const codec = new JsonCodec({ comparators: { descending } });
+ * const state = HashMap.of(["scores", TreeSet.of(descending, 3, 1, 2)]);
+ * const text = codec.stringify(state);
+ * // {"@type":"HashMap","entries":[["scores",{"@type":"TreeSet","comparator":"descending","values":[3,2,1]}]]}
+ * codec.parse(text); // a HashMap from "scores" to a TreeSet ordered by descending
+ */
+export default class JsonCodec {
+    private readonly _tags: boolean;
+    private readonly _comparators: Readonly<Record<string, Comparator<any>>>;
+    private readonly _hashComparers: Readonly<Record<string, HashComparer<any>>>;
+
+    constructor(options: JsonCodecOptions = {}) {
+        this._tags = options.tags ?? true;
+        this._comparators = options.comparators ?? {};
+        this._hashComparers = options.hashComparers ?? {};
+    }
+
+    private get options(): JsonCodecOptions {
+        return { tags: this._tags, comparators: this._comparators, hashComparers: this._hashComparers };
+    }
+
+    /**
+     * Returns a codec that also knows the comparator by the name.
+     */
+    withComparator(name: string, compare: Comparator<any>): JsonCodec {
+        return new JsonCodec({ ...this.options, comparators: { ...this._comparators, [name]: compare } });
+    }
+
+    /**
+     * Returns a codec that also knows the hash comparer by the name.
+     */
+    withHashComparer(name: string, comparer: HashComparer<any>): JsonCodec {
+        return new JsonCodec({ ...this.options, hashComparers: { ...this._hashComparers, [name]: comparer } });
+    }
+
+    /**
+     * Returns the name of the comparator, or undefined for the default comparator.
+     * @throws {Error} if the comparator is not registered.
+     */
+    private comparatorName(compare: Comparator<any>, type: string): string | undefined {
+        if (compare === TreeMap.defaultComparator || compare === TreeSet.defaultComparator) return undefined;
+        for (const name of Object.keys(this._comparators)) {
+            if (this._comparators[name] === compare) return name;
+        }
+        throw new Error(`The comparator of the ${type} is not registered in the codec`);
+    }
+
+    /**
+     * Returns the comparator with the name, or the default comparator if there is no name.
+     * @throws {Error} if no comparator is registered with the name.
+     */
+    private comparator(name: unknown): Comparator<any> | undefined {
+        if (name === undefined) return undefined;
+        if (typeof name !== "string" || !Object.prototype.hasOwnProperty.call(this._comparators, name)) {
+            throw new Error(`No comparator is registered in the codec as ${JSON.stringify(name)}`);
+        }
+        return this._comparators[name];
+    }
+
+    /**
+     * Returns the name of the hash comparer, or undefined for `HashCode.defaultComparer`.
+     * @throws {Error} if the comparer is not registered.
+     */
+    private hashComparerName(comparer: HashComparer<any>, type: string): string | undefined {
+        if (comparer === HashCode.defaultComparer) return undefined;
+        for (const name of Object.keys(this._hashComparers)) {
+            if (this._hashComparers[name] === comparer) return name;
+        }
+        throw new Error(`The comparer of the ${type} is not registered in the codec`);
+    }
+
+    /**
+     * Returns the hash comparer with the name, or undefined for the default comparer if there is no name.
+     * @throws {Error} if no hash comparer is registered with the name.
+     */
+    private hashComparer(name: unknown): HashComparer<any> | undefined {
+        if (name === undefined) return undefined;
+        if (typeof name !== "string" || !Object.prototype.hasOwnProperty.call(this._hashComparers, name)) {
+            throw new Error(`No hash comparer is registered in the codec as ${JSON.stringify(name)}`);
+        }
+        return this._hashComparers[name];
+    }
+
+    private tagged(type: string, fields: Record<string, unknown>): unknown {
+        return { [TYPE_TAG]: type, ...fields };
+    }
+
+    private encodeValues(values: Iterable<unknown>): unknown[] {
+        return Array.from(values, value => this.encode(value));
+    }
+
+    private encodeEntries(entries: Iterable<[unknown, unknown]>): unknown[] {
+        return Array.from(entries, ([key, value]) => [this.encode(key), this.encode(value)]);
+    }
+
+    /**
+     * Converts the value to a JSON value, which `JSON.stringify` writes without losing anything.
+     * @throws {Error} if a TreeMap or a TreeSet has a comparator that is not registered, a HashMap or a HashSet
+     * has a comparer that is not registered, or a plain object has an `"@type"` key when writing the tagged shape.
+     */
+    encode(value: unknown): unknown {
+        if (value === null || typeof value !== "object") return value;
+        if (Array.isArray(value)) return this.encodeValues(value);
+
+        if (value instanceof Vector || value instanceof ArrayList || value instanceof LinkedList) {
+            const values = this.encodeValues(value as Iterable<unknown>);
+            if (!this._tags) return values;
+            const type = value instanceof Vector ? "Vector" : value instanceof ArrayList ? "ArrayList" : "LinkedList";
+            return this.tagged(type, { values });
+        }
+        if (value instanceof HashSet) {
+            const values = this.encodeValues(value);
+            if (!this._tags) return values;
+            const comparer = this.hashComparerName(value.getComparer(), "HashSet");
+            return this.tagged("HashSet", comparer === undefined ? { values } : { comparer, values });
+        }
+        if (value instanceof TreeSet) {
+            const values = this.encodeValues(value);
+            if (!this._tags) return values;
+            const comparator = this.comparatorName(value.getComparator(), "TreeSet");
+            return this.tagged("TreeSet", comparator === undefined ? { values } : { comparator, values });
+        }
+        if (value instanceof HashMap) {
+            const entries = this.encodeEntries(value);
+            if (!this._tags) return entries;
+            const comparer = this.hashComparerName(value.getComparer(), "HashMap");
+            return this.tagged("HashMap", comparer === undefined ? { entries } : { comparer, entries });
+        }
+        if (value instanceof TreeMap) {
+            const entries = this.encodeEntries(value);
+            if (!this._tags) return entries;
+            const comparator = this.comparatorName(value.getComparator(), "TreeMap");
+            return this.tagged("TreeMap", comparator === undefined ? { entries } : { comparator, entries });
+        }
+
+        // other objects, such as dates, are left for JSON.stringify to convert
+        if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) return value;
+        if (this._tags && Object.prototype.hasOwnProperty.call(value, TYPE_TAG)) {
+            throw new Error(`A plain object with a ${TYPE_TAG} key cannot be encoded with type tags`);
+        }
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(value)) {
+            setKey(result, key, this.encode((value as Record<string, unknown>)[key]));
+        }
+        return result;
+    }
+
+    /**
+     * Revives the tagged objects of a JSON value into the collections that they describe.
+     * @throws {Error} if a type tag is unknown, a tagged object does not have the shape of its type,
+     * or its comparator or comparer is not registered.
+     */
+    decode(json: unknown): unknown {
+        if (json === null || typeof json !== "object") return json;
+        if (Array.isArray(json)) return json.map(value => this.decode(value));
+
+        const object = json as Record<string, unknown>;
+        if (!Object.prototype.hasOwnProperty.call(object, TYPE_TAG)) {
+            const result: Record<string, unknown> = {};
+            for (const key of Object.keys(object)) setKey(result, key, this.decode(object[key]));
+            return result;
+        }
+
+        const type = object[TYPE_TAG];
+        switch (type) {
+            case "Vector": {
+                const values = this.decodeValues(object, type);
+                return Vector.empty<unknown>().withMutations(vector => vector.pushAll(values));
+            }
+            case "ArrayList": return new ArrayList(this.decodeValues(object, type));
+            case "LinkedList": {
+                const values = this.decodeValues(object, type);
+                let list = LinkedList.empty<unknown>();
+                for (let i = values.length - 1; i >= 0; i--) list = list.addFirst(values[i]);
+                return list;
+            }
+            case "HashSet": {
+                const comparer = this.hashComparer(object.comparer);
+                const set = comparer === undefined ? new HashSet<unknown>() : HashSet.withComparer<unknown>(comparer);
+                return set.addAll(this.decodeValues(object, type));
+            }
+            case "TreeSet": return new TreeSet<unknown>(this.comparator(object.comparator)).addAll(this.decodeValues(object, type));
+            case "HashMap": return HashMap.empty<unknown, unknown>(this.hashComparer(object.comparer)).setAll(this.decodeEntries(object, type));
+            case "TreeMap": return new TreeMap<unknown, unknown>(this.comparator(object.comparator)).setAll(this.decodeEntries(object, type));
+            default: throw new Error(`Unknown type tag ${JSON.stringify(type)}`);
+        }
+    }
+
+    private decodeValues(object: Record<string, unknown>, type: string): unknown[] {
+        const values = object.values;
+        if (!Array.isArray(values)) throw new Error(`A tagged ${type} must have an array of values`);
+        return values.map(value => this.decode(value));
+    }
+
+    private decodeEntries(object: Record<string, unknown>, type: string): [unknown, unknown][] {
+        const entries = object.entries;
+        if (!Array.isArray(entries)) throw new Error(`A tagged ${type} must have an array of entries`);
+        return entries.map(entry => {
+            if (!Array.isArray(entry) || entry.length !== 2) throw new Error(`An entry of a tagged ${type} must be a [key, value] pair`);
+            return [this.decode(entry[0]), this.decode(entry[1])] as [unknown, unknown];
+        });
+    }
+
+    /**
+     * Encodes the value and writes it as JSON text.
+     */
+    stringify(value: unknown, space?: string | number): string {
+        return JSON.stringify(this.encode(value), null, space);
+    }
+
+    /**
+     * Parses JSON text and revives its tagged objects.
+     */
+    parse(text: string): unknown {
+        return this.decode(JSON.parse(text));
+    }
+}
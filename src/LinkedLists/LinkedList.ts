@@ -4,6 +4,9 @@ import HashCode from '../Hashing/HashCode';
 import { Comparator } from '../Interfaces/Comparator';
 import { Speed } from '../Enums/Speed';
 import AbstractList from '../AbstractClasses/AbstractList';
+import HashSet from '../Sets/HashSet';
+import { Utils } from '../Utils/Utils';
+import Zipper from '../Zippers/Zipper';
 
 /**
  * This class represents a singly linked list that is persistent and immutable.
@@ -454,12 +457,13 @@ export default class LinkedList<T> extends AbstractList<T>
     }
 
     /**
-     * Retain all the items in the linked list that are also in the given collection.
+     * Retain all the items in the linked list that are also in the given collection, matched with `equals`
+     * and `hashCode`.
      * @param items - The items to retain in the linked list.
      * @returns A new linked list with the items retained.
      */
     retainAll(items: Iterable<T>): LinkedList<T> {
-        const itemsToRetain = new Set(items);
+        const itemsToRetain = new HashSet<T>().addAll(items);
         const res = this._retainAllRecursive(itemsToRetain);
         return res ?? new LinkedList<T>();
     }
@@ -469,7 +473,7 @@ export default class LinkedList<T> extends AbstractList<T>
      * @param itemsToRetain - The items to retain in the linked list. 
      * @returns A new linked list with the items retained.
      */
-    private _retainAllRecursive(itemsToRetain: Set<T>): LinkedList<T> | null{
+    private _retainAllRecursive(itemsToRetain: HashSet<T>): LinkedList<T> | null{
         if (this.isEmpty()) {
             return null;
         }
@@ -478,7 +482,7 @@ export default class LinkedList<T> extends AbstractList<T>
         if (itemsToRetain.has(this.head!)) {
             return new LinkedList(this.head!, newTail);
         } else {
-            return null;
+            return newTail;
         }
     }
 
@@ -515,6 +519,17 @@ export default class LinkedList<T> extends AbstractList<T>
         return new LinkedList(this.head, newTail);
     }
 
+    /**
+     * Opens a zipper focused on the item at the specified index, for repeated edits around a moving position.
+     * Opening the zipper walks to the index and counts the list in O(n), and moving the focus and editing at it
+     * are then O(1).
+     * @param index - The index of the item to focus on.
+     * @returns A zipper focused on the item, which `toLinkedList()` closes into a list that shares the untouched tail.
+     */
+    focusAt(index: number): Zipper<T> {
+        return Zipper.ofLinkedList(this, index);
+    }
+
     /**
      * Remove the last item from the linked list.
      * @returns A new linked list with the last item removed.
@@ -747,7 +762,7 @@ export default class LinkedList<T> extends AbstractList<T>
         const arr1 = this.toArray();
         const arr2 = (o as LinkedList<T>).toArray();
 
-        return arr1.every((value, index) => value === arr2[index]);
+        return arr1.every((value, index) => Utils.equals(value, arr2[index]));
     }
 
     // Speed for different types of operations
@@ -782,4 +797,11 @@ export default class LinkedList<T> extends AbstractList<T>
     toString(): string {
         return "[" + this.toArray().join(", ") + "]";
     }
+
+    /**
+     * Returns the items as an array, so that `JSON.stringify` does not write the list as nested head and tail objects.
+     */
+    toJSON(): T[] {
+        return this.toArray();
+    }
 }
\ No newline at end of file
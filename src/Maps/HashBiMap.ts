@@ -0,0 +1,76 @@
+import AbstractBiMap from "../AbstractClasses/AbstractBiMap";
+import HashComparer from "../Interfaces/HashComparer";
+import Map from "../Interfaces/Map";
+import HashMap from "./HashMap";
+
+/**
+ * HashBiMap is a bidirectional map backed by two HashMaps, one from the keys to the values and one
+ * from the values to the keys. Looking up a key or a value is near constant time, and `inverse()` is
+ * a view that shares both maps.
+ *
+ * `put` (and `set`) rejects a value that is already bound to another key, while `forcePut` moves the
+ * value to the new key.
+ *
+ * @example
+ * const codes = HashBiMap.of<string, number>(["ok", 200], ["not found", 404]);
+ * codes.inverse().get(404); // "not found"
+ * codes.forcePut("found", 404).has("not found"); // false
+ */
+export default class HashBiMap<K, V> extends AbstractBiMap<K, V> {
+    private constructor(forward: HashMap<K, V>, backward: HashMap<V, K>) {
+        super(forward, backward);
+    }
+
+    /**
+     * Creates an empty HashBiMap.
+     * @param keyComparer - Optional strategy for hashing and comparing the keys.
+     * @param valueComparer - Optional strategy for hashing and comparing the values.
+     */
+    static empty<K, V>(keyComparer?: HashComparer<K>, valueComparer?: HashComparer<V>): HashBiMap<K, V> {
+        return new HashBiMap<K, V>(HashMap.empty<K, V>(keyComparer), HashMap.empty<V, K>(valueComparer));
+    }
+
+    /**
+     * Creates a HashBiMap with the given pairs.
+     * @throws {Error} if two pairs have the same value and different keys.
+     */
+    static of<K, V>(...entries: [K, V][]): HashBiMap<K, V> {
+        return HashBiMap.empty<K, V>().setAll(entries);
+    }
+
+    protected withMaps<A, B>(forward: Map<A, B>, backward: Map<B, A>): HashBiMap<A, B> {
+        return new HashBiMap<A, B>(forward as HashMap<A, B>, backward as HashMap<B, A>);
+    }
+
+    /**
+     * The results of `map`, `filter` and the other HOFs are plain HashMaps, since their values may repeat.
+     */
+    protected createEmpty<KM, VM>(): HashMap<KM, VM> {
+        return HashMap.empty<KM, VM>();
+    }
+
+    getKeyComparer(): HashComparer<K> {
+        return (this._forward as HashMap<K, V>).getComparer();
+    }
+
+    getValueComparer(): HashComparer<V> {
+        return (this._backward as HashMap<V, K>).getComparer();
+    }
+
+    inverse(): HashBiMap<V, K> {
+        return super.inverse() as HashBiMap<V, K>;
+    }
+
+    flip(): HashBiMap<V, K> {
+        return this.inverse();
+    }
+
+    /**
+     * Checks if the other object is a HashBiMap with the same pairs.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof HashBiMap)) return false;
+        return this._forward.equals((o as HashBiMap<K, V>)._forward);
+    }
+}
@@ -4,6 +4,8 @@ import AbstractMap from "../AbstractClasses/AbstractMap";
 import Map from "../Interfaces/Map";
 import {Speed} from "../Enums/Speed";
 import {Comparator} from "../Interfaces/Comparator";
+import {Change} from "../Interfaces/Change";
+import HashComparer from "../Interfaces/HashComparer";
 import Sorting from "../Sorting/Sorting";
 
 
@@ -97,8 +99,9 @@ interface INode<K, V> {
      * @param value The value to associate with a key.
      * @param addedLeaf An **out-parameter** must be set to the new leaf node. If the key already existed,
      * it will be present in the out variable.
+     * @param comparer The comparer of the map, used to compare keys with the same hash code.
      */
-    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null;
+    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null;
 
     /**
      * Remove key (and its value) from the sub‑trie rooted at this
@@ -113,10 +116,37 @@ interface INode<K, V> {
      *
      * @param hash 32‑bit hash of {@code key}.
      * @param key - Key to remove.
+     * @param comparer - The comparer of the map.
      * @returns - A replacement node or null if the subtree is now empty
      * (or this if the key was absent).
      */
-    without(hash: number, key: K): Node<K, V> | null;
+    without(hash: number, key: K, comparer: HashComparer<K>): Node<K, V> | null;
+
+    /**
+     * Transient version of `assoc`. Nodes that are owned by `edit` are updated in place,
+     * every other node on the path is copied once and the copy is owned by `edit`.
+     *
+     * @param edit The owner token of the transient map doing the edit.
+     * @param shift The shift corresponding to the level. Shift is a multiple of 5.
+     * @param hash The hash code of the key.
+     * @param key The key itself.
+     * @param value The value to associate with a key.
+     * @param addedLeaf An **out-parameter** that is set to the new leaf node if the key was not present.
+     * @param comparer The comparer of the map.
+     */
+    assocTransient(edit: OwnerID, shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V>;
+
+    /**
+     * Transient version of `without`. Nodes that are owned by `edit` are updated in place.
+     *
+     * @param edit The owner token of the transient map doing the edit.
+     * @param hash 32-bit hash of the key.
+     * @param key Key to remove.
+     * @param removedLeaf An **out-parameter** that is set to the removed leaf if the key was present.
+     * @param comparer The comparer of the map.
+     * @returns A replacement node, this if the key was absent, or null if the subtree is now empty.
+     */
+    withoutTransient(edit: OwnerID, hash: number, key: K, removedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null;
 
     /**
      * Retrieve a leaf that holds key if it exists in the subtree.
@@ -126,8 +156,9 @@ interface INode<K, V> {
      *
      * @param hash The has code of the key.
      * @param key The key itself.
+     * @param comparer The comparer of the map.
      */
-    find(hash: number, key: K): LeafNode<K, V> | null;
+    find(hash: number, key: K, comparer: HashComparer<K>): LeafNode<K, V> | null;
 
     /**
      * Returns the hash code of the node.
@@ -153,6 +184,17 @@ type Node<K, V> = EmptyNode<K, V> | LeafNode<K, V> | FullNode<K, V> | HashCollis
  */
 interface Box<T> {val: T  | null}
 
+/**
+ * Owner token of a transient map.
+ *
+ * Every `TransientHashMap` creates its own token, and every node that it allocates is stamped with it.
+ * A node can only be changed in place by the transient that owns it. Nodes that belong to a persistent
+ * map have no owner (null), so they are always copied before they are changed.
+ *
+ * @see https://clojure.org/reference/transients
+ */
+class OwnerID {}
+
 /**
  * Empty node in the hash array mapped trie (HAMT).
  * The root is initially empty.
@@ -170,7 +212,7 @@ class EmptyNode<K, V> implements INode<K, V> {
     /**
      * `assoc` of empty node yields a LeafNode.
      */
-    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null {
+    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
         const leaf = new LeafNode(hash, key, value);
         addedLeaf.val = leaf;
         return leaf; 
@@ -179,11 +221,21 @@ class EmptyNode<K, V> implements INode<K, V> {
     /**
      * Nothing to return from an empty node, always returns null.
      */
-    without(hash: number, key: K): Node<K, V> | null {
+    without(hash: number, key: K, comparer: HashComparer<K>): Node<K, V> | null {
         return null;
     }
 
-    find(hash: number, key: K): LeafNode<K, V> | null {
+    assocTransient(edit: OwnerID, shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> {
+        const leaf = new LeafNode(hash, key, value);
+        addedLeaf.val = leaf;
+        return leaf;
+    }
+
+    withoutTransient(edit: OwnerID, hash: number, key: K, removedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
+        return this;
+    }
+
+    find(hash: number, key: K, comparer: HashComparer<K>): LeafNode<K, V> | null {
         return null;
     }
 
@@ -218,9 +270,9 @@ class LeafNode<K, V> implements INode<K, V> {
      * Different hash - keys diverge higher in the trie. Create a BitmapIndexedNode shared by the two leaves.
      *
      */
-    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null {
+    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
         if (hash === this._hash) {
-            if (Utils.equals(this._key, key)) {
+            if (comparer.equals(this._key, key)) {
                 if (Utils.equals(this._value, value)) return this;
 
                 // note do not set added leaf since we are replacing
@@ -231,7 +283,7 @@ class LeafNode<K, V> implements INode<K, V> {
             addedLeaf.val = newLeaf;
             return new HashCollisionNode(hash, [this, newLeaf]);
         }
-        return BitmapIndexedNode.create2<K, V>(shift, this, hash, key, value, addedLeaf);
+        return BitmapIndexedNode.create2<K, V>(shift, this, hash, key, value, addedLeaf, comparer);
     }
 
     /**
@@ -241,8 +293,33 @@ class LeafNode<K, V> implements INode<K, V> {
      * @param hash The hash of the key.
      * @param key The key to be removed.
      */
-    without(hash: number, key: K): Node<K, V> | null {
-        if (hash === this._hash && Utils.equals(this._key, key)) {
+    without(hash: number, key: K, comparer: HashComparer<K>): Node<K, V> | null {
+        if (hash === this._hash && comparer.equals(this._key, key)) {
+            return null;
+        }
+        return this;
+    }
+
+    /**
+     * Leaves are never changed in place, so this is the same as `assoc`, except that the
+     * nodes created for a collision or a divergence are owned by `edit`.
+     */
+    assocTransient(edit: OwnerID, shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> {
+        if (hash === this._hash) {
+            if (comparer.equals(this._key, key)) {
+                if (Utils.equals(this._value, value)) return this;
+                return new LeafNode(hash, key, value);
+            }
+            const newLeaf = new LeafNode(hash, key, value);
+            addedLeaf.val = newLeaf;
+            return new HashCollisionNode(hash, [this, newLeaf], edit);
+        }
+        return BitmapIndexedNode.create2Transient<K, V>(edit, shift, this, hash, key, value, addedLeaf, comparer);
+    }
+
+    withoutTransient(edit: OwnerID, hash: number, key: K, removedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
+        if (hash === this._hash && comparer.equals(this._key, key)) {
+            removedLeaf.val = this;
             return null;
         }
         return this;
@@ -255,8 +332,8 @@ class LeafNode<K, V> implements INode<K, V> {
      * @param hash
      * @param key
      */
-    find(hash: number, key: K): LeafNode<K, V> | null {
-        if (hash === this._hash && Utils.equals(this._key, key)) {
+    find(hash: number, key: K, comparer: HashComparer<K>): LeafNode<K, V> | null {
+        if (hash === this._hash && comparer.equals(this._key, key)) {
             return this;
         }
         return null;
@@ -275,20 +352,29 @@ class FullNode<K, V> implements INode<K, V> {
     constructor(
         readonly _nodes: Node<K, V>[],
         readonly _shift: number,
+        readonly _edit: OwnerID | null = null,
     ) {
         this._hash = this._nodes[0].getHash();
     }
 
+    /**
+     * Returns this node if it is owned by `edit`, otherwise a copy of it that is.
+     */
+    private ensureEditable(edit: OwnerID): FullNode<K, V> {
+        if (this._edit === edit) return this;
+        return new FullNode([...this._nodes], this._shift, edit);
+    }
+
     /**
      * Associate a key with a value for a FullNode that already has 32 children.
      *
      * If it is the same, then return this.
      * Else it has changed, so assign that new node to the child at the index and return a new FullNode.
      */
-    assoc(levelShift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null {
+    assoc(levelShift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
         const idx = mask(hash, this._shift);
 
-        const n = this._nodes[idx].assoc(this._shift + 5, hash, key, value, addedLeaf);
+        const n = this._nodes[idx].assoc(this._shift + 5, hash, key, value, addedLeaf, comparer);
         if (n === null || n === this._nodes[idx]) {
             return this;
         } else {
@@ -309,35 +395,76 @@ class FullNode<K, V> implements INode<K, V> {
      * @param key Key to remove
      * @returns Replacement node or null if the subtree is now empty or this if the key was absent.
      */
-    without(hash: number, key: K): Node<K, V> | null {
+    without(hash: number, key: K, comparer: HashComparer<K>): Node<K, V> | null {
         const idx = mask(hash, this._shift);
 
-        const n = this._nodes[idx].without(hash, key);
-
-        if (!Utils.equals(n, this._nodes[idx])) {
-            if (n === null) {
-                // copy every element of the array except nodes[idx]
-                const newNodes: Node<K, V>[] = [
-                    ...this._nodes.slice(0, idx),
-                    ...this._nodes.slice(idx + 1)
-                ];
-                // clear the bit that marked the removed child
-                return new BitmapIndexedNode(~bitpos(hash, this._shift), newNodes, this._shift);
-            }
+        const n = this._nodes[idx].without(hash, key, comparer);
+
+        if (n === this._nodes[idx]) {
+            return this;
         }
-        return this;
+        if (n === null) {
+            // copy every element of the array except nodes[idx]
+            const newNodes: Node<K, V>[] = [
+                ...this._nodes.slice(0, idx),
+                ...this._nodes.slice(idx + 1)
+            ];
+            // clear the bit that marked the removed child
+            return new BitmapIndexedNode(~bitpos(hash, this._shift), newNodes, this._shift);
+        }
+        const newNodes = [...this._nodes];
+        newNodes[idx] = n;
+        return new FullNode(newNodes, this._shift);
+    }
+
+    assocTransient(edit: OwnerID, levelShift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> {
+        const idx = mask(hash, this._shift);
+        const n = this._nodes[idx].assocTransient(edit, this._shift + 5, hash, key, value, addedLeaf, comparer);
+        if (n === this._nodes[idx]) return this;
+
+        const editable = this.ensureEditable(edit);
+        editable._nodes[idx] = n;
+        return editable;
+    }
+
+    /**
+     * When a child becomes empty the node is no longer full, and it is demoted to a BitmapIndexedNode
+     * owned by `edit`.
+     */
+    withoutTransient(edit: OwnerID, hash: number, key: K, removedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
+        const idx = mask(hash, this._shift);
+        const n = this._nodes[idx].withoutTransient(edit, hash, key, removedLeaf, comparer);
+        if (n === this._nodes[idx]) return this;
+
+        if (n === null) {
+            const newNodes: Node<K, V>[] = [
+                ...this._nodes.slice(0, idx),
+                ...this._nodes.slice(idx + 1)
+            ];
+            return new BitmapIndexedNode(~bitpos(hash, this._shift), newNodes, this._shift, edit);
+        }
+        const editable = this.ensureEditable(edit);
+        editable._nodes[idx] = n;
+        return editable;
     }
 
     /**
      * Recursively call the find to get the leaf node.
      */
-    find(hash: number, key: K): LeafNode<K, V> | null {
-        return this._nodes[mask(hash, this._shift)].find(hash, key);
+    find(hash: number, key: K, comparer: HashComparer<K>): LeafNode<K, V> | null {
+        return this._nodes[mask(hash, this._shift)].find(hash, key, comparer);
     }
 
     getHash(): number {
         return this._hash;
     }
+
+    /**
+     * Returns the 32 children in the order of their slots.
+     */
+    getNodes(): Node<K, V>[] {
+        return this._nodes;
+    }
 }
 
 
@@ -350,14 +477,23 @@ class HashCollisionNode<K, V> implements INode<K, V> {
     constructor(
         readonly _hash: number,
         readonly _leaves: LeafNode<K, V>[],
+        readonly _edit: OwnerID | null = null,
     ) {}
 
+    /**
+     * Returns this node if it is owned by `edit`, otherwise a copy of it that is.
+     */
+    private ensureEditable(edit: OwnerID): HashCollisionNode<K, V> {
+        if (this._edit === edit) return this;
+        return new HashCollisionNode(this._hash, [...this._leaves], edit);
+    }
+
     /**
      * Associates a key with a value for a HashCollisionNode that already has multiple leaves with the same hash code.
      */
-    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null {
+    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
         if (hash === this._hash) {
-            const idx = this.findIndex(hash, key);
+            const idx = this.findIndex(hash, key, comparer);
             if (idx !== -1) {
                 //if (this._leaves[idx]._value === value) {
                 if (Utils.equals(this._leaves[idx]._value, value)) {
@@ -375,7 +511,7 @@ class HashCollisionNode<K, V> implements INode<K, V> {
             return new HashCollisionNode(hash, newLeaves);
         }
 
-        return BitmapIndexedNode.create2<K, V>(shift, this, hash, key, value, addedLeaf);
+        return BitmapIndexedNode.create2<K, V>(shift, this, hash, key, value, addedLeaf, comparer);
     }
 
     /**
@@ -390,8 +526,8 @@ class HashCollisionNode<K, V> implements INode<K, V> {
      * @param hash
      * @param key
      */
-    without(hash: number, key: K): Node<K, V> | null {
-        const idx = this.findIndex(hash, key);
+    without(hash: number, key: K, comparer: HashComparer<K>): Node<K, V> | null {
+        const idx = this.findIndex(hash, key, comparer);
         if (idx === -1) {
             return this;
         }
@@ -406,13 +542,47 @@ class HashCollisionNode<K, V> implements INode<K, V> {
         return new HashCollisionNode(hash, newLeaves);
     }
 
+    assocTransient(edit: OwnerID, shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> {
+        if (hash === this._hash) {
+            const idx = this.findIndex(hash, key, comparer);
+            if (idx !== -1) {
+                if (Utils.equals(this._leaves[idx]._value, value)) {
+                    return this;
+                }
+                const editable = this.ensureEditable(edit);
+                editable._leaves[idx] = new LeafNode(hash, key, value);
+                return editable;
+            }
+            const editable = this.ensureEditable(edit);
+            addedLeaf.val = new LeafNode(hash, key, value);
+            editable._leaves.push(addedLeaf.val);
+            return editable;
+        }
+
+        return BitmapIndexedNode.create2Transient<K, V>(edit, shift, this, hash, key, value, addedLeaf, comparer);
+    }
+
+    withoutTransient(edit: OwnerID, hash: number, key: K, removedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
+        const idx = this.findIndex(hash, key, comparer);
+        if (idx === -1) {
+            return this;
+        }
+        removedLeaf.val = this._leaves[idx];
+        if (this._leaves.length === 2) {
+            return idx === 0 ? this._leaves[1] : this._leaves[0];
+        }
+        const editable = this.ensureEditable(edit);
+        editable._leaves.splice(idx, 1);
+        return editable;
+    }
+
     /**
      * Liner scan the leaf nodes to check if the key exists.
      * @param hash
      * @param key
      */
-    find(hash: number, key: K): LeafNode<K, V> | null {
-        const idx = this.findIndex(hash, key);
+    find(hash: number, key: K, comparer: HashComparer<K>): LeafNode<K, V> | null {
+        const idx = this.findIndex(hash, key, comparer);
         if (idx !== -1) {
             return this._leaves[idx];
         }
@@ -424,9 +594,9 @@ class HashCollisionNode<K, V> implements INode<K, V> {
      * @param hash
      * @param key
      */
-    findIndex(hash: number, key: K): number {
+    findIndex(hash: number, key: K, comparer: HashComparer<K>): number {
         for (let i=0; i < this._leaves.length; i++) {
-            if (this._leaves[i].find(hash, key) !== null) {
+            if (this._leaves[i].find(hash, key, comparer) !== null) {
                 return i;
             }
         }
@@ -446,17 +616,20 @@ class HashCollisionNode<K, V> implements INode<K, V> {
 class BitmapIndexedNode<K, V> implements INode<K, V> {
     // field bitmap tells us how many children this node has, also what their indexes are in the child array.
     // the number of childre is the number of 1's in the binary representation.
-    private readonly _bitmap: number;
+    // the bitmap and the nodes are only ever changed in place by the transient that owns the node (`_edit`).
+    private _bitmap: number;
     private readonly _nodes: Node<K, V>[];
     private readonly _shift: number;
     private readonly _hash: number;
+    private readonly _edit: OwnerID | null;
 
 
-    constructor(bitmap: number, nodes: Node<K, V>[], shift: number) {
+    constructor(bitmap: number, nodes: Node<K, V>[], shift: number, edit: OwnerID | null = null) {
         this._bitmap = bitmap;
         this._nodes = nodes;
         this._shift = shift;
         this._hash = nodes.length === 0 ? 0 : nodes[0].getHash();
+        this._edit = edit;
     }
 
     static create1<K, V>(bitmap: number, nodes: Node<K, V>[], shift: number): Node<K, V> | null {
@@ -466,9 +639,22 @@ class BitmapIndexedNode<K, V> implements INode<K, V> {
         return new BitmapIndexedNode(bitmap, nodes, shift);
     }
 
-    static create2<K, V>(shift: number, branch: Node<K, V>, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null {
+    static create2<K, V>(shift: number, branch: Node<K, V>, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
         return (new BitmapIndexedNode(bitpos(branch.getHash(), shift), [branch], shift))
-            .assoc(shift, hash, key, value, addedLeaf);
+            .assoc(shift, hash, key, value, addedLeaf, comparer);
+    }
+
+    static create2Transient<K, V>(edit: OwnerID, shift: number, branch: Node<K, V>, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> {
+        return (new BitmapIndexedNode(bitpos(branch.getHash(), shift), [branch], shift, edit))
+            .assocTransient(edit, shift, hash, key, value, addedLeaf, comparer);
+    }
+
+    /**
+     * Returns this node if it is owned by `edit`, otherwise a copy of it that is.
+     */
+    private ensureEditable(edit: OwnerID): BitmapIndexedNode<K, V> {
+        if (this._edit === edit) return this;
+        return new BitmapIndexedNode(this._bitmap, [...this._nodes], this._shift, edit);
     }
 
     /**
@@ -491,11 +677,11 @@ class BitmapIndexedNode<K, V> implements INode<K, V> {
      * @param value
      * @param addedLeaf
      */
-    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>): Node<K, V> | null {
+    assoc(shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
         const bit = bitpos(hash, shift);
         const idx = index(this._bitmap, bit);
         if ((this._bitmap & bit) !== 0) {
-            const n = this._nodes[idx].assoc(shift + 5, hash, key, value, addedLeaf);
+            const n = this._nodes[idx].assoc(shift + 5, hash, key, value, addedLeaf, comparer);
             if (n === null || Utils.equals(n, this._nodes[idx])) {
                 return this;
             } else {
@@ -526,12 +712,12 @@ class BitmapIndexedNode<K, V> implements INode<K, V> {
      * @param hash
      * @param key
      */
-    without(hash: number, key: K): Node<K, V> | null {
+    without(hash: number, key: K, comparer: HashComparer<K>): Node<K, V> | null {
         const bit = bitpos(hash, this._shift);
 
         if ((this._bitmap & bit) !== 0) {
             const idx = index(this._bitmap, bit);
-            const n = this._nodes[idx].without(hash, key);
+            const n = this._nodes[idx].without(hash, key, comparer);
             if (!Utils.equals(n, this._nodes[idx])) {
                 if (n === null) {
                     if (this._bitmap === bit) {
@@ -553,6 +739,63 @@ class BitmapIndexedNode<K, V> implements INode<K, V> {
         return this;
     }
 
+    /**
+     * Transient version of `assoc`.
+     *
+     * Same cases as `assoc`, but the child array is changed in place when this node is owned by `edit`.
+     * When the 32nd child is added the node is promoted to a FullNode owned by `edit`.
+     */
+    assocTransient(edit: OwnerID, shift: number, hash: number, key: K, value: V, addedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> {
+        const bit = bitpos(hash, shift);
+        const idx = index(this._bitmap, bit);
+        if ((this._bitmap & bit) !== 0) {
+            const n = this._nodes[idx].assocTransient(edit, shift + 5, hash, key, value, addedLeaf, comparer);
+            if (n === this._nodes[idx]) return this;
+
+            const editable = this.ensureEditable(edit);
+            editable._nodes[idx] = n;
+            return editable;
+        }
+
+        const leaf = new LeafNode(hash, key, value);
+        addedLeaf.val = leaf;
+        if ((this._bitmap | bit) === -1) {
+            const newNodes = [...this._nodes];
+            newNodes.splice(idx, 0, leaf);
+            return new FullNode(newNodes, shift, edit);
+        }
+        const editable = this.ensureEditable(edit);
+        editable._nodes.splice(idx, 0, leaf);
+        editable._bitmap |= bit;
+        return editable;
+    }
+
+    /**
+     * Transient version of `without`.
+     *
+     * Same cases as `without`, but the child array is changed in place when this node is owned by `edit`.
+     */
+    withoutTransient(edit: OwnerID, hash: number, key: K, removedLeaf: Box<LeafNode<K, V>>, comparer: HashComparer<K>): Node<K, V> | null {
+        const bit = bitpos(hash, this._shift);
+        if ((this._bitmap & bit) === 0) return this;
+
+        const idx = index(this._bitmap, bit);
+        const n = this._nodes[idx].withoutTransient(edit, hash, key, removedLeaf, comparer);
+        if (n === this._nodes[idx]) return this;
+
+        if (n === null) {
+            if (this._bitmap === bit) return null;
+
+            const editable = this.ensureEditable(edit);
+            editable._nodes.splice(idx, 1);
+            editable._bitmap &= ~bit;
+            return editable;
+        }
+        const editable = this.ensureEditable(edit);
+        editable._nodes[idx] = n;
+        return editable;
+    }
+
     /**
      * Recursively call the find to get the leaf node.
      *
@@ -561,10 +804,10 @@ class BitmapIndexedNode<K, V> implements INode<K, V> {
      * @param hash
      * @param key
      */
-    public find(hash: number, key: K): LeafNode<K, V> | null {
+    public find(hash: number, key: K, comparer: HashComparer<K>): LeafNode<K, V> | null {
         const bit = bitpos(hash, this._shift);
         if ((this._bitmap & bit) !== 0) {
-            return this._nodes[index(this._bitmap, bit)].find(hash, key);
+            return this._nodes[index(this._bitmap, bit)].find(hash, key, comparer);
         } else {
             return null;
         }
@@ -573,8 +816,332 @@ class BitmapIndexedNode<K, V> implements INode<K, V> {
     getHash(): number {
         return this._hash;
     }
+
+    /**
+     * Returns the bitmap of the slots that hold a child.
+     */
+    getBitmap(): number {
+        return this._bitmap;
+    }
+
+    /**
+     * Returns the children in the order of their slots.
+     */
+    getNodes(): Node<K, V>[] {
+        return this._nodes;
+    }
+}
+
+/**
+ * Counters that are updated by the structural set operations below, so that the size
+ * of the resulting map can be computed without walking the shared subtrees.
+ */
+interface MergeCount {added: number, removed: number}
+
+/**
+ * Returns the bitmap and the children of a node as they are seen from the level `shift`.
+ *
+ * A FullNode has every bit set. A LeafNode or a HashCollisionNode is seen as a branch with a single child,
+ * which lets the set operations line up nodes of different kinds slot by slot.
+ */
+function expand<K, V>(node: Node<K, V>, shift: number): [number, Node<K, V>[]] {
+    if (node instanceof BitmapIndexedNode) {
+        return [node.getBitmap(), node.getNodes()];
+    }
+    if (node instanceof FullNode) {
+        return [-1, node.getNodes()];
+    }
+    return [bitpos(node.getHash(), shift), [node]];
+}
+
+/**
+ * Creates the branch node for the given bitmap and children.
+ * If one of the `originals` already has exactly these children, it is returned instead.
+ */
+function branch<K, V>(shift: number, bitmap: number, nodes: Node<K, V>[], ...originals: Node<K, V>[]): Node<K, V> | null {
+    if (nodes.length === 0) return null;
+    for (const original of originals) {
+        const [origBitmap, origNodes] = expand(original, shift);
+        if (bitmap === origBitmap && nodes.every((n, i) => n === origNodes[i])) return original;
+    }
+    return bitmap === -1 ? new FullNode(nodes, shift) : new BitmapIndexedNode(bitmap, nodes, shift);
+}
+
+/**
+ * Creates a node from leaves that share the same hash code.
+ * Returns `original` if it holds exactly the same leaves.
+ */
+function bucket<K, V>(original: LeafNode<K, V> | HashCollisionNode<K, V>, leaves: LeafNode<K, V>[]): Node<K, V> | null {
+    const origLeaves = original instanceof LeafNode ? [original] : original._leaves;
+    if (leaves.length === origLeaves.length && leaves.every((l, i) => l === origLeaves[i])) return original;
+    if (leaves.length === 0) return null;
+    if (leaves.length === 1) return leaves[0];
+    return new HashCollisionNode(leaves[0]._hash, leaves);
+}
+
+/**
+ * Returns the leaves of a node that only holds a single hash code, or null for every other node.
+ */
+function leavesOf<K, V>(node: Node<K, V>): LeafNode<K, V>[] | null {
+    if (node instanceof LeafNode) return [node];
+    if (node instanceof HashCollisionNode) return node._leaves;
+    return null;
+}
+
+/**
+ * Counts the leaves of a subtree.
+ */
+function countLeaves<K, V>(node: Node<K, V>): number {
+    if (node instanceof LeafNode) return 1;
+    if (node instanceof HashCollisionNode) return node._leaves.length;
+    if (node instanceof BitmapIndexedNode || node instanceof FullNode) {
+        let count = 0;
+        for (const child of node.getNodes()) {
+            count += countLeaves(child);
+        }
+        return count;
+    }
+    return 0;
+}
+
+/**
+ * Picks the leaf of a key that is present in both tries of a plain union, where the value of `b` wins.
+ * The leaf of `a` is kept if it has the same value, so that the union shares as much as possible with `a`.
+ */
+function preferOther<K, V>(leafA: LeafNode<K, V>, leafB: LeafNode<K, V>): LeafNode<K, V> {
+    return Utils.equals(leafA._value, leafB._value) ? leafA : leafB;
+}
+
+/**
+ * Structural union of two subtries at the level `shift`.
+ *
+ * The bitmaps of the two nodes are OR'ed, and the children in the slots that both nodes use are merged recursively.
+ * A subtree that is only present on one side is reused as it is. Keys that are present in both tries are resolved
+ * with `resolve`, which returns the leaf to keep, or with `preferOther` for a plain union without `resolve`.
+ * Only a plain union reuses a subtree that is the same node object on both sides, since `resolve` has to see
+ * every key of a shared subtree too.
+ *
+ * @param count `added` is incremented for every key of `b` that is not in `a`.
+ */
+function unionNodes<K, V>(
+    a: Node<K, V>,
+    b: Node<K, V>,
+    shift: number,
+    resolve: ((leafA: LeafNode<K, V>, leafB: LeafNode<K, V>) => LeafNode<K, V>) | undefined,
+    count: MergeCount,
+    comparer: HashComparer<K>
+): Node<K, V> {
+    if (b instanceof EmptyNode || (a === b && resolve === undefined)) return a;
+    if (a instanceof EmptyNode) {
+        count.added += countLeaves(b);
+        return b;
+    }
+
+    const leavesA = leavesOf(a), leavesB = leavesOf(b);
+    if (leavesA !== null && leavesB !== null && a.getHash() === b.getHash()) {
+        const leaves = [...leavesA];
+        for (const leafB of leavesB) {
+            const idx = leaves.findIndex(l => comparer.equals(l._key, leafB._key));
+            if (idx === -1) {
+                leaves.push(leafB);
+                count.added++;
+            } else {
+                leaves[idx] = resolve ? resolve(leaves[idx], leafB) : preferOther(leaves[idx], leafB);
+            }
+        }
+        return bucket(a as LeafNode<K, V> | HashCollisionNode<K, V>, leaves)!;
+    }
+
+    const [bitmapA, nodesA] = expand(a, shift);
+    const [bitmapB, nodesB] = expand(b, shift);
+    const bitmap = bitmapA | bitmapB;
+    const nodes: Node<K, V>[] = [];
+    for (let bit = 1, i = 0; i < 32; i++, bit <<= 1) {
+        if ((bitmap & bit) === 0) continue;
+        const childA = (bitmapA & bit) !== 0 ? nodesA[index(bitmapA, bit)] : null;
+        const childB = (bitmapB & bit) !== 0 ? nodesB[index(bitmapB, bit)] : null;
+        if (childA !== null && childB !== null) {
+            nodes.push(unionNodes(childA, childB, shift + 5, resolve, count, comparer));
+        } else if (childA !== null) {
+            nodes.push(childA);
+        } else {
+            count.added += countLeaves(childB!);
+            nodes.push(childB!);
+        }
+    }
+    return branch(shift, bitmap, nodes, a, b)!;
+}
+
+/**
+ * Structural intersection of two subtries at the level `shift`. The leaves of `a` are kept.
+ *
+ * The bitmaps of the two nodes are AND'ed, and the children in the slots that both nodes use are intersected recursively.
+ * A subtree that is the same node object on both sides is reused as it is.
+ *
+ * @param count `removed` is incremented for every key of `a` that is not in `b`.
+ */
+function intersectNodes<K, V, VV>(a: Node<K, V>, b: Node<K, VV>, shift: number, count: MergeCount, comparer: HashComparer<K>): Node<K, V> | null {
+    if (a === (b as unknown)) return a;
+    if (a instanceof EmptyNode) return null;
+    if (b instanceof EmptyNode) {
+        count.removed += countLeaves(a);
+        return null;
+    }
+
+    const leavesA = leavesOf(a);
+    if (leavesA !== null) {
+        const leaves = leavesA.filter(l => b.find(l._hash, l._key, comparer) !== null);
+        count.removed += leavesA.length - leaves.length;
+        return bucket(a as LeafNode<K, V> | HashCollisionNode<K, V>, leaves);
+    }
+    const leavesB = leavesOf(b);
+    if (leavesB !== null) {
+        const leaves: LeafNode<K, V>[] = [];
+        for (const leafB of leavesB) {
+            const leafA = a.find(leafB._hash, leafB._key, comparer);
+            if (leafA !== null) leaves.push(leafA);
+        }
+        count.removed += countLeaves(a) - leaves.length;
+        if (leaves.length === 0) return null;
+        return leaves.length === 1 ? leaves[0] : new HashCollisionNode(leaves[0]._hash, leaves);
+    }
+
+    const [bitmapA, nodesA] = expand(a, shift);
+    const [bitmapB, nodesB] = expand(b, shift);
+    let bitmap = 0;
+    const nodes: Node<K, V>[] = [];
+    for (let bit = 1, i = 0; i < 32; i++, bit <<= 1) {
+        if ((bitmapA & bit) === 0) continue;
+        const childA = nodesA[index(bitmapA, bit)];
+        if ((bitmapB & bit) === 0) {
+            count.removed += countLeaves(childA);
+            continue;
+        }
+        const child = intersectNodes(childA, nodesB[index(bitmapB, bit)], shift + 5, count, comparer);
+        if (child !== null) {
+            nodes.push(child);
+            bitmap |= bit;
+        }
+    }
+    return branch(shift, bitmap, nodes, a);
+}
+
+/**
+ * Structural difference of two subtries at the level `shift`, the keys of `b` are removed from `a`.
+ *
+ * Only the slots that both nodes use are visited, every other child of `a` is reused as it is.
+ * A subtree that is the same node object on both sides is removed without looking at `b`.
+ *
+ * @param count `removed` is incremented for every key of `a` that is in `b`.
+ */
+function subtractNodes<K, V, VV>(a: Node<K, V>, b: Node<K, VV>, shift: number, count: MergeCount, comparer: HashComparer<K>): Node<K, V> | null {
+    if (a === (b as unknown)) {
+        count.removed += countLeaves(a);
+        return null;
+    }
+    if (a instanceof EmptyNode || b instanceof EmptyNode) return a;
+
+    const leavesA = leavesOf(a);
+    if (leavesA !== null) {
+        const leaves = leavesA.filter(l => b.find(l._hash, l._key, comparer) === null);
+        count.removed += leavesA.length - leaves.length;
+        return bucket(a as LeafNode<K, V> | HashCollisionNode<K, V>, leaves);
+    }
+    const leavesB = leavesOf(b);
+    if (leavesB !== null) {
+        let result: Node<K, V> | null = a;
+        for (const leafB of leavesB) {
+            if (result === null) break;
+            if (result.find(leafB._hash, leafB._key, comparer) !== null) {
+                result = result.without(leafB._hash, leafB._key, comparer);
+                count.removed++;
+            }
+        }
+        return result;
+    }
+
+    const [bitmapA, nodesA] = expand(a, shift);
+    const [bitmapB, nodesB] = expand(b, shift);
+    let bitmap = 0;
+    const nodes: Node<K, V>[] = [];
+    for (let bit = 1, i = 0; i < 32; i++, bit <<= 1) {
+        if ((bitmapA & bit) === 0) continue;
+        const childA = nodesA[index(bitmapA, bit)];
+        const child = (bitmapB & bit) === 0
+            ? childA
+            : subtractNodes(childA, nodesB[index(bitmapB, bit)], shift + 5, count, comparer);
+        if (child !== null) {
+            nodes.push(child);
+            bitmap |= bit;
+        }
+    }
+    return branch(shift, bitmap, nodes, a);
+}
+
+/**
+ * Yields the changes that turn the subtrie `a` into the subtrie `b` at the level `shift`.
+ *
+ * The two nodes are lined up slot by slot like in `unionNodes`, and a subtree that is the same node object
+ * in both tries is skipped, so only the paths that differ between two versions are visited.
+ */
+function* diffNodes<K, V>(a: Node<K, V>, b: Node<K, V>, shift: number, comparer: HashComparer<K>): IterableIterator<Change<K, V>> {
+    if (a === b) return;
+    if (b instanceof EmptyNode) {
+        for (const leaf of allLeaves(a)) yield {type: "removed", key: leaf._key, value: leaf._value};
+        return;
+    }
+    if (a instanceof EmptyNode) {
+        for (const leaf of allLeaves(b)) yield {type: "added", key: leaf._key, value: leaf._value};
+        return;
+    }
+
+    const leavesA = leavesOf(a), leavesB = leavesOf(b);
+    if (leavesA !== null && leavesB !== null && a.getHash() === b.getHash()) {
+        for (const leafA of leavesA) {
+            const leafB = leavesB.find(l => comparer.equals(l._key, leafA._key));
+            if (leafB === undefined) {
+                yield {type: "removed", key: leafA._key, value: leafA._value};
+            } else if (leafB !== leafA && !Utils.equals(leafA._value, leafB._value)) {
+                yield {type: "changed", key: leafA._key, oldValue: leafA._value, newValue: leafB._value};
+            }
+        }
+        for (const leafB of leavesB) {
+            if (!leavesA.some(l => comparer.equals(l._key, leafB._key))) {
+                yield {type: "added", key: leafB._key, value: leafB._value};
+            }
+        }
+        return;
+    }
+
+    const [bitmapA, nodesA] = expand(a, shift);
+    const [bitmapB, nodesB] = expand(b, shift);
+    for (let bit = 1, i = 0; i < 32; i++, bit <<= 1) {
+        const childA = (bitmapA & bit) !== 0 ? nodesA[index(bitmapA, bit)] : EmptyNode.empty<K, V>();
+        const childB = (bitmapB & bit) !== 0 ? nodesB[index(bitmapB, bit)] : EmptyNode.empty<K, V>();
+        yield* diffNodes(childA, childB, shift + 5, comparer);
+    }
+}
+
+/**
+ * Yields every leaf of a subtree.
+ */
+function* allLeaves<K, V>(node: Node<K, V>): IterableIterator<LeafNode<K, V>> {
+    const leaves = leavesOf(node);
+    if (leaves !== null) {
+        yield* leaves;
+    } else if (node instanceof BitmapIndexedNode || node instanceof FullNode) {
+        for (const child of node.getNodes()) {
+            yield* allLeaves(child);
+        }
+    }
 }
 
+/**
+ * Creates a HashMap around the nodes of a transient, which cannot call the private constructor.
+ * It is set by HashMap when the class is defined.
+ */
+let freeze: <K, V>(size: number, shift: number, root: Node<K, V>, comparer: HashComparer<K>) => HashMap<K, V>;
+
 /**
  * **Persistent HashMap** - a fully immutable, Hash Array Mapped Trie (HAMT). adapted from Clojure's implementation.
  *
@@ -599,22 +1166,51 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
     private readonly _size: number;
     private readonly _shift: number;
     private readonly _root: Node<K, V>;
+    private readonly _comparer: HashComparer<K>;
 
     private _hash: number | null = null;
 
-    private constructor(size: number, shift: number, root: Node<K, V>) {
+    static {
+        freeze = (size, shift, root, comparer) => new HashMap(size, shift, root, comparer);
+    }
+
+    private constructor(size: number, shift: number, root: Node<K, V>, comparer: HashComparer<K> = HashCode.defaultComparer) {
         super();
         this._size = size;
         this._shift = shift;
         this._root = root;
+        this._comparer = comparer;
     }
 
-    static empty<K, V>(): HashMap<K, V> {
-        return new HashMap<K, V>(0, 0, EmptyNode.empty<K, V>());
+    /**
+     * Creates an empty map.
+     *
+     * @example
+     * const caseInsensitive = HashMap.empty<string, number>({
+     *     hash: key => HashCode.hashCode(key.toLowerCase()),
+     *     equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+     * });
+     * caseInsensitive.set("Key", 1).get("KEY"); // 1
+     *
+     * @param comparer Optional strategy for hashing and comparing the keys.
+     * If not provided, `HashCode.defaultComparer` is used.
+     */
+    static empty<K, V>(comparer?: HashComparer<K>): HashMap<K, V> {
+        return new HashMap<K, V>(0, 0, EmptyNode.empty<K, V>(), comparer);
     }
 
+    /**
+     * Returns an empty map with the same comparer as this map.
+     */
     empty(): HashMap<K, V> {
-        return HashMap.empty<K, V>();
+        return HashMap.empty<K, V>(this._comparer);
+    }
+
+    /**
+     * Returns the strategy that this map uses to hash and compare its keys.
+     */
+    getComparer(): HashComparer<K> {
+        return this._comparer;
     }
 
     protected createEmpty<KM, VM>(): HashMap<KM, VM> {
@@ -622,11 +1218,50 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
     }
 
     static of<K, V>(...entries: [K, V][]): HashMap<K, V> {
-        let map: HashMap<K, V> = HashMap.empty<K, V>();
-        for (const [key, value] of entries) {
-            map = map.assoc(key, value);
-        }
-        return map;
+        return HashMap.empty<K, V>().setAll(entries);
+    }
+
+    /**
+     * Returns a transient (batch-mutable) version of this map.
+     *
+     * The transient shares every node with this map. The first time a node is changed through the transient
+     * it is copied, and the copy is owned by the transient, so every later change to that node is done in place.
+     * This map is never changed.
+     *
+     * Call `persistent()` on the transient to freeze it back into a normal HashMap.
+     *
+     * Complexity: O(1)
+     *
+     * @see https://clojure.org/reference/transients
+     */
+    asTransient(): TransientHashMap<K, V> {
+        return new TransientHashMap<K, V>(this._size, this._shift, this._root, this._comparer);
+    }
+
+    /**
+     * Apply a batch of changes to a transient version of this map, and return the result as a persistent map.
+     *
+     * @example
+     * const map = HashMap.empty<string, number>().withMutations(m => {
+     *     m.set("a", 1).set("b", 2);
+     *     m.delete("a");
+     * });
+     *
+     * @param fn Function that changes the transient map in place.
+     */
+    withMutations(fn: (map: TransientHashMap<K, V>) => void): HashMap<K, V> {
+        const transient = this.asTransient();
+        fn(transient);
+        const result = transient.persistent();
+        return result.equalsRoot(this) ? this : result;
+    }
+
+    /**
+     * Check if two maps point to the same root node.
+     * @param other
+     */
+    private equalsRoot(other: HashMap<K, V>): boolean {
+        return this._root === other._root && this._size === other._size;
     }
 
     getRoot(): [K, V] | null {
@@ -645,7 +1280,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
                 yield [leaf._key, leaf._value];
             }
         } else if (node instanceof BitmapIndexedNode || node instanceof FullNode) {
-            for (const child of (node as any)._nodes as Node<K, V>[]) {
+            for (const child of node.getNodes()) {
                 yield* this.entriesKeyValue(child);
             }
         }
@@ -663,7 +1298,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
                 yield leaf;
             }
         } else if (node instanceof BitmapIndexedNode || node instanceof FullNode) {
-            for (const child of (node as any)._nodes as Node<K, V>[]) {
+            for (const child of node.getNodes()) {
                 yield* this.entriesNodeHelper(child);
             }
         }
@@ -672,7 +1307,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
     /**
      * How the HashMap is iterated.
      */
-    *[Symbol.iterator](): IterableIterator<[K, V]> {
+    *[Symbol.iterator](): MapIterator<[K, V]> {
         yield* this.entriesKeyValue(this._root);
     }
 
@@ -712,7 +1347,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      * Method to associate a key with a value.
      * Calls the appropriate `assoc` method for the root.
      *
-     * Also hashes the key to get the hash code using the `HashCode` class.
+     * Also hashes the key to get the hash code using the comparer of the map.
      *
      * @param key The key be added to the map
      * @param value The value to be associated with the key
@@ -720,11 +1355,11 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      */
     private assoc(key: K, value: V): HashMap<K, V> {
         const addedLeaf: Box<LeafNode<K, V>> = {val: null};
-        const newRoot = this._root.assoc(this._shift, HashCode.hashCode(key), key, value, addedLeaf);
+        const newRoot = this._root.assoc(this._shift, this._comparer.hash(key), key, value, addedLeaf, this._comparer);
         if (newRoot === null || newRoot === this._root) {
             return this;
         }
-        return new HashMap(addedLeaf.val === null ? this._size : this._size + 1, this._shift, newRoot);
+        return new HashMap(addedLeaf.val === null ? this._size : this._size + 1, this._shift, newRoot, this._comparer);
     }
 
     /**
@@ -741,15 +1376,12 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
     }
 
     /**
-     * Set multiple key-value pairs in the map
+     * Set multiple key-value pairs in the map.
+     * Uses a transient map, so that the nodes are only copied once.
      * @param entries
      */
     setAll(entries: Iterable<[K, V]>): HashMap<K, V> {
-        let map: HashMap<K, V> = this;
-        for (const [key, value] of entries) {
-            map = map.set(key, value);
-        }
-        return map;
+        return this.withMutations(map => map.setAll(entries));
     }
 
     /**
@@ -766,23 +1398,24 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      * @private
      */
     delete(key: K): HashMap<K, V> {
-        const newRoot = this._root.without(HashCode.hashCode(key), key);
+        const newRoot = this._root.without(this._comparer.hash(key), key, this._comparer);
         if (Utils.equals(newRoot, this._root)) {
             return this;
         }
         if (newRoot === null) {
-            return HashMap.empty<K, V>();
+            return this.empty();
         }
-        return new HashMap<K, V>(this._size - 1, this._shift, newRoot);
+        return new HashMap<K, V>(this._size - 1, this._shift, newRoot, this._comparer);
     }
 
 
     /**
      * Method to remove all keys from the HashMap.
+     * Uses a transient map, so that the nodes are only copied once.
      * @param keys
      */
     deleteAll(keys: Iterable<K>): HashMap<K, V> {
-        return super.deleteAll(keys) as HashMap<K, V>;
+        return this.withMutations(map => map.deleteAll(keys));
     }
 
     /**
@@ -794,7 +1427,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      * @private
      */
     private findLeafNode(hash: number, key: K): LeafNode<K, V> | null {
-        return this._root.find(hash, key);
+        return this._root.find(hash, key, this._comparer);
     }
 
     /**
@@ -806,19 +1439,32 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      * @param key The key to get the value from.
      */
     get(key: K): V | undefined {
-        const find = this.findLeafNode(HashCode.hashCode(key), key);
+        const find = this.findLeafNode(this._comparer.hash(key), key);
         if (find !== null) {
             return find._value;
         }
         return undefined;
     }
 
+    /**
+     * Get the entry of a key, with the key that is stored in the map.
+     * With a custom comparer, the stored key can be another object than the given key that is equal to it.
+     *
+     * Complexity O(log_32 N)
+     *
+     * @param key The key to get the entry of.
+     */
+    getEntry(key: K): [K, V] | undefined {
+        const find = this.findLeafNode(this._comparer.hash(key), key);
+        return find === null ? undefined : [find._key, find._value];
+    }
+
     /**
      * Check if the map has a key.
      * @param key
      */
     has(key: K): boolean {
-        return this.findLeafNode(HashCode.hashCode(key), key) !== null;
+        return this.findLeafNode(this._comparer.hash(key), key) !== null;
     }
 
     /**
@@ -845,10 +1491,10 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
     }
 
     /**
-     * Clear the map. Return an empty instance.
+     * Clear the map. Return an empty instance with the same comparer.
      */
     clear(): HashMap<K, V> {
-        return HashMap.empty<K, V>();
+        return this.empty();
     }
 
     // Speed methods
@@ -919,8 +1565,8 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         const entriesB = o.entries();
 
         const entryCmp = ([ka]: [K, V], [kb]: [K, V]): number => {
-            const ha = HashCode.hashCode(ka);
-            const hb = HashCode.hashCode(kb);
+            const ha = this._comparer.hash(ka);
+            const hb = this._comparer.hash(kb);
             if (ha !== hb) return ha - hb;
 
             if (ka < kb) return -1;
@@ -952,13 +1598,21 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         if (this._hash === null) {
             let hash = 0;
             for (const [key, value] of this.entries()) {
-                hash ^= HashCode.hashCode(key) ^ HashCode.hashCode(value);
+                hash ^= this._comparer.hash(key) ^ HashCode.hashCode(value);
             }
             this._hash = hash;
         }
         return this._hash;
     }
 
+    /**
+     * Returns the entries as an array of key-value pairs, which is what `JSON.stringify` writes for the map.
+     * The keys are not turned into strings, so keys of any type keep their values.
+     */
+    toJSON(): [K, V][] {
+        return this.entries();
+    }
+
     /**
      * Get a value from the map or return a default value.
      * @param key
@@ -1002,7 +1656,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      * @param map
      */
     copyOf(map: Map<K, V>): HashMap<K, V> {
-        return HashMap.of(...map.entries());
+        return this.empty().setAll(map.entries());
     }
 
     // HOFs defined in Map.ts
@@ -1097,7 +1751,27 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
     ): HashMap<K | string, Exclude<V, C> | C>;
     merge<KC, VC>(other: Map<KC, VC>): HashMap<K | KC, V | VC>;
     merge(...collections: any[]): HashMap<any, any> {
-        return super.merge(...collections) as HashMap<any, any>;
+        let result: HashMap<any, any> = this;
+        for (const collection of collections) {
+            if (collection instanceof HashMap) {
+                result = result.union(collection);
+            } else {
+                result = result.withMutations(map => {
+                    if (this.isCustomMap(collection)) {
+                        map.setAll(collection.entries());
+                    } else if (Array.isArray(collection)) {
+                        map.setAll(collection);
+                    } else if (typeof collection === 'object' && collection !== null) {
+                        for (const key in collection) {
+                            if (collection.hasOwnProperty(key)) {
+                                map.set(key, collection[key]);
+                            }
+                        }
+                    }
+                });
+            }
+        }
+        return result;
     }
 
     /**
@@ -1137,11 +1811,107 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         callback: (oldVal: V, newVal: any, key: any) => any,
         ...collections: any[]
     ): HashMap<any, any> {
-        return super.mergeWith(callback, ...collections) as HashMap<any, any>;
+        let result: HashMap<any, any> = this;
+        for (const collection of collections) {
+            result = collection instanceof HashMap
+                ? result.union(collection, callback)
+                : super.mergeWith.call(result, callback, collection) as HashMap<any, any>;
+        }
+        return result;
+    }
+
+    /**
+     * Returns the union of this map and another HashMap.
+     *
+     * The two tries are merged node by node, where the bitmaps of the nodes are OR'ed together.
+     * Subtrees that only exist in one of the maps are reused without being visited. Without `resolve`, so are
+     * the subtrees that are the same node object in both maps, and merging two versions of the same map
+     * therefore costs about the size of the difference between them. With `resolve`, the keys of a shared
+     * subtree are resolved like every other key that is present in both maps.
+     *
+     * `merge`, `mergeWith` and `concat` use this method when they are given a HashMap.
+     *
+     * @param other The map to unite with this map.
+     * @param resolve Optional function that computes the value of a key that is present in both maps.
+     * If not provided, the value from the other map is used.
+     */
+    union(other: HashMap<K, V>, resolve?: (oldVal: V, newVal: V, key: K) => V): HashMap<K, V> {
+        other = this.withSameComparer(other);
+        const count: MergeCount = {added: 0, removed: 0};
+        const resolveLeaves = resolve && ((leafA: LeafNode<K, V>, leafB: LeafNode<K, V>) => {
+            const value = resolve(leafA._value, leafB._value, leafA._key);
+            if (Utils.equals(leafA._value, value)) return leafA;
+            if (Utils.equals(leafB._value, value)) return leafB;
+            return new LeafNode(leafA._hash, leafA._key, value);
+        });
+        const root = unionNodes(this._root, other._root, this._shift, resolveLeaves, count, this._comparer);
+        if (root === this._root) return this;
+        if (root === other._root) return other;
+        return new HashMap<K, V>(this._size + count.added, this._shift, root, this._comparer);
+    }
+
+    /**
+     * Returns the entries of this map whose keys are also in the other map.
+     *
+     * The two tries are intersected node by node, where the bitmaps of the nodes are AND'ed together.
+     * Subtrees that are the same node object in both maps are reused without being visited.
+     *
+     * @param other The map with the keys to keep.
+     */
+    intersect<VV>(other: HashMap<K, VV>): HashMap<K, V> {
+        const count: MergeCount = {added: 0, removed: 0};
+        const root = intersectNodes(this._root, this.withSameComparer(other)._root, this._shift, count, this._comparer);
+        if (root === this._root) return this;
+        if (root === null) return this.empty();
+        return new HashMap<K, V>(this._size - count.removed, this._shift, root, this._comparer);
+    }
+
+    /**
+     * Returns the entries of this map whose keys are not in the other map.
+     *
+     * Only the slots that are used in both tries are visited, and every other subtree of this map is reused.
+     *
+     * @param other The map with the keys to remove.
+     */
+    subtract<VV>(other: HashMap<K, VV>): HashMap<K, V> {
+        const count: MergeCount = {added: 0, removed: 0};
+        const root = subtractNodes(this._root, this.withSameComparer(other)._root, this._shift, count, this._comparer);
+        if (root === this._root) return this;
+        if (root === null) return this.empty();
+        return new HashMap<K, V>(this._size - count.removed, this._shift, root, this._comparer);
+    }
+
+    /**
+     * Returns the changes that turn this map into the other map.
+     *
+     * Keys that are only in the other map are `added`, keys that are only in this map are `removed`,
+     * and keys with values that are not equal are `changed`.
+     * The changes are computed lazily, and subtrees that both maps share are skipped. Diffing two versions
+     * of a map that are a few edits apart therefore only visits the paths to those edits.
+     *
+     * @example
+     * const v1 = HashMap.of(["a", 1], ["b", 2]);
+     * const v2 = v1.set("b", 3).set("c", 4);
+     * [...v1.diff(v2)]; // changed b (2 -> 3), added c
+     *
+     * @param other The newer version of the map.
+     */
+    *diff(other: HashMap<K, V>): IterableIterator<Change<K, V>> {
+        yield* diffNodes(this._root, this.withSameComparer(other)._root, this._shift, this._comparer);
+    }
+
+    /**
+     * Returns the other map if it uses the same comparer as this map. Otherwise its entries are rehashed into
+     * a map with the comparer of this map, since the structural operations line up the two tries by hash code.
+     */
+    private withSameComparer<VV>(other: HashMap<K, VV>): HashMap<K, VV> {
+        if (other._comparer === this._comparer) return other;
+        return HashMap.empty<K, VV>(this._comparer).setAll(other);
     }
 
     /**
      * Map over the entries in the map and apply the callback function to each entry.
+     * The keys are the same, so the new map uses the comparer of this map.
      * @param callback
      * @param thisArg
      */
@@ -1149,7 +1919,11 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         callback: (value: V, key: K, map: this) => M,
         thisArg?: unknown
     ): HashMap<K, M> {
-        return super.map(callback, thisArg) as HashMap<K, M>;
+        return HashMap.empty<K, M>(this._comparer).withMutations(map => {
+            for (const [key, value] of this) {
+                map.set(key, callback.call(thisArg, value, key, this));
+            }
+        });
     }
 
     /**
@@ -1185,7 +1959,15 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         thisArg?: unknown,
         compare?: Comparator<KM>
     ): HashMap<KM, VM> {
-        return super.mapEntries(mapper, thisArg, compare) as HashMap<KM, VM>;
+        return HashMap.empty<KM, VM>().withMutations(map => {
+            let idx = 0;
+            for (const entry of this) {
+                const newEntry = mapper.call(thisArg, entry, idx++, this);
+                if (newEntry) {
+                    map.set(newEntry[0], newEntry[1]);
+                }
+            }
+        });
     }
 
     /**
@@ -1225,7 +2007,13 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         predicate: (value: V, key: K, map: this) => unknown,
         thisArg?: unknown
     ): HashMap<K, any> {
-        return super.filter(predicate, thisArg) as HashMap<K, any>;
+        return this.withMutations(map => {
+            for (const [key, value] of this) {
+                if (!predicate.call(thisArg, value, key, this)) {
+                    map.delete(key);
+                }
+            }
+        });
     }
 
     /**
@@ -1249,7 +2037,16 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         predicate: (value: V, key: K, map: this) => unknown,
         thisArg?: unknown
     ): [HashMap<K, V>, HashMap<K, V>] {
-        return super.partition(predicate, thisArg) as [HashMap<K, V>, HashMap<K, V>];
+        const trueMap = this.empty().asTransient();
+        const falseMap = this.empty().asTransient();
+        for (const [key, value] of this) {
+            if (predicate.call(thisArg, value, key, this)) {
+                trueMap.set(key, value);
+            } else {
+                falseMap.set(key, value);
+            }
+        }
+        return [trueMap.persistent(), falseMap.persistent()];
     }
 
     /**
@@ -1278,7 +2075,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
      * <p>The walk performs the following checks:</p>
      * <ul>
      *   <li><b>EmptyNode</b> – always valid.</li>
-     *   <li><b>LeafNode</b> – the stored hash equals <code>HashCode.hashCode(key)</code>
+     *   <li><b>LeafNode</b> – the stored hash equals the hash of the key given by the comparer
      *       and the key has not appeared elsewhere in the current traversal.</li>
      *   <li><b>HashCollisionNode</b> – every leaf shares the same hash and all the keys are distinct.</li>
      *   <li><b>FullNode</b> – contains exactly 32 children and validates every subtree.</li>
@@ -1307,7 +2104,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         // leaf node
         if (node instanceof LeafNode) {
             const ok =
-            node._hash === HashCode.hashCode(node._key) && !seenKeys.has(node._key);
+            node._hash === this._comparer.hash(node._key) && !seenKeys.has(node._key);
             seenKeys.add(node._key);
             return [ok, 1];
         }
@@ -1330,7 +2127,7 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
 
         // full node
         if (node instanceof FullNode) {
-            const children = (node as any)._nodes as Node<K, V>[];
+            const children = node.getNodes();
             const bitmapOk = children.length === 32;
 
             let size = 0;
@@ -1345,8 +2142,8 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
 
         // bitmap indexed node
         if (node instanceof BitmapIndexedNode) {
-            const bitmap = (node as any)._bitmap as number;
-            const children = (node as any)._nodes as Node<K, V>[];
+            const bitmap = node.getBitmap();
+            const children = node.getNodes();
 
             const bitmapOk = ctpop(bitmap) === children.length;
 
@@ -1381,4 +2178,142 @@ export default class HashMap<K, V> extends AbstractMap<K, V>
         const [ok, size] = this.validateNode(this._root, this._shift);
         return ok && size === this.size();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * **Transient HashMap** - a temporary, mutable version of a `HashMap` used for batches of changes.
+ *
+ * It is created with `HashMap.asTransient()` (or `HashMap.withMutations()`), and it starts out sharing every node
+ * with the persistent map. Every node that the transient copies is stamped with its owner token, and nodes with
+ * that token are changed in place by later edits. Building a map of N entries therefore copies each node once,
+ * instead of copying a full path for every entry.
+ *
+ * `persistent()` freezes the transient into a normal `HashMap` in O(1). After that the transient can not be used
+ * anymore, since the new map now owns the nodes.
+ *
+ * @see https://clojure.org/reference/transients
+ * @see https://github.com/clojure/clojure/blob/master/src/jvm/clojure/lang/PersistentHashMap.java
+ */
+export class TransientHashMap<K, V> {
+    private _edit: OwnerID | null = new OwnerID();
+    private _size: number;
+    private readonly _shift: number;
+    private _root: Node<K, V>;
+    private readonly _comparer: HashComparer<K>;
+
+    constructor(size: number, shift: number, root: Node<K, V>, comparer: HashComparer<K> = HashCode.defaultComparer) {
+        this._size = size;
+        this._shift = shift;
+        this._root = root;
+        this._comparer = comparer;
+    }
+
+    /**
+     * Throws if `persistent()` has already been called on this transient.
+     */
+    private ensureEditable(): OwnerID {
+        if (this._edit === null) {
+            throw new Error("Transient used after persistent() call");
+        }
+        return this._edit;
+    }
+
+    /**
+     * Associate a key with a value, changing this transient in place.
+     *
+     * Complexity: O(log_32 N)
+     *
+     * @param key The key to be added to the map.
+     * @param value The value to be associated with the key.
+     * @returns this transient, to allow chaining.
+     */
+    set(key: K, value: V): this {
+        const edit = this.ensureEditable();
+        const addedLeaf: Box<LeafNode<K, V>> = {val: null};
+        this._root = this._root.assocTransient(edit, this._shift, this._comparer.hash(key), key, value, addedLeaf, this._comparer);
+        if (addedLeaf.val !== null) this._size++;
+        return this;
+    }
+
+    /**
+     * Set multiple key-value pairs in this transient.
+     * @param entries
+     */
+    setAll(entries: Iterable<[K, V]>): this {
+        for (const [key, value] of entries) {
+            this.set(key, value);
+        }
+        return this;
+    }
+
+    /**
+     * Remove a key, changing this transient in place.
+     *
+     * Complexity: O(log_32 N)
+     *
+     * @param key The key to be removed.
+     * @returns this transient, to allow chaining.
+     */
+    delete(key: K): this {
+        const edit = this.ensureEditable();
+        const removedLeaf: Box<LeafNode<K, V>> = {val: null};
+        const newRoot = this._root.withoutTransient(edit, this._comparer.hash(key), key, removedLeaf, this._comparer);
+        if (removedLeaf.val !== null) {
+            this._root = newRoot === null ? EmptyNode.empty<K, V>() : newRoot;
+            this._size--;
+        }
+        return this;
+    }
+
+    /**
+     * Remove multiple keys from this transient.
+     * @param keys
+     */
+    deleteAll(keys: Iterable<K>): this {
+        for (const key of keys) {
+            this.delete(key);
+        }
+        return this;
+    }
+
+    /**
+     * Get the value for a key.
+     * @param key
+     */
+    get(key: K): V | undefined {
+        this.ensureEditable();
+        const leaf = this._root.find(this._comparer.hash(key), key, this._comparer);
+        return leaf === null ? undefined : leaf._value;
+    }
+
+    /**
+     * Check if this transient has a key.
+     * @param key
+     */
+    has(key: K): boolean {
+        this.ensureEditable();
+        return this._root.find(this._comparer.hash(key), key, this._comparer) !== null;
+    }
+
+    /**
+     * Get the number of entries in this transient.
+     */
+    size(): number {
+        this.ensureEditable();
+        return this._size;
+    }
+
+    /**
+     * Freeze this transient into a persistent HashMap.
+     *
+     * The owner token is dropped, so the nodes can never be changed in place again,
+     * and any later use of this transient throws.
+     *
+     * Complexity: O(1)
+     */
+    persistent(): HashMap<K, V> {
+        this.ensureEditable();
+        this._edit = null;
+        return freeze(this._size, this._shift, this._root, this._comparer);
+    }
+}
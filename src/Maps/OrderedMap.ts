@@ -0,0 +1,303 @@
+import AbstractMap from "../AbstractClasses/AbstractMap";
+import Vector from "../Arrays/Vector";
+import { Speed } from "../Enums/Speed";
+import HashCode from "../Hashing/HashCode";
+import HashComparer from "../Interfaces/HashComparer";
+import Map from "../Interfaces/Map";
+import { Utils } from "../Utils/Utils";
+import HashMap from "./HashMap";
+
+// the slots are compacted when there are more holes than this and more holes than entries
+const MIN_HOLES = 32;
+
+/**
+ * OrderedMap is a map that iterates in insertion order, and looks up its keys in a HashMap.
+ *
+ * The entries are kept in a Vector of slots, where a deleted entry leaves a hole. The HashMap maps every
+ * key to the position of its slot. Holes at both ends are trimmed right away, so the first and the last
+ * entry are always found in O(log32 n), and the slots are compacted when the holes outnumber the entries.
+ *
+ * Setting the value of a key that is already in the map keeps its position. `moveToEnd` moves it to the end.
+ *
+ * @example
+ * const map = OrderedMap.of<string, number>(["b", 1], ["a", 2]);
+ * map.keys(); // ["b", "a"]
+ * map.moveToEnd("b").keys(); // ["a", "b"]
+ */
+export default class OrderedMap<K, V> extends AbstractMap<K, V> {
+    private _hashCode: number | null = null;
+
+    private constructor(
+        // position of the slot of every key
+        private readonly _index: HashMap<K, number>,
+        // the entries in insertion order, null for a deleted entry
+        private readonly _slots: Vector<[K, V] | null>,
+        // position of the first slot, which grows when slots are trimmed from the front
+        private readonly _offset: number,
+    ) {
+        super();
+    }
+
+    /**
+     * Creates an empty OrderedMap.
+     * @param comparer Optional strategy for hashing and comparing the keys.
+     */
+    static empty<K, V>(comparer?: HashComparer<K>): OrderedMap<K, V> {
+        return new OrderedMap<K, V>(HashMap.empty<K, number>(comparer), Vector.empty<[K, V] | null>(), 0);
+    }
+
+    /**
+     * Creates an OrderedMap with the given entries, in their order.
+     */
+    static of<K, V>(...entries: [K, V][]): OrderedMap<K, V> {
+        return OrderedMap.empty<K, V>().setAll(entries);
+    }
+
+    /**
+     * Creates a map from the index and the slots, after trimming the holes at both ends,
+     * and compacting the slots if there are too many holes.
+     */
+    private withSlots(index: HashMap<K, number>, slots: Vector<[K, V] | null>, offset: number): OrderedMap<K, V> {
+        const holes = slots.size() - index.size();
+        if (holes > MIN_HOLES && holes > index.size()) {
+            const live: [K, V][] = [];
+            for (const entry of slots) {
+                if (entry !== null) live.push(entry);
+            }
+            const compacted = index.empty().withMutations(map => {
+                live.forEach(([key], position) => map.set(key, position));
+            });
+            const packed = Vector.empty<[K, V] | null>().withMutations(vector => {
+                for (const entry of live) vector.push(entry);
+            });
+            return new OrderedMap<K, V>(compacted, packed, 0);
+        }
+        if (holes > 0) {
+            let start = 0;
+            let end = slots.size();
+            while (start < end && slots.get(start) === null) start++;
+            while (end > start && slots.get(end - 1) === null) end--;
+            slots = slots.slice(start, end);
+            offset += start;
+        }
+        return new OrderedMap<K, V>(index, slots, offset);
+    }
+
+    *[Symbol.iterator](): MapIterator<[K, V]> {
+        for (const entry of this._slots) {
+            if (entry !== null) yield entry;
+        }
+    }
+
+    /**
+     * Returns the first entry, or null if the map is empty.
+     */
+    getRoot(): [K, V] | null {
+        return this.getFirst() ?? null;
+    }
+
+    /**
+     * Returns the strategy that this map uses to hash and compare its keys.
+     */
+    getComparer(): HashComparer<K> {
+        return this._index.getComparer();
+    }
+
+    size(): number {
+        return this._index.size();
+    }
+
+    isEmpty(): boolean {
+        return this._index.size() === 0;
+    }
+
+    get(key: K): V | undefined {
+        const position = this._index.get(key);
+        if (position === undefined) return undefined;
+        return this._slots.get(position - this._offset)![1];
+    }
+
+    has(key: K): boolean {
+        return this._index.has(key);
+    }
+
+    /**
+     * Sets the value of the key. A new key is added at the end, while an existing key keeps its position.
+     *
+     * Complexity: O(log32 n)
+     */
+    set(key: K, value: V): OrderedMap<K, V> {
+        const position = this._index.get(key);
+        if (position !== undefined) {
+            const slot = position - this._offset;
+            const [storedKey] = this._slots.get(slot)!;
+            return new OrderedMap<K, V>(this._index, this._slots.set(slot, [storedKey, value]), this._offset);
+        }
+        const index = this._index.set(key, this._offset + this._slots.size());
+        return new OrderedMap<K, V>(index, this._slots.push([key, value]), this._offset);
+    }
+
+    setAll(entries: Iterable<[K, V]>): OrderedMap<K, V> {
+        let map: OrderedMap<K, V> = this;
+        for (const [key, value] of entries) map = map.set(key, value);
+        return map;
+    }
+
+    /**
+     * Deletes the key, leaving a hole in its slot.
+     *
+     * Complexity: O(log32 n) amortized
+     */
+    delete(key: K): OrderedMap<K, V> {
+        const position = this._index.get(key);
+        if (position === undefined) return this;
+        return this.withSlots(this._index.delete(key), this._slots.set(position - this._offset, null), this._offset);
+    }
+
+    /**
+     * Moves the key to the end of the iteration order, keeping its value.
+     */
+    moveToEnd(key: K): OrderedMap<K, V> {
+        const position = this._index.get(key);
+        if (position === undefined) return this;
+        const slot = position - this._offset;
+        if (slot === this._slots.size() - 1) return this;
+        const entry = this._slots.get(slot);
+        const index = this._index.set(key, this._offset + this._slots.size());
+        return this.withSlots(index, this._slots.set(slot, null).push(entry), this._offset);
+    }
+
+    /**
+     * Returns the first entry in insertion order, or undefined if the map is empty.
+     */
+    getFirst(): [K, V] | undefined {
+        return this._slots.isEmpty() ? undefined : this._slots.get(0)!;
+    }
+
+    /**
+     * Returns the last entry in insertion order, or undefined if the map is empty.
+     */
+    getLast(): [K, V] | undefined {
+        return this._slots.isEmpty() ? undefined : this._slots.get(this._slots.size() - 1)!;
+    }
+
+    /**
+     * Removes the first entry.
+     * @throws {RangeError} if the map is empty.
+     */
+    removeFirst(): OrderedMap<K, V> {
+        const first = this.getFirst();
+        if (first === undefined) throw new RangeError("Can't remove first entry from empty map");
+        return this.delete(first[0]);
+    }
+
+    /**
+     * Removes the last entry.
+     * @throws {RangeError} if the map is empty.
+     */
+    removeLast(): OrderedMap<K, V> {
+        const last = this.getLast();
+        if (last === undefined) throw new RangeError("Can't remove last entry from empty map");
+        return this.delete(last[0]);
+    }
+
+    /**
+     * Returns a map with the same entries in reverse order.
+     *
+     * Complexity: O(n)
+     */
+    reversed(): OrderedMap<K, V> {
+        return this.clear().setAll(this.entries().reverse());
+    }
+
+    /**
+     * Returns an empty map with the same comparer.
+     */
+    clear(): OrderedMap<K, V> {
+        return new OrderedMap<K, V>(this._index.empty(), Vector.empty<[K, V] | null>(), 0);
+    }
+
+    /**
+     * The results of `map`, `filter` and the other HOFs are OrderedMaps in the order of this map.
+     */
+    protected createEmpty<KM, VM>(): OrderedMap<KM, VM> {
+        return OrderedMap.empty<KM, VM>();
+    }
+
+    copyOf(map: Map<K, V>): OrderedMap<K, V> {
+        return this.clear().setAll(map);
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    /**
+     * Checks if the other object is an OrderedMap with the same entries in the same order.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof OrderedMap)) return false;
+        const other = o as OrderedMap<K, V>;
+        if (this.size() !== other.size()) return false;
+
+        const comparer = this.getComparer();
+        const iter = other[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (!comparer.equals(key, otherKey) || !Utils.equals(value, otherValue)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes a hash code that depends on the order of the entries.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            const comparer = this.getComparer();
+            let hash = 17;
+            for (const [key, value] of this) {
+                hash = (hash * 31 + (comparer.hash(key) ^ HashCode.hashCode(value))) | 0;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    /**
+     * Compares the sizes, and then the entries in iteration order.
+     */
+    compareTo(o: OrderedMap<K, V>): number {
+        if (this === o) return 0;
+
+        const sizeDiff = this.size() - o.size();
+        if (sizeDiff !== 0) return sizeDiff;
+
+        const iter = o[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (key < otherKey) return -1;
+            if (key > otherKey) return 1;
+            if (value < otherValue) return -1;
+            if (value > otherValue) return 1;
+        }
+        return 0;
+    }
+
+    /**
+     * Returns a string representation of the map, in insertion order.
+     */
+    toString(): string {
+        return `{${this.entries().map(([key, value]) => `${key}: ${value}`).join(", ")}}`;
+    }
+}
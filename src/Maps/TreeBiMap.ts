@@ -0,0 +1,87 @@
+import AbstractBiMap from "../AbstractClasses/AbstractBiMap";
+import { Comparator } from "../Interfaces/Comparator";
+import Map from "../Interfaces/Map";
+import TreeMap from "../Trees/TreeMap";
+
+/**
+ * TreeBiMap is a sorted bidirectional map backed by two TreeMaps. It iterates in the order of the keys,
+ * and its inverse view iterates in the order of the values. Lookups in both directions are O(log n).
+ *
+ * `put` (and `set`) rejects a value that is already bound to another key, while `forcePut` moves the
+ * value to the new key.
+ */
+export default class TreeBiMap<K, V> extends AbstractBiMap<K, V> {
+    private constructor(forward: TreeMap<K, V>, backward: TreeMap<V, K>) {
+        super(forward, backward);
+    }
+
+    /**
+     * Creates an empty TreeBiMap.
+     * @param compareKeys - comparator that orders the keys.
+     * @param compareValues - comparator that orders the values.
+     */
+    static empty<K, V>(
+        compareKeys: Comparator<K> = TreeMap.defaultComparator<K>,
+        compareValues: Comparator<V> = TreeMap.defaultComparator<V>,
+    ): TreeBiMap<K, V> {
+        return new TreeBiMap<K, V>(new TreeMap<K, V>(compareKeys), new TreeMap<V, K>(compareValues));
+    }
+
+    /**
+     * Creates a TreeBiMap with the given pairs, ordered by the default comparators.
+     * @throws {Error} if two pairs have the same value and different keys.
+     */
+    static of<K, V>(...entries: [K, V][]): TreeBiMap<K, V> {
+        return TreeBiMap.empty<K, V>().setAll(entries);
+    }
+
+    protected withMaps<A, B>(forward: Map<A, B>, backward: Map<B, A>): TreeBiMap<A, B> {
+        return new TreeBiMap<A, B>(forward as TreeMap<A, B>, backward as TreeMap<B, A>);
+    }
+
+    /**
+     * The results of `map`, `filter` and the other HOFs are plain TreeMaps, since their values may repeat.
+     */
+    protected createEmpty<KM, VM>(compare?: Comparator<KM>): TreeMap<KM, VM> {
+        return new TreeMap<KM, VM>(compare);
+    }
+
+    getKeyComparator(): Comparator<K> {
+        return (this._forward as TreeMap<K, V>).getComparator();
+    }
+
+    getValueComparator(): Comparator<V> {
+        return (this._backward as TreeMap<V, K>).getComparator();
+    }
+
+    /**
+     * Returns the pair with the smallest key, or undefined if the map is empty.
+     */
+    findMin(): [K, V] | undefined {
+        return (this._forward as TreeMap<K, V>).findMin();
+    }
+
+    /**
+     * Returns the pair with the largest key, or undefined if the map is empty.
+     */
+    findMax(): [K, V] | undefined {
+        return (this._forward as TreeMap<K, V>).findMax();
+    }
+
+    inverse(): TreeBiMap<V, K> {
+        return super.inverse() as TreeBiMap<V, K>;
+    }
+
+    flip(): TreeBiMap<V, K> {
+        return this.inverse();
+    }
+
+    /**
+     * Checks if the other object is a TreeBiMap with the same pairs.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TreeBiMap)) return false;
+        return this._forward.equals((o as TreeBiMap<K, V>)._forward);
+    }
+}
@@ -0,0 +1,84 @@
+import AbstractMultimap from "../AbstractClasses/AbstractMultimap";
+import HashBag from "../Bags/HashBag";
+import Map from "../Interfaces/Map";
+import HashMap from "../Maps/HashMap";
+import HashSet from "../Sets/HashSet";
+
+/**
+ * HashMultimap is a multimap that stores the values of every key in a HashSet, in a HashMap<K, HashSet<V>>.
+ * A key holds every value at most once, and neither keys nor values are ordered.
+ *
+ * @example
+ * const tags = HashMultimap.of<string, string>(["a.ts", "code"], ["a.ts", "new"]);
+ * tags.get("a.ts").has("new"); // true
+ * tags.remove("a.ts", "code").remove("a.ts", "new").has("a.ts"); // false
+ */
+export default class HashMultimap<K, V> extends AbstractMultimap<K, V, HashSet<V>> {
+    private constructor(buckets: HashMap<K, HashSet<V>>, size: number) {
+        super(buckets, size);
+    }
+
+    /**
+     * Creates an empty HashMultimap.
+     */
+    static empty<K, V>(): HashMultimap<K, V> {
+        return new HashMultimap<K, V>(HashMap.empty<K, HashSet<V>>(), 0);
+    }
+
+    /**
+     * Creates a HashMultimap with the given key-value pairs.
+     * @param entries - The pairs to add to the multimap.
+     */
+    static of<K, V>(...entries: [K, V][]): HashMultimap<K, V> {
+        let multimap = HashMultimap.empty<K, V>();
+        for (const [key, value] of entries) multimap = multimap.put(key, value);
+        return multimap;
+    }
+
+    protected withBuckets(buckets: Map<K, HashSet<V>>, size: number): this {
+        return new HashMultimap<K, V>(buckets as HashMap<K, HashSet<V>>, size) as this;
+    }
+
+    protected emptyBucket(): HashSet<V> {
+        return new HashSet<V>();
+    }
+
+    protected addToBucket(bucket: HashSet<V>, value: V): HashSet<V> {
+        return bucket.has(value) ? bucket : bucket.add(value);
+    }
+
+    protected removeFromBucket(bucket: HashSet<V>, value: V): HashSet<V> {
+        return bucket.has(value) ? bucket.delete(value) : bucket;
+    }
+
+    empty(): this {
+        return this.withBuckets((this._buckets as HashMap<K, HashSet<V>>).empty(), 0);
+    }
+
+    /**
+     * Returns a HashBag that counts the values of every key.
+     */
+    keyCounts(): HashBag<K> {
+        let bag = HashBag.empty<K>();
+        for (const [key, bucket] of this._buckets) bag = bag.add(key, bucket.size());
+        return bag;
+    }
+
+    /**
+     * Returns a HashMultimap from every value to the keys it belongs to.
+     */
+    inverse(): HashMultimap<V, K> {
+        let inverse = HashMultimap.empty<V, K>();
+        for (const [key, value] of this) inverse = inverse.put(value, key);
+        return inverse;
+    }
+
+    /**
+     * Checks if the other object is a HashMultimap with the same keys and values.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof HashMultimap)) return false;
+        return this.hasSameBuckets(o as HashMultimap<K, V>);
+    }
+}
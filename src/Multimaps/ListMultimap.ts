@@ -0,0 +1,84 @@
+import AbstractMultimap from "../AbstractClasses/AbstractMultimap";
+import Vector from "../Arrays/Vector";
+import HashBag from "../Bags/HashBag";
+import Map from "../Interfaces/Map";
+import HashMap from "../Maps/HashMap";
+
+/**
+ * ListMultimap is a multimap that stores the values of every key in a Vector, in a HashMap<K, Vector<V>>.
+ * The values of a key keep the order they were added in, and a key can hold the same value more than once.
+ */
+export default class ListMultimap<K, V> extends AbstractMultimap<K, V, Vector<V>> {
+    private constructor(buckets: HashMap<K, Vector<V>>, size: number) {
+        super(buckets, size);
+    }
+
+    /**
+     * Creates an empty ListMultimap.
+     */
+    static empty<K, V>(): ListMultimap<K, V> {
+        return new ListMultimap<K, V>(HashMap.empty<K, Vector<V>>(), 0);
+    }
+
+    /**
+     * Creates a ListMultimap with the given key-value pairs.
+     * @param entries - The pairs to add to the multimap.
+     */
+    static of<K, V>(...entries: [K, V][]): ListMultimap<K, V> {
+        let multimap = ListMultimap.empty<K, V>();
+        for (const [key, value] of entries) multimap = multimap.put(key, value);
+        return multimap;
+    }
+
+    protected withBuckets(buckets: Map<K, Vector<V>>, size: number): this {
+        return new ListMultimap<K, V>(buckets as HashMap<K, Vector<V>>, size) as this;
+    }
+
+    protected emptyBucket(): Vector<V> {
+        return Vector.empty<V>();
+    }
+
+    protected addToBucket(bucket: Vector<V>, value: V): Vector<V> {
+        return bucket.push(value);
+    }
+
+    /**
+     * Removes the first occurrence of the value, comparing with `Utils.equals`.
+     */
+    protected removeFromBucket(bucket: Vector<V>, value: V): Vector<V> {
+        const index = bucket.indexOf(value);
+        return index === -1 ? bucket : bucket.remove(index);
+    }
+
+    empty(): this {
+        return this.withBuckets((this._buckets as HashMap<K, Vector<V>>).empty(), 0);
+    }
+
+    /**
+     * Returns a HashBag that counts the values of every key.
+     */
+    keyCounts(): HashBag<K> {
+        let bag = HashBag.empty<K>();
+        for (const [key, bucket] of this._buckets) bag = bag.add(key, bucket.size());
+        return bag;
+    }
+
+    /**
+     * Returns a ListMultimap from every value to the keys it belongs to. A key occurs once for every
+     * time the value occurs in its list.
+     */
+    inverse(): ListMultimap<V, K> {
+        let inverse = ListMultimap.empty<V, K>();
+        for (const [key, value] of this) inverse = inverse.put(value, key);
+        return inverse;
+    }
+
+    /**
+     * Checks if the other object is a ListMultimap with the same keys and the same lists of values.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof ListMultimap)) return false;
+        return this.hasSameBuckets(o as ListMultimap<K, V>);
+    }
+}
@@ -0,0 +1,99 @@
+import AbstractMultimap from "../AbstractClasses/AbstractMultimap";
+import TreeBag from "../Bags/TreeBag";
+import { Comparator } from "../Interfaces/Comparator";
+import Map from "../Interfaces/Map";
+import TreeMap from "../Trees/TreeMap";
+import TreeSet from "../Trees/TreeSet";
+
+/**
+ * TreeMultimap is a sorted multimap that stores the values of every key in a TreeSet, in a TreeMap<K, TreeSet<V>>.
+ * The keys are ordered by the key comparator, and the values of a key by the value comparator.
+ * A key holds every value at most once.
+ */
+export default class TreeMultimap<K, V> extends AbstractMultimap<K, V, TreeSet<V>> {
+    private constructor(
+        private readonly compareKeys: Comparator<K>,
+        private readonly compareValues: Comparator<V>,
+        buckets: TreeMap<K, TreeSet<V>>,
+        size: number,
+    ) {
+        super(buckets, size);
+    }
+
+    /**
+     * Creates an empty TreeMultimap.
+     * @param compareKeys - comparator that orders the keys.
+     * @param compareValues - comparator that orders the values of a key.
+     */
+    static empty<K, V>(
+        compareKeys: Comparator<K> = TreeMap.defaultComparator<K>,
+        compareValues: Comparator<V> = TreeMap.defaultComparator<V>,
+    ): TreeMultimap<K, V> {
+        return new TreeMultimap<K, V>(compareKeys, compareValues, new TreeMap<K, TreeSet<V>>(compareKeys), 0);
+    }
+
+    /**
+     * Creates a TreeMultimap with the given key-value pairs, ordered by the default comparators.
+     * @param entries - The pairs to add to the multimap.
+     */
+    static of<K, V>(...entries: [K, V][]): TreeMultimap<K, V> {
+        let multimap = TreeMultimap.empty<K, V>();
+        for (const [key, value] of entries) multimap = multimap.put(key, value);
+        return multimap;
+    }
+
+    protected withBuckets(buckets: Map<K, TreeSet<V>>, size: number): this {
+        return new TreeMultimap<K, V>(this.compareKeys, this.compareValues, buckets as TreeMap<K, TreeSet<V>>, size) as this;
+    }
+
+    protected emptyBucket(): TreeSet<V> {
+        return new TreeSet<V>(this.compareValues);
+    }
+
+    protected addToBucket(bucket: TreeSet<V>, value: V): TreeSet<V> {
+        return bucket.has(value) ? bucket : bucket.add(value);
+    }
+
+    protected removeFromBucket(bucket: TreeSet<V>, value: V): TreeSet<V> {
+        return bucket.has(value) ? bucket.delete(value) : bucket;
+    }
+
+    empty(): this {
+        return this.withBuckets((this._buckets as TreeMap<K, TreeSet<V>>).empty(), 0);
+    }
+
+    getKeyComparator(): Comparator<K> {
+        return this.compareKeys;
+    }
+
+    getValueComparator(): Comparator<V> {
+        return this.compareValues;
+    }
+
+    /**
+     * Returns a TreeBag that counts the values of every key, ordered by the key comparator.
+     */
+    keyCounts(): TreeBag<K> {
+        let bag = TreeBag.empty<K>(this.compareKeys);
+        for (const [key, bucket] of this._buckets) bag = bag.add(key, bucket.size());
+        return bag;
+    }
+
+    /**
+     * Returns a TreeMultimap from every value to the keys it belongs to, where the comparators trade places.
+     */
+    inverse(): TreeMultimap<V, K> {
+        let inverse = TreeMultimap.empty<V, K>(this.compareValues, this.compareKeys);
+        for (const [key, value] of this) inverse = inverse.put(value, key);
+        return inverse;
+    }
+
+    /**
+     * Checks if the other object is a TreeMultimap with the same keys and values.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TreeMultimap)) return false;
+        return this.hasSameBuckets(o as TreeMultimap<K, V>);
+    }
+}
@@ -0,0 +1,842 @@
+import AbstractList from "../AbstractClasses/AbstractList";
+import { Speed } from "../Enums/Speed";
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import List, {ListInput} from "../Interfaces/List";
+import Queue from "../Interfaces/Queue";
+import { Utils } from "../Utils/Utils";
+
+/**
+ * Node of the finger tree. It groups 2 or 3 elements of the level above it, and caches how many
+ * elements of the deque it holds.
+ */
+class FNode<A> {
+    constructor(readonly size: number, readonly items: A[]) {}
+}
+
+// Empty tree
+class Empty {
+    readonly size = 0;
+}
+
+// Tree with a single element
+class Single<A> {
+    constructor(readonly size: number, readonly item: A) {}
+}
+
+/**
+ * Tree with a prefix and a suffix digit of 1 to 4 elements each, and a middle tree of nodes
+ * that group the elements on the next level.
+ */
+class Deep<A> {
+    constructor(
+        readonly size: number,
+        readonly prefix: A[],
+        readonly middle: Tree<FNode<A>>,
+        readonly suffix: A[],
+    ) {}
+}
+
+type Tree<A> = Empty | Single<A> | Deep<A>;
+
+const EMPTY = new Empty();
+
+/*
+ * The functions below take the `depth` of the tree they work on. The elements of a tree at depth 0
+ * are the elements of the deque, and the elements of a tree at depth d > 0 are nodes that hold
+ * elements of depth d - 1.
+ */
+
+/**
+ * Number of elements of the deque in an element of a tree at `depth`.
+ */
+function measure<A>(a: A, depth: number): number {
+    return depth === 0 ? 1 : (a as unknown as FNode<unknown>).size;
+}
+
+function digitSize<A>(digit: A[], depth: number): number {
+    let size = 0;
+    for (const a of digit) size += measure(a, depth);
+    return size;
+}
+
+function makeNode<A>(items: A[], depth: number): FNode<A> {
+    return new FNode(digitSize(items, depth), items);
+}
+
+function deep<A>(prefix: A[], middle: Tree<FNode<A>>, suffix: A[], depth: number): Deep<A> {
+    return new Deep(digitSize(prefix, depth) + middle.size + digitSize(suffix, depth), prefix, middle, suffix);
+}
+
+/**
+ * Adds an element to the front of a tree. A full prefix keeps its first element and
+ * pushes the other four down as a node.
+ */
+function pushFront<A>(tree: Tree<A>, a: A, depth: number): Tree<A> {
+    if (tree.size === 0) return new Single(measure(a, depth), a);
+    if (tree instanceof Single) return deep([a], EMPTY, [tree.item], depth);
+
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    if (prefix.length === 4) {
+        const node = makeNode(prefix.slice(1), depth);
+        return deep([a, prefix[0]], pushFront(middle, node, depth + 1), suffix, depth);
+    }
+    return deep([a, ...prefix], middle, suffix, depth);
+}
+
+/**
+ * Adds an element to the back of a tree. Mirror of `pushFront`.
+ */
+function pushBack<A>(tree: Tree<A>, a: A, depth: number): Tree<A> {
+    if (tree.size === 0) return new Single(measure(a, depth), a);
+    if (tree instanceof Single) return deep([tree.item], EMPTY, [a], depth);
+
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    if (suffix.length === 4) {
+        const node = makeNode(suffix.slice(0, 3), depth);
+        return deep(prefix, pushBack(middle, node, depth + 1), [suffix[3], a], depth);
+    }
+    return deep(prefix, middle, [...suffix, a], depth);
+}
+
+function fromDigit<A>(digit: A[], depth: number): Tree<A> {
+    let tree: Tree<A> = EMPTY;
+    for (const a of digit) tree = pushBack(tree, a, depth);
+    return tree;
+}
+
+/**
+ * Splits a tree into its first element and the rest, or returns null if it is empty.
+ */
+function viewFront<A>(tree: Tree<A>, depth: number): [A, Tree<A>] | null {
+    if (tree.size === 0) return null;
+    if (tree instanceof Single) return [tree.item, EMPTY];
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    return [prefix[0], deepL(prefix.slice(1), middle, suffix, depth)];
+}
+
+/**
+ * Splits a tree into the rest and its last element, or returns null if it is empty.
+ */
+function viewBack<A>(tree: Tree<A>, depth: number): [Tree<A>, A] | null {
+    if (tree.size === 0) return null;
+    if (tree instanceof Single) return [EMPTY, tree.item];
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    return [deepR(prefix, middle, suffix.slice(0, -1), depth), suffix[suffix.length - 1]];
+}
+
+/**
+ * Creates a tree where the prefix may be empty, by borrowing the first node of the middle tree.
+ */
+function deepL<A>(prefix: A[], middle: Tree<FNode<A>>, suffix: A[], depth: number): Tree<A> {
+    if (prefix.length > 0) return deep(prefix, middle, suffix, depth);
+    const view = viewFront(middle, depth + 1);
+    if (view === null) return fromDigit(suffix, depth);
+    return deep(view[0].items, view[1], suffix, depth);
+}
+
+/**
+ * Creates a tree where the suffix may be empty, by borrowing the last node of the middle tree.
+ */
+function deepR<A>(prefix: A[], middle: Tree<FNode<A>>, suffix: A[], depth: number): Tree<A> {
+    if (suffix.length > 0) return deep(prefix, middle, suffix, depth);
+    const view = viewBack(middle, depth + 1);
+    if (view === null) return fromDigit(prefix, depth);
+    return deep(prefix, view[0], view[1].items, depth);
+}
+
+/**
+ * Groups 2 or more elements into nodes of 2 and 3 elements.
+ */
+function toNodes<A>(items: A[], depth: number): FNode<A>[] {
+    const nodes: FNode<A>[] = [];
+    let i = 0;
+    while (items.length - i > 4) {
+        nodes.push(makeNode(items.slice(i, i + 3), depth));
+        i += 3;
+    }
+    if (items.length - i === 4) {
+        nodes.push(makeNode(items.slice(i, i + 2), depth), makeNode(items.slice(i + 2), depth));
+    } else {
+        nodes.push(makeNode(items.slice(i), depth));
+    }
+    return nodes;
+}
+
+/**
+ * Concatenates two trees with the given elements in between.
+ *
+ * The suffix of the left tree, the elements and the prefix of the right tree are grouped into nodes,
+ * which become the elements in between when the middle trees are concatenated on the next level.
+ */
+function concatTrees<A>(left: Tree<A>, items: A[], right: Tree<A>, depth: number): Tree<A> {
+    if (left.size === 0) {
+        let tree = right;
+        for (let i = items.length - 1; i >= 0; i--) tree = pushFront(tree, items[i], depth);
+        return tree;
+    }
+    if (right.size === 0) {
+        let tree = left;
+        for (const a of items) tree = pushBack(tree, a, depth);
+        return tree;
+    }
+    if (left instanceof Single) return pushFront(concatTrees(EMPTY, items, right, depth), left.item, depth);
+    if (right instanceof Single) return pushBack(concatTrees(left, items, EMPTY, depth), right.item, depth);
+
+    const l = left as Deep<A>, r = right as Deep<A>;
+    const nodes = toNodes([...l.suffix, ...items, ...r.prefix], depth);
+    return deep(l.prefix, concatTrees(l.middle, nodes, r.middle, depth + 1), r.suffix, depth);
+}
+
+/**
+ * Splits a digit at the element that holds index `i`.
+ */
+function splitDigit<A>(digit: A[], i: number, depth: number): [A[], A, A[]] {
+    let j = 0;
+    for (; j < digit.length - 1; j++) {
+        const size = measure(digit[j], depth);
+        if (i < size) break;
+        i -= size;
+    }
+    return [digit.slice(0, j), digit[j], digit.slice(j + 1)];
+}
+
+/**
+ * Splits a non-empty tree at the element that holds index `i`.
+ * @returns the tree before the element, the element, and the tree after it.
+ */
+function splitTree<A>(tree: Tree<A>, i: number, depth: number): [Tree<A>, A, Tree<A>] {
+    if (tree instanceof Single) return [EMPTY, tree.item, EMPTY];
+
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    const prefixSize = digitSize(prefix, depth);
+    if (i < prefixSize) {
+        const [l, x, r] = splitDigit(prefix, i, depth);
+        return [fromDigit(l, depth), x, deepL(r, middle, suffix, depth)];
+    }
+    i -= prefixSize;
+    if (i < middle.size) {
+        const [ml, node, mr] = splitTree(middle, i, depth + 1);
+        const [l, x, r] = splitDigit(node.items, i - ml.size, depth);
+        return [deepR(prefix, ml, l, depth), x, deepL(r, mr, suffix, depth)];
+    }
+    const [l, x, r] = splitDigit(suffix, i - middle.size, depth);
+    return [deepR(prefix, middle, l, depth), x, fromDigit(r, depth)];
+}
+
+/**
+ * Splits a tree into the elements before `index` and the elements from `index`, where `0 <= index <= size`.
+ */
+function splitAt<A>(tree: Tree<A>, index: number): [Tree<A>, Tree<A>] {
+    if (index === 0) return [EMPTY, tree];
+    if (index === tree.size) return [tree, EMPTY];
+    const [left, x, right] = splitTree(tree, index, 0);
+    return [left, pushFront(right, x, 0)];
+}
+
+/**
+ * Returns the element of the deque at index `i` of a digit, a node or a tree.
+ */
+function lookupDigit<A>(digit: A[], i: number, depth: number): unknown {
+    for (const a of digit) {
+        const size = measure(a, depth);
+        if (i < size) return lookupIn(a, i, depth);
+        i -= size;
+    }
+}
+
+function lookupIn<A>(a: A, i: number, depth: number): unknown {
+    return depth === 0 ? a : lookupDigit((a as unknown as FNode<unknown>).items, i, depth - 1);
+}
+
+function lookup<A>(tree: Tree<A>, i: number, depth: number): unknown {
+    if (tree instanceof Single) return lookupIn(tree.item, i, depth);
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    const prefixSize = digitSize(prefix, depth);
+    if (i < prefixSize) return lookupDigit(prefix, i, depth);
+    i -= prefixSize;
+    if (i < middle.size) return lookup(middle, i, depth + 1);
+    return lookupDigit(suffix, i - middle.size, depth);
+}
+
+/**
+ * Rebuilds the path to index `i` of a digit, a node or a tree with the new value.
+ */
+function updateDigit<A>(digit: A[], i: number, value: unknown, depth: number): A[] {
+    const copy = [...digit];
+    for (let j = 0; j < copy.length; j++) {
+        const size = measure(copy[j], depth);
+        if (i < size) {
+            copy[j] = updateIn(copy[j], i, value, depth);
+            break;
+        }
+        i -= size;
+    }
+    return copy;
+}
+
+function updateIn<A>(a: A, i: number, value: unknown, depth: number): A {
+    if (depth === 0) return value as A;
+    const node = a as unknown as FNode<unknown>;
+    return new FNode(node.size, updateDigit(node.items, i, value, depth - 1)) as unknown as A;
+}
+
+function update<A>(tree: Tree<A>, i: number, value: unknown, depth: number): Tree<A> {
+    if (tree instanceof Single) return new Single(tree.size, updateIn(tree.item, i, value, depth));
+    const { size, prefix, middle, suffix } = tree as Deep<A>;
+    const prefixSize = digitSize(prefix, depth);
+    if (i < prefixSize) return new Deep(size, updateDigit(prefix, i, value, depth), middle, suffix);
+    i -= prefixSize;
+    if (i < middle.size) return new Deep(size, prefix, update(middle, i, value, depth + 1), suffix);
+    return new Deep(size, prefix, middle, updateDigit(suffix, i - middle.size, value, depth));
+}
+
+/**
+ * Yields the elements of the deque in a node or a tree, from left to right.
+ */
+function* iterateIn<A>(a: A, depth: number): IterableIterator<unknown> {
+    if (depth === 0) {
+        yield a;
+        return;
+    }
+    for (const item of (a as unknown as FNode<unknown>).items) yield* iterateIn(item, depth - 1);
+}
+
+function* iterate<A>(tree: Tree<A>, depth: number): IterableIterator<unknown> {
+    if (tree.size === 0) return;
+    if (tree instanceof Single) {
+        yield* iterateIn(tree.item, depth);
+        return;
+    }
+    const { prefix, middle, suffix } = tree as Deep<A>;
+    for (const a of prefix) yield* iterateIn(a, depth);
+    yield* iterate(middle, depth + 1);
+    for (const a of suffix) yield* iterateIn(a, depth);
+}
+
+/**
+ * **Persistent Deque** - a double-ended queue based on a 2-3 finger tree annotated with sizes.
+ *
+ * The tree keeps up to four elements at each end (the *digits*) directly reachable from the root,
+ * and everything in between in a middle tree of 2-3 nodes, one level deeper per level of the tree.
+ * Adding to or removing from a full or empty digit only touches the next level every few operations,
+ * which makes the operations at both ends amortised O(1).
+ *
+ * Every node caches the number of elements it holds, so the deque can also be indexed, updated and split
+ * in O(log N), and two deques can be concatenated in O(log(min(N, M))).
+ *
+ * **Complexity**:
+ * - `addFirst`, `addLast`, `removeFirst`, `removeLast`, `poll`, `peek`: amortised O(1)
+ * - `get`, `set`, `add(index, item)`, `remove(index)`, `slice`: O(log N)
+ *
+ * @see https://www.staff.city.ac.uk/~ross/papers/FingerTree.html
+ */
+export default class Deque<T> extends AbstractList<T>
+    implements List<T>, Queue<T> {
+
+    private _hashCode: number | null = null;
+
+    private constructor(private readonly _tree: Tree<T>) {
+        super();
+
+        // Proxy to allow for array-like access
+        return new Proxy(this, {
+            get(target, prop) {
+                if (typeof prop === "string") {
+                    const index = Number(prop);
+                    if (!isNaN(index)) return target.get(index); // calls the get() method
+                }
+                return (target as any)[prop]; // default property access
+            }
+        });
+    }
+
+    /**
+     * Creates a new empty deque.
+     */
+    static empty<T>(): Deque<T> {
+        return new Deque<T>(EMPTY);
+    }
+
+    /**
+     * Creates a new deque with the given values, in order from front to back.
+     * @param values - values to be added to the deque
+     */
+    static of<T>(...values: T[]): Deque<T> {
+        return Deque.empty<T>().addAll(values);
+    }
+
+    of(...values: T[]): Deque<T> {
+        return Deque.of(...values);
+    }
+
+    empty(): Deque<T> {
+        return Deque.empty<T>();
+    }
+
+    /**
+     * Create an empty deque of the generic type.
+     */
+    protected createEmpty<E>(): List<E> {
+        return Deque.empty<E>();
+    }
+
+    /**
+     * Iterates over the deque from front to back.
+     * Complexity: O(N)
+     */
+    *[Symbol.iterator](): IterableIterator<T> {
+        yield* iterate(this._tree, 0) as IterableIterator<T>;
+    }
+
+    size(): number { return this._tree.size; }
+    isEmpty(): boolean { return this._tree.size === 0; }
+
+    /**
+     * Get the element at the given index.
+     *
+     * Complexity: O(log(min(i, N - i))), since the search starts at the end of the tree that is closest.
+     *
+     * @param index - index of the element, counted from the front.
+     * @returns the element, or undefined if the index is out of bounds.
+     */
+    get(index: number): T | undefined {
+        if (index < 0 || index >= this._tree.size) return undefined;
+        return lookup(this._tree, index, 0) as T;
+    }
+
+    /**
+     * Replace the element at the given index.
+     *
+     * Complexity: O(log N)
+     *
+     * @param index - index of the element to set. Setting index `size()` is the same as `addLast`.
+     * @param item - new value
+     */
+    set(index: number, item: T): Deque<T> {
+        if (index === this._tree.size) return this.addLast(item);
+        if (index < 0 || index >= this._tree.size) throw new RangeError(`Index ${index} out of bounds`);
+        return new Deque(update(this._tree, index, item, 0));
+    }
+
+    /**
+     * Adds an element to the front of the deque.
+     * Complexity: amortised O(1)
+     */
+    addFirst(e: T): Deque<T> {
+        return new Deque(pushFront(this._tree, e, 0));
+    }
+
+    /**
+     * Adds an element to the back of the deque.
+     * Complexity: amortised O(1)
+     */
+    addLast(e: T): Deque<T> {
+        return new Deque(pushBack(this._tree, e, 0));
+    }
+
+    /**
+     * Adds an item to the back of the deque, or inserts it at the given index.
+     *
+     * Inserting splits the tree at the index, and concatenates the two parts around the item in O(log N).
+     */
+    add(item: T): Deque<T>;
+    add(index: number, item: T): Deque<T>;
+    add(arg1: T | number, arg2?: T): Deque<T> {
+        if (typeof arg1 === "number" && arg2 !== undefined) {
+            if (arg1 < 0 || arg1 > this._tree.size) throw new RangeError(`Index ${arg1} out of bounds`);
+            const [left, right] = splitAt(this._tree, arg1);
+            return new Deque(concatTrees(left, [arg2], right, 0));
+        }
+        return this.addLast(arg1 as T);
+    }
+
+    /**
+     * Adds all the items to the back of the deque, or inserts them at the given index.
+     * @param items - items to be added
+     * @param index - optional index where the first item is inserted.
+     */
+    addAll(items: Iterable<T>, index?: number): Deque<T> {
+        if (index === undefined) {
+            let tree = this._tree;
+            for (const item of items) tree = pushBack(tree, item, 0);
+            return tree === this._tree ? this : new Deque(tree);
+        }
+        if (index < 0 || index > this._tree.size) throw new RangeError(`Index ${index} out of bounds`);
+        const [left, right] = splitAt(this._tree, index);
+        return new Deque(concatTrees(concatTrees(left, [], Deque.empty<T>().addAll(items)._tree, 0), [], right, 0));
+    }
+
+    /**
+     * Removes the first element of the deque.
+     * Complexity: amortised O(1)
+     * @throws {RangeError} if the deque is empty.
+     */
+    removeFirst(): Deque<T> {
+        const view = viewFront(this._tree, 0);
+        if (view === null) throw new RangeError("Can't remove first element from empty deque");
+        return new Deque(view[1]);
+    }
+
+    /**
+     * Removes the last element of the deque.
+     * Complexity: amortised O(1)
+     * @throws {RangeError} if the deque is empty.
+     */
+    removeLast(): Deque<T> {
+        const view = viewBack(this._tree, 0);
+        if (view === null) throw new RangeError("Can't remove last element from empty deque");
+        return new Deque(view[0]);
+    }
+
+    /**
+     * Removes the head of the deque, or the element at the given index.
+     * @throws {RangeError} if the deque is empty, or the index is out of bounds.
+     */
+    remove(): Deque<T>;
+    remove(index: number): Deque<T>;
+    remove(index?: number): Deque<T> {
+        if (index === undefined) return this.removeFirst();
+        if (index < 0 || index >= this._tree.size) throw new RangeError(`Index ${index} is out of range`);
+        const [left, , right] = splitTree(this._tree, index, 0);
+        return new Deque(concatTrees(left, [], right, 0));
+    }
+
+    /**
+     * Removes the first occurrence of the item.
+     */
+    removeItem(item: T): Deque<T> {
+        return super.removeItem(item) as Deque<T>;
+    }
+
+    /**
+     * Removes every element that is equal to one of the given items.
+     */
+    removeAll(c: Iterable<T>): Deque<T> {
+        const toRemove = Array.from(c);
+        return this.removeIf(value => toRemove.some(item => Utils.equals(value, item)));
+    }
+
+    /**
+     * Keeps only the elements that are equal to one of the given items.
+     */
+    retainAll(c: Iterable<T>): Deque<T> {
+        const toRetain = Array.from(c);
+        return this.removeIf(value => !toRetain.some(item => Utils.equals(value, item)));
+    }
+
+    /**
+     * Removes all the elements that pass the filter.
+     */
+    removeIf(filter: (item: T) => boolean): Deque<T> {
+        return super.removeIf(filter) as Deque<T>;
+    }
+
+    /**
+     * Empties the deque and adds all the items to it.
+     */
+    replaceAll(items: Iterable<T>): Deque<T> {
+        return Deque.empty<T>().addAll(items);
+    }
+
+    clear(): Deque<T> {
+        return Deque.empty<T>();
+    }
+
+    /**
+     * Removes the last element of the deque. Same as `removeLast`.
+     */
+    pop(): Deque<T> {
+        return this.removeLast();
+    }
+
+    /**
+     * Removes the first element of the deque. Same as `removeFirst`.
+     */
+    shift(): Deque<T> {
+        return this.removeFirst();
+    }
+
+    /**
+     * Adds the items to the front of the deque, keeping their order.
+     */
+    unshift(...items: T[]): Deque<T> {
+        let tree = this._tree;
+        for (let i = items.length - 1; i >= 0; i--) tree = pushFront(tree, items[i], 0);
+        return new Deque(tree);
+    }
+
+    /**
+     * Returns the elements from the start index (inclusive) to the end index (exclusive).
+     *
+     * Complexity: O(log N), the tree is split at the two indexes.
+     *
+     * @param start - start index. Negative index starts from the end.
+     * @param end - end index. Negative index starts from the end.
+     */
+    slice(start: number = 0, end: number = this._tree.size): Deque<T> {
+        const size = this._tree.size;
+        if (start < 0) start = size + start;
+        if (end < 0) end = size + end;
+        if (start < 0 || end > size || start > end) {
+            throw new RangeError(`slice(${start}, ${end}) out of bounds`);
+        }
+        if (start === 0 && end === size) return this;
+
+        const [prefix] = splitAt(this._tree, end);
+        return new Deque(splitAt(prefix, start)[1]);
+    }
+
+    /**
+     * Returns a new deque with the section removed and the items inserted in its place.
+     * @param start - index to start from. Negative index starts from the end.
+     * @param deleteCount - how many elements to delete. Values exceeding the size of the deque are clamped.
+     * @param items - items to insert
+     */
+    splice(start: number, deleteCount?: number): Deque<T>;
+    splice(start: number, deleteCount: number, ...items: T[]): Deque<T>;
+    splice(start: number, deleteCount?: number, ...items: T[]): Deque<T> {
+        const size = this._tree.size;
+        const actualStart = start < 0 ? size + start : start;
+        if (actualStart < 0 || actualStart > size) {
+            throw new RangeError(`Index (${start}, ${deleteCount}) out of bounds`);
+        }
+        const dc = deleteCount === undefined
+            ? size - actualStart
+            : Math.min(Math.max(deleteCount, 0), size - actualStart);
+
+        const [left, rest] = splitAt(this._tree, actualStart);
+        const [, right] = splitAt(rest, dc);
+        const middle = Deque.empty<T>().addAll(items)._tree;
+        return new Deque(concatTrees(concatTrees(left, [], middle, 0), [], right, 0));
+    }
+
+    /**
+     * Returns the deque in reverse order.
+     */
+    reversed(): Deque<T> {
+        let tree: Tree<T> = EMPTY;
+        for (const value of this) tree = pushFront(tree, value, 0);
+        return new Deque(tree);
+    }
+
+    // Methods from the Queue interface
+
+    /**
+     * Adds an element to the back of the deque. Same as `addLast`.
+     */
+    offer(e: T): Deque<T> {
+        return this.addLast(e);
+    }
+
+    /**
+     * Retrieves and removes the head of the deque.
+     * @returns the head, or undefined if the deque is empty, and the deque without the head.
+     */
+    poll(): {value: T | undefined, newQueue: Deque<T>} {
+        const view = viewFront(this._tree, 0);
+        if (view === null) return {value: undefined, newQueue: this};
+        return {value: view[0], newQueue: new Deque(view[1])};
+    }
+
+    /**
+     * Retrieves, but does not remove, the head of the deque.
+     * @throws {Error} if the deque is empty.
+     */
+    element(): T {
+        if (this.isEmpty()) throw new Error("NoSuchElementException - tried to retrieve the head of an empty deque");
+        return this.get(0) as T;
+    }
+
+    /**
+     * Retrieves, but does not remove, the head of the deque.
+     * @returns the head, or undefined if the deque is empty.
+     */
+    peek(): T | undefined {
+        return this.get(0);
+    }
+
+    // Speed
+    indexingSpeed(): Speed {
+        return Speed.Log;
+    }
+    hasSpeed(): Speed {
+        return Speed.Linear;
+    }
+    addSpeed(): Speed {
+        return Speed.Constant;
+    }
+    removeSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    /**
+     * Checks if the other object is a deque with equal elements in the same order.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof Deque)) return false;
+        if (this.size() !== o.size()) return false;
+
+        const other = (o as Deque<T>)[Symbol.iterator]();
+        for (const value of this) {
+            if (!Utils.equals(value, other.next().value)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes the hash code of the deque. The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            this._hashCode = HashCode.hashCodeArray(this.toArray());
+        }
+        return this._hashCode;
+    }
+
+    // HOFs
+
+    /**
+     * Concat the deque with the given values or collections.
+     *
+     * Deques are joined by concatenating the trees in O(log N), other collections are added element by element.
+     *
+     * @param valuesOrCollections - values or collections to be concatenated
+     */
+    concat<C extends T>(...valuesOrCollections: Array<Iterable<C> | C>): Deque<T | C> {
+        let tree: Tree<T | C> = this._tree;
+        for (const elem of valuesOrCollections) {
+            if (elem instanceof Deque) {
+                tree = concatTrees(tree, [], (elem as Deque<C>)._tree, 0);
+            } else if (elem !== null && (elem as any)[Symbol.iterator]) {
+                for (const value of elem as Iterable<C>) tree = pushBack(tree, value, 0);
+            } else {
+                tree = pushBack(tree, elem as C, 0);
+            }
+        }
+        return new Deque(tree);
+    }
+
+    /**
+     * Merges the deque with the given collections.
+     */
+    merge<C extends T>(...collections: Array<Iterable<C>>): Deque<T | C> {
+        return super.merge(...collections) as Deque<T | C>;
+    }
+
+    /**
+     * Traverses the deque and applies the given function to each element.
+     * @param mapper - function to map the elements
+     * @param thisArg - context for the mapper function
+     */
+    map<M>(mapper: (value: T, key: number, collection: this) => M, thisArg?: any): Deque<M> {
+        return super.map(mapper, thisArg) as Deque<M>;
+    }
+
+    /**
+     * Applies the mapper function to each element and flattens the result.
+     * @param mapper - function to map the elements
+     * @param thisArg - context for the mapper function
+     */
+    flatMap<M>(mapper: (value: T, key: number, iter: this) => Iterable<M>, thisArg?: any): Deque<M> {
+        return super.flatMap(mapper, thisArg) as Deque<M>;
+    }
+
+    /**
+     * Returns a new deque with the elements that pass the filter.
+     * @param predicate - function to filter the elements
+     * @param thisArg - context for the predicate function
+     */
+    filter<F extends T>(predicate: (value: T, index: number, iter: this) => value is F, thisArg?: any): Deque<F>;
+    filter(predicate: (value: T, index: number, iter: this) => unknown, thisArg?: any): this;
+    filter(predicate: any, thisArg?: any): any {
+        return super.filter(predicate, thisArg) as Deque<T>;
+    }
+
+    /**
+     * Partitions the deque into the elements that pass the predicate and the rest.
+     * @param predicate - function to apply to the elements
+     * @param thisArg - context for the predicate function
+     */
+    partition<F extends T, C>(predicate: (this: C, value: T, index: number, iter: this) => value is F, thisArg?: C): [Deque<T>, Deque<F>];
+    partition<C>(predicate: (this: C, value: T, index: number, iter: this) => unknown, thisArg?: C): [this, this];
+    partition<C>(predicate: (this: C, value: T, index: number, iter: this) => unknown, thisArg?: any): any {
+        return super.partition(predicate, thisArg) as [Deque<T>, Deque<T>];
+    }
+
+    /**
+     * Combines elements of this deque with one or more iterables into tuples,
+     * stopping when the shortest input is exhausted.
+     * @param other - other collections to combine with
+     */
+    zip<U>(other: ListInput<U>): Deque<[T, U]>;
+    zip<U, V>(other: ListInput<U>, other2: ListInput<V>): Deque<[T, U, V]>;
+    zip(...collections: Array<ListInput<unknown>>): Deque<unknown>;
+    zip<U, V>(...other: (ListInput<U> | ListInput<unknown> | ListInput<V>)[]): Deque<unknown> {
+        return super.zip(...other) as Deque<unknown>;
+    }
+
+    /**
+     * Combines elements of this deque with one or more iterables into tuples,
+     * continuing until the longest input is exhausted.
+     * @param other - other collections to combine with
+     */
+    zipAll<U>(other: ListInput<U>): Deque<[T, U]>;
+    zipAll<U, V>(other: ListInput<U>, other2: ListInput<V>): Deque<[T, U, V]>;
+    zipAll(...collections: Array<ListInput<unknown>>): Deque<unknown>;
+    zipAll<U, V>(...other: (ListInput<U> | ListInput<unknown> | ListInput<V>)[]): Deque<unknown> {
+        return super.zipAll(...other) as Deque<unknown>;
+    }
+
+    /**
+     * Combines elements of this deque with one or more iterables by applying a zipper function
+     * to the elements.
+     * @param zipper - function that takes one element from each collection to produce a result value.
+     * @param collections - collections to zip with.
+     */
+    zipWith<U, Z>(zipper: (value: T, otherValue: U) => Z, otherCollection: ListInput<U>): Deque<Z>;
+    zipWith<U, V, Z>(
+        zipper: (value: T, otherValue: U, thirdValue: V) => Z,
+        otherCollection: ListInput<U>,
+        thirdCollection: ListInput<V>
+    ): Deque<Z>;
+    zipWith<Z>(zipper: (...values: unknown[]) => Z, ...collections: Array<ListInput<unknown>>): Deque<Z>;
+    zipWith<U, V, Z>(
+        zipper: any,
+        ...otherCollection: (ListInput<U> | ListInput<unknown> | ListInput<V>)[]
+    ): Deque<Z> {
+        return super.zipWith(zipper, ...otherCollection) as Deque<Z>;
+    }
+
+    /**
+     * Returns a new deque with only unique elements.
+     */
+    distinct(): Deque<T> {
+        return super.distinct() as Deque<T>;
+    }
+
+    /**
+     * Sorts the deque using the given comparator function.
+     * @param compare - function to compare the elements
+     */
+    sort(compare?: Comparator<T>): Deque<T> {
+        return super.sort(compare) as Deque<T>;
+    }
+
+    /**
+     * Sorts the deque by the given key selector and comparator function.
+     * @param keySelector - function to select the key to sort by
+     * @param compareFn - function to compare the keys
+     */
+    sortBy<U>(keySelector: (value: T) => U, compareFn?: (a: U, b: U) => number): Deque<T> {
+        return super.sortBy(keySelector, compareFn) as Deque<T>;
+    }
+
+    /**
+     * Returns a string representation of the deque.
+     */
+    toString(): string {
+        return "[" + this.toArray().join(", ") + "]";
+    }
+}
@@ -0,0 +1,729 @@
+import AbstractCollection from "../AbstractClasses/AbstractCollection";
+import HashCode from "../Hashing/HashCode";
+import Collection from "../Interfaces/Collection";
+import { Comparator } from "../Interfaces/Comparator";
+import Queue from "../Interfaces/Queue";
+import HashMap from "../Maps/HashMap";
+import { Utils } from "../Utils/Utils";
+
+/**
+ * Opaque reference to an element of a priority queue, returned by `addWithHandle`.
+ *
+ * The handle stays valid in every queue derived from the one it was created in, until the element
+ * is removed, and it can be used to look up, replace or remove that element.
+ */
+export interface PriorityQueueHandle {
+    readonly id: number;
+}
+
+class Handle implements PriorityQueueHandle {
+    constructor(readonly id: number) {}
+}
+
+/**
+ * An element in the heap. `seq` orders elements that compare as equal, so that they leave the
+ * queue in the order they entered it.
+ */
+class Entry<T> {
+    constructor(readonly item: T, readonly seq: number, readonly handle: Handle | null) {}
+}
+
+// Immutable singly linked list
+class Cons<A> {
+    constructor(readonly head: A, readonly tail: Cons<A> | null) {}
+}
+
+/**
+ * Skew binomial tree of rank r. Besides its root and children, it holds up to r extra elements
+ * that are not smaller than the root.
+ */
+class SkewTree<T> {
+    constructor(
+        readonly rank: number,
+        readonly root: Entry<T>,
+        readonly extras: Cons<Entry<T>> | null,
+        readonly children: Cons<SkewTree<T>> | null,
+    ) {}
+}
+
+// Trees in increasing order of rank, where only the first two trees may have the same rank
+type Heap<T> = Cons<SkewTree<T>> | null;
+
+let nextSeq = 0;
+
+function order<T>(a: Entry<T>, b: Entry<T>, compare: Comparator<T>): number {
+    return compare(a.item, b.item) || a.seq - b.seq;
+}
+
+function link<T>(t1: SkewTree<T>, t2: SkewTree<T>, compare: Comparator<T>): SkewTree<T> {
+    return order(t1.root, t2.root, compare) <= 0
+        ? new SkewTree(t1.rank + 1, t1.root, t1.extras, new Cons(t2, t1.children))
+        : new SkewTree(t1.rank + 1, t2.root, t2.extras, new Cons(t1, t2.children));
+}
+
+function skewLink<T>(e: Entry<T>, t1: SkewTree<T>, t2: SkewTree<T>, compare: Comparator<T>): SkewTree<T> {
+    const t = link(t1, t2, compare);
+    return order(e, t.root, compare) <= 0
+        ? new SkewTree(t.rank, e, new Cons(t.root, t.extras), t.children)
+        : new SkewTree(t.rank, t.root, new Cons(e, t.extras), t.children);
+}
+
+/**
+ * Adds an element in O(1): it either becomes a tree of rank 0, or is skew linked with the first two
+ * trees when they have the same rank.
+ */
+function insert<T>(e: Entry<T>, heap: Heap<T>, compare: Comparator<T>): Heap<T> {
+    if (heap !== null && heap.tail !== null && heap.head.rank === heap.tail.head.rank) {
+        return new Cons(skewLink(e, heap.head, heap.tail.head, compare), heap.tail.tail);
+    }
+    return new Cons(new SkewTree(0, e, null, null), heap);
+}
+
+function insTree<T>(t: SkewTree<T>, heap: Heap<T>, compare: Comparator<T>): Heap<T> {
+    while (heap !== null && heap.head.rank <= t.rank) {
+        t = link(t, heap.head, compare);
+        heap = heap.tail;
+    }
+    return new Cons(t, heap);
+}
+
+function mergeTrees<T>(h1: Heap<T>, h2: Heap<T>, compare: Comparator<T>): Heap<T> {
+    if (h1 === null) return h2;
+    if (h2 === null) return h1;
+    if (h1.head.rank < h2.head.rank) return new Cons(h1.head, mergeTrees(h1.tail, h2, compare));
+    if (h2.head.rank < h1.head.rank) return new Cons(h2.head, mergeTrees(h1, h2.tail, compare));
+    return insTree(link(h1.head, h2.head, compare), mergeTrees(h1.tail, h2.tail, compare), compare);
+}
+
+// Removes the only possible duplicate rank, at the front, so that the heap can be merged
+function normalize<T>(heap: Heap<T>, compare: Comparator<T>): Heap<T> {
+    return heap === null ? null : insTree(heap.head, heap.tail, compare);
+}
+
+function meld<T>(h1: Heap<T>, h2: Heap<T>, compare: Comparator<T>): Heap<T> {
+    return mergeTrees(normalize(h1, compare), normalize(h2, compare), compare);
+}
+
+function findMin<T>(heap: Heap<T>, compare: Comparator<T>): Entry<T> | null {
+    if (heap === null) return null;
+    let min = heap.head.root;
+    for (let c = heap.tail; c !== null; c = c.tail) {
+        if (order(c.head.root, min, compare) < 0) min = c.head.root;
+    }
+    return min;
+}
+
+/**
+ * Removes the tree with the smallest root, melds its children back into the heap and re-inserts its
+ * extra elements.
+ */
+function deleteMin<T>(heap: Heap<T>, compare: Comparator<T>): Heap<T> {
+    if (heap === null) return null;
+    let best = heap;
+    for (let c = heap.tail; c !== null; c = c.tail) {
+        if (order(c.head.root, best.head.root, compare) < 0) best = c;
+    }
+
+    const before: SkewTree<T>[] = [];
+    for (let c: Heap<T> = heap; c !== best; c = c!.tail) before.push(c!.head);
+    let rest = best.tail;
+    for (let i = before.length - 1; i >= 0; i--) rest = new Cons(before[i], rest);
+
+    // children are in decreasing order of rank
+    let children: Heap<T> = null;
+    for (let c = best.head.children; c !== null; c = c.tail) children = new Cons(c.head, children);
+
+    let result = meld(children, rest, compare);
+    for (let c = best.head.extras; c !== null; c = c.tail) result = insert(c.head, result, compare);
+    return result;
+}
+
+function* entriesOf<T>(heap: Heap<T>): IterableIterator<Entry<T>> {
+    const stack: SkewTree<T>[] = [];
+    for (let c = heap; c !== null; c = c.tail) stack.push(c.head);
+    while (stack.length > 0) {
+        const t = stack.pop()!;
+        yield t.root;
+        for (let c = t.extras; c !== null; c = c.tail) yield c.head;
+        for (let c = t.children; c !== null; c = c.tail) stack.push(c.head);
+    }
+}
+
+function isLive<T>(e: Entry<T>, handles: HashMap<number, Entry<T>>): boolean {
+    return e.handle === null || handles.get(e.handle.id) === e;
+}
+
+/**
+ * Elements of the heap that are neither replaced nor removed. An element with a handle can be in the heap
+ * twice after melding two queues that share it, but it is only yielded once.
+ */
+function* liveEntries<T>(heap: Heap<T>, handles: HashMap<number, Entry<T>>): IterableIterator<Entry<T>> {
+    const seen = new Set<Entry<T>>();
+    for (const e of entriesOf(heap)) {
+        if (!isLive(e, handles)) continue;
+        if (e.handle !== null) {
+            if (seen.has(e)) continue;
+            seen.add(e);
+        }
+        yield e;
+    }
+}
+
+/**
+ * Persistent priority queue based on a skew binomial heap, ordered by a comparator.
+ *
+ * The head of the queue is the smallest element according to the comparator, and elements that compare
+ * as equal leave the queue in the order they were added. Iterating the queue also visits the elements in
+ * this order.
+ *
+ * Elements added with `addWithHandle` can later be looked up, replaced (`decreaseKey`, `replace`) or removed
+ * through their handle, in the style of C5's `IPriorityQueue`. Replaced and removed elements are not taken
+ * out of the heap right away, but skipped when they reach the head, and the heap is rebuilt when they
+ * outnumber the elements of the queue.
+ *
+ * **Complexity**:
+ * - `peek`, `element`, `add`, `offer`: O(1)
+ * - `poll`, `remove`: O(log N)
+ * - `meld`: O(log N), plus the handles of the smaller queue
+ * - `addWithHandle`, `getByHandle`, `replace`, `decreaseKey`, `remove(handle)`: O(log N)
+ *
+ * @see https://www.brics.dk/RS/96/37/BRICS-RS-96-37.pdf
+ */
+export default class PriorityQueue<T> extends AbstractCollection<T> implements Queue<T> {
+    private _hashCode: number | null = null;
+
+    private constructor(
+        private readonly _compare: Comparator<T>,
+        private readonly _heap: Heap<T>,
+        private readonly _min: Entry<T> | null,
+        private readonly _size: number,
+        // replaced or removed elements that are still in the heap
+        private readonly _stale: number,
+        private readonly _handles: HashMap<number, Entry<T>>,
+    ) {
+        super();
+    }
+
+    /**
+     * Creates a new empty priority queue.
+     * @param compare - comparator that orders the elements, the smallest element is the head of the queue.
+     */
+    static empty<T>(compare: Comparator<T> = PriorityQueue.defaultComparator<T>): PriorityQueue<T> {
+        return new PriorityQueue<T>(compare, null, null, 0, 0, HashMap.empty<number, Entry<T>>());
+    }
+
+    /**
+     * Creates a new priority queue with the given values.
+     * @param compare - comparator that orders the elements
+     * @param values - values to be added to the queue
+     */
+    static of<T>(compare: Comparator<T>, ...values: T[]): PriorityQueue<T> {
+        return PriorityQueue.empty<T>(compare).addAll(values);
+    }
+
+    /**
+     * Provides a default comparator for the priority queue.
+     * @returns a negative number if a is less than b, a positive number if a is greater than b, and 0 if a is equal to b.
+     */
+    static defaultComparator<T>(a: T, b: T): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    empty(): PriorityQueue<T> {
+        return PriorityQueue.empty<T>(this._compare);
+    }
+
+    /**
+     * Create an empty priority queue of the generic type. The elements of another type cannot be
+     * ordered by this queue's comparator, so the default comparator is used.
+     */
+    protected createEmpty<E>(): PriorityQueue<E> {
+        return PriorityQueue.empty<E>();
+    }
+
+    /**
+     * Returns the comparator that orders the queue.
+     */
+    comparator(): Comparator<T> {
+        return this._compare;
+    }
+
+    /**
+     * Iterates over the queue in priority order, the head first.
+     * Complexity: O(log N) per element
+     */
+    *[Symbol.iterator](): IterableIterator<T> {
+        let queue: PriorityQueue<T> = this;
+        while (queue._min !== null) {
+            yield queue._min.item;
+            queue = queue._removeMin();
+        }
+    }
+
+    size(): number { return this._size; }
+    isEmpty(): boolean { return this._size === 0; }
+
+    /**
+     * Get the element at the given position in priority order.
+     *
+     * Complexity: O(index * log N)
+     *
+     * @returns the element, or undefined if the index is out of bounds.
+     */
+    get(index: number): T | undefined {
+        if (index < 0 || index >= this._size) return undefined;
+        let i = 0;
+        for (const item of this) {
+            if (i++ === index) return item;
+        }
+        return undefined;
+    }
+
+    // Rebuilds the queue when it holds more replaced or removed elements than live ones
+    private _with(heap: Heap<T>, min: Entry<T> | null, size: number, stale: number, handles: HashMap<number, Entry<T>>): PriorityQueue<T> {
+        while (min !== null && !isLive(min, handles)) {
+            heap = deleteMin(heap, this._compare);
+            stale--;
+            min = findMin(heap, this._compare);
+        }
+        if (stale > size && stale >= 32) {
+            let live: Heap<T> = null;
+            for (const e of liveEntries(heap, handles)) live = insert(e, live, this._compare);
+            return new PriorityQueue(this._compare, live, min, size, 0, handles);
+        }
+        return new PriorityQueue(this._compare, heap, min, size, stale, handles);
+    }
+
+    private _insert(e: Entry<T>, handles: HashMap<number, Entry<T>>): PriorityQueue<T> {
+        const min = this._min === null || order(e, this._min, this._compare) < 0 ? e : this._min;
+        return new PriorityQueue(this._compare, insert(e, this._heap, this._compare), min, this._size + 1, this._stale, handles);
+    }
+
+    private _removeMin(): PriorityQueue<T> {
+        const min = this._min!;
+        const handles = min.handle === null ? this._handles : this._handles.delete(min.handle.id);
+        const heap = deleteMin(this._heap, this._compare);
+        return this._with(heap, findMin(heap, this._compare), this._size - 1, this._stale, handles);
+    }
+
+    private _entry(handle: PriorityQueueHandle): Entry<T> {
+        const entry = this._handles.get(handle.id);
+        if (entry === undefined) throw new Error("The handle does not refer to an element of the priority queue");
+        return entry;
+    }
+
+    // Rebuilds the queue from the live elements that pass the filter, keeping their handles
+    private _retain(keep: (item: T) => boolean): PriorityQueue<T> {
+        let heap: Heap<T> = null;
+        let size = 0;
+        let handles = this._handles;
+        for (const e of liveEntries(this._heap, this._handles)) {
+            if (keep(e.item)) {
+                heap = insert(e, heap, this._compare);
+                size++;
+            } else if (e.handle !== null) {
+                handles = handles.delete(e.handle.id);
+            }
+        }
+        if (size === this._size) return this;
+        return new PriorityQueue(this._compare, heap, findMin(heap, this._compare), size, 0, handles);
+    }
+
+    // Inserts the live elements of a queue with another comparator, keeping the handles that this queue lacks
+    private _insertAll(other: PriorityQueue<T>): PriorityQueue<T> {
+        let heap = this._heap;
+        let min = this._min;
+        let size = this._size;
+        let handles = this._handles;
+        for (const e of liveEntries(other._heap, other._handles)) {
+            if (e.handle !== null) {
+                if (handles.has(e.handle.id)) continue;
+                handles = handles.set(e.handle.id, e);
+            }
+            heap = insert(e, heap, this._compare);
+            if (min === null || order(e, min, this._compare) < 0) min = e;
+            size++;
+        }
+        return new PriorityQueue(this._compare, heap, min, size, this._stale, handles);
+    }
+
+    /**
+     * Adds an element to the queue.
+     * Complexity: O(1)
+     */
+    add(e: T): PriorityQueue<T> {
+        return this._insert(new Entry(e, nextSeq++, null), this._handles);
+    }
+
+    /**
+     * Adds an element to the queue, and returns a handle that refers to it.
+     * @returns the handle, and the queue with the element added.
+     */
+    addWithHandle(e: T): {handle: PriorityQueueHandle, newQueue: PriorityQueue<T>} {
+        const seq = nextSeq++;
+        const entry = new Entry(e, seq, new Handle(seq));
+        return {handle: entry.handle!, newQueue: this._insert(entry, this._handles.set(seq, entry))};
+    }
+
+    addAll(c: Iterable<T>): PriorityQueue<T> {
+        let heap = this._heap;
+        let min = this._min;
+        let size = this._size;
+        for (const item of c) {
+            const e = new Entry(item, nextSeq++, null);
+            heap = insert(e, heap, this._compare);
+            if (min === null || order(e, min, this._compare) < 0) min = e;
+            size++;
+        }
+        if (size === this._size) return this;
+        return new PriorityQueue(this._compare, heap, min, size, this._stale, this._handles);
+    }
+
+    /**
+     * Melds two priority queues into a queue with the elements of both, ordered by this queue's comparator.
+     *
+     * If both queues hold an element with the same handle, e.g. because they were derived from the same queue,
+     * the melded queue only keeps the element from this queue.
+     *
+     * The trees of the other queue are only melded in when both queues have the same comparator. Otherwise the
+     * elements of the other queue are added one by one with this queue's comparator, and keep their handles.
+     *
+     * Complexity: O(log N), plus O(H log H) for the H handles of the queue with fewer handles. With different
+     * comparators, O(M log N) for the M elements of the other queue.
+     */
+    meld(other: PriorityQueue<T>): PriorityQueue<T> {
+        if (other.isEmpty()) return this;
+        if (this._compare !== other._compare) return this._insertAll(other);
+        if (this.isEmpty()) return other;
+
+        const [small, large] = this._handles.size() < other._handles.size()
+            ? [this._handles, other._handles]
+            : [other._handles, this._handles];
+        let handles = large;
+        let size = this._size + other._size;
+        let stale = this._stale + other._stale;
+        for (const [id, entry] of small) {
+            if (handles.has(id)) {
+                // one of the two elements becomes stale
+                size--;
+                stale++;
+                if (large === this._handles) continue;
+            }
+            handles = handles.set(id, entry);
+        }
+
+        const heap = meld(this._heap, other._heap, this._compare);
+        return this._with(heap, findMin(heap, this._compare), size, stale, handles);
+    }
+
+    /**
+     * Retrieves the element the handle refers to.
+     * @returns the element, or undefined if the handle does not refer to an element of this queue.
+     */
+    getByHandle(handle: PriorityQueueHandle): T | undefined {
+        return this._handles.get(handle.id)?.item;
+    }
+
+    /**
+     * Checks if the handle refers to an element of this queue.
+     */
+    hasHandle(handle: PriorityQueueHandle): boolean {
+        return this._handles.has(handle.id);
+    }
+
+    /**
+     * Replaces the element the handle refers to. The handle refers to the new element afterwards.
+     *
+     * @throws {Error} if the handle does not refer to an element of this queue.
+     */
+    replace(handle: PriorityQueueHandle, item: T): PriorityQueue<T> {
+        const old = this._entry(handle);
+        const entry = new Entry(item, nextSeq++, handle as Handle);
+        const heap = insert(entry, this._heap, this._compare);
+        const min = old === this._min
+            ? findMin(heap, this._compare)
+            : order(entry, this._min!, this._compare) < 0 ? entry : this._min;
+        return this._with(heap, min, this._size, this._stale + 1, this._handles.set(handle.id, entry));
+    }
+
+    /**
+     * Replaces the element the handle refers to with one of higher priority.
+     *
+     * @throws {Error} if the handle does not refer to an element of this queue.
+     * @throws {RangeError} if the new element compares greater than the current one.
+     */
+    decreaseKey(handle: PriorityQueueHandle, item: T): PriorityQueue<T> {
+        if (this._compare(item, this._entry(handle).item) > 0) {
+            throw new RangeError("decreaseKey() cannot lower the priority of an element");
+        }
+        return this.replace(handle, item);
+    }
+
+    /**
+     * Removes the head of the queue, or the element the handle refers to.
+     *
+     * Complexity: O(log N)
+     *
+     * @throws {RangeError} if the queue is empty.
+     * @throws {Error} if the handle does not refer to an element of this queue.
+     */
+    remove(handle?: PriorityQueueHandle): PriorityQueue<T> {
+        if (handle === undefined) {
+            if (this._min === null) throw new RangeError("Cannot remove the head of an empty priority queue");
+            return this._removeMin();
+        }
+        const entry = this._entry(handle);
+        if (entry === this._min) return this._removeMin();
+        return this._with(this._heap, this._min, this._size - 1, this._stale + 1, this._handles.delete(handle.id));
+    }
+
+    /**
+     * Removes one occurrence of the item, comparing with `Utils.equals`.
+     * Complexity: O(N)
+     */
+    removeItem(item: T): PriorityQueue<T> {
+        let found = false;
+        return this._retain(value => found || !(found = Utils.equals(value, item)));
+    }
+
+    removeAll(c: Iterable<T>): PriorityQueue<T> {
+        const items = Array.from(c);
+        return this._retain(value => !items.some(item => Utils.equals(value, item)));
+    }
+
+    retainAll(c: Iterable<T>): PriorityQueue<T> {
+        const items = Array.from(c);
+        return this._retain(value => items.some(item => Utils.equals(value, item)));
+    }
+
+    removeIf(filter: (item: T) => boolean): PriorityQueue<T> {
+        return this._retain(value => !filter(value));
+    }
+
+    clear(): PriorityQueue<T> {
+        return this.empty();
+    }
+
+    // Methods from the Queue interface
+
+    /**
+     * Adds an element to the queue. Same as `add`.
+     */
+    offer(e: T): PriorityQueue<T> {
+        return this.add(e);
+    }
+
+    /**
+     * Retrieves and removes the head of the queue.
+     * @returns the head, or undefined if the queue is empty, and the queue without the head.
+     */
+    poll(): {value: T | undefined, newQueue: PriorityQueue<T>} {
+        if (this._min === null) return {value: undefined, newQueue: this};
+        return {value: this._min.item, newQueue: this._removeMin()};
+    }
+
+    /**
+     * Retrieves, but does not remove, the head of the queue.
+     * @throws {Error} if the queue is empty.
+     */
+    element(): T {
+        if (this._min === null) throw new Error("NoSuchElementException - tried to retrieve the head of an empty priority queue");
+        return this._min.item;
+    }
+
+    /**
+     * Retrieves, but does not remove, the head of the queue.
+     * @returns the head, or undefined if the queue is empty.
+     */
+    peek(): T | undefined {
+        return this._min?.item;
+    }
+
+    /**
+     * Checks if the other object is a priority queue with equal elements in the same priority order.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof PriorityQueue)) return false;
+        if (this.size() !== o.size()) return false;
+
+        const other = (o as PriorityQueue<T>)[Symbol.iterator]();
+        for (const value of this) {
+            if (!Utils.equals(value, other.next().value)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes the hash code of the queue. The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            this._hashCode = HashCode.hashCodeArray(this.toArray());
+        }
+        return this._hashCode;
+    }
+
+    // HOFs
+
+    /**
+     * Concat the queue with the given values or collections.
+     * Priority queues are melded, other collections are added element by element.
+     */
+    concat<C extends T>(...valuesOrCollections: Array<Iterable<C> | C>): PriorityQueue<T | C> {
+        let queue = this as PriorityQueue<T | C>;
+        for (const elem of valuesOrCollections) {
+            if (elem instanceof PriorityQueue) {
+                queue = queue.meld(elem as PriorityQueue<T | C>);
+            } else if (elem !== null && (elem as any)[Symbol.iterator]) {
+                queue = queue.addAll(elem as Iterable<C>);
+            } else {
+                queue = queue.add(elem as C);
+            }
+        }
+        return queue;
+    }
+
+    /**
+     * Merges the queue with the given collections.
+     */
+    merge<C extends T>(...collections: Array<Iterable<C>>): PriorityQueue<T | C> {
+        return this.concat(...collections);
+    }
+
+    /**
+     * Maps the elements of the queue into a new priority queue.
+     * @param mapper - function to map the elements
+     * @param thisArg - context for the mapper function
+     * @param compare - comparator for the new queue. If not provided, the default comparator is used.
+     */
+    map<M>(mapper: (value: T, key: number, collection: this) => M, thisArg?: any, compare?: Comparator<M>): PriorityQueue<M> {
+        return this.flatMap((value, key, collection) => [mapper.call(thisArg, value, key, collection)], undefined, compare);
+    }
+
+    /**
+     * Applies the mapper function to each element and flattens the result into a new priority queue.
+     * @param mapper - function to map the elements
+     * @param thisArg - context for the mapper function
+     * @param compare - comparator for the new queue. If not provided, the default comparator is used.
+     */
+    flatMap<M>(mapper: (value: T, key: number, iter: this) => Iterable<M>, thisArg?: any, compare?: Comparator<M>): PriorityQueue<M> {
+        let res = PriorityQueue.empty<M>(compare);
+        let i = 0;
+        for (const value of this) {
+            res = res.addAll(mapper.call(thisArg, value, i++, this));
+        }
+        return res;
+    }
+
+    /**
+     * Returns a new queue with the elements that pass the filter. Elements that are kept keep their handles.
+     * @param predicate - function to filter the elements
+     * @param thisArg - context for the predicate function
+     */
+    filter<F extends T>(predicate: (value: T, index: number, iter: this) => value is F, thisArg?: any): PriorityQueue<F>;
+    filter(predicate: (value: T, index: number, iter: this) => unknown, thisArg?: any): this;
+    filter(predicate: any, thisArg?: any): any {
+        let i = 0;
+        return this._retain(value => predicate.call(thisArg, value, i++, this));
+    }
+
+    /**
+     * Partitions the queue into the elements that pass the predicate and the rest.
+     * @param predicate - function to apply to the elements
+     * @param thisArg - context for the predicate function
+     */
+    partition<F extends T, C>(predicate: (this: C, value: T, index: number, iter: this) => value is F, thisArg?: C): [PriorityQueue<T>, PriorityQueue<F>];
+    partition<C>(predicate: (this: C, value: T, index: number, iter: this) => unknown, thisArg?: C): [this, this];
+    partition<C>(predicate: (this: C, value: T, index: number, iter: this) => unknown, thisArg?: any): any {
+        return super.partition(predicate, thisArg) as [PriorityQueue<T>, PriorityQueue<T>];
+    }
+
+    /**
+     * Combines the elements of this queue, in priority order, with the elements of other collections into tuples,
+     * stopping when the shortest input is exhausted.
+     */
+    zip<U>(other: Collection<U>): PriorityQueue<[T, U]>;
+    zip<U, V>(other: Collection<U>, other2: Collection<V>): PriorityQueue<[T, U, V]>;
+    zip(...collections: Array<Collection<unknown>>): PriorityQueue<unknown>;
+    zip(...collections: Array<Collection<any>>): PriorityQueue<any> {
+        return this.zipWith<unknown>((...values: unknown[]) => values, ...collections);
+    }
+
+    /**
+     * Combines the elements of this queue, in priority order, with the elements of other collections into tuples,
+     * continuing until the longest input is exhausted.
+     */
+    zipAll<U>(other: Collection<U>): PriorityQueue<[T, U]>;
+    zipAll<U, V>(other: Collection<U>, other2: Collection<V>): PriorityQueue<[T, U, V]>;
+    zipAll(...collections: Array<Collection<unknown>>): PriorityQueue<unknown>;
+    zipAll(...collections: Array<Collection<any>>): PriorityQueue<any> {
+        const iterators = [this, ...collections].map(c => c[Symbol.iterator]() as Iterator<unknown>);
+        const tuples: unknown[][] = [];
+        for (;;) {
+            const results = iterators.map(it => it.next());
+            if (results.every(r => r.done)) break;
+            tuples.push(results.map(r => r.done ? undefined : r.value));
+        }
+        return this.createEmpty<unknown>().addAll(tuples);
+    }
+
+    /**
+     * Combines the elements of this queue, in priority order, with the elements of other collections by applying
+     * a zipper function to them.
+     */
+    zipWith<U, Z>(zipper: (value: T, otherValue: U) => Z, otherCollection: Collection<U>): PriorityQueue<Z>;
+    zipWith<U, V, Z>(
+        zipper: (value: T, otherValue: U, thirdValue: V) => Z,
+        otherCollection: Collection<U>,
+        thirdCollection: Collection<V>
+    ): PriorityQueue<Z>;
+    zipWith<Z>(zipper: (...values: Array<unknown>) => Z, ...collections: Array<Collection<unknown>>): PriorityQueue<Z>;
+    zipWith<Z>(zipper: (...values: any[]) => Z, ...collections: Array<Collection<any>>): PriorityQueue<Z> {
+        const iterators = [this, ...collections].map(c => c[Symbol.iterator]() as Iterator<unknown>);
+        const zipped: Z[] = [];
+        for (;;) {
+            const results = iterators.map(it => it.next());
+            if (results.some(r => r.done)) break;
+            zipped.push(zipper(...results.map(r => r.value)));
+        }
+        return this.createEmpty<Z>().addAll(zipped);
+    }
+
+    /**
+     * Returns a new queue with only unique elements.
+     */
+    distinct(): PriorityQueue<T> {
+        const seen: T[] = [];
+        return this._retain(value => {
+            if (seen.some(item => Utils.equals(item, value))) return false;
+            seen.push(value);
+            return true;
+        });
+    }
+
+    /**
+     * Returns a new priority queue with the elements ordered by the given comparator.
+     * @param compare - comparator for the new queue. If not provided, the default comparator is used.
+     */
+    sort(compare?: Comparator<T>): PriorityQueue<T> {
+        return PriorityQueue.empty<T>(compare).addAll(this);
+    }
+
+    /**
+     * Returns a new priority queue with the elements ordered by the selected key.
+     * @param keySelector - function to select the key to order by
+     * @param compareFn - function to compare the keys
+     */
+    sortBy<U>(keySelector: (value: T) => U, compareFn?: (a: U, b: U) => number): PriorityQueue<T> {
+        const compareKeys = compareFn ?? PriorityQueue.defaultComparator<U>;
+        return this.sort((a, b) => compareKeys(keySelector(a), keySelector(b)));
+    }
+
+    /**
+     * Returns a string representation of the queue, in priority order.
+     */
+    toString(): string {
+        return "[" + this.toArray().join(", ") + "]";
+    }
+}
@@ -0,0 +1,46 @@
+import { Comparator } from "../Interfaces/Comparator";
+
+/**
+ * The kinds of cuts, in the order that cuts at the same value are sorted.
+ */
+export enum CutKind {
+    BelowAll,
+    Below,
+    Above,
+    AboveAll,
+}
+
+/**
+ * A cut is a point between the values of a type, which ranges use as their endpoints.
+ * `Below` a value is just before the value, and `Above` a value is just after it, so the closed range
+ * [a, b] goes from below a to above b, and the open range (a, b) from above a to below b.
+ * `BelowAll` and `AboveAll` are the ends of unbounded ranges.
+ */
+export type Cut<T> =
+    | { readonly kind: CutKind.BelowAll }
+    | { readonly kind: CutKind.Below | CutKind.Above; readonly value: T }
+    | { readonly kind: CutKind.AboveAll };
+
+export const BELOW_ALL: Cut<never> = { kind: CutKind.BelowAll };
+
+export const ABOVE_ALL: Cut<never> = { kind: CutKind.AboveAll };
+
+export function below<T>(value: T): Cut<T> {
+    return { kind: CutKind.Below, value };
+}
+
+export function above<T>(value: T): Cut<T> {
+    return { kind: CutKind.Above, value };
+}
+
+/**
+ * Compares two cuts by their values, and then by their kinds.
+ */
+export function compareCuts<T>(compare: Comparator<T>, a: Cut<T>, b: Cut<T>): number {
+    // the unbounded cuts come before or after every other cut
+    if (a.kind === CutKind.BelowAll || a.kind === CutKind.AboveAll || b.kind === CutKind.BelowAll || b.kind === CutKind.AboveAll) {
+        return a.kind - b.kind;
+    }
+    const c = compare(a.value, b.value);
+    return c !== 0 ? c : a.kind - b.kind;
+}
@@ -0,0 +1,233 @@
+import { BoundType } from "../Enums/BoundType";
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import EqualityComparer from "../Interfaces/EqualityComparer";
+import { ABOVE_ALL, above, BELOW_ALL, below, compareCuts, Cut, CutKind } from "./Cut";
+
+/**
+ * A range is a convex set of values of type T, between a lower and an upper bound, under a comparator.
+ * Each bound is either open or closed, or the range is unbounded on that side.
+ *
+ * The ranges are created with the static factories, like `Range.closedOpen(1, 5)` for [1, 5) or
+ * `Range.atLeast(3)` for [3, +∞). A range is empty if its bounds are at the same value and one of
+ * them is open, like [1, 1).
+ */
+export default class Range<T> implements EqualityComparer<T> {
+    private constructor(
+        readonly lowerCut: Cut<T>,
+        readonly upperCut: Cut<T>,
+        private readonly compare: Comparator<T>,
+    ) {}
+
+    /**
+     * Creates the range between two cuts.
+     * @throws {RangeError} if the lower cut is after the upper cut.
+     */
+    static fromCuts<T>(lower: Cut<T>, upper: Cut<T>, compare: Comparator<T> = Range.defaultComparator<T>): Range<T> {
+        if (compareCuts(compare, lower, upper) > 0) {
+            throw new RangeError(`Invalid range: the lower bound is after the upper bound`);
+        }
+        return new Range<T>(lower, upper, compare);
+    }
+
+    /**
+     * Creates the range between two values with the given bound types.
+     * @throws {RangeError} if lower is greater than upper, or they are equal and both bounds are open.
+     */
+    static range<T>(lower: T, lowerType: BoundType, upper: T, upperType: BoundType, compare?: Comparator<T>): Range<T> {
+        const lowerCut = lowerType === BoundType.Closed ? below(lower) : above(lower);
+        const upperCut = upperType === BoundType.Closed ? above(upper) : below(upper);
+        return Range.fromCuts(lowerCut, upperCut, compare);
+    }
+
+    /**
+     * Creates the range [lower, upper].
+     */
+    static closed<T>(lower: T, upper: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(below(lower), above(upper), compare);
+    }
+
+    /**
+     * Creates the range (lower, upper).
+     */
+    static open<T>(lower: T, upper: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(above(lower), below(upper), compare);
+    }
+
+    /**
+     * Creates the range [lower, upper).
+     */
+    static closedOpen<T>(lower: T, upper: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(below(lower), below(upper), compare);
+    }
+
+    /**
+     * Creates the range (lower, upper].
+     */
+    static openClosed<T>(lower: T, upper: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(above(lower), above(upper), compare);
+    }
+
+    /**
+     * Creates the range [value, value] that only contains the value.
+     */
+    static singleton<T>(value: T, compare?: Comparator<T>): Range<T> {
+        return Range.closed(value, value, compare);
+    }
+
+    /**
+     * Creates the range [lower, +∞).
+     */
+    static atLeast<T>(lower: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(below(lower), ABOVE_ALL, compare);
+    }
+
+    /**
+     * Creates the range (lower, +∞).
+     */
+    static greaterThan<T>(lower: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(above(lower), ABOVE_ALL, compare);
+    }
+
+    /**
+     * Creates the range (-∞, upper].
+     */
+    static atMost<T>(upper: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(BELOW_ALL, above(upper), compare);
+    }
+
+    /**
+     * Creates the range (-∞, upper).
+     */
+    static lessThan<T>(upper: T, compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts(BELOW_ALL, below(upper), compare);
+    }
+
+    /**
+     * Creates the range (-∞, +∞) that contains every value.
+     */
+    static all<T>(compare?: Comparator<T>): Range<T> {
+        return Range.fromCuts<T>(BELOW_ALL, ABOVE_ALL, compare);
+    }
+
+    /**
+     * Provides a default comparator for ranges.
+     * @returns a negative number if a is less than b, a positive number if a is greater than b, and 0 if a is equal to b.
+     */
+    static defaultComparator<T>(a: T, b: T): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    getComparator(): Comparator<T> {
+        return this.compare;
+    }
+
+    private compareCuts(a: Cut<T>, b: Cut<T>): number {
+        return compareCuts(this.compare, a, b);
+    }
+
+    hasLowerBound(): boolean {
+        return this.lowerCut.kind !== CutKind.BelowAll;
+    }
+
+    hasUpperBound(): boolean {
+        return this.upperCut.kind !== CutKind.AboveAll;
+    }
+
+    /**
+     * Returns the value of the lower bound, or undefined if the range has no lower bound.
+     */
+    lowerEndpoint(): T | undefined {
+        return "value" in this.lowerCut ? this.lowerCut.value : undefined;
+    }
+
+    /**
+     * Returns the value of the upper bound, or undefined if the range has no upper bound.
+     */
+    upperEndpoint(): T | undefined {
+        return "value" in this.upperCut ? this.upperCut.value : undefined;
+    }
+
+    /**
+     * Returns whether the lower bound is open or closed, or undefined if the range has no lower bound.
+     */
+    lowerBoundType(): BoundType | undefined {
+        if (!this.hasLowerBound()) return undefined;
+        return this.lowerCut.kind === CutKind.Below ? BoundType.Closed : BoundType.Open;
+    }
+
+    /**
+     * Returns whether the upper bound is open or closed, or undefined if the range has no upper bound.
+     */
+    upperBoundType(): BoundType | undefined {
+        if (!this.hasUpperBound()) return undefined;
+        return this.upperCut.kind === CutKind.Above ? BoundType.Closed : BoundType.Open;
+    }
+
+    isEmpty(): boolean {
+        return this.compareCuts(this.lowerCut, this.upperCut) === 0;
+    }
+
+    contains(value: T): boolean {
+        const cut = below(value);
+        return this.compareCuts(this.lowerCut, cut) <= 0 && this.compareCuts(cut, this.upperCut) < 0;
+    }
+
+    /**
+     * Checks if every value of the other range is in this range.
+     */
+    encloses(other: Range<T>): boolean {
+        return this.compareCuts(this.lowerCut, other.lowerCut) <= 0 && this.compareCuts(other.upperCut, this.upperCut) <= 0;
+    }
+
+    /**
+     * Checks if the union of the ranges is a range, which is the case if they overlap or touch, like [1, 3) and [3, 5].
+     */
+    isConnected(other: Range<T>): boolean {
+        return this.compareCuts(this.lowerCut, other.upperCut) <= 0 && this.compareCuts(other.lowerCut, this.upperCut) <= 0;
+    }
+
+    /**
+     * Returns the largest range that both ranges enclose, which is empty if they only touch.
+     * @throws {RangeError} if the ranges are not connected.
+     */
+    intersection(other: Range<T>): Range<T> {
+        if (!this.isConnected(other)) throw new RangeError(`Ranges ${this} and ${other} are not connected`);
+        const lower = this.compareCuts(this.lowerCut, other.lowerCut) >= 0 ? this.lowerCut : other.lowerCut;
+        const upper = this.compareCuts(this.upperCut, other.upperCut) <= 0 ? this.upperCut : other.upperCut;
+        return new Range<T>(lower, upper, this.compare);
+    }
+
+    /**
+     * Returns the smallest range that encloses both ranges.
+     */
+    span(other: Range<T>): Range<T> {
+        const lower = this.compareCuts(this.lowerCut, other.lowerCut) <= 0 ? this.lowerCut : other.lowerCut;
+        const upper = this.compareCuts(this.upperCut, other.upperCut) >= 0 ? this.upperCut : other.upperCut;
+        return new Range<T>(lower, upper, this.compare);
+    }
+
+    /**
+     * Checks if the other object is a range with the same bounds.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof Range)) return false;
+        const other = o as Range<T>;
+        return this.compareCuts(this.lowerCut, other.lowerCut) === 0 && this.compareCuts(this.upperCut, other.upperCut) === 0;
+    }
+
+    hashCode(): number {
+        const hashCut = (cut: Cut<T>) => "value" in cut ? HashCode.hashCode(cut.value) * 4 + cut.kind : cut.kind;
+        return (hashCut(this.lowerCut) * 31 + hashCut(this.upperCut)) | 0;
+    }
+
+    /**
+     * Returns the range in interval notation, like [1, 5) or (-∞, 3].
+     */
+    toString(): string {
+        const lower = this.hasLowerBound() ? `${this.lowerBoundType() === BoundType.Closed ? "[" : "("}${this.lowerEndpoint()}` : "(-∞";
+        const upper = this.hasUpperBound() ? `${this.upperEndpoint()}${this.upperBoundType() === BoundType.Closed ? "]" : ")"}` : "+∞)";
+        return `${lower}, ${upper}`;
+    }
+}
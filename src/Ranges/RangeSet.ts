@@ -0,0 +1,275 @@
+import { Comparator } from "../Interfaces/Comparator";
+import EqualityComparer from "../Interfaces/EqualityComparer";
+import TreeSet from "../Trees/TreeSet";
+import { ABOVE_ALL, below, BELOW_ALL, compareCuts, Cut } from "./Cut";
+import Range from "./Range";
+import Seq from "../Seqs/Seq";
+
+/**
+ * RangeSet is a persistent set of values that is stored as disjoint, non-empty ranges.
+ *
+ * Ranges that overlap or touch are coalesced when they are added, so adding [1, 5) and then [5, 9)
+ * stores the single range [1, 9), while (1, 5) and (5, 9) stay apart because 5 is in neither of them.
+ *
+ * The ranges are kept in a TreeSet ordered by their lower bounds, so finding the range that contains
+ * a value is O(log n), and adding or removing a range is O(log n) for every stored range that it
+ * touches.
+ *
+ * @example
+ * const free = RangeSet.of<number>(RangeSet.defaultComparator, Range.closedOpen(9, 12), Range.closedOpen(12, 17));
+ * free.asRanges().map(String); // ["[9, 17)"]
+ * free.remove(Range.closedOpen(13, 14)).contains(13.5); // false
+ */
+export default class RangeSet<T> implements Iterable<Range<T>>, EqualityComparer<Range<T>> {
+    private constructor(
+        private readonly compare: Comparator<T>,
+        private readonly _ranges: TreeSet<Range<T>>,
+    ) {}
+
+    /**
+     * Creates an empty RangeSet.
+     * @param compare - comparator that orders the values.
+     */
+    static empty<T>(compare: Comparator<T> = RangeSet.defaultComparator<T>): RangeSet<T> {
+        const byLowerBound = (a: Range<T>, b: Range<T>) => compareCuts(compare, a.lowerCut, b.lowerCut);
+        return new RangeSet<T>(compare, new TreeSet<Range<T>>(byLowerBound));
+    }
+
+    /**
+     * Creates a RangeSet that holds the union of the ranges.
+     * @param compare - comparator that orders the values.
+     */
+    static of<T>(compare: Comparator<T>, ...ranges: Array<Range<T>>): RangeSet<T> {
+        return RangeSet.empty<T>(compare).addAll(ranges);
+    }
+
+    /**
+     * Provides a default comparator for the RangeSet.
+     * @returns a negative number if a is less than b, a positive number if a is greater than b, and 0 if a is equal to b.
+     */
+    static defaultComparator<T>(a: T, b: T): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    private withRanges(ranges: TreeSet<Range<T>>): RangeSet<T> {
+        return new RangeSet<T>(this.compare, ranges);
+    }
+
+    private compareCuts(a: Cut<T>, b: Cut<T>): number {
+        return compareCuts(this.compare, a, b);
+    }
+
+    private between(lower: Cut<T>, upper: Cut<T>): Range<T> {
+        return Range.fromCuts(lower, upper, this.compare);
+    }
+
+    /**
+     * Returns the stored range with the largest lower bound that is at or before the cut.
+     */
+    private floor(cut: Cut<T>): Range<T> | undefined {
+        return this._ranges.weakPredecessor(this.between(cut, cut));
+    }
+
+    /**
+     * Returns the stored ranges whose lower bound is at or after the cut, in order.
+     */
+    private rangesFrom(ranges: TreeSet<Range<T>>, cut: Cut<T>): TreeSet<Range<T>> {
+        return ranges.rangeFrom(this.between(cut, cut));
+    }
+
+    getComparator(): Comparator<T> {
+        return this.compare;
+    }
+
+    /**
+     * Iterates over the disjoint ranges in ascending order.
+     */
+    [Symbol.iterator](): Iterator<Range<T>> {
+        return this._ranges[Symbol.iterator]();
+    }
+
+    toSeq(): Seq<Range<T>> {
+        return Seq.from(this);
+    }
+
+    /**
+     * Returns the number of disjoint ranges.
+     */
+    size(): number {
+        return this._ranges.size();
+    }
+
+    isEmpty(): boolean {
+        return this._ranges.isEmpty();
+    }
+
+    asRanges(): Range<T>[] {
+        return this._ranges.toArray();
+    }
+
+    /**
+     * Adds the values of the range, coalescing it with the stored ranges that it overlaps or touches.
+     */
+    add(range: Range<T>): RangeSet<T> {
+        if (range.isEmpty()) return this;
+        let lower = range.lowerCut;
+        let upper = range.upperCut;
+        let ranges = this._ranges;
+
+        const before = this.floor(lower);
+        if (before !== undefined && this.compareCuts(before.upperCut, lower) >= 0) {
+            if (this.compareCuts(before.upperCut, upper) >= 0) return this;
+            lower = before.lowerCut;
+            ranges = ranges.delete(before);
+        }
+        for (const next of this.rangesFrom(ranges, range.lowerCut)) {
+            if (this.compareCuts(next.lowerCut, upper) > 0) break;
+            if (this.compareCuts(next.upperCut, upper) > 0) upper = next.upperCut;
+            ranges = ranges.delete(next);
+        }
+        return this.withRanges(ranges.add(this.between(lower, upper)));
+    }
+
+    addAll(ranges: Iterable<Range<T>>): RangeSet<T> {
+        let set: RangeSet<T> = this;
+        for (const range of ranges) set = set.add(range);
+        return set;
+    }
+
+    /**
+     * Removes the values of the range, splitting a stored range that encloses it.
+     */
+    remove(range: Range<T>): RangeSet<T> {
+        if (range.isEmpty()) return this;
+        const lower = range.lowerCut;
+        const upper = range.upperCut;
+        let ranges = this._ranges;
+
+        const before = this.floor(lower);
+        if (before !== undefined && this.compareCuts(before.upperCut, lower) > 0) {
+            ranges = ranges.delete(before);
+            if (this.compareCuts(before.lowerCut, lower) < 0) ranges = ranges.add(this.between(before.lowerCut, lower));
+            if (this.compareCuts(before.upperCut, upper) > 0) {
+                return this.withRanges(ranges.add(this.between(upper, before.upperCut)));
+            }
+        }
+        for (const next of this.rangesFrom(ranges, lower)) {
+            if (this.compareCuts(next.lowerCut, upper) >= 0) break;
+            ranges = ranges.delete(next);
+            if (this.compareCuts(next.upperCut, upper) > 0) {
+                ranges = ranges.add(this.between(upper, next.upperCut));
+                break;
+            }
+        }
+        return ranges === this._ranges ? this : this.withRanges(ranges);
+    }
+
+    removeAll(ranges: Iterable<Range<T>>): RangeSet<T> {
+        let set: RangeSet<T> = this;
+        for (const range of ranges) set = set.remove(range);
+        return set;
+    }
+
+    clear(): RangeSet<T> {
+        return this.withRanges(this._ranges.clear());
+    }
+
+    contains(value: T): boolean {
+        return this.rangeContaining(value) !== undefined;
+    }
+
+    /**
+     * Returns the stored range that contains the value, or undefined if the value is not in the set.
+     *
+     * Complexity: O(log n)
+     */
+    rangeContaining(value: T): Range<T> | undefined {
+        const cut = below(value);
+        const range = this.floor(cut);
+        return range !== undefined && this.compareCuts(cut, range.upperCut) < 0 ? range : undefined;
+    }
+
+    /**
+     * Checks if one of the stored ranges encloses the range. An empty range is always enclosed.
+     */
+    encloses(range: Range<T>): boolean {
+        if (range.isEmpty()) return true;
+        const before = this.floor(range.lowerCut);
+        return before !== undefined && this.compareCuts(range.upperCut, before.upperCut) <= 0;
+    }
+
+    /**
+     * Returns the smallest range that encloses every range of the set, or undefined if the set is empty.
+     */
+    span(): Range<T> | undefined {
+        const first = this._ranges.findMin();
+        const last = this._ranges.findMax();
+        if (first === undefined || last === undefined) return undefined;
+        return this.between(first.lowerCut, last.upperCut);
+    }
+
+    /**
+     * Returns the set of all values that are not in this set.
+     *
+     * Complexity: O(n log n)
+     */
+    complement(): RangeSet<T> {
+        let ranges = this._ranges.clear();
+        let lower: Cut<T> = BELOW_ALL;
+        for (const range of this._ranges) {
+            if (this.compareCuts(lower, range.lowerCut) < 0) ranges = ranges.add(this.between(lower, range.lowerCut));
+            lower = range.upperCut;
+        }
+        if (this.compareCuts(lower, ABOVE_ALL) < 0) ranges = ranges.add(this.between(lower, ABOVE_ALL));
+        return this.withRanges(ranges);
+    }
+
+    /**
+     * Returns the values that are in this set or in the other set.
+     */
+    union(other: RangeSet<T>): RangeSet<T> {
+        return this.addAll(other);
+    }
+
+    /**
+     * Returns the values that are in both sets.
+     */
+    intersect(other: RangeSet<T>): RangeSet<T> {
+        return this.removeAll(other.complement());
+    }
+
+    /**
+     * Returns the values of this set that are not in the other set.
+     */
+    subtract(other: RangeSet<T>): RangeSet<T> {
+        return this.removeAll(other);
+    }
+
+    /**
+     * Checks if the other object is a RangeSet with the same ranges.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof RangeSet)) return false;
+        const other = o as RangeSet<T>;
+        if (this.size() !== other.size()) return false;
+        const iter = other[Symbol.iterator]();
+        for (const range of this) {
+            if (!range.equals(iter.next().value!)) return false;
+        }
+        return true;
+    }
+
+    hashCode(): number {
+        let hash = 17;
+        for (const range of this) hash = (hash * 31 + range.hashCode()) | 0;
+        return hash;
+    }
+
+    /**
+     * Returns the ranges in interval notation, like {[1, 5), (7, +∞)}.
+     */
+    toString(): string {
+        return `{${this.asRanges().map(String).join(", ")}}`;
+    }
+}
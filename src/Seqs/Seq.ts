@@ -0,0 +1,370 @@
+import ArrayList from "../Arrays/ArrayList";
+import Vector from "../Arrays/Vector";
+import { Comparator } from "../Interfaces/Comparator";
+import LinkedList from "../LinkedLists/LinkedList";
+import HashMap from "../Maps/HashMap";
+import OrderedMap from "../Maps/OrderedMap";
+import HashSet from "../Sets/HashSet";
+import OrderedSet from "../Sets/OrderedSet";
+import TreeMap from "../Trees/TreeMap";
+import TreeSet from "../Trees/TreeSet";
+
+/**
+ * A map or filter step that is applied to every value of the source in a single loop.
+ * A filter stage drops the value when its function returns a falsy value.
+ */
+interface Stage {
+    readonly filter: boolean;
+    readonly fn: (value: any, index: number) => unknown;
+}
+
+/**
+ * Seq is an immutable, lazy sequence of values.
+ *
+ * Nothing is computed until the sequence is iterated, and a terminal operation such as `find` or `some`
+ * stops pulling values from the source as soon as it has its answer. Consecutive `map` and `filter` calls
+ * are fused: they are stored as stages of one Seq and run together in one loop over the source, so a chain
+ * of them does not build intermediate collections or nest iterators.
+ *
+ * A Seq can be iterated more than once. It reads its source again every time, so a Seq over a persistent
+ * collection always gives the same values, while a Seq over a one-shot iterator can only be used once.
+ *
+ * `Seq.range`, `Seq.repeat` and `Seq.iterate` create infinite sequences, which must be cut with `take`
+ * or `takeWhile`, or consumed by an operation that stops early.
+ *
+ * @example
+ * Seq.iterate(1, n => n * 2).filter(n => n > 100).first(); // 128
+ * Vector.of(1, 2, 3, 4).toSeq().map(n => n * n).filter(n => n % 2 === 0).toVector(); // [4, 16]
+ */
+export default class Seq<T> implements Iterable<T> {
+    private constructor(
+        private readonly _source: Iterable<unknown>,
+        private readonly _stages: ReadonlyArray<Stage>,
+    ) {}
+
+    /**
+     * Creates a Seq over the values of an iterable. The iterable is not read until the Seq is iterated.
+     */
+    static from<T>(iterable: Iterable<T>): Seq<T> {
+        if (iterable instanceof Seq) return iterable;
+        return new Seq<T>(iterable, []);
+    }
+
+    static of<T>(...values: Array<T>): Seq<T> {
+        return new Seq<T>(values, []);
+    }
+
+    static empty<T>(): Seq<T> {
+        return new Seq<T>([], []);
+    }
+
+    /**
+     * Creates the sequence of numbers from start up to, but not including, end, counting by step.
+     * The sequence is infinite if end is not given.
+     * @throws {RangeError} if step is 0.
+     *
+     * @example
+     * Seq.range(0, 10, 3).toArray(); // [0, 3, 6, 9]
+     * Seq.range(5, 0, -2).toArray(); // [5, 3, 1]
+     */
+    static range(start: number, end: number = Infinity, step: number = 1): Seq<number> {
+        if (step === 0) throw new RangeError("The step of a range cannot be 0");
+        return Seq.generate(function* () {
+            for (let i = start; step > 0 ? i < end : i > end; i += step) yield i;
+        });
+    }
+
+    /**
+     * Creates a sequence that repeats the value the given number of times, or forever if times is not given.
+     */
+    static repeat<T>(value: T, times: number = Infinity): Seq<T> {
+        return Seq.generate(function* () {
+            for (let i = 0; i < times; i++) yield value;
+        });
+    }
+
+    /**
+     * Creates the infinite sequence seed, next(seed), next(next(seed)), ...
+     */
+    static iterate<T>(seed: T, next: (value: T) => T): Seq<T> {
+        return Seq.generate(function* () {
+            let value = seed;
+            while (true) {
+                yield value;
+                value = next(value);
+            }
+        });
+    }
+
+    /**
+     * Creates a Seq whose source calls the generator function every time it is iterated.
+     */
+    private static generate<T>(generator: () => Iterator<T>): Seq<T> {
+        return new Seq<T>({ [Symbol.iterator]: generator }, []);
+    }
+
+    private withStage<R>(stage: Stage): Seq<R> {
+        return new Seq<R>(this._source, this._stages.concat(stage));
+    }
+
+    /**
+     * Iterates over the source and runs every value through the stages. Each stage counts the values
+     * that reach it, so the index that a callback gets is its position in the sequence it is chained on.
+     */
+    *[Symbol.iterator](): Iterator<T> {
+        const stages = this._stages;
+        if (stages.length === 0) {
+            yield* this._source as Iterable<T>;
+            return;
+        }
+        const indices = stages.map(() => 0);
+        outer: for (let value of this._source as Iterable<any>) {
+            for (let i = 0; i < stages.length; i++) {
+                const stage = stages[i];
+                const result = stage.fn(value, indices[i]++);
+                if (stage.filter) {
+                    if (!result) continue outer;
+                } else {
+                    value = result;
+                }
+            }
+            yield value as T;
+        }
+    }
+
+    map<R>(mapper: (value: T, index: number) => R): Seq<R> {
+        return this.withStage<R>({ filter: false, fn: mapper });
+    }
+
+    filter<F extends T>(predicate: (value: T, index: number) => value is F): Seq<F>;
+    filter(predicate: (value: T, index: number) => unknown): Seq<T>;
+    filter(predicate: (value: T, index: number) => unknown): Seq<T> {
+        return this.withStage<T>({ filter: true, fn: predicate });
+    }
+
+    flatMap<R>(mapper: (value: T, index: number) => Iterable<R>): Seq<R> {
+        const self = this;
+        return Seq.generate(function* () {
+            let index = 0;
+            for (const value of self) yield* mapper(value, index++);
+        });
+    }
+
+    /**
+     * Returns the first n values. The source is not read past the n-th value.
+     */
+    take(n: number): Seq<T> {
+        const self = this;
+        return Seq.generate(function* () {
+            if (n <= 0) return;
+            let count = 0;
+            for (const value of self) {
+                yield value;
+                if (++count >= n) return;
+            }
+        });
+    }
+
+    /**
+     * Skips the first n values.
+     */
+    drop(n: number): Seq<T> {
+        const self = this;
+        return Seq.generate(function* () {
+            let count = 0;
+            for (const value of self) {
+                if (count++ >= n) yield value;
+            }
+        });
+    }
+
+    /**
+     * Returns the values up to, but not including, the first value that fails the predicate.
+     */
+    takeWhile(predicate: (value: T, index: number) => unknown): Seq<T> {
+        const self = this;
+        return Seq.generate(function* () {
+            let index = 0;
+            for (const value of self) {
+                if (!predicate(value, index++)) return;
+                yield value;
+            }
+        });
+    }
+
+    /**
+     * Skips the values up to the first value that fails the predicate, and returns the rest.
+     */
+    dropWhile(predicate: (value: T, index: number) => unknown): Seq<T> {
+        const self = this;
+        return Seq.generate(function* () {
+            let index = 0;
+            let dropping = true;
+            for (const value of self) {
+                if (dropping && predicate(value, index++)) continue;
+                dropping = false;
+                yield value;
+            }
+        });
+    }
+
+    concat<C>(...iterables: Array<Iterable<C>>): Seq<T | C> {
+        const self = this;
+        return Seq.generate<T | C>(function* () {
+            yield* self;
+            for (const iterable of iterables) yield* iterable;
+        });
+    }
+
+    /**
+     * Pairs the values with the values of the other iterable. The result ends when either of them ends.
+     */
+    zip<U>(other: Iterable<U>): Seq<[T, U]> {
+        const self = this;
+        return Seq.generate(function* () {
+            const iterator = other[Symbol.iterator]();
+            for (const value of self) {
+                const next = iterator.next();
+                if (next.done) return;
+                yield [value, next.value] as [T, U];
+            }
+        });
+    }
+
+    /**
+     * Skips the values that have been seen before, comparing them with `equals` and `hashCode`
+     * like the keys of a HashMap.
+     */
+    distinct(): Seq<T> {
+        const self = this;
+        return Seq.generate(function* () {
+            const seen = HashMap.empty<T, true>().asTransient();
+            for (const value of self) {
+                if (seen.has(value)) continue;
+                seen.set(value, true);
+                yield value;
+            }
+        });
+    }
+
+    /**
+     * Returns the first value that satisfies the predicate, and stops iterating there.
+     */
+    find(predicate: (value: T, index: number) => unknown): T | undefined {
+        let index = 0;
+        for (const value of this) {
+            if (predicate(value, index++)) return value;
+        }
+        return undefined;
+    }
+
+    some(predicate: (value: T, index: number) => unknown): boolean {
+        let index = 0;
+        for (const value of this) {
+            if (predicate(value, index++)) return true;
+        }
+        return false;
+    }
+
+    every(predicate: (value: T, index: number) => unknown): boolean {
+        let index = 0;
+        for (const value of this) {
+            if (!predicate(value, index++)) return false;
+        }
+        return true;
+    }
+
+    reduce<R>(reducer: (accumulator: R, value: T, index: number) => R, initialValue: R): R {
+        let accumulator = initialValue;
+        let index = 0;
+        for (const value of this) accumulator = reducer(accumulator, value, index++);
+        return accumulator;
+    }
+
+    forEach(callback: (value: T, index: number) => void): void {
+        let index = 0;
+        for (const value of this) callback(value, index++);
+    }
+
+    /**
+     * Returns the first value, or undefined if the sequence is empty.
+     */
+    first(): T | undefined {
+        for (const value of this) return value;
+        return undefined;
+    }
+
+    isEmpty(): boolean {
+        for (const _ of this) return false;
+        return true;
+    }
+
+    /**
+     * Counts the values. Never returns on an infinite sequence.
+     */
+    count(): number {
+        let count = 0;
+        for (const _ of this) count++;
+        return count;
+    }
+
+    join(separator?: string): string {
+        return this.toArray().join(separator);
+    }
+
+    toArray(): T[] {
+        return Array.from(this);
+    }
+
+    toSeq(): Seq<T> {
+        return this;
+    }
+
+    // the conversions read the element type from `this` rather than T, so that a Seq<T> stays assignable
+    // to a Seq<T | U> even though the persistent collections that they return are not
+    toVector<E>(this: Seq<E>): Vector<E> {
+        return Vector.empty<E>().withMutations(vector => vector.pushAll(this));
+    }
+
+    toArrayList<E>(this: Seq<E>): ArrayList<E> {
+        return new ArrayList<E>(this.toArray());
+    }
+
+    toLinkedList<E>(this: Seq<E>): LinkedList<E> {
+        return LinkedList.empty<E>().addAll(this);
+    }
+
+    toHashSet<E>(this: Seq<E>): HashSet<E> {
+        return new HashSet<E>().addAll(this);
+    }
+
+    toTreeSet<E>(this: Seq<E>, compare?: Comparator<E>): TreeSet<E> {
+        return new TreeSet<E>(compare).addAll(this);
+    }
+
+    toOrderedSet<E>(this: Seq<E>): OrderedSet<E> {
+        return OrderedSet.empty<E>().addAll(this);
+    }
+
+    /**
+     * Collects a sequence of key-value pairs into a HashMap. A later pair replaces an earlier one with the same key.
+     */
+    toHashMap<K, V>(this: Seq<[K, V]>): HashMap<K, V> {
+        return HashMap.empty<K, V>().setAll(this);
+    }
+
+    toTreeMap<K, V>(this: Seq<[K, V]>, compare?: Comparator<K>): TreeMap<K, V> {
+        return new TreeMap<K, V>(compare).setAll(this);
+    }
+
+    toOrderedMap<K, V>(this: Seq<[K, V]>): OrderedMap<K, V> {
+        return OrderedMap.empty<K, V>().setAll(this);
+    }
+
+    /**
+     * Returns a string representation of the sequence. Never returns on an infinite sequence.
+     */
+    toString(): string {
+        return `Seq [${this.toArray().join(", ")}]`;
+    }
+}
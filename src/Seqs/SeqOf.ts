@@ -0,0 +1,13 @@
+import Seq from "./Seq";
+
+/**
+ * Returns a lazy Seq over the items, and loads the Seq module when it is first needed.
+ *
+ * Seq imports the concrete collections to convert a sequence into them, and the concrete collections extend
+ * the abstract classes. The abstract classes can therefore not import Seq when they are loaded themselves,
+ * and implement `toSeq()` with this function instead.
+ */
+export function seqOf<T>(items: Iterable<T>): Seq<T> {
+    const { default: SeqClass }: { default: typeof Seq } = require("./Seq");
+    return SeqClass.from(items);
+}
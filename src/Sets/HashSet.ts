@@ -1,8 +1,8 @@
 import { Speed } from "../Enums/Speed";
-import HashCode from "../Hashing/HashCode";
 import HashMap from "../Maps/HashMap";
 import { Utils } from "../Utils/Utils";
 import Set from "../Interfaces/Set";
+import HashComparer from "../Interfaces/HashComparer";
 import AbstractSet from "../AbstractClasses/AbstractSet";
 
 /**
@@ -61,6 +61,30 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
         return hashSet;
     }
 
+    /**
+     * Creates an empty HashSet that hashes and compares its values with the given comparer.
+     * 
+     * @example
+     * const ids = HashSet.withComparer<string>({
+     *     hash: s => HashCode.hashCode(s.toLowerCase()),
+     *     equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+     * });
+     * ids.add("ABC").has("abc"); // true
+     * 
+     * @param comparer - The strategy for hashing and comparing the values.
+     * @returns A new empty HashSet that uses the comparer.
+     */
+    static withComparer<T>(comparer: HashComparer<T>): HashSet<T> {
+        return new HashSet<T>(HashMap.empty<T, undefined>(comparer));
+    }
+
+    /**
+     * Returns the strategy that this set uses to hash and compare its values.
+     */
+    getComparer(): HashComparer<T> {
+        return this._map.getComparer();
+    }
+
     /**
      * Get the number of elements in the set.
      * @returns the size of the set. 
@@ -185,13 +209,10 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
      * Complexity: O(1) on average, O(log32(n)) in the worst case.
      * 
      * @param value - The value to get from the set.
-     * @returns The value if it is in the set, undefined otherwise.
+     * @returns The value in the set that is equal to the value, or undefined if there is none.
      */
     get(value: T): T | undefined {
-        for (const _value of this) {
-            if (Utils.equals(value, _value)) return value;
-        }
-        return undefined;
+        return this._map.getEntry(value)?.[0];
     }
 
     /**
@@ -305,7 +326,7 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
         if (this._hashCode === null) {
             let hash = 0;
             for (const value of this) {
-                hash += HashCode.hashCode(value);
+                hash += this.getComparer().hash(value);
             }
             this._hashCode = hash;
         }
@@ -321,6 +342,13 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
         return `{${values.join(", ")}}`;
     }
 
+    /**
+     * Returns the values as an array, which is what `JSON.stringify` writes for the set.
+     */
+    toJSON(): T[] {
+        return this.toArray();
+    }
+
     /**
      * Checks that every valie in the set passes the predicate.
      * Method calls the every method defined in the HashMap class.
@@ -410,11 +438,18 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
     /**
      * Returns a new HashSet with the values from the collections added to it.
      * 
+     * The tries of the sets are merged node by node with `HashMap.union`, so nodes that the sets
+     * share are reused. Collections that are not a HashSet are first built into one.
+     * 
      * @param collections - The collections to union with.
      * @returns A new HashSet with the values from the collections added to it.
      */
     union<C>(...collections: Array<Iterable<C>>): HashSet<T | C> {
-        return super.union(...collections) as HashSet<T | C>;
+        let map = this._map as HashMap<T | C, undefined>;
+        for (const collection of collections) {
+            map = map.union(this.toHashMap(collection as Iterable<T | C>));
+        }
+        return map === this._map ? this : new HashSet<T | C>(map);
     }
 
     /**
@@ -442,27 +477,55 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
     /**
      * Returns a new HashSet with the values from the collections intersected with it.
      * 
+     * The intersection is done node by node with `HashMap.intersect`.
+     * 
      * @param collections - The collections to intersect with.
      * @returns A new HashSet with the values from the collections intersected with it.
      */
     intersect(...collections: Array<Iterable<T>>): HashSet<T> {
-        return super.intersect(...collections) as HashSet<T>;
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.intersect(this.toHashMap(collection));
+        }
+        return map === this._map ? this : new HashSet<T>(map);
     }
 
     /**
      * Returns a new HashSet with the values from the collections subtracted from it.
      * 
+     * The difference is done node by node with `HashMap.subtract`.
+     * 
      * @param collections - The collections to subtract from.
      * @returns A new HashSet with the values from the collections subtracted from it.
      */
     subtract(...collections: Array<Iterable<T>>): HashSet<T> {
-        return super.subtract(...collections) as HashSet<T>;
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.subtract(this.toHashMap(collection));
+        }
+        return map === this._map ? this : new HashSet<T>(map);
+    }
+
+    /**
+     * Helper method to get the HashMap of a collection for the set operations.
+     * A HashSet gives its own map, and any other iterable is added to a new map.
+     * @param collection - The collection to get the HashMap of.
+     * @returns A HashMap with the values of the collection as keys.
+     */
+    private toHashMap<E>(collection: Iterable<E>): HashMap<E, undefined> {
+        if (collection instanceof HashSet) return collection._map;
+        return HashMap.empty<E, undefined>(this.getComparer() as HashComparer<unknown>).withMutations(map => {
+            for (const value of collection) {
+                map.set(value, undefined);
+            }
+        });
     }
 
     /**
      * Transforms the values in the set using the mapper function.
      * The mapper function is called for each value in the set.
      * The thisArg parameter allows you to set the context for the mapper function.
+     * The mapped values can be of another type, so the new set uses the default comparer.
      * 
      * @param mapper - The mapper function to call for each value.
      * @param thisArg - allows you to set the context for the mapper function.
@@ -512,7 +575,8 @@ export default class HashSet<T> extends AbstractSet<T> implements Set<T> {
         predicate: (value: T, key: T, set: this) => unknown,
         thisArg?: unknown
     ): HashSet<any> {
-        return super.filter(predicate, thisArg) as HashSet<any>;
+        const map = this._map.filter((_, key) => predicate.call(thisArg, key, key, this));
+        return map === this._map ? this : new HashSet<T>(map);
     }
 
     /**
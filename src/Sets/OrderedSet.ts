@@ -0,0 +1,237 @@
+import AbstractSet from "../AbstractClasses/AbstractSet";
+import { Speed } from "../Enums/Speed";
+import HashComparer from "../Interfaces/HashComparer";
+import Set from "../Interfaces/Set";
+import OrderedMap from "../Maps/OrderedMap";
+
+/**
+ * OrderedSet is a set that iterates in insertion order, and looks up its values in a HashMap.
+ *
+ * The set is a wrapper around an OrderedMap<T, undefined>. Adding a value that is already in the set
+ * keeps its position, and `moveToEnd` moves it to the end.
+ *
+ * @example
+ * const tags = OrderedSet.of("b", "a", "b");
+ * tags.toArray(); // ["b", "a"]
+ * tags.getLast(); // "a"
+ */
+export default class OrderedSet<T> extends AbstractSet<T> implements Set<T> {
+    private constructor(private readonly _map: OrderedMap<T, undefined>) {
+        super();
+    }
+
+    /**
+     * Creates an empty OrderedSet.
+     * @param comparer Optional strategy for hashing and comparing the values.
+     */
+    static empty<T>(comparer?: HashComparer<T>): OrderedSet<T> {
+        return new OrderedSet<T>(OrderedMap.empty<T, undefined>(comparer));
+    }
+
+    /**
+     * Creates an OrderedSet with the given values, in the order of their first occurrence.
+     */
+    static of<T>(...values: Array<T>): OrderedSet<T> {
+        return OrderedSet.empty<T>().addAll(values);
+    }
+
+    *[Symbol.iterator](): IterableIterator<T> {
+        for (const [value] of this._map) yield value;
+    }
+
+    /**
+     * Returns the strategy that this set uses to hash and compare its values.
+     */
+    getComparer(): HashComparer<T> {
+        return this._map.getComparer();
+    }
+
+    size(): number {
+        return this._map.size();
+    }
+
+    isEmpty(): boolean {
+        return this._map.isEmpty();
+    }
+
+    /**
+     * Returns an empty OrderedSet with the same comparer.
+     */
+    empty(): OrderedSet<T> {
+        return new OrderedSet<T>(this._map.clear());
+    }
+
+    protected createEmpty<TT>(): OrderedSet<TT> {
+        return OrderedSet.empty<TT>();
+    }
+
+    protected equalsElement(a: T, b: T): boolean {
+        return this.getComparer().equals(a, b);
+    }
+
+    /**
+     * Adds the value at the end, unless it is already in the set.
+     */
+    add(value: T): OrderedSet<T> {
+        return this._map.has(value) ? this : new OrderedSet<T>(this._map.set(value, undefined));
+    }
+
+    addAll(values: Iterable<T>): OrderedSet<T> {
+        return super.addAll(values) as OrderedSet<T>;
+    }
+
+    has(value: T): boolean {
+        return this._map.has(value);
+    }
+
+    delete(value: T): OrderedSet<T> {
+        const map = this._map.delete(value);
+        return map === this._map ? this : new OrderedSet<T>(map);
+    }
+
+    deleteAll(values: Iterable<T>): OrderedSet<T> {
+        return super.deleteAll(values) as OrderedSet<T>;
+    }
+
+    clear(): OrderedSet<T> {
+        return this.empty();
+    }
+
+    get(value: T): T | undefined {
+        return this._map.has(value) ? value : undefined;
+    }
+
+    /**
+     * Moves the value to the end of the iteration order.
+     */
+    moveToEnd(value: T): OrderedSet<T> {
+        const map = this._map.moveToEnd(value);
+        return map === this._map ? this : new OrderedSet<T>(map);
+    }
+
+    /**
+     * Returns the first value in insertion order, or undefined if the set is empty.
+     */
+    getFirst(): T | undefined {
+        return this._map.getFirst()?.[0];
+    }
+
+    /**
+     * Returns the last value in insertion order, or undefined if the set is empty.
+     */
+    getLast(): T | undefined {
+        return this._map.getLast()?.[0];
+    }
+
+    /**
+     * Removes the first value.
+     * @throws {RangeError} if the set is empty.
+     */
+    removeFirst(): OrderedSet<T> {
+        return new OrderedSet<T>(this._map.removeFirst());
+    }
+
+    /**
+     * Removes the last value.
+     * @throws {RangeError} if the set is empty.
+     */
+    removeLast(): OrderedSet<T> {
+        return new OrderedSet<T>(this._map.removeLast());
+    }
+
+    /**
+     * Returns a set with the same values in reverse order.
+     *
+     * Complexity: O(n)
+     */
+    reversed(): OrderedSet<T> {
+        return new OrderedSet<T>(this._map.reversed());
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    /**
+     * Checks if the other object is an OrderedSet with the same values in the same order.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof OrderedSet)) return false;
+        return this._map.equals((o as OrderedSet<T>)._map);
+    }
+
+    /**
+     * Computes a hash code that depends on the order of the values.
+     */
+    hashCode(): number {
+        return this._map.hashCode();
+    }
+
+    /**
+     * Compares the sizes, and then the values in iteration order.
+     */
+    compareTo(o: OrderedSet<T>): number {
+        return this._map.compareTo(o._map);
+    }
+
+    /**
+     * Returns a string representation of the set, in insertion order.
+     */
+    toString(): string {
+        return `{${Array.from(this, v => String(v)).join(", ")}}`;
+    }
+
+    /**
+     * Maps the values in the order of this set. Values that map to an equal value keep the first position.
+     */
+    map<M>(mapper: (value: T, key: T, set: this) => M, thisArg?: unknown): OrderedSet<M> {
+        return super.map(mapper, thisArg) as OrderedSet<M>;
+    }
+
+    flatMap<M>(mapper: (value: T, key: T, set: this) => Iterable<M>, thisArg?: unknown): OrderedSet<M> {
+        return super.flatMap(mapper, thisArg) as OrderedSet<M>;
+    }
+
+    filter<F extends T>(predicate: (value: T, key: T, set: this) => value is F, thisArg?: unknown): OrderedSet<F>;
+    filter(predicate: (value: T, key: T, set: this) => unknown, thisArg?: unknown): OrderedSet<T>;
+    filter(predicate: (value: T, key: T, set: this) => unknown, thisArg?: unknown): OrderedSet<any> {
+        let result = this.empty();
+        for (const value of this) {
+            if (predicate.call(thisArg, value, value, this)) result = result.add(value);
+        }
+        return result;
+    }
+
+    partition<F extends T, C>(
+        predicate: (this: C, value: T, key: T, set: this) => value is F,
+        thisArg?: C
+    ): [OrderedSet<F>, OrderedSet<Exclude<T, F>>];
+    partition<C>(
+        predicate: (this: C, value: T, key: T, set: this) => unknown,
+        thisArg?: C
+    ): [OrderedSet<T>, OrderedSet<T>];
+    partition(
+        predicate: (value: T, key: T, set: this) => unknown,
+        thisArg?: unknown
+    ): [OrderedSet<any>, OrderedSet<any>] {
+        let trueSet = this.empty();
+        let falseSet = this.empty();
+        for (const value of this) {
+            if (predicate.call(thisArg, value, value, this)) {
+                trueSet = trueSet.add(value);
+            } else {
+                falseSet = falseSet.add(value);
+            }
+        }
+        return [trueSet, falseSet];
+    }
+}
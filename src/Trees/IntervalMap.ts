@@ -0,0 +1,438 @@
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import EqualityComparer from "../Interfaces/EqualityComparer";
+import { Utils } from "../Utils/Utils";
+import Seq from "../Seqs/Seq";
+
+enum Color {
+    R, // Red
+    B, // Black
+}
+
+interface Entry<K, V> {
+    readonly lo: K;
+    readonly hi: K;
+    readonly value: V;
+}
+
+/**
+ * A node of the red-black tree, augmented with the largest end of the intervals in its subtree
+ * and the number of intervals in its subtree.
+ */
+class Node<K, V> {
+    readonly max: K;
+    readonly size: number;
+
+    constructor(
+        readonly color: Color,
+        readonly left: Tree<K, V>,
+        readonly entry: Entry<K, V>,
+        readonly right: Tree<K, V>,
+        compare: Comparator<K>,
+    ) {
+        let max = entry.hi;
+        if (left !== null && compare(left.max, max) > 0) max = left.max;
+        if (right !== null && compare(right.max, max) > 0) max = right.max;
+        this.max = max;
+        this.size = (left?.size ?? 0) + 1 + (right?.size ?? 0);
+    }
+}
+
+type Tree<K, V> = Node<K, V> | null;
+
+// The balancing follows Stefan Kahrs' "Red-black trees with types", which extends Okasaki's insertion
+// with a deletion that joins the two subtrees of the removed node.
+
+function isRed<K, V>(t: Tree<K, V>): t is Node<K, V> {
+    return t !== null && t.color === Color.R;
+}
+
+function isBlack<K, V>(t: Tree<K, V>): t is Node<K, V> {
+    return t !== null && t.color === Color.B;
+}
+
+/**
+ * Orders the intervals by their start, and then by their end.
+ */
+function order<K>(compare: Comparator<K>, lo: K, hi: K, entry: Entry<K, unknown>): number {
+    const c = compare(lo, entry.lo);
+    return c !== 0 ? c : compare(hi, entry.hi);
+}
+
+class Ops<K, V> {
+    constructor(readonly compare: Comparator<K>) {}
+
+    node(color: Color, left: Tree<K, V>, entry: Entry<K, V>, right: Tree<K, V>): Node<K, V> {
+        return new Node(color, left, entry, right, this.compare);
+    }
+
+    paint(t: Node<K, V>, color: Color): Node<K, V> {
+        return t.color === color ? t : this.node(color, t.left, t.entry, t.right);
+    }
+
+    balance(a: Tree<K, V>, x: Entry<K, V>, b: Tree<K, V>): Node<K, V> {
+        const { R, B } = Color;
+        if (isRed(a) && isRed(b)) {
+            return this.node(R, this.paint(a, B), x, this.paint(b, B));
+        }
+        if (isRed(a)) {
+            if (isRed(a.left)) {
+                return this.node(R, this.paint(a.left, B), a.entry, this.node(B, a.right, x, b));
+            }
+            if (isRed(a.right)) {
+                const m = a.right;
+                return this.node(R, this.node(B, a.left, a.entry, m.left), m.entry, this.node(B, m.right, x, b));
+            }
+        }
+        if (isRed(b)) {
+            if (isRed(b.right)) {
+                return this.node(R, this.node(B, a, x, b.left), b.entry, this.paint(b.right, B));
+            }
+            if (isRed(b.left)) {
+                const m = b.left;
+                return this.node(R, this.node(B, a, x, m.left), m.entry, this.node(B, m.right, b.entry, b.right));
+            }
+        }
+        return this.node(B, a, x, b);
+    }
+
+    insert(t: Tree<K, V>, x: Entry<K, V>): Node<K, V> {
+        if (t === null) return this.node(Color.R, null, x, null);
+        const c = order(this.compare, x.lo, x.hi, t.entry);
+        if (c === 0) return this.node(t.color, t.left, x, t.right);
+        if (t.color === Color.B) {
+            return c < 0 ? this.balance(this.insert(t.left, x), t.entry, t.right)
+                : this.balance(t.left, t.entry, this.insert(t.right, x));
+        }
+        return c < 0 ? this.node(Color.R, this.insert(t.left, x), t.entry, t.right)
+            : this.node(Color.R, t.left, t.entry, this.insert(t.right, x));
+    }
+
+    // turns a black node red, which lowers the black height of the subtree by one
+    sub1(t: Tree<K, V>): Node<K, V> {
+        if (!isBlack(t)) throw new Error("Red-black invariant violated");
+        return this.paint(t, Color.R);
+    }
+
+    // rebalances after the black height of the left subtree dropped by one
+    balanceLeft(bl: Tree<K, V>, x: Entry<K, V>, r: Tree<K, V>): Node<K, V> {
+        const { R, B } = Color;
+        if (isRed(bl)) return this.node(R, this.paint(bl, B), x, r);
+        if (r !== null && r.color === B) return this.balance(bl, x, this.paint(r, R));
+        if (r !== null && isBlack(r.left)) {
+            const m = r.left;
+            return this.node(R, this.node(B, bl, x, m.left), m.entry, this.balance(m.right, r.entry, this.sub1(r.right)));
+        }
+        throw new Error("Red-black invariant violated");
+    }
+
+    // rebalances after the black height of the right subtree dropped by one
+    balanceRight(l: Tree<K, V>, x: Entry<K, V>, br: Tree<K, V>): Node<K, V> {
+        const { R, B } = Color;
+        if (isRed(br)) return this.node(R, l, x, this.paint(br, B));
+        if (l !== null && l.color === B) return this.balance(this.paint(l, R), x, br);
+        if (l !== null && isBlack(l.right)) {
+            const m = l.right;
+            return this.node(R, this.balance(this.sub1(l.left), l.entry, m.left), m.entry, this.node(B, m.right, x, br));
+        }
+        throw new Error("Red-black invariant violated");
+    }
+
+    // joins two trees of the same black height, where every interval of a comes before b
+    append(a: Tree<K, V>, b: Tree<K, V>): Tree<K, V> {
+        const { R, B } = Color;
+        if (a === null) return b;
+        if (b === null) return a;
+        if (isRed(a) && isRed(b)) {
+            const bc = this.append(a.right, b.left);
+            if (isRed(bc)) {
+                return this.node(R, this.node(R, a.left, a.entry, bc.left), bc.entry, this.node(R, bc.right, b.entry, b.right));
+            }
+            return this.node(R, a.left, a.entry, this.node(R, bc, b.entry, b.right));
+        }
+        if (isBlack(a) && isBlack(b)) {
+            const bc = this.append(a.right, b.left);
+            if (isRed(bc)) {
+                return this.node(R, this.node(B, a.left, a.entry, bc.left), bc.entry, this.node(B, bc.right, b.entry, b.right));
+            }
+            return this.balanceLeft(a.left, a.entry, this.node(B, bc, b.entry, b.right));
+        }
+        if (isRed(b)) return this.node(R, this.append(a, b.left), b.entry, b.right);
+        return this.node(R, a.left, a.entry, this.append(a.right, b));
+    }
+
+    delete(t: Tree<K, V>, lo: K, hi: K): Tree<K, V> {
+        if (t === null) return null;
+        const c = order(this.compare, lo, hi, t.entry);
+        if (c < 0) {
+            return isBlack(t.left) ? this.balanceLeft(this.delete(t.left, lo, hi), t.entry, t.right)
+                : this.node(Color.R, this.delete(t.left, lo, hi), t.entry, t.right);
+        }
+        if (c > 0) {
+            return isBlack(t.right) ? this.balanceRight(t.left, t.entry, this.delete(t.right, lo, hi))
+                : this.node(Color.R, t.left, t.entry, this.delete(t.right, lo, hi));
+        }
+        return this.append(t.left, t.right);
+    }
+}
+
+/**
+ * IntervalMap is a persistent interval tree, that maps half-open intervals [lo, hi) to values.
+ *
+ * It is a red-black tree ordered by the start and then the end of the intervals, where every node also
+ * holds the largest end in its subtree. That lets `overlapping` and `containing` skip every subtree whose
+ * intervals all end before the query, and every subtree that starts after it. Each of the m results is found
+ * on a path of O(log n) nodes, so a query takes O(min(n, m log n)) time.
+ * Intervals may overlap. Inserting an interval that is already in the map replaces its value.
+ *
+ * The tree is its own red-black tree rather than a TreeMap, because the largest end has to be kept up to date
+ * in every node that the balancing creates. TreeMap has no place for such a value in its nodes, and adding
+ * one would cost every TreeMap a field and a comparison per node for a value that only this map reads.
+ *
+ * @example
+ * const bookings = IntervalMap.of<number, string>(IntervalMap.defaultComparator,
+ *     [[9, 10], "standup"], [[13, 15], "review"]);
+ * bookings.containing(9.5); // [[[9, 10], "standup"]]
+ * bookings.overlapping(10, 14); // [[[13, 15], "review"]]
+ */
+export default class IntervalMap<K, V> implements Iterable<[[K, K], V]>, EqualityComparer<[[K, K], V]> {
+    private _hashCode: number | null = null;
+
+    private constructor(
+        private readonly ops: Ops<K, V>,
+        private readonly _root: Tree<K, V>,
+    ) {}
+
+    /**
+     * Creates an empty IntervalMap.
+     * @param compare - comparator that orders the endpoints of the intervals.
+     */
+    static empty<K, V>(compare: Comparator<K> = IntervalMap.defaultComparator<K>): IntervalMap<K, V> {
+        return new IntervalMap<K, V>(new Ops<K, V>(compare), null);
+    }
+
+    /**
+     * Creates an IntervalMap with the given intervals and values.
+     * @param compare - comparator that orders the endpoints of the intervals.
+     * @throws {RangeError} if an interval does not start before its end.
+     */
+    static of<K, V>(compare: Comparator<K>, ...entries: [[K, K], V][]): IntervalMap<K, V> {
+        let map = IntervalMap.empty<K, V>(compare);
+        for (const [interval, value] of entries) map = map.insert(interval, value);
+        return map;
+    }
+
+    /**
+     * Provides a default comparator for the IntervalMap.
+     * @returns a negative number if a is less than b, a positive number if a is greater than b, and 0 if a is equal to b.
+     */
+    static defaultComparator<T>(a: T, b: T): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    private withRoot(root: Tree<K, V>): IntervalMap<K, V> {
+        return new IntervalMap<K, V>(this.ops, root);
+    }
+
+    private get compare(): Comparator<K> {
+        return this.ops.compare;
+    }
+
+    getComparator(): Comparator<K> {
+        return this.compare;
+    }
+
+    /**
+     * Iterates over the intervals with their values, ordered by start and then by end.
+     */
+    *[Symbol.iterator](): IterableIterator<[[K, K], V]> {
+        const stack: Node<K, V>[] = [];
+        let t = this._root;
+        while (t !== null || stack.length > 0) {
+            while (t !== null) {
+                stack.push(t);
+                t = t.left;
+            }
+            const n = stack.pop()!;
+            yield [[n.entry.lo, n.entry.hi], n.entry.value];
+            t = n.right;
+        }
+    }
+
+    toSeq(): Seq<[[K, K], V]> {
+        return Seq.from(this);
+    }
+
+    size(): number {
+        return this._root?.size ?? 0;
+    }
+
+    isEmpty(): boolean {
+        return this._root === null;
+    }
+
+    private find([lo, hi]: [K, K]): Entry<K, V> | undefined {
+        let t = this._root;
+        while (t !== null) {
+            const c = order(this.compare, lo, hi, t.entry);
+            if (c === 0) return t.entry;
+            t = c < 0 ? t.left : t.right;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the value of exactly this interval, or undefined if the interval is not in the map.
+     */
+    get(interval: [K, K]): V | undefined {
+        return this.find(interval)?.value;
+    }
+
+    has(interval: [K, K]): boolean {
+        return this.find(interval) !== undefined;
+    }
+
+    /**
+     * Maps the interval [lo, hi) to the value, replacing the value if the interval is already in the map.
+     *
+     * Complexity: O(log n)
+     *
+     * @throws {RangeError} if lo is not less than hi.
+     */
+    insert([lo, hi]: [K, K], value: V): IntervalMap<K, V> {
+        if (this.compare(lo, hi) >= 0) throw new RangeError(`Invalid interval [${lo}, ${hi})`);
+        return this.withRoot(this.ops.paint(this.ops.insert(this._root, { lo, hi, value }), Color.B));
+    }
+
+    /**
+     * Removes exactly this interval. Other intervals that overlap it are kept.
+     *
+     * Complexity: O(log n)
+     */
+    delete(interval: [K, K]): IntervalMap<K, V> {
+        if (!this.has(interval)) return this;
+        const root = this.ops.delete(this._root, interval[0], interval[1]);
+        return this.withRoot(root === null ? null : this.ops.paint(root, Color.B));
+    }
+
+    clear(): IntervalMap<K, V> {
+        return this.withRoot(null);
+    }
+
+    /**
+     * Returns the intervals that overlap [lo, hi), ordered by start.
+     *
+     * Complexity: O(min(n, m log n)) for m results
+     */
+    overlapping(lo: K, hi: K): [[K, K], V][] {
+        const result: [[K, K], V][] = [];
+        const visit = (t: Tree<K, V>): void => {
+            if (t === null || this.compare(t.max, lo) <= 0) return;
+            visit(t.left);
+            // the intervals on the right start at or after this one
+            if (this.compare(t.entry.lo, hi) >= 0) return;
+            if (this.compare(t.entry.hi, lo) > 0) result.push([[t.entry.lo, t.entry.hi], t.entry.value]);
+            visit(t.right);
+        };
+        if (this.compare(lo, hi) < 0) visit(this._root);
+        return result;
+    }
+
+    /**
+     * Returns the intervals that contain the point, ordered by start.
+     *
+     * Complexity: O(min(n, m log n)) for m results
+     */
+    containing(point: K): [[K, K], V][] {
+        const result: [[K, K], V][] = [];
+        const visit = (t: Tree<K, V>): void => {
+            if (t === null || this.compare(t.max, point) <= 0) return;
+            visit(t.left);
+            if (this.compare(t.entry.lo, point) > 0) return;
+            if (this.compare(t.entry.hi, point) > 0) result.push([[t.entry.lo, t.entry.hi], t.entry.value]);
+            visit(t.right);
+        };
+        visit(this._root);
+        return result;
+    }
+
+    /**
+     * Returns the smallest interval that covers every interval in the map, or undefined if the map is empty.
+     */
+    span(): [K, K] | undefined {
+        if (this._root === null) return undefined;
+        let t = this._root;
+        while (t.left !== null) t = t.left;
+        return [t.entry.lo, this._root.max];
+    }
+
+    /**
+     * Merges intervals that are next to each other in the order of the map, have equal values,
+     * and overlap or touch (the end of one is the start of the next).
+     *
+     * Complexity: O(n log n)
+     */
+    coalesce(): IntervalMap<K, V> {
+        const merged: Entry<K, V>[] = [];
+        for (const [[lo, hi], value] of this) {
+            const last = merged[merged.length - 1];
+            if (last !== undefined && Utils.equals(last.value, value) && this.compare(lo, last.hi) <= 0) {
+                if (this.compare(hi, last.hi) > 0) merged[merged.length - 1] = { lo: last.lo, hi, value: last.value };
+            } else {
+                merged.push({ lo, hi, value });
+            }
+        }
+        if (merged.length === this.size()) return this;
+        let root: Tree<K, V> = null;
+        for (const entry of merged) root = this.ops.paint(this.ops.insert(root, entry), Color.B);
+        return this.withRoot(root);
+    }
+
+    entries(): [[K, K], V][] {
+        return Array.from(this);
+    }
+
+    intervals(): [K, K][] {
+        return Array.from(this, ([interval]) => interval);
+    }
+
+    values(): V[] {
+        return Array.from(this, ([, value]) => value);
+    }
+
+    /**
+     * Checks if the other object is an IntervalMap with the same intervals and values.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof IntervalMap)) return false;
+        const other = o as IntervalMap<K, V>;
+        if (this.size() !== other.size()) return false;
+        const iter = other[Symbol.iterator]();
+        for (const [[lo, hi], value] of this) {
+            const [[otherLo, otherHi], otherValue] = iter.next().value!;
+            if (this.compare(lo, otherLo) !== 0 || this.compare(hi, otherHi) !== 0) return false;
+            if (!Utils.equals(value, otherValue)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes the hash code of the intervals and values in order.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 17;
+            for (const [[lo, hi], value] of this) {
+                hash = (hash * 31 + (HashCode.hashCode(lo) ^ (HashCode.hashCode(hi) * 7) ^ HashCode.hashCode(value))) | 0;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    toString(): string {
+        return `{${Array.from(this, ([[lo, hi], value]) => `[${lo}, ${hi}): ${value}`).join(", ")}}`;
+    }
+}
@@ -3,9 +3,16 @@ import HashCode from "../Hashing/HashCode";
 import Map from "../Interfaces/Map";
 import {Comparator} from "../Interfaces/Comparator";
 import SortedMap from "../Interfaces/SortedMap"
+import NavigableMap from "../Interfaces/NavigableMap";
+import {Change} from "../Interfaces/Change";
+import {Utils} from "../Utils/Utils";
 
 import Sorting from "../Sorting/Sorting";
 import AbstractSortedMap from "../AbstractClasses/AbstractSortedMap";
+import Range from "../Ranges/Range";
+import { below, compareCuts } from "../Ranges/Cut";
+import TreeMapView from "./TreeMapView";
+import TreeMapCursor, { TreeNodes } from "./TreeMapCursor";
 
 enum Color {
     R, // Red
@@ -29,9 +36,18 @@ enum Color {
  * 
  * @see https://matt.might.net/articles/red-black-delete/
  */
-export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements SortedMap<K, V> {
+export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements NavigableMap<K, V> {
     // private static readonly EMPTY = new TreeMap<any, any>(TreeMap.defaultComparator, Color.B, null, null, null);
     private _hashCode: number | null = null; // cache the hashcode which is computed only once
+    private readonly _size: number; // number of nodes in this subtree, used for O(1) size and rank/select
+    private readonly _blackHeight: number; // number of black nodes on the left spine, used by join
+    private _valueSum: number | null = null; // sum of the numeric values in this subtree, cached by sumValues
+    // gives the cursors access to the subtrees without making them public
+    private static readonly NODES: TreeNodes<any, any> = {
+        left: node => node.leftTree !== null && !node.leftTree.isEmpty() ? node.leftTree : null,
+        right: node => node.rightTree !== null && !node.rightTree.isEmpty() ? node.rightTree : null,
+        keyValue: node => node.keyValue(),
+    };
 
     constructor(
         private readonly compare: Comparator<K> = TreeMap.defaultComparator<K>,
@@ -41,6 +57,8 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
         private readonly rightTree: TreeMap<K, V> | null = null,
         ) {
         super();
+        this._size = root === null ? 0 : (leftTree?._size ?? 0) + 1 + (rightTree?._size ?? 0);
+        this._blackHeight = root === null ? 0 : (leftTree?._blackHeight ?? 0) + (color === Color.B ? 1 : 0);
     }
     
     //Iterator methods
@@ -839,6 +857,212 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
         return lh + (this.isB() ? 1 : 0);
     }
 
+    /**
+     * Splits the tree around the given key.
+     * The first tree holds every entry with a key less than the key, and the last tree
+     * every entry with a key greater than the key. Both share structure with this tree.
+     * 
+     * Complexity: O(log n) where n are the number of nodes in the tree.
+     * 
+     * @param key - the key to split the tree at
+     * @returns a tuple of the lesser tree, the entry with the key (or undefined if the key is not present) and the greater tree.
+     */
+    split(key: K): [TreeMap<K, V>, [K, V] | undefined, TreeMap<K, V>] {
+        if (this.isEmpty()) return [this.empty(), undefined, this.empty()];
+        const cmp = this.compare(key, this.key());
+        if (cmp < 0) {
+            const [less, found, greater] = this.left().split(key);
+            return [less, found, TreeMap.joinTrees(greater, this.keyValue(), this.right())];
+        } else if (cmp > 0) {
+            const [less, found, greater] = this.right().split(key);
+            return [TreeMap.joinTrees(this.left(), this.keyValue(), less), found, greater];
+        }
+        return [this.left().blackRoot(), this.keyValue(), this.right().blackRoot()];
+    }
+
+    /**
+     * Joins two trees with a pivot entry in between. 
+     * Every key in the left tree must be less than the pivot key, and every key in the right tree
+     * must be greater than the pivot key.
+     * 
+     * Complexity: O(log n) where n are the number of nodes in the larger tree.
+     * 
+     * @param left - the tree with the lesser keys
+     * @param pivot - the entry to place between the two trees
+     * @param right - the tree with the greater keys
+     * @returns a new TreeMap holding the entries of both trees and the pivot.
+     * @throws Error if the trees and the pivot are not ordered.
+     */
+    static join<K, V>(left: TreeMap<K, V>, pivot: [K, V], right: TreeMap<K, V>): TreeMap<K, V> {
+        if (!left.isEmpty() && left.compare(left.maxSubTreeKeyValue()[0], pivot[0]) >= 0) {
+            throw new Error("left tree keys must be less than the pivot key");
+        }
+        if (!right.isEmpty() && left.compare(right.minSubTreeKeyValue()[0], pivot[0]) <= 0) {
+            throw new Error("right tree keys must be greater than the pivot key");
+        }
+        return TreeMap.joinTrees(left, pivot, right);
+    }
+
+    /**
+     * Joins two ordered trees with a pivot without checking the order.
+     * The roots are painted black first, and the shorter tree is hung off the spine 
+     * of the taller tree at the node with the same black height. 
+     */
+    private static joinTrees<K, V>(left: TreeMap<K, V>, pivot: [K, V], right: TreeMap<K, V>): TreeMap<K, V> {
+        const l = left.blackRoot();
+        const r = right.blackRoot();
+        if (l._blackHeight > r._blackHeight) return l.joinRight(pivot, r).blackRoot();
+        if (l._blackHeight < r._blackHeight) return r.joinLeft(l, pivot).blackRoot();
+        return l.from(Color.B, l, pivot, r);
+    }
+
+    /**
+     * Walks down the right spine of this tree and places the pivot and the right tree
+     * where the black heights match. A red-red violation is fixed with a left rotation.
+     */
+    private joinRight(pivot: [K, V], right: TreeMap<K, V>): TreeMap<K, V> {
+        if (this.color === Color.B && this._blackHeight === right._blackHeight) {
+            return this.from(Color.R, this, pivot, right);
+        }
+        const t = this.from(this.color, this.left(), this.keyValue(), this.right().joinRight(pivot, right));
+        if (t.isB() && t.right().isR() && t.right().right().isR()) {
+            const r = t.right();
+            return t.from(Color.R, t.from(Color.B, t.left(), t.keyValue(), r.left()), r.keyValue(), r.right().paint(Color.B));
+        }
+        return t;
+    }
+
+    /**
+     * Walks down the left spine of this tree and places the left tree and the pivot
+     * where the black heights match. A red-red violation is fixed with a right rotation.
+     */
+    private joinLeft(left: TreeMap<K, V>, pivot: [K, V]): TreeMap<K, V> {
+        if (this.color === Color.B && this._blackHeight === left._blackHeight) {
+            return this.from(Color.R, left, pivot, this);
+        }
+        const t = this.from(this.color, this.left().joinLeft(left, pivot), this.keyValue(), this.right());
+        if (t.isB() && t.left().isR() && t.left().left().isR()) {
+            const l = t.left();
+            return t.from(Color.R, l.left().paint(Color.B), l.keyValue(), t.from(Color.B, l.right(), t.keyValue(), t.right()));
+        }
+        return t;
+    }
+
+    /**
+     * Returns the current subtree with a black root.
+     * @returns the current subtree if the root is black, otherwise a copy painted black.
+     */
+    private blackRoot(): TreeMap<K, V> {
+        return this.isB() ? this : this.paint(Color.B);
+    }
+
+    /**
+     * Concatenates two ordered trees, where every key in the left tree is less than every key in the right tree.
+     * The minimum entry of the right tree is used as the pivot for the join.
+     */
+    private static concatTrees<K, V>(left: TreeMap<K, V>, right: TreeMap<K, V>): TreeMap<K, V> {
+        if (right.isEmpty()) return left.blackRoot();
+        const [, pivot, rest] = right.split(right.minSubTreeKeyValue()[0]);
+        return TreeMap.joinTrees(left, pivot!, rest);
+    }
+
+    /**
+     * Divide-and-conquer union of two trees with the same comparator.
+     * The second tree is split at the root key of the first tree, both halves are united 
+     * recursively and joined back together with the root entry. When one side runs out,
+     * the remaining subtree of the other side is returned as-is.
+     * 
+     * @param resolve - called with the entries from both trees when a key is present in both.
+     */
+    private static unionTrees<K, V>(
+        t1: TreeMap<K, V>,
+        t2: TreeMap<K, V>,
+        resolve: (entry1: [K, V], entry2: [K, V]) => [K, V]
+    ): TreeMap<K, V> {
+        if (t1.isEmpty()) return t2;
+        if (t2.isEmpty()) return t1;
+        const [less, found, greater] = t2.split(t1.key());
+        const left = TreeMap.unionTrees(t1.left(), less, resolve);
+        const right = TreeMap.unionTrees(t1.right(), greater, resolve);
+        return TreeMap.joinTrees(left, found ? resolve(t1.keyValue(), found) : t1.keyValue(), right);
+    }
+
+    /**
+     * Divide-and-conquer intersection of two trees with the same comparator.
+     * The entries of the first tree are kept.
+     */
+    private static intersectTrees<K, V, VV>(t1: TreeMap<K, V>, t2: TreeMap<K, VV>): TreeMap<K, V> {
+        if (t1.isEmpty()) return t1;
+        if (t2.isEmpty()) return t1.empty();
+        const [less, found, greater] = t2.split(t1.key());
+        const left = TreeMap.intersectTrees(t1.left(), less);
+        const right = TreeMap.intersectTrees(t1.right(), greater);
+        return found ? TreeMap.joinTrees(left, t1.keyValue(), right) : TreeMap.concatTrees(left, right);
+    }
+
+    /**
+     * Divide-and-conquer difference of two trees with the same comparator.
+     * The first tree is split at the root key of the second tree, and the root key is left out.
+     */
+    private static subtractTrees<K, V, VV>(t1: TreeMap<K, V>, t2: TreeMap<K, VV>): TreeMap<K, V> {
+        if (t1.isEmpty() || t2.isEmpty()) return t1;
+        const [less, , greater] = t1.split(t2.key());
+        const left = TreeMap.subtractTrees(less, t2.left());
+        const right = TreeMap.subtractTrees(greater, t2.right());
+        return TreeMap.concatTrees(left, right);
+    }
+
+    /**
+     * Yields the changes that turn the tree `a` into the tree `b` in key order.
+     * The tree `b` is split at the root key of `a`, and the two halves are diffed recursively.
+     * Subtrees that are shared by both trees are skipped.
+     */
+    private static *diffTrees<K, V>(a: TreeMap<K, V>, b: TreeMap<K, V>): IterableIterator<Change<K, V>> {
+        if (a.sameNode(b)) return;
+        if (b.isEmpty()) {
+            for (const [key, value] of a) yield {type: "removed", key, value};
+            return;
+        }
+        if (a.isEmpty()) {
+            for (const [key, value] of b) yield {type: "added", key, value};
+            return;
+        }
+        const [less, found, greater] = b.split(a.key());
+        yield* TreeMap.diffTrees(a.left(), less);
+        if (found === undefined) {
+            yield {type: "removed", key: a.key(), value: a.value()};
+        } else if (found !== a.keyValue() && !Utils.equals(a.value(), found[1])) {
+            yield {type: "changed", key: a.key(), oldValue: a.value(), newValue: found[1]};
+        }
+        yield* TreeMap.diffTrees(a.right(), greater);
+    }
+
+    /**
+     * Checks if two trees have the same entry and the same subtrees by reference.
+     * The color is not compared, since a subtree can be painted black when it is split or joined.
+     */
+    private sameNode(other: TreeMap<K, V>): boolean {
+        return this === other || (
+            this.root !== null
+            && this.root === other.root
+            && this.leftTree === other.leftTree
+            && this.rightTree === other.rightTree
+        );
+    }
+
+    /**
+     * Returns the other tree ordered by the comparator of this tree.
+     * The tree is rebuilt only if it uses a different comparator.
+     */
+    private withSameOrder<VV>(other: TreeMap<K, VV>): TreeMap<K, VV> {
+        if (other.compare === this.compare) return other;
+        let result = this.createEmpty<K, VV>(this.compare);
+        for (const [k, v] of other) {
+            result = result.set(k, v);
+        }
+        return result;
+    }
+
 
     // end Red-Black Tree methods 
 
@@ -859,10 +1083,28 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
 
     /**
      * Returns the size.
+     * Every node stores the size of its subtree, so this is O(1).
      * @returns the size of the tree
      */
     size(): number {
-        return super.size();
+        return this._size;
+    }
+
+    /**
+     * Returns the sum of the values, for a map with numeric values such as the counts of a TreeBag.
+     * The sum of every subtree is cached in its node. The trees that updates, split and join create share
+     * all but O(log n) nodes with this tree, so only their new nodes are summed.
+     *
+     * Complexity: O(n) for the first call, and amortized O(1) for every node that is created after that.
+     * @returns the sum of the values in the tree
+     */
+    sumValues(this: TreeMap<K, number>): number {
+        if (this._valueSum === null) {
+            this._valueSum = this.isEmpty()
+                ? 0
+                : (this.leftTree?.sumValues() ?? 0) + this.value() + (this.rightTree?.sumValues() ?? 0);
+        }
+        return this._valueSum;
     }
 
     /**
@@ -1109,6 +1351,14 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
         return res + "}";
     }
 
+    /**
+     * Returns the entries in key order as an array of key-value pairs, so that `JSON.stringify` writes them
+     * instead of the nodes of the tree. The comparator is not written; `JsonCodec` can write it by name.
+     */
+    toJSON(): [K, V][] {
+        return this.entries();
+    }
+
     /**
      * Returns the value associated with the specified key, or the default value if the key is not found.
      * @param key - the key to look up in the TreeMap.
@@ -1317,7 +1567,13 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
     ): TreeMap<K | string, Exclude<V, C> | C>;
     merge<KC, VC>(other: Map<KC, VC>): TreeMap<K | KC, V | VC>;
     merge(...collections: any[]): TreeMap<any, any> {
-        return super.merge(...collections) as TreeMap<any, any>;
+        let result: TreeMap<any, any> = this;
+        for (const collection of collections) {
+            result = collection instanceof TreeMap
+                ? result.union(collection)
+                : super.merge.call(result, collection) as TreeMap<any, any>;
+        }
+        return result;
     }
 
     /**
@@ -1355,7 +1611,70 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
         callback: (oldVal: V, newVal: any, key: any) => any,
         ...collections: any[]
     ): TreeMap<any, any> {
-        return super.mergeWith(callback, ...collections) as TreeMap<any, any>;
+        let result: TreeMap<any, any> = this;
+        for (const collection of collections) {
+            result = collection instanceof TreeMap
+                ? result.union(collection, callback)
+                : super.mergeWith.call(result, callback, collection) as TreeMap<any, any>;
+        }
+        return result;
+    }
+
+    /**
+     * Returns the union of this TreeMap and another TreeMap.
+     * The union is computed with split and join, which is O(m log(n/m + 1)) where m is the size 
+     * of the smaller tree and n the size of the larger tree. Subtrees that do not overlap the other
+     * tree are shared with the result as they are.
+     * 
+     * `merge` and `mergeWith` use this method when they are given a TreeMap.
+     * 
+     * @param other - the TreeMap to unite with this TreeMap.
+     * @param resolve - optional function that resolves the value of a key present in both maps.
+     * If not provided, the value from the other map is used.
+     * @returns a new TreeMap with the entries of both maps.
+     */
+    union(other: TreeMap<K, V>, resolve?: (oldVal: V, newVal: V, key: K) => V): TreeMap<K, V> {
+        const resolveEntry = resolve
+            ? (entry1: [K, V], entry2: [K, V]): [K, V] => [entry1[0], resolve(entry1[1], entry2[1], entry1[0])]
+            : (_: [K, V], entry2: [K, V]) => entry2;
+        return TreeMap.unionTrees(this, this.withSameOrder(other), resolveEntry);
+    }
+
+    /**
+     * Returns the changes that turn this TreeMap into the other TreeMap, in key order.
+     * 
+     * Keys that are only in the other map are `added`, keys that are only in this map are `removed`,
+     * and keys with values that are not equal are `changed`.
+     * The changes are computed lazily with split, and subtrees that both maps share are skipped. 
+     * Diffing two versions that are a few edits apart is therefore close to O(edits * log n).
+     * 
+     * @param other - the newer version of the map.
+     * @returns an iterator over the changes.
+     */
+    *diff(other: TreeMap<K, V>): IterableIterator<Change<K, V>> {
+        yield* TreeMap.diffTrees(this, this.withSameOrder(other));
+    }
+
+    /**
+     * Returns the entries of this TreeMap whose keys are also in the other TreeMap.
+     * The intersection is computed with split and join in O(m log(n/m + 1)).
+     * 
+     * @param other - the TreeMap with the keys to keep.
+     * @returns a new TreeMap with the entries of this map whose keys are in the other map.
+     */
+    intersect<VV>(other: TreeMap<K, VV>): TreeMap<K, V> {
+        return TreeMap.intersectTrees(this, this.withSameOrder(other));
+    }
+
+    /**
+     * Returns the entries of this TreeMap whose keys are not in the other TreeMap.
+     * The difference is computed with split and join in O(m log(n/m + 1)).
+     * 
+     * @param other - the TreeMap with the keys to remove.
+     * @returns a new TreeMap without the keys of the other map.
+     */
+    subtract<VV>(other: TreeMap<K, VV>): TreeMap<K, V> {
+        return TreeMap.subtractTrees(this, this.withSameOrder(other));
     }
 
     // mergeDeep<KC, VC>(...collections: any[]): TreeMap<any, any> {
@@ -1764,6 +2083,91 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
         return found ? result : undefined;
     }
 
+    /**
+     * Returns the number of keys in the tree that are strictly less than the given key.
+     * The key does not have to be in the tree.
+     * 
+     * Complexity: O(log n) where n are the number of nodes in the tree.
+     * 
+     * @param key - the key to rank
+     * @returns the number of keys less than the given key
+     */
+    rank(key: K): number {
+        let rank = 0;
+        let current: TreeMap<K, V> = this;
+        while (!current.isEmpty()) {
+            const cmp = this.compare(key, current.key());
+            if (cmp <= 0) {
+                current = current.left();
+            } else {
+                rank += current.left()._size + 1;
+                current = current.right();
+            }
+        }
+        return rank;
+    }
+
+    /**
+     * Returns the key-value pair at the given index in key order.
+     * 
+     * Complexity: O(log n) where n are the number of nodes in the tree.
+     * 
+     * @param index - the zero-based position of the entry
+     * @returns the key-value pair at the given index
+     * @throws RangeError if the index is out of bounds
+     */
+    select(index: number): [K, V] {
+        if (!Number.isInteger(index) || index < 0 || index >= this._size) {
+            throw new RangeError("Index out of bounds");
+        }
+        let i = index;
+        let current: TreeMap<K, V> = this;
+        while (true) {
+            const leftSize = current.left()._size;
+            if (i < leftSize) {
+                current = current.left();
+            } else if (i > leftSize) {
+                i -= leftSize + 1;
+                current = current.right();
+            } else {
+                return current.keyValue();
+            }
+        }
+    }
+
+    /**
+     * Returns the key-value pair at the given index in key order, or undefined if the index is out of bounds.
+     * @param index - the zero-based position of the entry
+     * @returns the key-value pair at the given index or undefined
+     */
+    entryAt(index: number): [K, V] | undefined {
+        if (!Number.isInteger(index) || index < 0 || index >= this._size) return undefined;
+        return this.select(index);
+    }
+
+    /**
+     * Counts the keys in the range `[fromKey, toKey)`, matching the range used by rangeFromTo.
+     * 
+     * Complexity: O(log n) where n are the number of nodes in the tree.
+     * 
+     * @param fromKey - the key to start the range from (inclusive).
+     * @param toKey - the key to end the range at (exclusive).
+     * @returns the number of keys within the range
+     */
+    countRange(fromKey: K, toKey: K): number {
+        return Math.max(0, this.rank(toKey) - this.rank(fromKey));
+    }
+
+    /**
+     * Returns the median key-value pair.
+     * If the tree has an even number of entries, the lower of the two middle entries is returned.
+     * @returns the median key-value pair or undefined if the tree is empty
+     */
+    median(): [K, V] | undefined {
+        if (this.isEmpty()) return undefined;
+        return this.select(Math.floor((this._size - 1) / 2));
+    }
+
     /**
      * Returns the comparator function used for this TreeMap.
      * @returns the compare function for this tree
@@ -1783,59 +2187,225 @@ export default class TreeMap<K, V> extends AbstractSortedMap<K, V> implements So
         return super.cut(cutFunction, fromKey, toKey) as TreeMap<K, V>;
     }
 
+    /**
+     * Returns the same slice as `cut` for a cut function that does not decrease along the order of the keys,
+     * so that the entries with a cut value in the range are a range of the tree. Both ends are found by
+     * descending the tree, and the range is cut out with split and join, so it costs O(log n) and shares
+     * structure with this tree. The result is undefined for other cut functions, which need `cut`.
+     * @param cutFunction - a function that takes a key and returns a value to compare against.
+     * @param fromKey - the starting key for the cut operation (inclusive).
+     * @param toKey - the ending key for the cut operation (exclusive).
+     * @returns a new TreeMap containing only the entries that fall within the specified range.
+     */
+    monotoneCut(cutFunction: (compareToOther: K) => number, fromKey: K, toKey: K): TreeMap<K, V> {
+        const lower = cutFunction(fromKey);
+        const upper = cutFunction(toKey);
+        if (!(lower < upper)) return this.empty();
+        const first = this.firstCutAtLeast(cutFunction, lower);
+        if (first === undefined) return this.empty();
+        const end = this.firstCutAtLeast(cutFunction, upper);
+        const from = this.rangeFrom(first[0]);
+        return end === undefined ? from : from.split(end[0])[0];
+    }
+
+    /**
+     * Returns the entry with the smallest key whose cut value is greater than or equal to the bound,
+     * or undefined if there is none.
+     */
+    private firstCutAtLeast(cutFunction: (compareToOther: K) => number, bound: number): [K, V] | undefined {
+        let found: [K, V] | undefined = undefined;
+        let node: TreeMap<K, V> = this;
+        while (!node.isEmpty()) {
+            if (cutFunction(node.key()) >= bound) {
+                found = node.keyValue();
+                node = node.left();
+            } else {
+                node = node.right();
+            }
+        }
+        return found;
+    }
+
     /**
      * Returns a new TreeMap containing all entries from the specified key to the end of the TreeMap.
+     * The range is cut out with split and join, so it costs O(log n) and shares structure with this tree.
      * @param fromKey - the key to start the range from (inclusive).
      * @returns a new TreeMap containing all entries from the specified key to the end of the TreeMap.
      */
     rangeFrom(fromKey: K): TreeMap<K, V> {
-        return super.rangeFrom(fromKey) as TreeMap<K, V>;
+        const [, found, greater] = this.split(fromKey);
+        return found ? TreeMap.joinTrees(this.empty(), found, greater) : greater;
     }
 
     /**
      * Returns a new TreeMap containing all entries from the start of the TreeMap to the specified key.
-     * @param toKey - the key to end the range at (exclusive).
+     * The range is cut out with split and join, so it costs O(log n) and shares structure with this tree.
+     * @param toKey - the key to end the range at (inclusive).
      * @returns a new TreeMap containing all entries from the start of the TreeMap to the specified key.
      */
     rangeTo(toKey: K): TreeMap<K, V> {
-        return super.rangeTo(toKey) as TreeMap<K, V>;
+        const [less, found] = this.split(toKey);
+        return found ? TreeMap.joinTrees(less, found, this.empty()) : less;
     }
 
     /**
      * Returns a new TreeMap containing all entries from the specified range of keys.
      * This method includes the `fromKey` and excludes the `toKey`.
+     * The range is cut out with split and join, so it costs O(log n) and shares structure with this tree.
      * @param fromKey - the key to start the range from (inclusive).
      * @param toKey - the key to end the range at (exclusive).
      * @returns - a new TreeMap containing all entries from the specified range.
      */
     rangeFromTo(fromKey: K, toKey: K): TreeMap<K, V> {
-        return super.rangeFromTo(fromKey, toKey) as TreeMap<K, V>;
+        if (this.compare(fromKey, toKey) >= 0) return this.empty();
+        return this.rangeFrom(fromKey).split(toKey)[0];
     }
     
     /**
-     * Returns a new TreeMap containing all entries from the start of the TreeMap to the specified key.
+     * Removes all entries with keys greater than or equal to the given `fromKey`.
+     * Complexity: O(log n) where n are the number of nodes in the tree.
      * @param fromKey - the key to start the range from (inclusive).
-     * @returns - a new TreeMap containing all entries from the start of the TreeMap to the specified key.
+     * @returns - a new TreeMap containing all entries with keys less than the `fromKey`.
      */
     removeRangeFrom(fromKey: K): TreeMap<K, V> {
-        return super.removeRangeFrom(fromKey) as TreeMap<K, V>;
+        return this.split(fromKey)[0];
     }
     /**
-     * Removes all entries with keys less than or equal to the given `toKey`.
-     * @param toKey - the key to end the range at (inclusive).
-     * @returns - a new TreeMap containing all entries with keys greater than the `toKey`.
-     */ 
+     * Removes all entries with keys less than the given `toKey`.
+     * Complexity: O(log n) where n are the number of nodes in the tree.
+     * @param toKey - the key to end the range at (exclusive).
+     * @returns - a new TreeMap containing all entries with keys greater than or equal to the `toKey`.
+     */
     removeRangeTo(toKey: K): TreeMap<K, V> {
-        return super.removeRangeTo(toKey) as TreeMap<K, V>;
+        return this.rangeFrom(toKey);
     }
 
     /**
      * Removes all entries with keys in the range `[fromKey, toKey)`
+     * Complexity: O(log n) where n are the number of nodes in the tree.
      * @param fromKey - the key to start the range from (inclusive).
      * @param toKey - the key to end the range at (exclusive).
      * @returns - a new TreeMap containing all entries with keys outside the specified range.
      */
     removeRangeFromTo(fromKey: K, toKey: K): TreeMap<K, V> {
-        return super.removeRangeFromTo(fromKey, toKey) as TreeMap<K, V>;
+        if (this.compare(fromKey, toKey) >= 0) return this;
+        return TreeMap.concatTrees(this.split(fromKey)[0], this.rangeFrom(toKey));
+    }
+
+    /**
+     * Iterates over the entries with keys in the range, in ascending or descending order.
+     * The subtrees outside of the range are skipped, so iterating over k entries costs O(log n + k).
+     * @param range - the range of the keys, which must use the comparator of this tree.
+     * @param descending - iterates from the largest key if true.
+     */
+    *entriesInRange(range: Range<K>, descending: boolean = false): MapIterator<[K, V]> {
+        const afterLower = (key: K) => compareCuts(this.compare, range.lowerCut, below(key)) <= 0;
+        const beforeUpper = (key: K) => compareCuts(this.compare, below(key), range.upperCut) < 0;
+        const isStart = descending ? beforeUpper : afterLower;
+        const isEnd = descending ? afterLower : beforeUpper;
+
+        // the stack holds the nodes that are yet to be yielded, with the next one on top
+        const stack: TreeMap<K, V>[] = [];
+        const pushNear = (node: TreeMap<K, V>) => {
+            while (!node.isEmpty()) {
+                if (isStart(node.key())) {
+                    stack.push(node);
+                    node = descending ? node.right() : node.left();
+                } else {
+                    node = descending ? node.left() : node.right();
+                }
+            }
+        };
+        pushNear(this);
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            if (!isEnd(node.key())) return;
+            yield node.keyValue();
+            pushNear(descending ? node.left() : node.right());
+        }
+    }
+
+    /**
+     * Returns a view of the entries with keys from fromKey to toKey, which reads this tree without copying it.
+     * Complexity: O(1) to create the view.
+     * @param fromKey - the lower bound of the keys.
+     * @param fromInclusive - whether the view includes fromKey.
+     * @param toKey - the upper bound of the keys.
+     * @param toInclusive - whether the view includes toKey.
+     * @returns a view of the entries within the bounds.
+     * @throws RangeError if fromKey is greater than toKey.
+     */
+    subMap(fromKey: K, fromInclusive: boolean, toKey: K, toInclusive: boolean): TreeMapView<K, V> {
+        return TreeMapView.of(this).subMap(fromKey, fromInclusive, toKey, toInclusive);
+    }
+
+    /**
+     * Returns a view of the entries with keys less than toKey, or equal to it if inclusive is true.
+     * @param toKey - the upper bound of the keys.
+     * @param inclusive - whether the view includes toKey, false by default.
+     * @returns a view of the entries within the bound.
+     */
+    headMap(toKey: K, inclusive: boolean = false): TreeMapView<K, V> {
+        return TreeMapView.of(this).headMap(toKey, inclusive);
+    }
+
+    /**
+     * Returns a view of the entries with keys greater than fromKey, or equal to it if inclusive is true.
+     * @param fromKey - the lower bound of the keys.
+     * @param inclusive - whether the view includes fromKey, true by default.
+     * @returns a view of the entries within the bound.
+     */
+    tailMap(fromKey: K, inclusive: boolean = true): TreeMapView<K, V> {
+        return TreeMapView.of(this).tailMap(fromKey, inclusive);
+    }
+
+    /**
+     * Returns a view of the entries in descending order of the keys.
+     * @returns a view of the whole tree with the reversed comparator.
+     */
+    descendingMap(): TreeMapView<K, V> {
+        return TreeMapView.of(this).descendingMap();
+    }
+
+    /**
+     * Iterates lazily over the keys in descending order.
+     */
+    *descendingKeys(): IterableIterator<K> {
+        for (const [key] of this.entriesInRange(Range.all(this.compare), true)) yield key;
+    }
+
+    /**
+     * Returns a cursor at the entry with the key, or at the entry with the smallest key after it
+     * if the key is not in the map. The cursor is past the end if there is no such entry.
+     * Complexity: O(log n) to place the cursor, and O(1) amortized for each step.
+     * @param key - the key to place the cursor at.
+     * @returns a cursor over the entries of this tree.
+     */
+    cursorAt(key: K): TreeMapCursor<K, V> {
+        const cursor = new TreeMapCursor<K, V>(this, TreeMap.NODES);
+        cursor.seek(key);
+        return cursor;
+    }
+
+    /**
+     * Returns a cursor at the entry with the smallest key greater than the key.
+     * @param key - the key that the entry of the cursor comes after.
+     * @returns a cursor over the entries of this tree, which is past the end if there is no such entry.
+     */
+    cursorAfter(key: K): TreeMapCursor<K, V> {
+        const cursor = new TreeMapCursor<K, V>(this, TreeMap.NODES);
+        cursor.seekAfter(key);
+        return cursor;
+    }
+
+    /**
+     * Returns a cursor at the entry with the largest key less than the key.
+     * @param key - the key that the entry of the cursor comes before.
+     * @returns a cursor over the entries of this tree, which is before the start if there is no such entry.
+     */
+    cursorBefore(key: K): TreeMapCursor<K, V> {
+        const cursor = new TreeMapCursor<K, V>(this, TreeMap.NODES);
+        cursor.seekBefore(key);
+        return cursor;
     }
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+import Cursor from "../Interfaces/Cursor";
+import TreeMap from "./TreeMap";
+
+/**
+ * The access that a cursor needs to the nodes of a TreeMap, which the TreeMap hands to the cursor
+ * so that its subtrees stay private. `left` and `right` return null for an empty subtree.
+ */
+export interface TreeNodes<K, V> {
+    left(node: TreeMap<K, V>): TreeMap<K, V> | null;
+    right(node: TreeMap<K, V>): TreeMap<K, V> | null;
+    keyValue(node: TreeMap<K, V>): [K, V];
+}
+
+/**
+ * Where a cursor is when it is not at an entry.
+ */
+enum OffEnd {
+    BeforeStart = -1,
+    AfterEnd = 1,
+}
+
+/**
+ * TreeMapCursor is a bidirectional cursor over the entries of a TreeMap, created by `cursorAt`,
+ * `cursorAfter` and `cursorBefore`.
+ *
+ * The cursor keeps the path of nodes from the root of the tree to its entry on an explicit stack.
+ * A step goes down the leftmost or rightmost path of the next subtree, or up the stack to the nearest
+ * ancestor on the other side, so walking over k entries costs O(k) in total and a single step costs
+ * O(1) amortized, without recursion. Placing the cursor or seeking a key costs O(log n).
+ */
+export default class TreeMapCursor<K, V> implements Cursor<K, [K, V]> {
+    // the nodes from the root to the entry of the cursor, which is empty when the cursor is off the ends
+    private _path: TreeMap<K, V>[] = [];
+    private _offEnd: OffEnd = OffEnd.AfterEnd;
+
+    constructor(
+        private readonly _root: TreeMap<K, V>,
+        private readonly _nodes: TreeNodes<K, V>,
+    ) {}
+
+    private current(): TreeMap<K, V> | undefined {
+        return this._path[this._path.length - 1];
+    }
+
+    /**
+     * Descends from the root to the node with the smallest key after the key, or equal to it if inclusive is true.
+     * The path is cut back to that node, which is the last node on the way down where the search went left.
+     */
+    private toCeiling(key: K, inclusive: boolean): [K, V] | undefined {
+        const compare = this._root.getComparator();
+        const path: TreeMap<K, V>[] = [];
+        let found = 0;
+        let node = this._root.isEmpty() ? null : this._root;
+        while (node !== null) {
+            path.push(node);
+            const cmp = compare(this._nodes.keyValue(node)[0], key);
+            if (cmp > 0 || (inclusive && cmp === 0)) {
+                found = path.length;
+                if (cmp === 0) break;
+                node = this._nodes.left(node);
+            } else {
+                node = this._nodes.right(node);
+            }
+        }
+        path.length = found;
+        return this.moveTo(path, OffEnd.AfterEnd);
+    }
+
+    /**
+     * Descends from the root to the node with the largest key before the key, or equal to it if inclusive is true.
+     */
+    private toFloor(key: K, inclusive: boolean): [K, V] | undefined {
+        const compare = this._root.getComparator();
+        const path: TreeMap<K, V>[] = [];
+        let found = 0;
+        let node = this._root.isEmpty() ? null : this._root;
+        while (node !== null) {
+            path.push(node);
+            const cmp = compare(this._nodes.keyValue(node)[0], key);
+            if (cmp < 0 || (inclusive && cmp === 0)) {
+                found = path.length;
+                if (cmp === 0) break;
+                node = this._nodes.right(node);
+            } else {
+                node = this._nodes.left(node);
+            }
+        }
+        path.length = found;
+        return this.moveTo(path, OffEnd.BeforeStart);
+    }
+
+    private moveTo(path: TreeMap<K, V>[], offEnd: OffEnd): [K, V] | undefined {
+        this._path = path;
+        this._offEnd = offEnd;
+        return this.peek();
+    }
+
+    /**
+     * Pushes the node and then its left children, or its right children if toRight is true.
+     */
+    private pushSpine(node: TreeMap<K, V> | null, toRight: boolean): void {
+        while (node !== null) {
+            this._path.push(node);
+            node = toRight ? this._nodes.right(node) : this._nodes.left(node);
+        }
+    }
+
+    /**
+     * Moves one entry forwards, or backwards if backwards is true.
+     */
+    private step(backwards: boolean): [K, V] | undefined {
+        const near = (node: TreeMap<K, V>) => backwards ? this._nodes.left(node) : this._nodes.right(node);
+        const node = this.current();
+        if (node === undefined) {
+            // only the end that the cursor fell off leads back into the tree
+            const fromStart = this._offEnd === OffEnd.BeforeStart;
+            if (fromStart === backwards || this._root.isEmpty()) return undefined;
+            this.pushSpine(this._root, backwards);
+            return this.peek();
+        }
+        const child = near(node);
+        if (child !== null) {
+            // the next entry is at the far end of the subtree on the near side
+            this._path.push(child);
+            this.pushSpine(backwards ? this._nodes.right(child) : this._nodes.left(child), backwards);
+            return this.peek();
+        }
+        // otherwise it is the first ancestor that has the current entry on its far side
+        let last = this._path.pop()!;
+        while (this._path.length > 0) {
+            const parent = this.current()!;
+            if (near(parent) !== last) return this.peek();
+            last = this._path.pop()!;
+        }
+        this._offEnd = backwards ? OffEnd.BeforeStart : OffEnd.AfterEnd;
+        return undefined;
+    }
+
+    peek(): [K, V] | undefined {
+        const node = this.current();
+        return node === undefined ? undefined : this._nodes.keyValue(node);
+    }
+
+    /**
+     * Complexity: O(1) amortized
+     */
+    next(): [K, V] | undefined {
+        return this.step(false);
+    }
+
+    /**
+     * Complexity: O(1) amortized
+     */
+    prev(): [K, V] | undefined {
+        return this.step(true);
+    }
+
+    /**
+     * Complexity: O(log n)
+     */
+    seek(key: K): [K, V] | undefined {
+        return this.toCeiling(key, true);
+    }
+
+    /**
+     * Moves to the first entry with a key greater than the key and returns it,
+     * or returns undefined if there is none and the cursor moves past the end.
+     */
+    seekAfter(key: K): [K, V] | undefined {
+        return this.toCeiling(key, false);
+    }
+
+    /**
+     * Moves to the last entry with a key less than the key and returns it,
+     * or returns undefined if there is none and the cursor moves before the start.
+     */
+    seekBefore(key: K): [K, V] | undefined {
+        return this.toFloor(key, false);
+    }
+}
@@ -0,0 +1,639 @@
+import AbstractSortedMap from "../AbstractClasses/AbstractSortedMap";
+import { Speed } from "../Enums/Speed";
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import Map from "../Interfaces/Map";
+import NavigableMap from "../Interfaces/NavigableMap";
+import { ABOVE_ALL, above, BELOW_ALL, below, compareCuts, Cut, CutKind } from "../Ranges/Cut";
+import Range from "../Ranges/Range";
+import { Utils } from "../Utils/Utils";
+import TreeMap from "./TreeMap";
+
+/**
+ * Returns the entry of the map with the smallest key after the cut, or undefined if there is none.
+ */
+function ceilingEntry<K, V>(map: TreeMap<K, V>, cut: Cut<K>): [K, V] | undefined {
+    switch (cut.kind) {
+        case CutKind.BelowAll: return map.findMin();
+        case CutKind.Below: return map.weakSuccessor(cut.value);
+        case CutKind.Above: return map.has(cut.value) ? map.successor(cut.value) : map.weakSuccessor(cut.value);
+        case CutKind.AboveAll: return undefined;
+    }
+}
+
+/**
+ * Returns the entry of the map with the largest key before the cut, or undefined if there is none.
+ */
+function floorEntry<K, V>(map: TreeMap<K, V>, cut: Cut<K>): [K, V] | undefined {
+    switch (cut.kind) {
+        case CutKind.BelowAll: return undefined;
+        case CutKind.Below: return map.has(cut.value) ? map.predecessor(cut.value) : map.weakPredecessor(cut.value);
+        case CutKind.Above: return map.weakPredecessor(cut.value);
+        case CutKind.AboveAll: return map.findMax();
+    }
+}
+
+/**
+ * Counts the keys of the map that are before the cut.
+ */
+function countKeysBefore<K, V>(map: TreeMap<K, V>, cut: Cut<K>): number {
+    switch (cut.kind) {
+        case CutKind.BelowAll: return 0;
+        case CutKind.Below: return map.rank(cut.value);
+        case CutKind.Above: return map.rank(cut.value) + (map.has(cut.value) ? 1 : 0);
+        case CutKind.AboveAll: return map.size();
+    }
+}
+
+/**
+ * Returns the entries of the map with keys before the cut, sharing structure with the map.
+ */
+function headBefore<K, V>(map: TreeMap<K, V>, cut: Cut<K>): TreeMap<K, V> {
+    switch (cut.kind) {
+        case CutKind.BelowAll: return map.empty();
+        case CutKind.Below: return map.split(cut.value)[0];
+        case CutKind.Above: return map.rangeTo(cut.value);
+        case CutKind.AboveAll: return map;
+    }
+}
+
+/**
+ * Returns the entries of the map with keys after the cut, sharing structure with the map.
+ */
+function tailAfter<K, V>(map: TreeMap<K, V>, cut: Cut<K>): TreeMap<K, V> {
+    switch (cut.kind) {
+        case CutKind.BelowAll: return map;
+        case CutKind.Below: return map.rangeFrom(cut.value);
+        case CutKind.Above: return map.split(cut.value)[2];
+        case CutKind.AboveAll: return map.empty();
+    }
+}
+
+/**
+ * TreeMapView is a view of the entries of a TreeMap with keys in a range, in ascending or descending order.
+ * The views are created by `subMap`, `headMap`, `tailMap` and `descendingMap` on a TreeMap or on another view.
+ *
+ * A view holds the whole TreeMap and its bounds, so creating one is O(1) and nothing is copied. The lookups
+ * and the navigation methods find their answer in the tree and check it against the bounds in O(log n),
+ * iterating over k entries costs O(log n + k), and `size` and `rank` are computed from the ranks of the
+ * bounds in O(log n).
+ *
+ * Editing a view edits the TreeMap within the bounds and returns a view with the same bounds and order
+ * over the new TreeMap, which is available with `toTreeMap()` or `getMap()`. Setting a key outside of
+ * the bounds throws a RangeError.
+ *
+ * In a descending view, every method that depends on the order of the keys uses the reversed order:
+ * `findMin` returns the largest key, `successor` the next smaller key, and so on.
+ *
+ * @example
+ * const scores = TreeMap.of(TreeMap.defaultComparator, [10, "a"], [20, "b"], [30, "c"], [40, "d"]);
+ * const middle = scores.subMap(15, true, 40, false);
+ * middle.keys(); // [20, 30]
+ * middle.set(25, "x").getMap().keys(); // [10, 20, 25, 30, 40]
+ * scores.headMap(30, true).descendingMap().keys(); // [30, 20, 10]
+ */
+export default class TreeMapView<K, V> extends AbstractSortedMap<K, V> implements NavigableMap<K, V> {
+    private _hashCode: number | null = null;
+
+    private constructor(
+        private readonly _map: TreeMap<K, V>,
+        private readonly _range: Range<K>,
+        private readonly _descending: boolean,
+    ) {
+        super();
+    }
+
+    /**
+     * Creates an ascending view of the whole map.
+     */
+    static of<K, V>(map: TreeMap<K, V>): TreeMapView<K, V> {
+        return new TreeMapView<K, V>(map, Range.all(map.getComparator()), false);
+    }
+
+    private withMap(map: TreeMap<K, V>): TreeMapView<K, V> {
+        return map === this._map ? this : new TreeMapView<K, V>(map, this._range, this._descending);
+    }
+
+    private compareCuts(a: Cut<K>, b: Cut<K>): number {
+        return compareCuts(this._map.getComparator(), a, b);
+    }
+
+    /**
+     * Returns a view between the cuts, which must be within the bounds of this view.
+     * The view is empty if the cuts are crossed, which happens for (k, k).
+     */
+    private bounded(lower: Cut<K>, upper: Cut<K>): TreeMapView<K, V> {
+        const { lowerCut, upperCut } = this._range;
+        for (const cut of [lower, upper]) {
+            if (this.compareCuts(cut, lowerCut) < 0 || this.compareCuts(cut, upperCut) > 0) {
+                throw new RangeError(`The key is outside of the bounds ${this._range} of the view`);
+            }
+        }
+        return this.restricted(lower, upper);
+    }
+
+    /**
+     * Returns a view between the cuts, clamped to the bounds of this view.
+     */
+    private restricted(lower: Cut<K>, upper: Cut<K>): TreeMapView<K, V> {
+        const { lowerCut, upperCut } = this._range;
+        const from = this.compareCuts(lower, lowerCut) > 0 ? lower : lowerCut;
+        let to = this.compareCuts(upper, upperCut) < 0 ? upper : upperCut;
+        if (this.compareCuts(from, to) > 0) to = from;
+        const range = Range.fromCuts(from, to, this._map.getComparator());
+        return new TreeMapView<K, V>(this._map, range, this._descending);
+    }
+
+    /**
+     * Returns the entry with the smallest key in the view that is after the cut.
+     */
+    private ceiling(cut: Cut<K>): [K, V] | undefined {
+        const from = this.compareCuts(cut, this._range.lowerCut) > 0 ? cut : this._range.lowerCut;
+        const entry = ceilingEntry(this._map, from);
+        return entry !== undefined && this._range.contains(entry[0]) ? entry : undefined;
+    }
+
+    /**
+     * Returns the entry with the largest key in the view that is before the cut.
+     */
+    private floor(cut: Cut<K>): [K, V] | undefined {
+        const to = this.compareCuts(cut, this._range.upperCut) < 0 ? cut : this._range.upperCut;
+        const entry = floorEntry(this._map, to);
+        return entry !== undefined && this._range.contains(entry[0]) ? entry : undefined;
+    }
+
+    /**
+     * Returns the first entry after the key in the order of the view, or at the key if inclusive is true.
+     */
+    private next(key: K, inclusive: boolean): [K, V] | undefined {
+        if (this._descending) return this.floor(inclusive ? above(key) : below(key));
+        return this.ceiling(inclusive ? below(key) : above(key));
+    }
+
+    /**
+     * Returns the last entry before the key in the order of the view, or at the key if inclusive is true.
+     */
+    private previous(key: K, inclusive: boolean): [K, V] | undefined {
+        if (this._descending) return this.ceiling(inclusive ? below(key) : above(key));
+        return this.floor(inclusive ? above(key) : below(key));
+    }
+
+    /**
+     * Counts the keys of the view that are before the cut in ascending order.
+     */
+    private countBefore(cut: Cut<K>): number {
+        const { lowerCut, upperCut } = this._range;
+        if (this.compareCuts(cut, lowerCut) <= 0) return 0;
+        const to = this.compareCuts(cut, upperCut) < 0 ? cut : upperCut;
+        return countKeysBefore(this._map, to) - countKeysBefore(this._map, lowerCut);
+    }
+
+    *[Symbol.iterator](): MapIterator<[K, V]> {
+        yield* this._map.entriesInRange(this._range, this._descending);
+    }
+
+    /**
+     * Returns the TreeMap that the view reads, including the entries outside of the bounds.
+     */
+    getMap(): TreeMap<K, V> {
+        return this._map;
+    }
+
+    /**
+     * Returns the bounds of the view, in the ascending order of the TreeMap.
+     */
+    getRange(): Range<K> {
+        return this._range;
+    }
+
+    isDescending(): boolean {
+        return this._descending;
+    }
+
+    /**
+     * Copies the entries of the view into a new TreeMap, which is ordered like the view.
+     */
+    toTreeMap(): TreeMap<K, V> {
+        return new TreeMap<K, V>(this.getComparator()).setAll(this);
+    }
+
+    /**
+     * Returns the first entry of the view, or null if the view is empty.
+     */
+    getRoot(): [K, V] | null {
+        return this.findMin() ?? null;
+    }
+
+    /**
+     * Returns the comparator of the TreeMap, which is reversed for a descending view.
+     */
+    getComparator(): Comparator<K> {
+        const compare = this._map.getComparator();
+        return this._descending ? (a, b) => compare(b, a) : compare;
+    }
+
+    /**
+     * Returns the number of entries in the view.
+     *
+     * Complexity: O(log n)
+     */
+    size(): number {
+        return countKeysBefore(this._map, this._range.upperCut) - countKeysBefore(this._map, this._range.lowerCut);
+    }
+
+    isEmpty(): boolean {
+        return this.ceiling(BELOW_ALL) === undefined;
+    }
+
+    get(key: K): V | undefined {
+        return this._range.contains(key) ? this._map.get(key) : undefined;
+    }
+
+    has(key: K): boolean {
+        return this._range.contains(key) && this._map.has(key);
+    }
+
+    /**
+     * Sets the value of the key in the TreeMap, and returns a view of the new TreeMap with the same bounds.
+     * @throws {RangeError} if the key is outside of the bounds of the view.
+     */
+    set(key: K, value: V): TreeMapView<K, V> {
+        if (!this._range.contains(key)) throw new RangeError(`Key ${key} is outside of the bounds ${this._range}`);
+        return this.withMap(this._map.set(key, value));
+    }
+
+    setAll(entries: Iterable<[K, V]>): TreeMapView<K, V> {
+        let view: TreeMapView<K, V> = this;
+        for (const [key, value] of entries) view = view.set(key, value);
+        return view;
+    }
+
+    /**
+     * Deletes the key from the TreeMap. A key outside of the bounds is ignored.
+     */
+    delete(key: K): TreeMapView<K, V> {
+        return this.has(key) ? this.withMap(this._map.delete(key)) : this;
+    }
+
+    deleteAll(keys: Iterable<K>): TreeMapView<K, V> {
+        return super.deleteAll(keys) as TreeMapView<K, V>;
+    }
+
+    /**
+     * Deletes every entry of the view from the TreeMap, keeping the entries outside of the bounds.
+     *
+     * Complexity: O(log n)
+     */
+    clear(): TreeMapView<K, V> {
+        if (this.isEmpty()) return this;
+        const before = headBefore(this._map, this._range.lowerCut);
+        const after = tailAfter(this._map, this._range.upperCut);
+        const min = after.findMin();
+        return this.withMap(min === undefined ? before : TreeMap.join(before, min, after.deleteMin()));
+    }
+
+    /**
+     * The results of `map`, `mapKeys`, `flip` and the other HOFs that create new entries are TreeMaps
+     * ordered like the view. `filter` and `partition` return views.
+     */
+    protected createEmpty<KM, VM>(compare?: Comparator<KM>): TreeMap<KM, VM> {
+        return new TreeMap<KM, VM>(compare ?? (this.getComparator() as unknown as Comparator<KM>));
+    }
+
+    copyOf(map: Map<K, V>): TreeMap<K, V> {
+        return new TreeMap<K, V>(this.getComparator()).setAll(map);
+    }
+
+    /**
+     * Returns a view of the entries with keys from fromKey to toKey, in the order of this view.
+     * @throws {RangeError} if fromKey comes after toKey, or a key is outside of the bounds of this view.
+     */
+    subMap(fromKey: K, fromInclusive: boolean, toKey: K, toInclusive: boolean): TreeMapView<K, V> {
+        if (this.getComparator()(fromKey, toKey) > 0) {
+            throw new RangeError(`fromKey ${fromKey} comes after toKey ${toKey}`);
+        }
+        if (this._descending) {
+            return this.bounded(toInclusive ? below(toKey) : above(toKey), fromInclusive ? above(fromKey) : below(fromKey));
+        }
+        return this.bounded(fromInclusive ? below(fromKey) : above(fromKey), toInclusive ? above(toKey) : below(toKey));
+    }
+
+    /**
+     * Returns a view of the entries with keys before toKey in the order of this view, or up to toKey if inclusive is true.
+     * @throws {RangeError} if toKey is outside of the bounds of this view.
+     */
+    headMap(toKey: K, inclusive: boolean = false): TreeMapView<K, V> {
+        if (this._descending) return this.bounded(inclusive ? below(toKey) : above(toKey), this._range.upperCut);
+        return this.bounded(this._range.lowerCut, inclusive ? above(toKey) : below(toKey));
+    }
+
+    /**
+     * Returns a view of the entries with keys from fromKey in the order of this view, or after fromKey if inclusive is false.
+     * @throws {RangeError} if fromKey is outside of the bounds of this view.
+     */
+    tailMap(fromKey: K, inclusive: boolean = true): TreeMapView<K, V> {
+        if (this._descending) return this.bounded(this._range.lowerCut, inclusive ? above(fromKey) : below(fromKey));
+        return this.bounded(inclusive ? below(fromKey) : above(fromKey), this._range.upperCut);
+    }
+
+    descendingMap(): TreeMapView<K, V> {
+        return new TreeMapView<K, V>(this._map, this._range, !this._descending);
+    }
+
+    *descendingKeys(): IterableIterator<K> {
+        for (const [key] of this._map.entriesInRange(this._range, !this._descending)) yield key;
+    }
+
+    /**
+     * Returns the first entry of the view, or the first entry at or after the key in the order of the view.
+     */
+    findMin(key?: K): [K, V] | undefined {
+        if (key !== undefined) return this.next(key, true);
+        return this._descending ? this.floor(ABOVE_ALL) : this.ceiling(BELOW_ALL);
+    }
+
+    /**
+     * Returns the last entry of the view, or the last entry at or before the key in the order of the view.
+     */
+    findMax(key?: K): [K, V] | undefined {
+        if (key !== undefined) return this.previous(key, true);
+        return this._descending ? this.ceiling(BELOW_ALL) : this.floor(ABOVE_ALL);
+    }
+
+    deleteMin(): TreeMapView<K, V> {
+        const min = this.findMin();
+        return min === undefined ? this : this.delete(min[0]);
+    }
+
+    deleteMax(): TreeMapView<K, V> {
+        const max = this.findMax();
+        return max === undefined ? this : this.delete(max[0]);
+    }
+
+    /**
+     * Returns the entry before the key in the order of the view.
+     * Like in TreeMap, the key must be in the view, or [false, undefined] is returned.
+     */
+    tryPredecessor(key: K): [boolean, [K, V] | undefined] {
+        if (!this.has(key)) return [false, undefined];
+        const pred = this.previous(key, false);
+        return [pred !== undefined, pred];
+    }
+
+    /**
+     * Returns the entry after the key in the order of the view.
+     * Like in TreeMap, the key must be in the view, or [false, undefined] is returned.
+     */
+    trySuccessor(key: K): [boolean, [K, V] | undefined] {
+        if (!this.has(key)) return [false, undefined];
+        const succ = this.next(key, false);
+        return [succ !== undefined, succ];
+    }
+
+    tryWeakPredecessor(key: K): [boolean, [K, V] | undefined] {
+        const pred = this.previous(key, true);
+        return [pred !== undefined, pred];
+    }
+
+    tryWeakSuccessor(key: K): [boolean, [K, V] | undefined] {
+        const succ = this.next(key, true);
+        return [succ !== undefined, succ];
+    }
+
+    predecessor(key: K): [K, V] | undefined {
+        return this.tryPredecessor(key)[1];
+    }
+
+    successor(key: K): [K, V] | undefined {
+        return this.trySuccessor(key)[1];
+    }
+
+    weakSuccessor(key: K): [K, V] | undefined {
+        return this.tryWeakSuccessor(key)[1];
+    }
+
+    weakPredecessor(key: K): [K, V] | undefined {
+        return this.tryWeakPredecessor(key)[1];
+    }
+
+    /**
+     * Returns the number of keys of the view that come before the key in the order of the view.
+     *
+     * Complexity: O(log n)
+     */
+    rank(key: K): number {
+        if (this._descending) return this.size() - this.countBefore(above(key));
+        return this.countBefore(below(key));
+    }
+
+    /**
+     * Returns the entry at the index in the order of the view.
+     *
+     * Complexity: O(log n)
+     * @throws {RangeError} if the index is out of bounds.
+     */
+    select(index: number): [K, V] {
+        const size = this.size();
+        if (!Number.isInteger(index) || index < 0 || index >= size) {
+            throw new RangeError("Index out of bounds");
+        }
+        const offset = countKeysBefore(this._map, this._range.lowerCut);
+        return this._map.select(this._descending ? offset + size - 1 - index : offset + index);
+    }
+
+    entryAt(index: number): [K, V] | undefined {
+        if (!Number.isInteger(index) || index < 0 || index >= this.size()) return undefined;
+        return this.select(index);
+    }
+
+    /**
+     * Counts the keys of the view in the range `[fromKey, toKey)`, in the order of the view.
+     */
+    countRange(fromKey: K, toKey: K): number {
+        return Math.max(0, this.rank(toKey) - this.rank(fromKey));
+    }
+
+    /**
+     * Returns the median entry, which is the lower of the two middle entries for an even size.
+     */
+    median(): [K, V] | undefined {
+        return this.entryAt(Math.floor((this.size() - 1) / 2));
+    }
+
+    /**
+     * Returns a view of the entries with keys greater than or equal to the key, in the order of the view.
+     */
+    rangeFrom(fromKey: K): TreeMapView<K, V> {
+        if (this._descending) return this.restricted(BELOW_ALL, above(fromKey));
+        return this.restricted(below(fromKey), ABOVE_ALL);
+    }
+
+    /**
+     * Returns a view of the entries with keys less than or equal to the key, in the order of the view.
+     */
+    rangeTo(toKey: K): TreeMapView<K, V> {
+        if (this._descending) return this.restricted(below(toKey), ABOVE_ALL);
+        return this.restricted(BELOW_ALL, above(toKey));
+    }
+
+    /**
+     * Returns a view of the entries with keys in the range `[fromKey, toKey)`, in the order of the view.
+     */
+    rangeFromTo(fromKey: K, toKey: K): TreeMapView<K, V> {
+        if (this.getComparator()(fromKey, toKey) >= 0) return this.restricted(this._range.lowerCut, this._range.lowerCut);
+        if (this._descending) return this.restricted(above(toKey), above(fromKey));
+        return this.restricted(below(fromKey), below(toKey));
+    }
+
+    /**
+     * Removes the entries with keys greater than or equal to the key, in the order of the view.
+     */
+    removeRangeFrom(fromKey: K): TreeMapView<K, V> {
+        return this.withMap(this.rangeFrom(fromKey).clear()._map);
+    }
+
+    /**
+     * Removes the entries with keys less than the key, in the order of the view.
+     */
+    removeRangeTo(toKey: K): TreeMapView<K, V> {
+        const less = this._descending ? this.restricted(above(toKey), ABOVE_ALL) : this.restricted(BELOW_ALL, below(toKey));
+        return this.withMap(less.clear()._map);
+    }
+
+    /**
+     * Removes the entries with keys in the range `[fromKey, toKey)`, in the order of the view.
+     */
+    removeRangeFromTo(fromKey: K, toKey: K): TreeMapView<K, V> {
+        return this.withMap(this.rangeFromTo(fromKey, toKey).clear()._map);
+    }
+
+    /**
+     * Copies the entries into a TreeMap ordered by the comparator, or by the order of the view.
+     */
+    sort(compare?: Comparator<K>): TreeMap<K, V> {
+        return new TreeMap<K, V>(compare ?? this.getComparator()).setAll(this);
+    }
+
+    /**
+     * Returns a TreeMap with the keys that the mapper computes from the entries, ordered by the comparator.
+     */
+    sortBy<C>(
+        comparatorValueMapper: (value: V, key: K, map: this) => C,
+        compare?: Comparator<C>
+    ): TreeMap<K | C, V> {
+        const order = (compare ?? TreeMap.defaultComparator<C>) as Comparator<K | C>;
+        let tree = new TreeMap<K | C, V>(order);
+        for (const [key, value] of this) {
+            tree = tree.set(comparatorValueMapper(value, key, this), value);
+        }
+        return tree;
+    }
+
+    /**
+     * Deletes the entries of the view that do not satisfy the predicate from the TreeMap.
+     */
+    filter<F extends V>(predicate: (value: V, key: K, map: this) => value is F, thisArg?: unknown): TreeMapView<K, F>;
+    filter(predicate: (value: V, key: K, map: this) => unknown, thisArg?: unknown): TreeMapView<K, V>;
+    filter(predicate: (value: V, key: K, map: this) => unknown, thisArg?: unknown): TreeMapView<K, any> {
+        let map = this._map;
+        for (const [key, value] of this) {
+            if (!predicate.call(thisArg, value, key, this)) map = map.delete(key);
+        }
+        return this.withMap(map);
+    }
+
+    partition<F extends V, C>(
+        predicate: (this: C, value: V, key: K, map: this) => value is F,
+        thisArg?: C
+    ): [TreeMapView<K, V>, TreeMapView<K, F>];
+    partition<C>(
+        predicate: (this: C, value: V, key: K, map: this) => unknown,
+        thisArg?: C
+    ): [TreeMapView<K, V>, TreeMapView<K, V>];
+    partition(
+        predicate: (value: V, key: K, map: this) => unknown,
+        thisArg?: unknown
+    ): [TreeMapView<K, V>, TreeMapView<K, V>] {
+        let trueMap = this._map;
+        let falseMap = this._map;
+        for (const [key, value] of this) {
+            if (predicate.call(thisArg, value, key, this)) {
+                falseMap = falseMap.delete(key);
+            } else {
+                trueMap = trueMap.delete(key);
+            }
+        }
+        return [this.withMap(trueMap), this.withMap(falseMap)];
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    /**
+     * Checks if the other object is a view with the same entries in the same order.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TreeMapView)) return false;
+        const other = o as TreeMapView<K, V>;
+        if (this.size() !== other.size()) return false;
+        const compare = this.getComparator();
+        const iter = other[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (compare(key, otherKey) !== 0 || !Utils.equals(value, otherValue)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes a hash code from the entries in the order of the view, like the hash code of a TreeMap.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 1;
+            for (const [key, value] of this) {
+                const entryHash = 31 * HashCode.hashCode(key) + HashCode.hashCode(value);
+                hash = 31 * hash + entryHash;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    /**
+     * Compares the sizes, and then the entries in the order of the view.
+     */
+    compareTo(o: TreeMapView<K, V>): number {
+        if (this === o) return 0;
+        const sizeDiff = this.size() - o.size();
+        if (sizeDiff !== 0) return sizeDiff;
+        const compare = this.getComparator();
+        const iter = o[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            const keyCompare = compare(key, otherKey);
+            if (keyCompare !== 0) return keyCompare;
+            if (value < otherValue) return -1;
+            if (value > otherValue) return 1;
+        }
+        return 0;
+    }
+
+    /**
+     * Returns a string representation of the view, in the order of the view.
+     */
+    toString(): string {
+        return `{${Array.from(this, ([key, value]) => `${key}: ${value}`).join(", ")}}`;
+    }
+}
@@ -1,9 +1,11 @@
 import HashCode from '../Hashing/HashCode';
 import TreeMap from './TreeMap';
 import {Comparator} from '../Interfaces/Comparator';
-import SortedSet from '../Interfaces/SortedSet';
+import NavigableSet from '../Interfaces/NavigableSet';
 import { Speed } from '../Enums/Speed';
 import AbstractSortedSet from '../AbstractClasses/AbstractSortedSet';
+import TreeSetView from './TreeSetView';
+import TreeSetCursor from './TreeSetCursor';
 
 /**
  * A TreeSet is a sorted set that uses a TreeMap internally to store the elements.
@@ -12,7 +14,7 @@ import AbstractSortedSet from '../AbstractClasses/AbstractSortedSet';
  * states that the number of black nodes from the root to any leaf node is the same. This is also known as the height (black height) of the tree.
  * A red-black tree should also be a binary search tree, and the tree is ordered according to the comparator provided. 
  */
-export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSet<T> {
+export default class TreeSet<T> extends AbstractSortedSet<T> implements NavigableSet<T> {
     private _hashCode: number | null = null;
     readonly _map: TreeMap<T, undefined>;
 
@@ -328,6 +330,13 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
         return str;
     }
 
+    /**
+     * Returns the values in order as an array, which is what `JSON.stringify` writes for the set.
+     */
+    toJSON(): T[] {
+        return this.toArray();
+    }
+
     // Higher Order Functions
 
     /**
@@ -462,11 +471,18 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * Returns a new TreeSet representing the union of the current set with the provided collections.
      * All elements of the current set and each iterable is added to the new set.
      * Semantically the same as the merge and concat methods.
+     * 
+     * Each collection is united with the set using split and join, which is O(m log(n/m + 1))
+     * where m is the size of the smaller set. Collections that are not a TreeSet are first built into one.
      * @param collections one or more iterables to be added to the set.
      * @returns a new TreeSet containing all the distinct elements from the current set and the provided collections.
      */
     union<C>(...collections: Array<Iterable<C>>): TreeSet<T | C> {
-        return super.union(...collections) as TreeSet<T | C>;
+        let map = this._map as TreeMap<T | C, undefined>;
+        for (const collection of collections) {
+            map = map.union(this.toTreeMap(collection as Iterable<T | C>));
+        }
+        return new TreeSet<T | C>(this.compare as Comparator<T | C>, map);
     }
     /**
      * Returns a new TreeSet representing the union of the current set with the provided collections.
@@ -494,27 +510,51 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * Returns a new set representing only the elements that are present in the current set
      * and in every one of the provided collections.
      * 
-     * Method iterates over each element in the current set and checks whether it exists in all of the provided collections.
-     * If an element is found in all the collections, it is added to the resulting set.
+     * The intersection with each collection is computed with split and join in O(m log(n/m + 1)).
+     * Collections that are not a TreeSet are first built into one.
      * @param collections One or more iterables whose elements must be present in the current set to be included in the intersection.
      * @returns a new TreeSet representing the insertion of the current set with the provided collections.
      */
     intersect(...collections: Array<Iterable<T>>): TreeSet<T> {
-        return super.intersect(...collections) as TreeSet<T>;
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.intersect(this.toTreeMap(collection));
+        }
+        return new TreeSet<T>(this.compare, map);
     }
 
     /**
      * Returns a new TreeSet with all the elements from the provided collections removed.
      * 
      * The method subtracts each element found in the provieded iterables from the current set.
-     * For each element in each collection, if it exists in the current set it is removed.
+     * The difference with each collection is computed with split and join in O(m log(n/m + 1)).
+     * Collections that are not a TreeSet are first built into one.
      * The original TreeSet remains unchanged and a new TreeSet is returned.
      * 
      * @param collections One ore more iterables whose elements should be removed from the current set.
      * @returns A new set containing the elements of the current set excluding those found in the provided collections.
      */
     subtract(...collections: Array<Iterable<T>>): TreeSet<T> {
-        return super.subtract(...collections) as TreeSet<T>;
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.subtract(this.toTreeMap(collection));
+        }
+        return new TreeSet<T>(this.compare, map);
+    }
+
+    /**
+     * Helper method to get the TreeMap of a collection for the set operations.
+     * A TreeSet gives its own map, and any other iterable is added to a new map with the comparator of this set.
+     * @param collection the collection to get the TreeMap of.
+     * @returns a TreeMap with the elements of the collection as keys.
+     */
+    private toTreeMap<E>(collection: Iterable<E>): TreeMap<E, undefined> {
+        if (collection instanceof TreeSet) return collection._map;
+        let map = new TreeMap<E, undefined>(this.compare as unknown as Comparator<E>);
+        for (const value of collection) {
+            map = map.set(value, undefined);
+        }
+        return map;
     }
 
     /**
@@ -830,6 +870,54 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
         return found ? result : undefined;
     }
 
+    /**
+     * Returns the number of elements in the set that are strictly less than the given value.
+     * The value does not have to be in the set.
+     * @param value - the value to rank
+     * @returns the number of elements less than the given value
+     */
+    rank(value: T): number {
+        return this._map.rank(value);
+    }
+
+    /**
+     * Returns the element at the given index in sorted order.
+     * @param index - the zero-based position of the element
+     * @returns the element at the given index
+     * @throws RangeError if the index is out of bounds
+     */
+    select(index: number): T {
+        return this._map.select(index)[0];
+    }
+
+    /**
+     * Returns the element at the given index in sorted order, or undefined if the index is out of bounds.
+     * @param index - the zero-based position of the element
+     * @returns the element at the given index or undefined
+     */
+    entryAt(index: number): T | undefined {
+        return this._map.entryAt(index)?.[0];
+    }
+
+    /**
+     * Counts the elements in the range from the provided fromValue inclusive to the provided toValue exclusive.
+     * @param fromValue The value to count from (inclusive).
+     * @param toValue The value to count to (exclusive).
+     * @returns the number of elements within the range
+     */
+    countRange(fromValue: T, toValue: T): number {
+        return this._map.countRange(fromValue, toValue);
+    }
+
+    /**
+     * Returns the median element of the set.
+     * If the set has an even number of elements, the lower of the two middle elements is returned.
+     * @returns the median element or undefined if the set is empty
+     */
+    median(): T | undefined {
+        return this._map.median()?.[0];
+    }
+
     /**
      * Partition the set based on a provided cut function by selecting only the elements whose computed
      * cut value falls between two threshold values.
@@ -841,7 +929,19 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * cutFunction(fromValue) and less than cutFunction(toValue).
      */
     cut(cutFunction: (compareToOther: T) => number, fromValue: T, toValue: T): TreeSet<T> {
-        return super.cut(cutFunction, fromValue, toValue) as TreeSet<T>;
+        return new TreeSet<T>(this.compare, this._map.cut(cutFunction, fromValue, toValue));
+    }
+
+    /**
+     * Returns the same elements as `cut` for a cut function that does not decrease along the order of the set.
+     * The range is then cut out of the tree with split and join, so it costs O(log n) and shares structure with
+     * this set. The result is undefined for other cut functions, which need `cut`.
+     * @param cutFunction that computes a numerical value for an element of type T.
+     * @param fromValue The lower threshold value inclusive. The result of cutFunction(fromValue) sets the lower bound.
+     * @param toValue The upper threshold value non-inclusive. The result of cutFunction(toValue) sets the upper bound.
+     */
+    monotoneCut(cutFunction: (compareToOther: T) => number, fromValue: T, toValue: T): TreeSet<T> {
+        return new TreeSet<T>(this.compare, this._map.monotoneCut(cutFunction, fromValue, toValue));
     }
 
     /**
@@ -850,7 +950,7 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * @returns a TreeSet starting from the provided value to the maximum value in the set.
      */
     rangeFrom(fromValue: T): TreeSet<T> {
-        return super.rangeFrom(fromValue) as TreeSet<T>;
+        return new TreeSet<T>(this.compare, this._map.rangeFrom(fromValue));
     }
 
     /**
@@ -859,7 +959,7 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * @returns a TreeSet starting from the minimum value in the set to the provided value.
      */
     rangeTo(toValue: T): TreeSet<T> {
-        return super.rangeTo(toValue) as TreeSet<T>;
+        return new TreeSet<T>(this.compare, this._map.split(toValue)[0]);
     }
 
     /**
@@ -868,8 +968,8 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * @param toValue The value to create the range to (exclusive).
      * @returns a TreeSet starting from the provided fromValue to the provided toValue.
      */
-    rangeFromTo(fromValue: T, toValue: T): TreeSet<T>  {
-        return super.rangeFromTo(fromValue, toValue) as TreeSet<T>;
+    rangeFromTo(fromValue: T, toValue: T): TreeSet<T> {
+        return new TreeSet<T>(this.compare, this._map.rangeFromTo(fromValue, toValue));
     }
 
     /**
@@ -879,7 +979,7 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * @returns a TreeSet where all the elements from the value are removed. 
      */
     removeRangeFrom(fromValue: T): TreeSet<T> {
-        return super.removeRangeFrom(fromValue) as TreeSet<T>;
+        return new TreeSet<T>(this.compare, this._map.removeRangeFrom(fromValue));
     }
 
     /**
@@ -888,7 +988,7 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * @returns a TreeSet where all the elements up to the value are removed.
      */
     removeRangeTo(toValue: T): TreeSet<T> {
-        return super.removeRangeTo(toValue) as TreeSet<T>;
+        return new TreeSet<T>(this.compare, this._map.removeRangeTo(toValue));
     }
 
     /**
@@ -899,7 +999,77 @@ export default class TreeSet<T> extends AbstractSortedSet<T> implements SortedSe
      * @returns a TreeSet with all the elements in the range removed.
      */
     removeRangeFromTo(fromValue: T, toValue: T): TreeSet<T> {
-        return super.removeRangeFromTo(fromValue, toValue) as TreeSet<T>;
+        return new TreeSet<T>(this.compare, this._map.removeRangeFromTo(fromValue, toValue));
+    }
+
+    /**
+     * Returns a view of the values from fromValue to toValue, which reads this set without copying it.
+     * Complexity: O(1) to create the view.
+     * @param fromValue - the lower bound of the values.
+     * @param fromInclusive - whether the view includes fromValue.
+     * @param toValue - the upper bound of the values.
+     * @param toInclusive - whether the view includes toValue.
+     * @returns a view of the values within the bounds.
+     * @throws RangeError if fromValue is greater than toValue.
+     */
+    subSet(fromValue: T, fromInclusive: boolean, toValue: T, toInclusive: boolean): TreeSetView<T> {
+        return TreeSetView.of(this).subSet(fromValue, fromInclusive, toValue, toInclusive);
+    }
+
+    /**
+     * Returns a view of the values less than toValue, or equal to it if inclusive is true.
+     * @param toValue - the upper bound of the values.
+     * @param inclusive - whether the view includes toValue, false by default.
+     * @returns a view of the values within the bound.
+     */
+    headSet(toValue: T, inclusive: boolean = false): TreeSetView<T> {
+        return TreeSetView.of(this).headSet(toValue, inclusive);
+    }
+
+    /**
+     * Returns a view of the values greater than fromValue, or equal to it if inclusive is true.
+     * @param fromValue - the lower bound of the values.
+     * @param inclusive - whether the view includes fromValue, true by default.
+     * @returns a view of the values within the bound.
+     */
+    tailSet(fromValue: T, inclusive: boolean = true): TreeSetView<T> {
+        return TreeSetView.of(this).tailSet(fromValue, inclusive);
+    }
+
+    /**
+     * Returns a view of the values in descending order.
+     * @returns a view of the whole set with the reversed comparator.
+     */
+    descendingSet(): TreeSetView<T> {
+        return TreeSetView.of(this).descendingSet();
+    }
+
+    /**
+     * Returns a cursor at the value, or at the smallest value after it if the value is not in the set.
+     * Complexity: O(log n) to place the cursor, and O(1) amortized for each step.
+     * @param value - the value to place the cursor at.
+     * @returns a cursor over the values of this set, which is past the end if there is no such value.
+     */
+    cursorAt(value: T): TreeSetCursor<T> {
+        return new TreeSetCursor<T>(this._map.cursorAt(value));
+    }
+
+    /**
+     * Returns a cursor at the smallest value greater than the value.
+     * @param value - the value that the value of the cursor comes after.
+     * @returns a cursor over the values of this set, which is past the end if there is no such value.
+     */
+    cursorAfter(value: T): TreeSetCursor<T> {
+        return new TreeSetCursor<T>(this._map.cursorAfter(value));
+    }
+
+    /**
+     * Returns a cursor at the largest value less than the value.
+     * @param value - the value that the value of the cursor comes before.
+     * @returns a cursor over the values of this set, which is before the start if there is no such value.
+     */
+    cursorBefore(value: T): TreeSetCursor<T> {
+        return new TreeSetCursor<T>(this._map.cursorBefore(value));
     }
 
     // Helper methods
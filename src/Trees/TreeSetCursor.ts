@@ -0,0 +1,43 @@
+import Cursor from "../Interfaces/Cursor";
+import TreeMapCursor from "./TreeMapCursor";
+
+/**
+ * TreeSetCursor is a bidirectional cursor over the values of a TreeSet, created by `cursorAt`,
+ * `cursorAfter` and `cursorBefore`. It is a wrapper around a cursor over the map inside the TreeSet,
+ * so a step costs O(1) amortized and placing the cursor costs O(log n).
+ */
+export default class TreeSetCursor<T> implements Cursor<T, T> {
+    constructor(private readonly _cursor: TreeMapCursor<T, undefined>) {}
+
+    peek(): T | undefined {
+        return this._cursor.peek()?.[0];
+    }
+
+    next(): T | undefined {
+        return this._cursor.next()?.[0];
+    }
+
+    prev(): T | undefined {
+        return this._cursor.prev()?.[0];
+    }
+
+    seek(value: T): T | undefined {
+        return this._cursor.seek(value)?.[0];
+    }
+
+    /**
+     * Moves to the first value greater than the value and returns it,
+     * or returns undefined if there is none and the cursor moves past the end.
+     */
+    seekAfter(value: T): T | undefined {
+        return this._cursor.seekAfter(value)?.[0];
+    }
+
+    /**
+     * Moves to the last value less than the value and returns it,
+     * or returns undefined if there is none and the cursor moves before the start.
+     */
+    seekBefore(value: T): T | undefined {
+        return this._cursor.seekBefore(value)?.[0];
+    }
+}
@@ -0,0 +1,345 @@
+import AbstractSortedSet from "../AbstractClasses/AbstractSortedSet";
+import { Speed } from "../Enums/Speed";
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import NavigableSet from "../Interfaces/NavigableSet";
+import Range from "../Ranges/Range";
+import TreeMapView from "./TreeMapView";
+import TreeSet from "./TreeSet";
+
+/**
+ * TreeSetView is a view of the values of a TreeSet in a range, in ascending or descending order.
+ * The views are created by `subSet`, `headSet`, `tailSet` and `descendingSet` on a TreeSet or on another view,
+ * and are a wrapper around a TreeMapView of the map inside the TreeSet.
+ *
+ * Creating a view is O(1) and copies nothing, `size` and `rank` are O(log n), and iterating over k values
+ * costs O(log n + k). Editing a view edits the TreeSet within the bounds and returns a view with the same
+ * bounds over the new TreeSet, which is available with `getSet()`. Adding a value outside of the bounds
+ * throws a RangeError.
+ *
+ * @example
+ * const set = TreeSet.of(TreeSet.defaultComparator, 1, 2, 3, 4, 5);
+ * set.subSet(2, true, 4, true).toArray(); // [2, 3, 4]
+ * set.headSet(3).descendingSet().toArray(); // [2, 1]
+ * set.tailSet(4).add(9).getSet().toArray(); // [1, 2, 3, 4, 5, 9]
+ */
+export default class TreeSetView<T> extends AbstractSortedSet<T> implements NavigableSet<T> {
+    private _hashCode: number | null = null;
+
+    private constructor(private readonly _view: TreeMapView<T, undefined>) {
+        super();
+    }
+
+    /**
+     * Creates an ascending view of the whole set.
+     */
+    static of<T>(set: TreeSet<T>): TreeSetView<T> {
+        return new TreeSetView<T>(TreeMapView.of(set._map));
+    }
+
+    private withView(view: TreeMapView<T, undefined>): TreeSetView<T> {
+        return view === this._view ? this : new TreeSetView<T>(view);
+    }
+
+    *[Symbol.iterator](): IterableIterator<T> {
+        for (const [value] of this._view) yield value;
+    }
+
+    /**
+     * Returns the TreeSet that the view reads, including the values outside of the bounds.
+     */
+    getSet(): TreeSet<T> {
+        const map = this._view.getMap();
+        return new TreeSet<T>(map.getComparator(), map);
+    }
+
+    /**
+     * Returns the bounds of the view, in the ascending order of the TreeSet.
+     */
+    getRange(): Range<T> {
+        return this._view.getRange();
+    }
+
+    isDescending(): boolean {
+        return this._view.isDescending();
+    }
+
+    /**
+     * Copies the values of the view into a new TreeSet, which is ordered like the view.
+     */
+    toTreeSet(): TreeSet<T> {
+        return new TreeSet<T>(this.getComparator()).addAll(this);
+    }
+
+    size(): number {
+        return this._view.size();
+    }
+
+    isEmpty(): boolean {
+        return this._view.isEmpty();
+    }
+
+    /**
+     * Deletes the values of the view from the TreeSet.
+     */
+    empty(): TreeSetView<T> {
+        return this.withView(this._view.clear());
+    }
+
+    protected createEmpty<TT>(compare?: Comparator<TT>): TreeSet<TT> {
+        return new TreeSet<TT>(compare);
+    }
+
+    /**
+     * Returns the comparator of the TreeSet, which is reversed for a descending view.
+     */
+    getComparator(): Comparator<T> {
+        return this._view.getComparator();
+    }
+
+    /**
+     * Adds the value to the TreeSet.
+     * @throws {RangeError} if the value is outside of the bounds of the view.
+     */
+    add(value: T): TreeSetView<T> {
+        return this.withView(this._view.set(value, undefined));
+    }
+
+    addAll(values: Iterable<T>): TreeSetView<T> {
+        return super.addAll(values) as TreeSetView<T>;
+    }
+
+    has(value: T): boolean {
+        return this._view.has(value);
+    }
+
+    /**
+     * Deletes the value from the TreeSet if it is within the bounds of the view.
+     */
+    delete(value: T): TreeSetView<T> {
+        return this.withView(this._view.delete(value));
+    }
+
+    deleteAll(values: Iterable<T>): TreeSetView<T> {
+        return super.deleteAll(values) as TreeSetView<T>;
+    }
+
+    clear(): TreeSetView<T> {
+        return this.empty();
+    }
+
+    get(value: T): T | undefined {
+        return this.has(value) ? value : undefined;
+    }
+
+    subSet(fromValue: T, fromInclusive: boolean, toValue: T, toInclusive: boolean): TreeSetView<T> {
+        return this.withView(this._view.subMap(fromValue, fromInclusive, toValue, toInclusive));
+    }
+
+    headSet(toValue: T, inclusive: boolean = false): TreeSetView<T> {
+        return this.withView(this._view.headMap(toValue, inclusive));
+    }
+
+    tailSet(fromValue: T, inclusive: boolean = true): TreeSetView<T> {
+        return this.withView(this._view.tailMap(fromValue, inclusive));
+    }
+
+    descendingSet(): TreeSetView<T> {
+        return this.withView(this._view.descendingMap());
+    }
+
+    /**
+     * Deletes the values of the view that do not satisfy the predicate from the TreeSet.
+     */
+    filter<F extends T>(predicate: (value: T, key: T, set: this) => value is F, thisArg?: unknown): TreeSetView<F>;
+    filter(predicate: (value: T, key: T, set: this) => unknown, thisArg?: unknown): TreeSetView<T>;
+    filter(predicate: (value: T, key: T, set: this) => unknown, thisArg?: unknown): TreeSetView<any> {
+        return this.withView(this._view.filter((_, value) => predicate.call(thisArg, value, value, this)));
+    }
+
+    partition<F extends T, C>(
+        predicate: (this: C, value: T, key: T, set: this) => value is F,
+        thisArg?: C
+    ): [TreeSetView<T>, TreeSetView<F>];
+    partition<C>(
+        predicate: (this: C, value: T, key: T, set: this) => unknown,
+        thisArg?: C
+    ): [TreeSetView<T>, TreeSetView<T>];
+    partition(
+        predicate: (value: T, key: T, set: this) => unknown,
+        thisArg?: unknown
+    ): [TreeSetView<T>, TreeSetView<T>] {
+        const [trueView, falseView] = this._view.partition((_, value) => predicate.call(thisArg, value, value, this));
+        return [this.withView(trueView), this.withView(falseView)];
+    }
+
+    /**
+     * Copies the values into a TreeSet ordered by the comparator, or by the order of the view.
+     */
+    sort(compare?: Comparator<T>): TreeSet<T> {
+        return new TreeSet<T>(compare ?? this.getComparator()).addAll(this);
+    }
+
+    /**
+     * Returns the values in a TreeSet ordered by the keys that the mapper computes, and then by the order of the view.
+     */
+    sortBy<C>(
+        comparatorValueMapper: (value: T, key: T, set: this) => C,
+        comparator?: (valueA: C, valueB: C) => number
+    ): TreeSet<T | C> {
+        const compareKeys = comparator ?? TreeSet.defaultComparator<C>;
+        const compare = this.getComparator();
+        const order = (a: T, b: T): number => {
+            const cmp = compareKeys(comparatorValueMapper(a, a, this), comparatorValueMapper(b, b, this));
+            return cmp !== 0 ? cmp : compare(a, b);
+        };
+        return new TreeSet<T | C>(order as Comparator<T | C>).addAll(this);
+    }
+
+    findMin(): T | undefined {
+        return this._view.findMin()?.[0];
+    }
+
+    findMax(): T | undefined {
+        return this._view.findMax()?.[0];
+    }
+
+    deleteMin(): TreeSetView<T> {
+        return this.withView(this._view.deleteMin());
+    }
+
+    deleteMax(): TreeSetView<T> {
+        return this.withView(this._view.deleteMax());
+    }
+
+    tryPredecessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._view.tryPredecessor(value);
+        return [found, pair?.[0]];
+    }
+
+    trySuccessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._view.trySuccessor(value);
+        return [found, pair?.[0]];
+    }
+
+    tryWeakPredecessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._view.tryWeakPredecessor(value);
+        return [found, pair?.[0]];
+    }
+
+    tryWeakSuccessor(value: T): [boolean, T | undefined] {
+        const [found, pair] = this._view.tryWeakSuccessor(value);
+        return [found, pair?.[0]];
+    }
+
+    predecessor(value: T): T | undefined {
+        return this._view.predecessor(value)?.[0];
+    }
+
+    successor(value: T): T | undefined {
+        return this._view.successor(value)?.[0];
+    }
+
+    weakSuccessor(value: T): T | undefined {
+        return this._view.weakSuccessor(value)?.[0];
+    }
+
+    weakPredecessor(value: T): T | undefined {
+        return this._view.weakPredecessor(value)?.[0];
+    }
+
+    rank(value: T): number {
+        return this._view.rank(value);
+    }
+
+    select(index: number): T {
+        return this._view.select(index)[0];
+    }
+
+    entryAt(index: number): T | undefined {
+        return this._view.entryAt(index)?.[0];
+    }
+
+    countRange(fromValue: T, toValue: T): number {
+        return this._view.countRange(fromValue, toValue);
+    }
+
+    median(): T | undefined {
+        return this._view.median()?.[0];
+    }
+
+    rangeFrom(fromValue: T): TreeSetView<T> {
+        return this.withView(this._view.rangeFrom(fromValue));
+    }
+
+    /**
+     * Returns a view of the values less than the value, in the order of the view.
+     */
+    rangeTo(toValue: T): TreeSetView<T> {
+        // a set's rangeTo leaves out toValue, which is the range from the first value of the view to toValue
+        const first = this.findMin();
+        return first === undefined ? this : this.rangeFromTo(first, toValue);
+    }
+
+    rangeFromTo(fromValue: T, toValue: T): TreeSetView<T> {
+        return this.withView(this._view.rangeFromTo(fromValue, toValue));
+    }
+
+    removeRangeFrom(fromValue: T): TreeSetView<T> {
+        return this.withView(this._view.removeRangeFrom(fromValue));
+    }
+
+    removeRangeTo(toValue: T): TreeSetView<T> {
+        return this.withView(this._view.removeRangeTo(toValue));
+    }
+
+    removeRangeFromTo(fromValue: T, toValue: T): TreeSetView<T> {
+        return this.withView(this._view.removeRangeFromTo(fromValue, toValue));
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Log;
+    }
+
+    /**
+     * Checks if the other object is a view with the same values in the same order.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TreeSetView)) return false;
+        return this._view.equals(o._view);
+    }
+
+    /**
+     * Computes a hash code from the values in the order of the view, like the hash code of a TreeSet.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 1;
+            for (const value of this) {
+                hash = 31 * hash + HashCode.hashCode(value);
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    compareTo(o: TreeSetView<T>): number {
+        return this._view.compareTo(o._view);
+    }
+
+    /**
+     * Returns a string representation of the view, in the order of the view.
+     */
+    toString(): string {
+        return `{${this.toArray().join(", ")}}`;
+    }
+}
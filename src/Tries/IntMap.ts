@@ -0,0 +1,731 @@
+import AbstractSortedMap from "../AbstractClasses/AbstractSortedMap";
+import { Speed } from "../Enums/Speed";
+import HashCode from "../Hashing/HashCode";
+import { Comparator } from "../Interfaces/Comparator";
+import Map from "../Interfaces/Map";
+import SortedMap from "../Interfaces/SortedMap";
+import TreeMap from "../Trees/TreeMap";
+import { Utils } from "../Utils/Utils";
+
+// flipping the sign bit makes the unsigned order of the bits the same as the signed order of the keys
+const SIGN_BIT = 0x80000000;
+
+function toBits(key: number): number {
+    return (key ^ SIGN_BIT) >>> 0;
+}
+
+function isInt32(key: number): boolean {
+    return (key | 0) === key;
+}
+
+class Leaf<V> {
+    readonly bits: number;
+
+    constructor(readonly key: number, readonly value: V) {
+        this.bits = toBits(key);
+    }
+
+    get size(): number {
+        return 1;
+    }
+}
+
+/**
+ * A branch holds the keys that share the bits above the mask, which is the highest bit where they differ.
+ * The keys with a zero at the mask are on the left, and the keys with a one are on the right.
+ */
+class Branch<V> {
+    readonly size: number;
+
+    constructor(
+        readonly prefix: number,
+        readonly mask: number,
+        readonly left: Node<V>,
+        readonly right: Node<V>,
+    ) {
+        this.size = left.size + right.size;
+    }
+}
+
+type Node<V> = Leaf<V> | Branch<V>;
+type Tree<V> = Node<V> | null;
+
+function zeroBit(bits: number, mask: number): boolean {
+    return (bits & mask) === 0;
+}
+
+/**
+ * Keeps the bits above the mask.
+ */
+function maskBits(bits: number, mask: number): number {
+    return (bits & (-mask ^ mask)) >>> 0;
+}
+
+function matchPrefix(bits: number, prefix: number, mask: number): boolean {
+    return maskBits(bits, mask) === prefix;
+}
+
+function branchingBit(a: number, b: number): number {
+    return (1 << (31 - Math.clz32(a ^ b))) >>> 0;
+}
+
+/**
+ * Joins two trees whose prefixes differ into a new branch.
+ */
+function join<V>(p1: number, t1: Node<V>, p2: number, t2: Node<V>): Branch<V> {
+    const mask = branchingBit(p1, p2);
+    const prefix = maskBits(p1, mask);
+    return zeroBit(p1, mask) ? new Branch(prefix, mask, t1, t2) : new Branch(prefix, mask, t2, t1);
+}
+
+/**
+ * Creates a branch, or returns the other side if one side is empty.
+ */
+function branch<V>(prefix: number, mask: number, left: Tree<V>, right: Tree<V>): Tree<V> {
+    if (left === null) return right;
+    if (right === null) return left;
+    return new Branch(prefix, mask, left, right);
+}
+
+function sizeOf<V>(t: Tree<V>): number {
+    return t === null ? 0 : t.size;
+}
+
+function lookup<V>(t: Tree<V>, bits: number): Leaf<V> | undefined {
+    while (t instanceof Branch) {
+        t = zeroBit(bits, t.mask) ? t.left : t.right;
+    }
+    return t !== null && t.bits === bits ? t : undefined;
+}
+
+/**
+ * Inserts the leaf. If the key is already in the tree, combine computes the new value from the old value.
+ */
+function insert<V>(t: Tree<V>, leaf: Leaf<V>, combine?: (old: V) => V): Node<V> {
+    if (t === null) return leaf;
+    if (t instanceof Leaf) {
+        if (t.bits !== leaf.bits) return join(leaf.bits, leaf, t.bits, t);
+        const value = combine ? combine(t.value) : leaf.value;
+        return value === t.value ? t : value === leaf.value ? leaf : new Leaf(t.key, value);
+    }
+    if (!matchPrefix(leaf.bits, t.prefix, t.mask)) return join(leaf.bits, leaf, t.prefix, t);
+    if (zeroBit(leaf.bits, t.mask)) {
+        const left = insert(t.left, leaf, combine);
+        return left === t.left ? t : new Branch(t.prefix, t.mask, left, t.right);
+    }
+    const right = insert(t.right, leaf, combine);
+    return right === t.right ? t : new Branch(t.prefix, t.mask, t.left, right);
+}
+
+function remove<V>(t: Tree<V>, bits: number): Tree<V> {
+    if (t === null) return null;
+    if (t instanceof Leaf) return t.bits === bits ? null : t;
+    if (!matchPrefix(bits, t.prefix, t.mask)) return t;
+    if (zeroBit(bits, t.mask)) {
+        const left = remove(t.left, bits);
+        return left === t.left ? t : branch(t.prefix, t.mask, left, t.right);
+    }
+    const right = remove(t.right, bits);
+    return right === t.right ? t : branch(t.prefix, t.mask, t.left, right);
+}
+
+function union<V>(s: Tree<V>, t: Tree<V>, resolve: (a: V, b: V, key: number) => V): Tree<V> {
+    if (s === null) return t;
+    if (t === null) return s;
+    if (s instanceof Leaf) return insert(t, s, b => resolve(s.value, b, s.key));
+    if (t instanceof Leaf) return insert(s, t, a => resolve(a, t.value, t.key));
+    if (s.mask === t.mask && s.prefix === t.prefix) {
+        return new Branch(s.prefix, s.mask, union(s.left, t.left, resolve)!, union(s.right, t.right, resolve)!);
+    }
+    if (s.mask > t.mask && matchPrefix(t.prefix, s.prefix, s.mask)) {
+        return zeroBit(t.prefix, s.mask)
+            ? new Branch(s.prefix, s.mask, union(s.left, t, resolve)!, s.right)
+            : new Branch(s.prefix, s.mask, s.left, union(s.right, t, resolve)!);
+    }
+    if (s.mask < t.mask && matchPrefix(s.prefix, t.prefix, t.mask)) {
+        return zeroBit(s.prefix, t.mask)
+            ? new Branch(t.prefix, t.mask, union(s, t.left, resolve)!, t.right)
+            : new Branch(t.prefix, t.mask, t.left, union(s, t.right, resolve)!);
+    }
+    return join(s.prefix, s, t.prefix, t);
+}
+
+/**
+ * Keeps the entries of s whose keys are in t.
+ */
+function intersect<V, W>(s: Tree<V>, t: Tree<W>): Tree<V> {
+    if (s === null || t === null) return null;
+    if (s instanceof Leaf) return lookup(t, s.bits) ? s : null;
+    if (t instanceof Leaf) return lookup(s, t.bits) ?? null;
+    if (s.mask === t.mask && s.prefix === t.prefix) {
+        return branch(s.prefix, s.mask, intersect(s.left, t.left), intersect(s.right, t.right));
+    }
+    if (s.mask > t.mask) {
+        if (!matchPrefix(t.prefix, s.prefix, s.mask)) return null;
+        return intersect(zeroBit(t.prefix, s.mask) ? s.left : s.right, t);
+    }
+    if (s.mask < t.mask) {
+        if (!matchPrefix(s.prefix, t.prefix, t.mask)) return null;
+        return intersect(s, zeroBit(s.prefix, t.mask) ? t.left : t.right);
+    }
+    return null;
+}
+
+/**
+ * Keeps the entries of s whose keys are not in t.
+ */
+function subtract<V, W>(s: Tree<V>, t: Tree<W>): Tree<V> {
+    if (s === null || t === null) return s;
+    if (s instanceof Leaf) return lookup(t, s.bits) ? null : s;
+    if (t instanceof Leaf) return remove(s, t.bits);
+    if (s.mask === t.mask && s.prefix === t.prefix) {
+        return branch(s.prefix, s.mask, subtract(s.left, t.left), subtract(s.right, t.right));
+    }
+    if (s.mask > t.mask) {
+        if (!matchPrefix(t.prefix, s.prefix, s.mask)) return s;
+        return zeroBit(t.prefix, s.mask)
+            ? branch(s.prefix, s.mask, subtract(s.left, t), s.right)
+            : branch(s.prefix, s.mask, s.left, subtract(s.right, t));
+    }
+    if (s.mask < t.mask) {
+        if (!matchPrefix(s.prefix, t.prefix, t.mask)) return s;
+        return subtract(s, zeroBit(s.prefix, t.mask) ? t.left : t.right);
+    }
+    return s;
+}
+
+/**
+ * Splits the tree into the keys below the bits, the leaf with the bits, and the keys above the bits.
+ */
+function split<V>(t: Tree<V>, bits: number): [Tree<V>, Leaf<V> | undefined, Tree<V>] {
+    if (t === null) return [null, undefined, null];
+    if (t instanceof Leaf) {
+        if (t.bits === bits) return [null, t, null];
+        return t.bits < bits ? [t, undefined, null] : [null, undefined, t];
+    }
+    if (!matchPrefix(bits, t.prefix, t.mask)) {
+        return maskBits(bits, t.mask) < t.prefix ? [null, undefined, t] : [t, undefined, null];
+    }
+    if (zeroBit(bits, t.mask)) {
+        const [less, found, greater] = split(t.left, bits);
+        return [less, found, branch(t.prefix, t.mask, greater, t.right)];
+    }
+    const [less, found, greater] = split(t.right, bits);
+    return [branch(t.prefix, t.mask, t.left, less), found, greater];
+}
+
+/**
+ * Counts the keys below the bits.
+ */
+function rank<V>(t: Tree<V>, bits: number): number {
+    let count = 0;
+    while (t instanceof Branch) {
+        if (!matchPrefix(bits, t.prefix, t.mask)) {
+            return maskBits(bits, t.mask) < t.prefix ? count : count + t.size;
+        }
+        if (zeroBit(bits, t.mask)) {
+            t = t.left;
+        } else {
+            count += t.left.size;
+            t = t.right;
+        }
+    }
+    return t !== null && t.bits < bits ? count + 1 : count;
+}
+
+function select<V>(t: Node<V>, index: number): Leaf<V> {
+    while (t instanceof Branch) {
+        if (index < t.left.size) {
+            t = t.left;
+        } else {
+            index -= t.left.size;
+            t = t.right;
+        }
+    }
+    return t;
+}
+
+/**
+ * IntMap is a persistent map with 32-bit integer keys, based on a big-endian Patricia trie.
+ *
+ * The trie branches on the bits of the keys, from the highest bit where the keys differ down to the lowest,
+ * so its depth is at most 32 and no key is ever hashed or compared with a comparator. Two IntMaps can be
+ * merged branch by branch, which makes `union`, `intersect` and `subtract` fast when the key ranges of the
+ * maps are far apart or share subtrees. The keys are iterated in ascending order.
+ *
+ * The keys must be integers from -2^31 to 2^31 - 1.
+ *
+ * @see Chris Okasaki and Andy Gill, "Fast Mergeable Integer Maps", Workshop on ML, 1998.
+ *
+ * @example
+ * const offsets = IntMap.of<string>([4096, "b"], [0, "a"], [-1, "z"]);
+ * offsets.keys(); // [-1, 0, 4096]
+ * offsets.lookupMax(); // [4096, "b"]
+ * offsets.split(0); // [{-1: z}, [0, "a"], {4096: b}]
+ */
+export default class IntMap<V> extends AbstractSortedMap<number, V> implements SortedMap<number, V> {
+    private _hashCode: number | null = null;
+
+    private constructor(private readonly _root: Tree<V>) {
+        super();
+    }
+
+    static empty<V>(): IntMap<V> {
+        return new IntMap<V>(null);
+    }
+
+    static of<V>(...entries: [number, V][]): IntMap<V> {
+        return IntMap.empty<V>().setAll(entries);
+    }
+
+    /**
+     * Provides the comparator of the keys, which is the numeric order.
+     */
+    static defaultComparator(a: number, b: number): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    private withRoot(root: Tree<V>): IntMap<V> {
+        return root === this._root ? this : new IntMap<V>(root);
+    }
+
+    /**
+     * Returns the bits of the key.
+     * @throws {RangeError} if the key is not a 32-bit integer.
+     */
+    private bitsOf(key: number): number {
+        if (!isInt32(key)) throw new RangeError(`Key ${key} is not a 32-bit integer`);
+        return toBits(key);
+    }
+
+    private entryOf(leaf: Leaf<V> | undefined): [number, V] | undefined {
+        return leaf === undefined ? undefined : [leaf.key, leaf.value];
+    }
+
+    *[Symbol.iterator](): MapIterator<[number, V]> {
+        if (this._root === null) return;
+        const stack: Node<V>[] = [this._root];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            if (node instanceof Leaf) {
+                yield [node.key, node.value];
+            } else {
+                stack.push(node.right, node.left);
+            }
+        }
+    }
+
+    /**
+     * Returns the entry with the smallest key, or null if the map is empty.
+     */
+    getRoot(): [number, V] | null {
+        return this.lookupMin() ?? null;
+    }
+
+    getComparator(): Comparator<number> {
+        return IntMap.defaultComparator;
+    }
+
+    size(): number {
+        return sizeOf(this._root);
+    }
+
+    isEmpty(): boolean {
+        return this._root === null;
+    }
+
+    get(key: number): V | undefined {
+        return isInt32(key) ? lookup(this._root, toBits(key))?.value : undefined;
+    }
+
+    has(key: number): boolean {
+        return isInt32(key) && lookup(this._root, toBits(key)) !== undefined;
+    }
+
+    /**
+     * Sets the value of the key.
+     *
+     * Complexity: O(min(n, 32))
+     * @throws {RangeError} if the key is not a 32-bit integer.
+     */
+    set(key: number, value: V): IntMap<V> {
+        this.bitsOf(key);
+        return this.withRoot(insert(this._root, new Leaf(key, value)));
+    }
+
+    setAll(entries: Iterable<[number, V]>): IntMap<V> {
+        let map: IntMap<V> = this;
+        for (const [key, value] of entries) map = map.set(key, value);
+        return map;
+    }
+
+    delete(key: number): IntMap<V> {
+        return isInt32(key) ? this.withRoot(remove(this._root, toBits(key))) : this;
+    }
+
+    deleteAll(keys: Iterable<number>): IntMap<V> {
+        return super.deleteAll(keys) as IntMap<V>;
+    }
+
+    clear(): IntMap<V> {
+        return this.withRoot(null);
+    }
+
+    /**
+     * The results of `mapKeys`, `flip` and the other HOFs that may change the keys are TreeMaps,
+     * since their keys may not be integers. `map`, `filter` and `partition` return IntMaps.
+     */
+    protected createEmpty<KM, VM>(compare?: Comparator<KM>): TreeMap<KM, VM> {
+        return new TreeMap<KM, VM>(compare);
+    }
+
+    copyOf(map: Map<number, V>): IntMap<V> {
+        return IntMap.empty<V>().setAll(map);
+    }
+
+    /**
+     * Returns the entry with the smallest key, or undefined if the map is empty.
+     */
+    lookupMin(): [number, V] | undefined {
+        return this._root === null ? undefined : this.entryOf(select(this._root, 0));
+    }
+
+    /**
+     * Returns the entry with the largest key, or undefined if the map is empty.
+     */
+    lookupMax(): [number, V] | undefined {
+        return this._root === null ? undefined : this.entryOf(select(this._root, this._root.size - 1));
+    }
+
+    /**
+     * Returns the entry with the smallest key, or with the smallest key at or above the given key.
+     */
+    findMin(key?: number): [number, V] | undefined {
+        return key === undefined ? this.lookupMin() : this.weakSuccessor(key);
+    }
+
+    /**
+     * Returns the entry with the largest key, or with the largest key at or below the given key.
+     */
+    findMax(key?: number): [number, V] | undefined {
+        return key === undefined ? this.lookupMax() : this.weakPredecessor(key);
+    }
+
+    deleteMin(): IntMap<V> {
+        const min = this.lookupMin();
+        return min === undefined ? this : this.delete(min[0]);
+    }
+
+    deleteMax(): IntMap<V> {
+        const max = this.lookupMax();
+        return max === undefined ? this : this.delete(max[0]);
+    }
+
+    /**
+     * Returns the entry with the largest key less than the key.
+     * Like in TreeMap, the key must be in the map, or [false, undefined] is returned.
+     */
+    tryPredecessor(key: number): [boolean, [number, V] | undefined] {
+        if (!this.has(key)) return [false, undefined];
+        const pred = this.predecessorOf(key);
+        return [pred !== undefined, pred];
+    }
+
+    /**
+     * Returns the entry with the smallest key greater than the key.
+     * Like in TreeMap, the key must be in the map, or [false, undefined] is returned.
+     */
+    trySuccessor(key: number): [boolean, [number, V] | undefined] {
+        if (!this.has(key)) return [false, undefined];
+        const succ = this.entryAt(this.rank(key) + 1);
+        return [succ !== undefined, succ];
+    }
+
+    tryWeakPredecessor(key: number): [boolean, [number, V] | undefined] {
+        const pred = this.has(key) ? [key, this.get(key)!] as [number, V] : this.predecessorOf(key);
+        return [pred !== undefined, pred];
+    }
+
+    tryWeakSuccessor(key: number): [boolean, [number, V] | undefined] {
+        const succ = this.entryAt(this.rank(key));
+        return [succ !== undefined, succ];
+    }
+
+    private predecessorOf(key: number): [number, V] | undefined {
+        return this.entryAt(this.rank(key) - 1);
+    }
+
+    predecessor(key: number): [number, V] | undefined {
+        return this.tryPredecessor(key)[1];
+    }
+
+    successor(key: number): [number, V] | undefined {
+        return this.trySuccessor(key)[1];
+    }
+
+    weakSuccessor(key: number): [number, V] | undefined {
+        return this.tryWeakSuccessor(key)[1];
+    }
+
+    weakPredecessor(key: number): [number, V] | undefined {
+        return this.tryWeakPredecessor(key)[1];
+    }
+
+    /**
+     * Returns the number of keys that are less than the key.
+     *
+     * Complexity: O(min(n, 32))
+     * @throws {RangeError} if the key is not a 32-bit integer.
+     */
+    rank(key: number): number {
+        return rank(this._root, this.bitsOf(key));
+    }
+
+    /**
+     * Returns the entry at the index in key order.
+     * @throws {RangeError} if the index is out of bounds.
+     */
+    select(index: number): [number, V] {
+        if (!Number.isInteger(index) || index < 0 || index >= this.size()) {
+            throw new RangeError("Index out of bounds");
+        }
+        return this.entryOf(select(this._root!, index))!;
+    }
+
+    entryAt(index: number): [number, V] | undefined {
+        if (!Number.isInteger(index) || index < 0 || index >= this.size()) return undefined;
+        return this.select(index);
+    }
+
+    /**
+     * Counts the keys in the range `[fromKey, toKey)`.
+     */
+    countRange(fromKey: number, toKey: number): number {
+        return Math.max(0, this.rank(toKey) - this.rank(fromKey));
+    }
+
+    /**
+     * Returns the median entry, which is the lower of the two middle entries for an even size.
+     */
+    median(): [number, V] | undefined {
+        return this.entryAt(Math.floor((this.size() - 1) / 2));
+    }
+
+    /**
+     * Splits the map into the entries with keys less than the key, the entry with the key,
+     * and the entries with keys greater than the key. Both maps share structure with this map.
+     *
+     * Complexity: O(min(n, 32))
+     * @throws {RangeError} if the key is not a 32-bit integer.
+     */
+    split(key: number): [IntMap<V>, [number, V] | undefined, IntMap<V>] {
+        const [less, found, greater] = split(this._root, this.bitsOf(key));
+        return [this.withRoot(less), this.entryOf(found), this.withRoot(greater)];
+    }
+
+    /**
+     * Returns the union of this map and the other map, merged branch by branch.
+     *
+     * @param resolve - optional function that resolves the value of a key present in both maps.
+     * If not provided, the value from the other map is used.
+     */
+    union(other: IntMap<V>, resolve: (oldVal: V, newVal: V, key: number) => V = (_, newVal) => newVal): IntMap<V> {
+        return this.withRoot(union(this._root, other._root, resolve));
+    }
+
+    /**
+     * Returns the entries of this map whose keys are also in the other map.
+     */
+    intersect<VV>(other: IntMap<VV>): IntMap<V> {
+        return this.withRoot(intersect(this._root, other._root));
+    }
+
+    /**
+     * Returns the entries of this map whose keys are not in the other map.
+     */
+    subtract<VV>(other: IntMap<VV>): IntMap<V> {
+        return this.withRoot(subtract(this._root, other._root));
+    }
+
+    /**
+     * Returns the entries with keys greater than or equal to the key.
+     */
+    rangeFrom(fromKey: number): IntMap<V> {
+        const [, found, greater] = split(this._root, this.bitsOf(fromKey));
+        return this.withRoot(found ? insert(greater, found) : greater);
+    }
+
+    /**
+     * Returns the entries with keys less than or equal to the key.
+     */
+    rangeTo(toKey: number): IntMap<V> {
+        const [less, found] = split(this._root, this.bitsOf(toKey));
+        return this.withRoot(found ? insert(less, found) : less);
+    }
+
+    /**
+     * Returns the entries with keys in the range `[fromKey, toKey)`.
+     */
+    rangeFromTo(fromKey: number, toKey: number): IntMap<V> {
+        if (fromKey >= toKey) return this.clear();
+        return this.rangeFrom(fromKey).split(toKey)[0];
+    }
+
+    /**
+     * Removes the entries with keys greater than or equal to the key.
+     */
+    removeRangeFrom(fromKey: number): IntMap<V> {
+        return this.split(fromKey)[0];
+    }
+
+    /**
+     * Removes the entries with keys less than the key.
+     */
+    removeRangeTo(toKey: number): IntMap<V> {
+        return this.rangeFrom(toKey);
+    }
+
+    /**
+     * Removes the entries with keys in the range `[fromKey, toKey)`.
+     */
+    removeRangeFromTo(fromKey: number, toKey: number): IntMap<V> {
+        if (fromKey >= toKey) return this;
+        return this.removeRangeFrom(fromKey).union(this.rangeFrom(toKey));
+    }
+
+    cut(cutFunction: (compareToOther: number) => number, fromKey: number, toKey: number): IntMap<V> {
+        const lower = cutFunction(fromKey);
+        const upper = cutFunction(toKey);
+        return this.filter((_, key) => {
+            const cutValue = cutFunction(key);
+            return cutValue >= lower && cutValue < upper;
+        });
+    }
+
+    /**
+     * Returns the entries in a TreeMap ordered by the comparator, since an IntMap is always in numeric order.
+     */
+    sort(compare?: Comparator<number>): SortedMap<number, V> {
+        if (compare === undefined) return this;
+        return new TreeMap<number, V>(compare).setAll(this);
+    }
+
+    /**
+     * Returns a TreeMap with the keys that the mapper computes from the entries, ordered by the comparator.
+     */
+    sortBy<C>(
+        comparatorValueMapper: (value: V, key: number, map: this) => C,
+        compare?: Comparator<C>
+    ): TreeMap<number | C, V> {
+        const order = (compare ?? TreeMap.defaultComparator<C>) as Comparator<number | C>;
+        let tree = new TreeMap<number | C, V>(order);
+        for (const [key, value] of this) {
+            tree = tree.set(comparatorValueMapper(value, key, this), value);
+        }
+        return tree;
+    }
+
+    map<M>(callback: (value: V, key: number, map: this) => M, thisArg?: unknown): IntMap<M> {
+        let root: Tree<M> = null;
+        for (const [key, value] of this) {
+            root = insert(root, new Leaf(key, callback.call(thisArg, value, key, this)));
+        }
+        return new IntMap<M>(root);
+    }
+
+    filter<F extends V>(predicate: (value: V, key: number, map: this) => value is F, thisArg?: unknown): IntMap<F>;
+    filter(predicate: (value: V, key: number, map: this) => unknown, thisArg?: unknown): IntMap<V>;
+    filter(predicate: (value: V, key: number, map: this) => unknown, thisArg?: unknown): IntMap<any> {
+        let root = this._root;
+        for (const [key, value] of this) {
+            if (!predicate.call(thisArg, value, key, this)) root = remove(root, toBits(key));
+        }
+        return this.withRoot(root);
+    }
+
+    partition<F extends V, C>(
+        predicate: (this: C, value: V, key: number, map: this) => value is F,
+        thisArg?: C
+    ): [IntMap<V>, IntMap<F>];
+    partition<C>(
+        predicate: (this: C, value: V, key: number, map: this) => unknown,
+        thisArg?: C
+    ): [IntMap<V>, IntMap<V>];
+    partition(
+        predicate: (value: V, key: number, map: this) => unknown,
+        thisArg?: unknown
+    ): [IntMap<V>, IntMap<V>] {
+        const trueMap = this.filter(predicate, thisArg);
+        return [trueMap, this.subtract(trueMap)];
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    /**
+     * Checks if the other object is an IntMap with the same entries.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof IntMap)) return false;
+        const other = o as IntMap<V>;
+        if (this.size() !== other.size()) return false;
+
+        const iter = other[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (key !== otherKey || !Utils.equals(value, otherValue)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes a hash code from the entries in key order.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 17;
+            for (const [key, value] of this) {
+                hash = (hash * 31 + (key ^ HashCode.hashCode(value))) | 0;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    /**
+     * Compares the sizes, and then the entries in key order.
+     */
+    compareTo(o: IntMap<V>): number {
+        if (this === o) return 0;
+
+        const sizeDiff = this.size() - o.size();
+        if (sizeDiff !== 0) return sizeDiff;
+
+        const iter = o[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (key !== otherKey) return key < otherKey ? -1 : 1;
+            if (value < otherValue) return -1;
+            if (value > otherValue) return 1;
+        }
+        return 0;
+    }
+
+    /**
+     * Returns a string representation of the map, in key order.
+     */
+    toString(): string {
+        return `{${this.entries().map(([key, value]) => `${key}: ${value}`).join(", ")}}`;
+    }
+}
@@ -0,0 +1,325 @@
+import AbstractSortedSet from "../AbstractClasses/AbstractSortedSet";
+import { Speed } from "../Enums/Speed";
+import { Comparator } from "../Interfaces/Comparator";
+import SortedSet from "../Interfaces/SortedSet";
+import TreeSet from "../Trees/TreeSet";
+import IntMap from "./IntMap";
+
+/**
+ * IntSet is a persistent set of 32-bit integers, which is a wrapper around an IntMap<undefined>.
+ *
+ * The values are iterated in ascending order. `union`, `intersect` and `subtract` merge the tries
+ * branch by branch when they are given another IntSet.
+ *
+ * @example
+ * const ids = IntSet.of(42, 7, 1000);
+ * ids.toArray(); // [7, 42, 1000]
+ * ids.intersect(IntSet.of(7, 8)).toArray(); // [7]
+ */
+export default class IntSet extends AbstractSortedSet<number> implements SortedSet<number> {
+    private constructor(private readonly _map: IntMap<undefined>) {
+        super();
+    }
+
+    static empty(): IntSet {
+        return new IntSet(IntMap.empty<undefined>());
+    }
+
+    /**
+     * Creates an IntSet with the values.
+     * @throws {RangeError} if a value is not a 32-bit integer.
+     */
+    static of(...values: Array<number>): IntSet {
+        return IntSet.empty().addAll(values);
+    }
+
+    private withMap(map: IntMap<undefined>): IntSet {
+        return map === this._map ? this : new IntSet(map);
+    }
+
+    /**
+     * Returns the IntMap of a collection for the set operations, building one if it is not an IntSet.
+     */
+    private toIntMap(collection: Iterable<number>): IntMap<undefined> {
+        if (collection instanceof IntSet) return collection._map;
+        return IntSet.empty().addAll(collection)._map;
+    }
+
+    *[Symbol.iterator](): IterableIterator<number> {
+        for (const [value] of this._map) yield value;
+    }
+
+    size(): number {
+        return this._map.size();
+    }
+
+    isEmpty(): boolean {
+        return this._map.isEmpty();
+    }
+
+    empty(): IntSet {
+        return this.withMap(this._map.clear());
+    }
+
+    /**
+     * The results of `map` and `flatMap` are TreeSets, since their values may not be integers.
+     */
+    protected createEmpty<TT>(compare?: Comparator<TT>): TreeSet<TT> {
+        return new TreeSet<TT>(compare);
+    }
+
+    getComparator(): Comparator<number> {
+        return this._map.getComparator();
+    }
+
+    /**
+     * Adds the value to the set.
+     * @throws {RangeError} if the value is not a 32-bit integer.
+     */
+    add(value: number): IntSet {
+        return this.withMap(this._map.set(value, undefined));
+    }
+
+    addAll(values: Iterable<number>): IntSet {
+        return super.addAll(values) as IntSet;
+    }
+
+    has(value: number): boolean {
+        return this._map.has(value);
+    }
+
+    delete(value: number): IntSet {
+        return this.withMap(this._map.delete(value));
+    }
+
+    deleteAll(values: Iterable<number>): IntSet {
+        return super.deleteAll(values) as IntSet;
+    }
+
+    clear(): IntSet {
+        return this.empty();
+    }
+
+    get(value: number): number | undefined {
+        return this.has(value) ? value : undefined;
+    }
+
+    union<C>(...collections: Array<Iterable<C>>): SortedSet<number | C> {
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.union(this.toIntMap(collection as Iterable<unknown> as Iterable<number>));
+        }
+        return this.withMap(map) as unknown as SortedSet<number | C>;
+    }
+
+    merge<C>(...collections: Array<Iterable<C>>): SortedSet<number | C> {
+        return this.union(...collections);
+    }
+
+    concat<C>(...collections: Array<Iterable<C>>): SortedSet<number | C> {
+        return this.union(...collections);
+    }
+
+    intersect(...collections: Array<Iterable<number>>): IntSet {
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.intersect(this.toIntMap(collection));
+        }
+        return this.withMap(map);
+    }
+
+    subtract(...collections: Array<Iterable<number>>): IntSet {
+        let map = this._map;
+        for (const collection of collections) {
+            map = map.subtract(this.toIntMap(collection));
+        }
+        return this.withMap(map);
+    }
+
+    /**
+     * Splits the set into the values less than the value, whether the value is in the set,
+     * and the values greater than the value.
+     */
+    split(value: number): [IntSet, boolean, IntSet] {
+        const [less, found, greater] = this._map.split(value);
+        return [this.withMap(less), found !== undefined, this.withMap(greater)];
+    }
+
+    filter<F extends number>(predicate: (value: number, key: number, set: this) => value is F, thisArg?: unknown): IntSet;
+    filter(predicate: (value: number, key: number, set: this) => unknown, thisArg?: unknown): IntSet;
+    filter(predicate: (value: number, key: number, set: this) => unknown, thisArg?: unknown): IntSet {
+        return this.withMap(this._map.filter((_, value) => predicate.call(thisArg, value, value, this)));
+    }
+
+    partition<F extends number, C>(
+        predicate: (this: C, value: number, key: number, set: this) => value is F,
+        thisArg?: C
+    ): [IntSet, IntSet];
+    partition<C>(
+        predicate: (this: C, value: number, key: number, set: this) => unknown,
+        thisArg?: C
+    ): [IntSet, IntSet];
+    partition(
+        predicate: (value: number, key: number, set: this) => unknown,
+        thisArg?: unknown
+    ): [IntSet, IntSet] {
+        const trueSet = this.filter(predicate, thisArg);
+        return [trueSet, this.subtract(trueSet)];
+    }
+
+    /**
+     * Returns the values in a TreeSet ordered by the comparator, since an IntSet is always in numeric order.
+     */
+    sort(compare?: Comparator<number>): SortedSet<number> {
+        if (compare === undefined) return this;
+        return new TreeSet<number>(compare).addAll(this);
+    }
+
+    /**
+     * Returns the values in a TreeSet ordered by the keys that the mapper computes, and then by value.
+     */
+    sortBy<C>(
+        comparatorValueMapper: (value: number, key: number, set: this) => C,
+        comparator?: (valueA: C, valueB: C) => number
+    ): TreeSet<number | C> {
+        const compareKeys = comparator ?? TreeSet.defaultComparator<C>;
+        const order = (a: number, b: number): number => {
+            const cmp = compareKeys(comparatorValueMapper(a, a, this), comparatorValueMapper(b, b, this));
+            return cmp !== 0 ? cmp : a - b;
+        };
+        return new TreeSet<number | C>(order as Comparator<number | C>).addAll(this);
+    }
+
+    findMin(): number | undefined {
+        return this._map.lookupMin()?.[0];
+    }
+
+    findMax(): number | undefined {
+        return this._map.lookupMax()?.[0];
+    }
+
+    deleteMin(): IntSet {
+        return this.withMap(this._map.deleteMin());
+    }
+
+    deleteMax(): IntSet {
+        return this.withMap(this._map.deleteMax());
+    }
+
+    tryPredecessor(value: number): [boolean, number | undefined] {
+        const [found, pair] = this._map.tryPredecessor(value);
+        return [found, pair?.[0]];
+    }
+
+    trySuccessor(value: number): [boolean, number | undefined] {
+        const [found, pair] = this._map.trySuccessor(value);
+        return [found, pair?.[0]];
+    }
+
+    tryWeakPredecessor(value: number): [boolean, number | undefined] {
+        const [found, pair] = this._map.tryWeakPredecessor(value);
+        return [found, pair?.[0]];
+    }
+
+    tryWeakSuccessor(value: number): [boolean, number | undefined] {
+        const [found, pair] = this._map.tryWeakSuccessor(value);
+        return [found, pair?.[0]];
+    }
+
+    predecessor(value: number): number | undefined {
+        return this._map.predecessor(value)?.[0];
+    }
+
+    successor(value: number): number | undefined {
+        return this._map.successor(value)?.[0];
+    }
+
+    weakSuccessor(value: number): number | undefined {
+        return this._map.weakSuccessor(value)?.[0];
+    }
+
+    weakPredecessor(value: number): number | undefined {
+        return this._map.weakPredecessor(value)?.[0];
+    }
+
+    rank(value: number): number {
+        return this._map.rank(value);
+    }
+
+    select(index: number): number {
+        return this._map.select(index)[0];
+    }
+
+    entryAt(index: number): number | undefined {
+        return this._map.entryAt(index)?.[0];
+    }
+
+    countRange(fromValue: number, toValue: number): number {
+        return this._map.countRange(fromValue, toValue);
+    }
+
+    median(): number | undefined {
+        return this._map.median()?.[0];
+    }
+
+    cut(cutFunction: (compareToOther: number) => number, fromValue: number, toValue: number): IntSet {
+        return this.withMap(this._map.cut(cutFunction, fromValue, toValue));
+    }
+
+    rangeFrom(fromValue: number): IntSet {
+        return this.withMap(this._map.rangeFrom(fromValue));
+    }
+
+    rangeTo(toValue: number): IntSet {
+        return this.withMap(this._map.rangeTo(toValue));
+    }
+
+    rangeFromTo(fromValue: number, toValue: number): IntSet {
+        return this.withMap(this._map.rangeFromTo(fromValue, toValue));
+    }
+
+    removeRangeFrom(fromValue: number): IntSet {
+        return this.withMap(this._map.removeRangeFrom(fromValue));
+    }
+
+    removeRangeTo(toValue: number): IntSet {
+        return this.withMap(this._map.removeRangeTo(toValue));
+    }
+
+    removeRangeFromTo(fromValue: number, toValue: number): IntSet {
+        return this.withMap(this._map.removeRangeFromTo(fromValue, toValue));
+    }
+
+    hasSpeed(): Speed {
+        return this._map.hasSpeed();
+    }
+
+    addSpeed(): Speed {
+        return this._map.addSpeed();
+    }
+
+    removeSpeed(): Speed {
+        return this._map.removeSpeed();
+    }
+
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof IntSet)) return false;
+        return this._map.equals(o._map);
+    }
+
+    hashCode(): number {
+        return this._map.hashCode();
+    }
+
+    compareTo(o: IntSet): number {
+        return this._map.compareTo(o._map);
+    }
+
+    /**
+     * Returns a string representation of the set, in ascending order.
+     */
+    toString(): string {
+        return `{${this.toArray().join(", ")}}`;
+    }
+}
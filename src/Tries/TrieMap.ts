@@ -0,0 +1,465 @@
+import AbstractMap from "../AbstractClasses/AbstractMap";
+import { Speed } from "../Enums/Speed";
+import HashCode from "../Hashing/HashCode";
+import Map from "../Interfaces/Map";
+import HashMap from "../Maps/HashMap";
+import { Utils } from "../Utils/Utils";
+
+/**
+ * A node of the radix trie. The label is the part of the key on the edge into the node, and the children
+ * are sorted by the first code unit of their labels, which is different for every child.
+ */
+class Node<V> {
+    // number of keys in the subtree
+    readonly size: number;
+
+    constructor(
+        readonly label: string,
+        readonly hasValue: boolean,
+        readonly value: V | undefined,
+        readonly children: ReadonlyArray<Node<V>>,
+    ) {
+        let size = hasValue ? 1 : 0;
+        for (const child of children) size += child.size;
+        this.size = size;
+    }
+
+    withLabel(label: string): Node<V> {
+        return new Node<V>(label, this.hasValue, this.value, this.children);
+    }
+
+    withValue(value: V): Node<V> {
+        return new Node<V>(this.label, true, value, this.children);
+    }
+
+    withoutValue(): Node<V> {
+        return new Node<V>(this.label, false, undefined, this.children);
+    }
+
+    /**
+     * Replaces the child at the index, or removes it if the new child is null.
+     */
+    withChild(index: number, child: Node<V> | null): Node<V> {
+        const children = this.children.slice();
+        if (child === null) children.splice(index, 1);
+        else children[index] = child;
+        return new Node<V>(this.label, this.hasValue, this.value, children);
+    }
+
+    insertChild(index: number, child: Node<V>): Node<V> {
+        const children = this.children.slice();
+        children.splice(index, 0, child);
+        return new Node<V>(this.label, this.hasValue, this.value, children);
+    }
+}
+
+/**
+ * Finds the child whose label starts with the code unit, and returns its index.
+ * If there is no such child, returns -(insertion point) - 1.
+ */
+function findChild<V>(children: ReadonlyArray<Node<V>>, code: number): number {
+    let lo = 0;
+    let hi = children.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >>> 1;
+        const c = children[mid].label.charCodeAt(0);
+        if (c < code) lo = mid + 1;
+        else if (c > code) hi = mid - 1;
+        else return mid;
+    }
+    return -lo - 1;
+}
+
+/**
+ * Returns the length of the common prefix of the label and the key from the offset.
+ */
+function commonLength(label: string, key: string, offset: number): number {
+    const max = Math.min(label.length, key.length - offset);
+    let i = 0;
+    while (i < max && label.charCodeAt(i) === key.charCodeAt(offset + i)) i++;
+    return i;
+}
+
+/**
+ * Removes a node without a value that has less than two children, by deleting it or merging it into its only child.
+ */
+function compact<V>(node: Node<V>): Node<V> | null {
+    if (node.hasValue || node.children.length > 1) return node;
+    if (node.children.length === 0) return null;
+    const child = node.children[0];
+    return child.withLabel(node.label + child.label);
+}
+
+/**
+ * TrieMap is a persistent map from strings to values, based on a compressed radix trie.
+ *
+ * Every edge of the trie is labelled with a run of characters, so a chain of nodes with a single child is stored
+ * as one node. An update copies the nodes on the path to the key and shares the rest of the trie.
+ * The operations take O(k) steps for a key of length k, independent of the number of keys.
+ *
+ * The keys are iterated in ascending order of their UTF-16 code units, which is the order of `<` on strings.
+ * Every node counts the keys below it, so `countPrefix` is O(k), and `getPrefix` returns the keys with a prefix
+ * as a TrieMap that shares its nodes with this map.
+ *
+ * @example
+ * const routes = TrieMap.of<string>(["/api/users", "users"], ["/api/orders", "orders"], ["/about", "about"]);
+ * routes.countPrefix("/api/"); // 2
+ * [...routes.keysWithPrefix("/api/")]; // ["/api/orders", "/api/users"]
+ * routes.longestPrefixOf("/api/users/42"); // "/api/users"
+ */
+export default class TrieMap<V> extends AbstractMap<string, V> {
+    private _hashCode: number | null = null;
+
+    private constructor(private readonly _root: Node<V>) {
+        super();
+    }
+
+    static empty<V>(): TrieMap<V> {
+        return new TrieMap<V>(new Node<V>("", false, undefined, []));
+    }
+
+    static of<V>(...entries: [string, V][]): TrieMap<V> {
+        return TrieMap.empty<V>().setAll(entries);
+    }
+
+    private withRoot(root: Node<V> | null): TrieMap<V> {
+        if (root === this._root) return this;
+        return root === null ? this.clear() : new TrieMap<V>(root);
+    }
+
+    /**
+     * Finds the node where the key ends, or undefined if the key is not a path of the trie.
+     */
+    private findNode(key: string): Node<V> | undefined {
+        let node = this._root;
+        let i = 0;
+        while (true) {
+            if (!key.startsWith(node.label, i)) return undefined;
+            i += node.label.length;
+            if (i === key.length) return node;
+            const index = findChild(node.children, key.charCodeAt(i));
+            if (index < 0) return undefined;
+            node = node.children[index];
+        }
+    }
+
+    /**
+     * Finds the highest node whose path starts with the prefix, and returns it with its path.
+     */
+    private locate(prefix: string): [Node<V>, string] | undefined {
+        let node = this._root;
+        let i = 0;
+        while (true) {
+            const common = commonLength(node.label, prefix, i);
+            if (i + common === prefix.length) return [node, prefix.slice(0, i) + node.label];
+            if (common < node.label.length) return undefined;
+            i += common;
+            const index = findChild(node.children, prefix.charCodeAt(i));
+            if (index < 0) return undefined;
+            node = node.children[index];
+        }
+    }
+
+    private insert(node: Node<V>, key: string, offset: number, value: V): Node<V> {
+        const common = commonLength(node.label, key, offset);
+        const i = offset + common;
+        if (common < node.label.length) {
+            // split the label, since the key leaves it before its end
+            const rest = node.withLabel(node.label.slice(common));
+            const label = node.label.slice(0, common);
+            if (i === key.length) return new Node<V>(label, true, value, [rest]);
+            const leaf = new Node<V>(key.slice(i), true, value, []);
+            const children = leaf.label.charCodeAt(0) < rest.label.charCodeAt(0) ? [leaf, rest] : [rest, leaf];
+            return new Node<V>(label, false, undefined, children);
+        }
+        if (i === key.length) {
+            return node.hasValue && node.value === value ? node : node.withValue(value);
+        }
+        const index = findChild(node.children, key.charCodeAt(i));
+        if (index < 0) return node.insertChild(-index - 1, new Node<V>(key.slice(i), true, value, []));
+        const child = node.children[index];
+        const updated = this.insert(child, key, i, value);
+        return updated === child ? node : node.withChild(index, updated);
+    }
+
+    private remove(node: Node<V>, key: string, offset: number): Node<V> | null {
+        const common = commonLength(node.label, key, offset);
+        if (common < node.label.length) return node;
+        const i = offset + common;
+        if (i === key.length) return node.hasValue ? compact(node.withoutValue()) : node;
+        const index = findChild(node.children, key.charCodeAt(i));
+        if (index < 0) return node;
+        const child = node.children[index];
+        const updated = this.remove(child, key, i);
+        return updated === child ? node : compact(node.withChild(index, updated));
+    }
+
+    private removePrefix(node: Node<V>, prefix: string, offset: number): Node<V> | null {
+        const common = commonLength(node.label, prefix, offset);
+        const i = offset + common;
+        if (i === prefix.length) return null;
+        if (common < node.label.length) return node;
+        const index = findChild(node.children, prefix.charCodeAt(i));
+        if (index < 0) return node;
+        const child = node.children[index];
+        const updated = this.removePrefix(child, prefix, i);
+        return updated === child ? node : compact(node.withChild(index, updated));
+    }
+
+    /**
+     * Iterates over the entries below the node in key order, where path is the key up to the node.
+     */
+    private *entriesBelow(root: Node<V>, path: string): MapIterator<[string, V]> {
+        const stack: [Node<V>, string][] = [[root, path]];
+        while (stack.length > 0) {
+            const [node, key] = stack.pop()!;
+            if (node.hasValue) yield [key, node.value as V];
+            for (let i = node.children.length - 1; i >= 0; i--) {
+                const child = node.children[i];
+                stack.push([child, key + child.label]);
+            }
+        }
+    }
+
+    [Symbol.iterator](): MapIterator<[string, V]> {
+        return this.entriesBelow(this._root, this._root.label);
+    }
+
+    /**
+     * Returns the entry with the smallest key, or null if the map is empty.
+     */
+    getRoot(): [string, V] | null {
+        const first = this[Symbol.iterator]().next();
+        return first.done ? null : first.value;
+    }
+
+    size(): number {
+        return this._root.size;
+    }
+
+    isEmpty(): boolean {
+        return this._root.size === 0;
+    }
+
+    get(key: string): V | undefined {
+        return this.findNode(key)?.value;
+    }
+
+    has(key: string): boolean {
+        return this.findNode(key)?.hasValue ?? false;
+    }
+
+    /**
+     * Sets the value of the key, copying the nodes on its path.
+     *
+     * Complexity: O(k) for a key of length k
+     */
+    set(key: string, value: V): TrieMap<V> {
+        return this.withRoot(this.insert(this._root, key, 0, value));
+    }
+
+    setAll(entries: Iterable<[string, V]>): TrieMap<V> {
+        let map: TrieMap<V> = this;
+        for (const [key, value] of entries) map = map.set(key, value);
+        return map;
+    }
+
+    /**
+     * Deletes the key, and merges the nodes that are left with a single child.
+     *
+     * Complexity: O(k) for a key of length k
+     */
+    delete(key: string): TrieMap<V> {
+        return this.withRoot(this.remove(this._root, key, 0));
+    }
+
+    deleteAll(keys: Iterable<string>): TrieMap<V> {
+        return super.deleteAll(keys) as TrieMap<V>;
+    }
+
+    /**
+     * Returns the entries whose keys start with the prefix. The result shares its nodes with this map.
+     *
+     * Complexity: O(k) for a prefix of length k
+     */
+    getPrefix(prefix: string): TrieMap<V> {
+        const found = this.locate(prefix);
+        if (found === undefined) return this.clear();
+        const [node, path] = found;
+        return node === this._root ? this : new TrieMap<V>(node.withLabel(path));
+    }
+
+    /**
+     * Returns the longest key that is a prefix of the string, or undefined if there is none.
+     */
+    longestPrefixOf(s: string): string | undefined {
+        let longest: string | undefined;
+        let node = this._root;
+        let i = 0;
+        while (s.startsWith(node.label, i)) {
+            i += node.label.length;
+            if (node.hasValue) longest = s.slice(0, i);
+            if (i === s.length) break;
+            const index = findChild(node.children, s.charCodeAt(i));
+            if (index < 0) break;
+            node = node.children[index];
+        }
+        return longest;
+    }
+
+    /**
+     * Iterates over the keys that start with the prefix, in order, without collecting them first.
+     */
+    *keysWithPrefix(prefix: string): IterableIterator<string> {
+        const found = this.locate(prefix);
+        if (found === undefined) return;
+        for (const [key] of this.entriesBelow(...found)) yield key;
+    }
+
+    /**
+     * Deletes every key that starts with the prefix.
+     *
+     * Complexity: O(k) for a prefix of length k
+     */
+    deletePrefix(prefix: string): TrieMap<V> {
+        return this.withRoot(this.removePrefix(this._root, prefix, 0));
+    }
+
+    /**
+     * Returns the number of keys that start with the prefix.
+     *
+     * Complexity: O(k) for a prefix of length k
+     */
+    countPrefix(prefix: string): number {
+        return this.locate(prefix)?.[0].size ?? 0;
+    }
+
+    clear(): TrieMap<V> {
+        return this.isEmpty() && this._root.label === "" ? this : TrieMap.empty<V>();
+    }
+
+    /**
+     * The results of `mapKeys`, `flip` and the other HOFs that may change the keys are HashMaps,
+     * since their keys may not be strings. `map`, `filter` and `partition` return TrieMaps.
+     */
+    protected createEmpty<KM, VM>(): Map<KM, VM> {
+        return HashMap.empty<KM, VM>();
+    }
+
+    copyOf(map: Map<string, V>): TrieMap<V> {
+        return TrieMap.empty<V>().setAll(map);
+    }
+
+    map<M>(callback: (value: V, key: string, map: this) => M, thisArg?: unknown): TrieMap<M> {
+        let result = TrieMap.empty<M>();
+        for (const [key, value] of this) {
+            result = result.set(key, callback.call(thisArg, value, key, this));
+        }
+        return result;
+    }
+
+    filter<F extends V>(predicate: (value: V, key: string, map: this) => value is F, thisArg?: unknown): TrieMap<F>;
+    filter(predicate: (value: V, key: string, map: this) => unknown, thisArg?: unknown): TrieMap<V>;
+    filter(predicate: (value: V, key: string, map: this) => unknown, thisArg?: unknown): TrieMap<any> {
+        let result: TrieMap<V> = this;
+        for (const [key, value] of this) {
+            if (!predicate.call(thisArg, value, key, this)) result = result.delete(key);
+        }
+        return result;
+    }
+
+    partition<F extends V, C>(
+        predicate: (this: C, value: V, key: string, map: this) => value is F,
+        thisArg?: C
+    ): [TrieMap<V>, TrieMap<F>];
+    partition<C>(
+        predicate: (this: C, value: V, key: string, map: this) => unknown,
+        thisArg?: C
+    ): [TrieMap<V>, TrieMap<V>];
+    partition(
+        predicate: (value: V, key: string, map: this) => unknown,
+        thisArg?: unknown
+    ): [TrieMap<V>, TrieMap<V>] {
+        let trueMap = TrieMap.empty<V>();
+        let falseMap = TrieMap.empty<V>();
+        for (const [key, value] of this) {
+            if (predicate.call(thisArg, value, key, this)) {
+                trueMap = trueMap.set(key, value);
+            } else {
+                falseMap = falseMap.set(key, value);
+            }
+        }
+        return [trueMap, falseMap];
+    }
+
+    hasSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    addSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    removeSpeed(): Speed {
+        return Speed.Constant;
+    }
+
+    /**
+     * Checks if the other object is a TrieMap with the same entries.
+     */
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TrieMap)) return false;
+        const other = o as TrieMap<V>;
+        if (this.size() !== other.size()) return false;
+
+        const iter = other[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (key !== otherKey || !Utils.equals(value, otherValue)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Computes a hash code from the entries in key order.
+     * The hash code is lazily computed and cached.
+     */
+    hashCode(): number {
+        if (this._hashCode === null) {
+            let hash = 17;
+            for (const [key, value] of this) {
+                hash = (hash * 31 + (HashCode.hashCode(key) ^ HashCode.hashCode(value))) | 0;
+            }
+            this._hashCode = hash;
+        }
+        return this._hashCode;
+    }
+
+    /**
+     * Compares the sizes, and then the entries in key order.
+     */
+    compareTo(o: TrieMap<V>): number {
+        if (this === o) return 0;
+
+        const sizeDiff = this.size() - o.size();
+        if (sizeDiff !== 0) return sizeDiff;
+
+        const iter = o[Symbol.iterator]();
+        for (const [key, value] of this) {
+            const [otherKey, otherValue] = iter.next().value!;
+            if (key < otherKey) return -1;
+            if (key > otherKey) return 1;
+            if (value < otherValue) return -1;
+            if (value > otherValue) return 1;
+        }
+        return 0;
+    }
+
+    /**
+     * Returns a string representation of the map, in key order.
+     */
+    toString(): string {
+        return `{${this.entries().map(([key, value]) => `${key}: ${value}`).join(", ")}}`;
+    }
+}
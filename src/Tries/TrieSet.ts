@@ -0,0 +1,180 @@
+import AbstractSet from "../AbstractClasses/AbstractSet";
+import { Speed } from "../Enums/Speed";
+import Set from "../Interfaces/Set";
+import HashSet from "../Sets/HashSet";
+import TrieMap from "./TrieMap";
+
+/**
+ * TrieSet is a persistent set of strings, which is a wrapper around a TrieMap<undefined>.
+ *
+ * The strings are iterated in ascending order, and the prefix queries of the TrieMap are available on the set.
+ *
+ * @example
+ * const words = TrieSet.of("car", "card", "care", "cat");
+ * words.countPrefix("car"); // 3
+ * words.deletePrefix("card").toArray(); // ["car", "care", "cat"]
+ */
+export default class TrieSet extends AbstractSet<string> implements Set<string> {
+    private constructor(private readonly _map: TrieMap<undefined>) {
+        super();
+    }
+
+    static empty(): TrieSet {
+        return new TrieSet(TrieMap.empty<undefined>());
+    }
+
+    static of(...values: Array<string>): TrieSet {
+        return TrieSet.empty().addAll(values);
+    }
+
+    private withMap(map: TrieMap<undefined>): TrieSet {
+        return map === this._map ? this : new TrieSet(map);
+    }
+
+    *[Symbol.iterator](): IterableIterator<string> {
+        for (const [value] of this._map) yield value;
+    }
+
+    size(): number {
+        return this._map.size();
+    }
+
+    isEmpty(): boolean {
+        return this._map.isEmpty();
+    }
+
+    empty(): TrieSet {
+        return this.withMap(this._map.clear());
+    }
+
+    /**
+     * The results of `map` and `flatMap` are HashSets, since their values may not be strings.
+     */
+    protected createEmpty<TT>(): Set<TT> {
+        return new HashSet<TT>();
+    }
+
+    add(value: string): TrieSet {
+        return this.withMap(this._map.set(value, undefined));
+    }
+
+    addAll(values: Iterable<string>): TrieSet {
+        return super.addAll(values) as TrieSet;
+    }
+
+    has(value: string): boolean {
+        return this._map.has(value);
+    }
+
+    delete(value: string): TrieSet {
+        return this.withMap(this._map.delete(value));
+    }
+
+    deleteAll(values: Iterable<string>): TrieSet {
+        return super.deleteAll(values) as TrieSet;
+    }
+
+    clear(): TrieSet {
+        return this.empty();
+    }
+
+    get(value: string): string | undefined {
+        return this._map.has(value) ? value : undefined;
+    }
+
+    /**
+     * Returns the strings that start with the prefix, sharing the nodes of this set.
+     */
+    getPrefix(prefix: string): TrieSet {
+        return this.withMap(this._map.getPrefix(prefix));
+    }
+
+    /**
+     * Returns the longest string of the set that is a prefix of s, or undefined if there is none.
+     */
+    longestPrefixOf(s: string): string | undefined {
+        return this._map.longestPrefixOf(s);
+    }
+
+    /**
+     * Iterates lazily over the strings that start with the prefix, in order.
+     */
+    keysWithPrefix(prefix: string): IterableIterator<string> {
+        return this._map.keysWithPrefix(prefix);
+    }
+
+    deletePrefix(prefix: string): TrieSet {
+        return this.withMap(this._map.deletePrefix(prefix));
+    }
+
+    countPrefix(prefix: string): number {
+        return this._map.countPrefix(prefix);
+    }
+
+    hasSpeed(): Speed {
+        return this._map.hasSpeed();
+    }
+
+    addSpeed(): Speed {
+        return this._map.addSpeed();
+    }
+
+    removeSpeed(): Speed {
+        return this._map.removeSpeed();
+    }
+
+    equals(o: Object): boolean {
+        if (this === o) return true;
+        if (!(o instanceof TrieSet)) return false;
+        return this._map.equals(o._map);
+    }
+
+    hashCode(): number {
+        return this._map.hashCode();
+    }
+
+    compareTo(o: TrieSet): number {
+        return this._map.compareTo(o._map);
+    }
+
+    /**
+     * Returns a string representation of the set, in ascending order.
+     */
+    toString(): string {
+        return `{${this.toArray().join(", ")}}`;
+    }
+
+    filter<F extends string>(predicate: (value: string, key: string, set: this) => value is F, thisArg?: unknown): TrieSet;
+    filter(predicate: (value: string, key: string, set: this) => unknown, thisArg?: unknown): TrieSet;
+    filter(predicate: (value: string, key: string, set: this) => unknown, thisArg?: unknown): TrieSet {
+        let result: TrieSet = this;
+        for (const value of this) {
+            if (!predicate.call(thisArg, value, value, this)) result = result.delete(value);
+        }
+        return result;
+    }
+
+    partition<F extends string, C>(
+        predicate: (this: C, value: string, key: string, set: this) => value is F,
+        thisArg?: C
+    ): [TrieSet, TrieSet];
+    partition<C>(
+        predicate: (this: C, value: string, key: string, set: this) => unknown,
+        thisArg?: C
+    ): [TrieSet, TrieSet];
+    partition(
+        predicate: (value: string, key: string, set: this) => unknown,
+        thisArg?: unknown
+    ): [TrieSet, TrieSet] {
+        let trueSet = this.empty();
+        let falseSet = this.empty();
+        for (const value of this) {
+            if (predicate.call(thisArg, value, value, this)) {
+                trueSet = trueSet.add(value);
+            } else {
+                falseSet = falseSet.add(value);
+            }
+        }
+        return [trueSet, falseSet];
+    }
+}
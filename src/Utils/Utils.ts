@@ -17,6 +17,17 @@ function createRandomStringArray(size: number, min: number = 0, max: number = 10
 
 
 export class Utils {
+    /**
+     * Checks whether two values are equal.
+     *
+     * This is the equality half of the key protocol that is shared by the collections, and it agrees
+     * with `HashCode.hashCode`. An object with its own `equals()` method (e.g. one implementing `EqualityComparer`)
+     * decides for itself, arrays are compared element by element, and other objects by their own keys and values.
+     *
+     * @param a - the first value
+     * @param b - the second value
+     * @returns true if the values are equal, false otherwise
+     */
     static equals(a: any, b: any): boolean {
         // identical references
         if (a === b) return true;
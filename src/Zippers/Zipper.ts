@@ -0,0 +1,278 @@
+import Vector from "../Arrays/Vector";
+import LinkedList from "../LinkedLists/LinkedList";
+
+// number of values that the zipper opens at once from a closed Vector, which is the size of a leaf
+const CHUNK = 32;
+
+/**
+ * A persistent stack of the open values on one side of the focus, with the value nearest to the focus on top.
+ */
+interface Stack<T> {
+    readonly head: T;
+    readonly tail: Stack<T> | null;
+}
+
+function push<T>(head: T, tail: Stack<T> | null): Stack<T> {
+    return { head, tail };
+}
+
+function* stackValues<T>(stack: Stack<T> | null): IterableIterator<T> {
+    for (; stack !== null; stack = stack.tail) yield stack.head;
+}
+
+/**
+ * Zipper is a persistent list with a focus, for repeated edits around a moving position.
+ * It is created by `focusAt` on a Vector or a LinkedList, and closed again by `toVector` or `toLinkedList`.
+ *
+ * The values near the focus are kept open on two stacks, one for each side, so that moving the focus one
+ * step and editing at the focus are O(1). The rest of the list stays closed and is shared with the list that
+ * the zipper was opened from: for a Vector, the part before and the part after the open values are slices of
+ * the vector, and the zipper opens a leaf of 32 values whenever the focus moves past the open values, which
+ * is O(1) amortized per step. For a LinkedList, the values after the open ones are the original nodes.
+ *
+ * `toVector` concatenates the closed slices around the open values in O(log n + k) for k open values, and
+ * `toLinkedList` reuses the nodes after the open values.
+ *
+ * A zipper is empty only when its last value has been deleted, and has no focus then.
+ *
+ * @example
+ * const text = Vector.of("a", "b", "c", "d");
+ * const zipper = text.focusAt(1).replace("B").right().insertAfter("x").delete();
+ * zipper.get(); // "x"
+ * zipper.toVector(); // ["a", "B", "x", "d"]
+ */
+export default class Zipper<T> implements Iterable<T> {
+    private constructor(
+        private readonly _prefix: Vector<T>,
+        private readonly _left: Stack<T> | null,
+        private readonly _right: Stack<T> | null,
+        private readonly _suffix: Vector<T> | LinkedList<T>,
+        private readonly _index: number,
+        // number of values, which is kept up to date by the edits since a LinkedList does not know its size
+        private readonly _size: number,
+    ) {}
+
+    /**
+     * Opens the leaf of the vector that holds the index, and focuses on the value at the index.
+     * Complexity: O(log n)
+     * @throws {RangeError} if the index is out of bounds.
+     */
+    static ofVector<T>(vector: Vector<T>, index: number): Zipper<T> {
+        const size = vector.size();
+        if (index < 0 || index >= size) throw new RangeError(`Index ${index} out of bounds`);
+        const start = index - (index % CHUNK);
+        const end = Math.min(start + CHUNK, size);
+        const leaf = vector.slice(start, end).toArray();
+        let left: Stack<T> | null = null;
+        for (let i = 0; i < index - start; i++) left = push(leaf[i], left);
+        let right: Stack<T> | null = null;
+        for (let i = leaf.length - 1; i >= index - start; i--) right = push(leaf[i], right);
+        return new Zipper<T>(vector.slice(0, start), left, right, vector.slice(end), index, size);
+    }
+
+    /**
+     * Walks the list to the index, and focuses on the value at the index. The rest of the list is counted once,
+     * so that `size()` is O(1) afterwards.
+     * Complexity: O(n)
+     * @throws {RangeError} if the index is out of bounds.
+     */
+    static ofLinkedList<T>(list: LinkedList<T>, index: number): Zipper<T> {
+        if (index < 0) throw new RangeError(`Index ${index} out of bounds`);
+        let left: Stack<T> | null = null;
+        let rest = list;
+        for (let i = 0; i < index && !rest.isEmpty(); i++) {
+            left = push(rest.peek()!, left);
+            rest = rest.removeFirst();
+        }
+        if (rest.isEmpty()) throw new RangeError(`Index ${index} out of bounds`);
+        const size = index + rest.size();
+        return new Zipper<T>(Vector.empty<T>(), left, push(rest.peek()!, null), rest.removeFirst(), index, size);
+    }
+
+    private with(left: Stack<T> | null, right: Stack<T> | null, index: number, size: number = this._size): Zipper<T> {
+        return new Zipper<T>(this._prefix, left, right, this._suffix, index, size);
+    }
+
+    /**
+     * Opens the next closed values after the open ones, and returns them with the closed values that are left.
+     */
+    private openSuffix(): [Stack<T> | null, Vector<T> | LinkedList<T>] {
+        const suffix = this._suffix;
+        if (suffix.isEmpty()) return [null, suffix];
+        if (suffix instanceof LinkedList) return [push(suffix.peek()!, null), suffix.removeFirst()];
+        const chunk = suffix.slice(0, Math.min(CHUNK, suffix.size())).toArray();
+        let right: Stack<T> | null = null;
+        for (let i = chunk.length - 1; i >= 0; i--) right = push(chunk[i], right);
+        return [right, suffix.slice(chunk.length)];
+    }
+
+    /**
+     * Opens the last closed values before the open ones, and returns them with the closed values that are left.
+     */
+    private openPrefix(): [Stack<T> | null, Vector<T>] {
+        const prefix = this._prefix;
+        const start = Math.max(0, prefix.size() - CHUNK);
+        let left: Stack<T> | null = null;
+        for (const value of prefix.slice(start)) left = push(value, left);
+        return [left, prefix.slice(0, start)];
+    }
+
+    /**
+     * Returns a zipper whose right stack starts with the focus, opening the suffix if the stack is empty.
+     * The right stack stays empty if there are no values after the left stack.
+     */
+    private withRight(left: Stack<T> | null, right: Stack<T> | null, index: number, size: number = this._size): Zipper<T> {
+        if (right !== null) return this.with(left, right, index, size);
+        const [opened, suffix] = this.openSuffix();
+        return new Zipper<T>(this._prefix, left, opened, suffix, index, size);
+    }
+
+    private focus(): Stack<T> {
+        if (this._right === null) throw new RangeError("The zipper is empty and has no focus");
+        return this._right;
+    }
+
+    /**
+     * Iterates over the open values in the order of the list.
+     */
+    private *openValues(): IterableIterator<T> {
+        const left = Array.from(stackValues(this._left));
+        for (let i = left.length - 1; i >= 0; i--) yield left[i];
+        yield* stackValues(this._right);
+    }
+
+    *[Symbol.iterator](): IterableIterator<T> {
+        yield* this._prefix;
+        yield* this.openValues();
+        yield* this._suffix as Iterable<T>;
+    }
+
+    /**
+     * Returns the value at the focus, or undefined if the zipper is empty.
+     */
+    get(): T | undefined {
+        return this._right?.head;
+    }
+
+    /**
+     * Returns the index of the focus in the list.
+     */
+    index(): number {
+        return this._index;
+    }
+
+    /**
+     * Returns the number of values.
+     * Complexity: O(1)
+     */
+    size(): number {
+        return this._size;
+    }
+
+    isEmpty(): boolean {
+        return this._right === null;
+    }
+
+    hasLeft(): boolean {
+        return this._left !== null || !this._prefix.isEmpty();
+    }
+
+    hasRight(): boolean {
+        return this._right !== null && (this._right.tail !== null || !this._suffix.isEmpty());
+    }
+
+    /**
+     * Moves the focus to the previous value.
+     * Complexity: O(1) amortized
+     * @throws {RangeError} if the focus is on the first value.
+     */
+    left(): Zipper<T> {
+        if (!this.hasLeft()) throw new RangeError("The focus is on the first value");
+        if (this._left === null) {
+            const [left, prefix] = this.openPrefix();
+            return new Zipper<T>(prefix, left!.tail, push(left!.head, this._right), this._suffix, this._index - 1, this._size);
+        }
+        return this.with(this._left.tail, push(this._left.head, this._right), this._index - 1);
+    }
+
+    /**
+     * Moves the focus to the next value.
+     * Complexity: O(1) amortized
+     * @throws {RangeError} if the focus is on the last value.
+     */
+    right(): Zipper<T> {
+        if (!this.hasRight()) throw new RangeError("The focus is on the last value");
+        const focus = this.focus();
+        return this.withRight(push(focus.head, this._left), focus.tail, this._index + 1);
+    }
+
+    /**
+     * Replaces the value at the focus.
+     * @throws {RangeError} if the zipper is empty.
+     */
+    replace(value: T): Zipper<T> {
+        return this.with(this._left, push(value, this.focus().tail), this._index);
+    }
+
+    /**
+     * Inserts the value before the focus, which stays on the same value. An empty zipper focuses on the value.
+     */
+    insertBefore(value: T): Zipper<T> {
+        if (this.isEmpty()) return this.with(null, push(value, null), 0, 1);
+        return this.with(push(value, this._left), this._right, this._index + 1, this._size + 1);
+    }
+
+    /**
+     * Inserts the value after the focus, which stays on the same value. An empty zipper focuses on the value.
+     */
+    insertAfter(value: T): Zipper<T> {
+        if (this.isEmpty()) return this.with(null, push(value, null), 0, 1);
+        const focus = this.focus();
+        return this.with(this._left, push(focus.head, push(value, focus.tail)), this._index, this._size + 1);
+    }
+
+    /**
+     * Deletes the value at the focus, and moves the focus to the next value,
+     * or to the previous value if the focus was on the last one.
+     * @throws {RangeError} if the zipper is empty.
+     */
+    delete(): Zipper<T> {
+        const zipper = this.withRight(this._left, this.focus().tail, this._index, this._size - 1);
+        if (!zipper.isEmpty() || !zipper.hasLeft()) return zipper;
+        // the focus was on the last value, so the previous value becomes the focus
+        return zipper.left();
+    }
+
+    /**
+     * Closes the zipper into a Vector, concatenating the closed slices of a Vector around the open values.
+     * Complexity: O(log n + k) for k open values.
+     */
+    toVector(): Vector<T> {
+        const open = Vector.empty<T>().withMutations(vector => vector.pushAll(this.openValues()));
+        return this._prefix.concat(open, this._suffix);
+    }
+
+    /**
+     * Closes the zipper into a LinkedList, which shares the nodes after the open values of a LinkedList.
+     * Complexity: O(i + k) for the index i of the focus and k open values after it.
+     */
+    toLinkedList(): LinkedList<T> {
+        const shared = this._suffix instanceof LinkedList;
+        let list = shared ? this._suffix as LinkedList<T> : LinkedList.empty<T>();
+        const values = this._prefix.toArray().concat(Array.from(this.openValues()), shared ? [] : this._suffix.toArray());
+        for (let i = values.length - 1; i >= 0; i--) list = list.addFirst(values[i]);
+        return list;
+    }
+
+    toArray(): T[] {
+        return Array.from(this);
+    }
+
+    /**
+     * Returns a string representation of the values, with the focus in angle brackets.
+     */
+    toString(): string {
+        const values = this.toArray().map((value, i) => i === this._index ? `<${value}>` : `${value}`);
+        return `Zipper [${values.join(", ")}]`;
+    }
+}
@@ -4,6 +4,32 @@ export {default as ArrayList} from "./Arrays/ArrayList";
 export {default as LinkedList} from "./LinkedLists/LinkedList";
 export {default as TreeMap} from "./Trees/TreeMap";
 export {default as TreeSet} from "./Trees/TreeSet";
+export {default as TreeMapView} from "./Trees/TreeMapView";
+export {default as TreeSetView} from "./Trees/TreeSetView";
+export {default as TreeMapCursor} from "./Trees/TreeMapCursor";
+export {default as TreeSetCursor} from "./Trees/TreeSetCursor";
+export {default as IntervalMap} from "./Trees/IntervalMap";
+export {default as Range} from "./Ranges/Range";
+export {default as RangeSet} from "./Ranges/RangeSet";
+export {BoundType} from "./Enums/BoundType";
+export {default as TrieMap} from "./Tries/TrieMap";
+export {default as TrieSet} from "./Tries/TrieSet";
+export {default as IntMap} from "./Tries/IntMap";
+export {default as IntSet} from "./Tries/IntSet";
 export {default as HashMap} from "./Maps/HashMap";
 export {default as HashSet} from "./Sets/HashSet";
-export {default as Vector} from "./Arrays/Vector";
\ No newline at end of file
+export {default as OrderedMap} from "./Maps/OrderedMap";
+export {default as OrderedSet} from "./Sets/OrderedSet";
+export {default as HashBiMap} from "./Maps/HashBiMap";
+export {default as TreeBiMap} from "./Maps/TreeBiMap";
+export {default as Vector} from "./Arrays/Vector";
+export {default as Deque} from "./Queues/Deque";
+export {default as PriorityQueue} from "./Queues/PriorityQueue";
+export {default as HashBag} from "./Bags/HashBag";
+export {default as TreeBag} from "./Bags/TreeBag";
+export {default as HashMultimap} from "./Multimaps/HashMultimap";
+export {default as TreeMultimap} from "./Multimaps/TreeMultimap";
+export {default as ListMultimap} from "./Multimaps/ListMultimap";
+export {default as Seq} from "./Seqs/Seq";
+export {default as Zipper} from "./Zippers/Zipper";
+export {default as JsonCodec} from "./Json/JsonCodec";